@@ -4,7 +4,8 @@ import { registerAggregateExportTools } from './aggregate-exports.js';
 import type { BranchMcpConfig } from '../config.js';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
-import { BranchApiError } from '../utils/errors.js';
+import { BranchApiError, toToolError } from '../utils/errors.js';
+import { ExportJobManager } from '../utils/export-jobs.js';
 
 // Mock McpServer
 const mockRegisterTool = jest.fn();
@@ -65,13 +66,42 @@ describe('Aggregate Export API Tools', () => {
       expect(result.structuredContent).toEqual(mockResponse);
     });
 
+    it('should track the export job, polling its status', async () => {
+      const jobs = new ExportJobManager({ sleep: async () => undefined });
+      registerAggregateExportTools(mockServer, config, jobs);
+      const createTool = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_create_aggregate_export')![2] as (params: Record<string, unknown>) => Promise<unknown>;
+      mock.onPost(url).reply(200, { job_id: 'job123' });
+      mock.onGet(`${url}/job123`).reply(200, { status: 'COMPLETED', url: 'http://example.com/export.csv' });
+
+      await createTool(createParams);
+      const { job } = await jobs.wait('job123', { timeoutMs: 60000 });
+
+      expect(job).toMatchObject({ type: 'aggregate', state: 'completed', params: { app_id: '12345' } });
+      expect(job.params).not.toHaveProperty('api_key');
+      expect(mock.history.get[0].params).toMatchObject({ app_id: '12345' });
+      expect(mock.history.get[0].headers?.['Access-Token']).toBe('test_api_key');
+    });
+
+    it('should not report a failure to track the job as a Branch error that can be retried', async () => {
+      const jobs = new ExportJobManager({ sleep: async () => undefined });
+      const trackError = Object.assign(new Error('ENOSPC: no space left on device, write'), { code: 'ENOSPC' });
+      jest.spyOn(jobs, 'track').mockRejectedValue(trackError);
+      registerAggregateExportTools(mockServer, config, jobs);
+      const createTool = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_create_aggregate_export')![2] as (params: Record<string, unknown>) => Promise<unknown>;
+      mock.onPost(url).reply(200, { job_id: 'job123' });
+
+      const error = await createTool(createParams).catch((thrown: unknown) => thrown);
+      expect(error).toBe(trackError);
+      expect(toToolError(error)).toMatchObject({ code: 'internal', retryable: false });
+    });
+
     it('should throw error if api_key is missing', async () => {
       registerAggregateExportTools(mockServer, config);
       const toolCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_create_aggregate_export');
       expect(toolCall).toBeDefined();
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...params } = createParams;
-      await expect(createTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(createTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should handle API errors', async () => {
@@ -92,7 +122,7 @@ describe('Aggregate Export API Tools', () => {
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).networkError();
 
-      await expect(createTool(createParams)).rejects.toThrow('Error creating aggregate export: Network Error');
+      await expect(createTool(createParams)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -102,7 +132,7 @@ describe('Aggregate Export API Tools', () => {
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
 
-      await expect(createTool(createParams)).rejects.toThrow('Error creating aggregate export: Network Error');
+      await expect(createTool(createParams)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle optional parameters', async () => {
@@ -156,7 +186,7 @@ describe('Aggregate Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const getTool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...params } = getParams;
-      await expect(getTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(getTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should handle API errors', async () => {
@@ -177,7 +207,7 @@ describe('Aggregate Export API Tools', () => {
       const getTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onGet(url).networkError();
 
-      await expect(getTool(getParams)).rejects.toThrow('Error getting aggregate export status: Network Error');
+      await expect(getTool(getParams)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -187,7 +217,7 @@ describe('Aggregate Export API Tools', () => {
       const getTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onGet(url).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
 
-      await expect(getTool(getParams)).rejects.toThrow('Error getting aggregate export status: Network Error');
+      await expect(getTool(getParams)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle optional organization_id parameter', async () => {
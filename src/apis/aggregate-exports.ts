@@ -1,12 +1,17 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import axios from 'axios';
-import { getBranchBaseUrl, MCP_USER_AGENT } from '../utils/api.js';
-import { BranchApiError, getErrorMessage } from '../utils/errors.js';
+import { handleApiError } from '../utils/api.js';
+import { CredentialsError } from '../utils/errors.js';
+import { BranchClient } from '../utils/branch-client.js';
+import type { BranchResponseData } from '../utils/branch-client.js';
+import { recordExportPoll } from '../utils/metrics.js';
 import logger from '../utils/logger.js';
+import { getRequestApiKey, getResolvedAppOrOrgId } from '../utils/auth.js';
 import { apiKeySchema, appIdOrOrgIdInput, appIdOrOrgIdValidator } from '../schemas/auth.js';
 import { createTable } from '../utils/tables.js';
+import { getExportScope } from '../utils/export-jobs.js';
+import type { ExportJobManager } from '../utils/export-jobs.js';
 import { aggregateExportDataSources, aggregateExportDimensions } from './aggregate-exports-data.js';
 
 const aggregateExportDataSourceEnum = z.enum(Object.keys(aggregateExportDataSources) as [string, ...string[]]);
@@ -21,8 +26,20 @@ const dimensionsTable = createTable(aggregateExportDimensions);
  * @see https://help.branch.io/developers-hub/reference/aggregate-api
  * @param server The MCP server instance.
  * @param config The Branch MCP configuration.
+ * @param jobs The manager that tracks the requested exports, if any.
  */
-export function registerAggregateExportTools(server: McpServer, config: BranchMcpConfig) {
+export function registerAggregateExportTools(server: McpServer, config: BranchMcpConfig, jobs?: ExportJobManager) {
+  const client = new BranchClient(config);
+
+  /**
+   * Reads the status of an export job, and records the poll in the metrics.
+   */
+  const getExportStatus = async (jobId: string, queryParams: Record<string, string | number | undefined>, apiKey: string) => {
+    const response = await client.get(`/v2/analytics/${jobId}`, { params: queryParams, accessToken: apiKey });
+    recordExportPoll('aggregate', response.data.status);
+    return response.data;
+  };
+  jobs?.setStatusReader('aggregate', (jobId, params, apiKey) => getExportStatus(jobId, getExportScope(params), apiKey));
   const createExportSchema = z.object({
     start_date: z.string().describe('The start of the interval time range represented as an ISO-8601 complete date.'),
     end_date: z.string().describe('The end of the interval time range represented as an ISO-8601 complete date.'),
@@ -40,17 +57,22 @@ export function registerAggregateExportTools(server: McpServer, config: BranchMc
   server.registerTool(
     'branch_create_aggregate_export',
     {
-      description: 'Request a new aggregate data export.',
+      description: 'Request a new aggregate data export. The server tracks the job: use branch_wait_for_export to wait until it is ready.',
       inputSchema: createExportSchema.merge(apiKeySchema).merge(appIdOrOrgIdInput).shape,
-      outputSchema: z.object({ job_id: z.string() }).passthrough().shape
+      outputSchema: z.object({ job_id: z.string() }).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof createExportSchema & typeof apiKeySchema & typeof appIdOrOrgIdInput>) => {
       logger.debug('Executing tool: branch_create_aggregate_export with params:', params);
-      const { api_key, ...rest } = params;
+      const { api_key: _apiKey, ...rest } = params;
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
-      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(rest);
+      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(getResolvedAppOrOrgId(rest, config));
 
       const queryParams: Record<string, string | number> = {};
       if (app_id) {
@@ -68,30 +90,20 @@ export function registerAggregateExportTools(server: McpServer, config: BranchMc
 
       const { limit: _limit, format: _format, ...bodyParams } = rest;
 
+      let data: BranchResponseData;
       try {
-        const url = `${getBranchBaseUrl(config)}/v2/analytics`;
-        const response = await axios.post(url, bodyParams, {
-          params: queryParams,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Token': api_key,
-            'Accept': 'application/json',
-            'User-Agent': MCP_USER_AGENT
-          }
-        });
-        return {
-          structuredContent: response.data,
-          content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
-        };
+        data = (await client.post('/v2/analytics', bodyParams, { params: queryParams, accessToken: api_key })).data;
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error creating aggregate export: ${getErrorMessage(error)}`);
+        handleApiError(error);
+      }
+      // Only the request is Branch's: a failure to track the job is not reported as a Branch error.
+      if (typeof data.job_id === 'string') {
+        await jobs?.track('aggregate', data.job_id, { ...bodyParams, ...queryParams }, api_key);
       }
+      return {
+        structuredContent: data,
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }]
+      };
     }
   );
 
@@ -105,17 +117,22 @@ export function registerAggregateExportTools(server: McpServer, config: BranchMc
   server.registerTool(
     'branch_get_aggregate_export_status',
     {
-      description: 'Get the status of an aggregate data export job.',
+      description: 'Get the status of an aggregate data export job. Once it is complete, use branch_download_export to download and read its files.',
       inputSchema: getStatusSchema.merge(apiKeySchema).merge(appIdOrOrgIdInput).shape,
-      outputSchema: z.object({}).passthrough().shape
+      outputSchema: z.object({}).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof getStatusSchema & typeof apiKeySchema & typeof appIdOrOrgIdInput>) => {
       logger.debug('Executing tool: branch_get_aggregate_export_status with params:', params);
-      const { api_key, job_id, ...rest } = params;
+      const { api_key: _apiKey, job_id, ...rest } = params;
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
-      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(rest);
+      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(getResolvedAppOrOrgId(rest, config));
 
       const queryParams: Record<string, string | number | undefined> = { ...rest };
       if (app_id) {
@@ -126,27 +143,13 @@ export function registerAggregateExportTools(server: McpServer, config: BranchMc
       }
 
       try {
-        const url = `${getBranchBaseUrl(config)}/v2/analytics/${job_id}`;
-        const response = await axios.get(url, {
-          params: queryParams,
-          headers: {
-            'Access-Token': api_key,
-            'Accept': 'application/json',
-            'User-Agent': MCP_USER_AGENT
-          }
-        });
+        const data = await getExportStatus(job_id, queryParams, api_key);
         return {
-          structuredContent: response.data,
-          content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+          structuredContent: data,
+          content: [{ type: 'text', text: JSON.stringify(data, null, 2) }]
         };
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error getting aggregate export status: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -86,7 +86,7 @@ describe('App API Tools', () => {
       const getAppSettingsTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onGet('https://api.branch.io/v1/app/test_key').networkError();
 
-      await expect(getAppSettingsTool({ branch_key: 'test_key', branch_secret: 'test_secret' })).rejects.toThrow('Error getting app settings: Network Error');
+      await expect(getAppSettingsTool({ branch_key: 'test_key', branch_secret: 'test_secret' })).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -100,7 +100,7 @@ describe('App API Tools', () => {
         return Promise.reject(error);
       });
 
-      await expect(getAppSettingsTool({ branch_key: 'test_key', branch_secret: 'test_secret' })).rejects.toThrow('Error getting app settings: Network Error');
+      await expect(getAppSettingsTool({ branch_key: 'test_key', branch_secret: 'test_secret' })).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should use the default branch_url if not provided in config', async () => {
@@ -171,7 +171,7 @@ describe('App API Tools', () => {
       const updateAppSettingsTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPut('https://api.branch.io/v1/app/test_key').networkError();
 
-      await expect(updateAppSettingsTool(updateParams)).rejects.toThrow('Error updating app settings: Network Error');
+      await expect(updateAppSettingsTool(updateParams)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -185,7 +185,7 @@ describe('App API Tools', () => {
         return Promise.reject(error);
       });
 
-      await expect(updateAppSettingsTool(updateParams)).rejects.toThrow('Error updating app settings: Network Error');
+      await expect(updateAppSettingsTool(updateParams)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 });
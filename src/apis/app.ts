@@ -1,11 +1,12 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import { getErrorMessage, BranchApiError } from '../utils/errors.js';
-import { MCP_USER_AGENT } from '../utils/api.js';
+import { handleApiError } from '../utils/api.js';
+import { CredentialsError } from '../utils/errors.js';
+import { BranchClient } from '../utils/branch-client.js';
 import logger from '../utils/logger.js';
-import axios from 'axios';
 import { getResolvedAuth } from '../utils/auth.js';
+import { recordBefore } from '../utils/audit.js';
 import { branchKeySchema, branchSecretSchema } from '../schemas/auth.js';
 
 /**
@@ -16,10 +17,7 @@ import { branchKeySchema, branchSecretSchema } from '../schemas/auth.js';
  * @param config The Branch MCP configuration.
  */
 export function registerAppTools(server: McpServer, config: BranchMcpConfig) {
-  const getBranchBaseUrl = () => {
-    const baseUrl = config.branch_url || 'api2.branch.io';
-    return `https://${baseUrl}`;
-  };
+  const client = new BranchClient(config);
 
   const authSchema = branchKeySchema.merge(branchSecretSchema);
 
@@ -60,6 +58,8 @@ export function registerAppTools(server: McpServer, config: BranchMcpConfig) {
       inputSchema: authSchema.shape,
       outputSchema: z.object({}).passthrough().shape,
       annotations: {
+        readOnlyHint: true,
+        openWorldHint: true,
         examples: [
           {
             params: {},
@@ -77,27 +77,17 @@ export function registerAppTools(server: McpServer, config: BranchMcpConfig) {
       logger.debug('Executing tool: branch_get_app_settings');
       const { branch_key, branch_secret } = getResolvedAuth(params, config);
       if (!branch_key || !branch_secret) {
-        throw new Error('Branch Key and Secret must be provided in tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key and Secret must be provided in tool parameters or server configuration.');
       }
       try {
-        const url = `${getBranchBaseUrl()}/v1/app/${branch_key}`;
-        const response = await axios.get(url, {
-          params: { branch_secret },
-          headers: { Accept: 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
+        const response = await client.get(`/v1/app/${branch_key}`, { params: { branch_secret } });
 
         return {
           structuredContent: response.data,
           content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
         };
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error getting app settings: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -112,6 +102,10 @@ export function registerAppTools(server: McpServer, config: BranchMcpConfig) {
       inputSchema: updateAppSettingsSchema.shape,
       outputSchema: z.object({}).passthrough().shape,
       annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
         examples: [
           {
             params: {
@@ -133,32 +127,19 @@ export function registerAppTools(server: McpServer, config: BranchMcpConfig) {
       logger.debug('Executing tool: branch_update_app_settings with params:', params);
       const { branch_key, branch_secret } = getResolvedAuth(params, config);
       if (!branch_key || !branch_secret) {
-        throw new Error('Branch Key and Secret must be provided in tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key and Secret must be provided in tool parameters or server configuration.');
       }
       try {
-        const url = `${getBranchBaseUrl()}/v1/app/${branch_key}`;
+        await recordBefore(async () => (await client.get(`/v1/app/${branch_key}`, { params: { branch_secret } })).data);
         const body = { ...params, branch_secret };
-
-        const response = await axios.put(url, body, {
-          headers: {
-            'Content-Type': 'application/json',
-            Accept: 'application/json',
-            'User-Agent': MCP_USER_AGENT
-          }
-        });
+        const response = await client.put(`/v1/app/${branch_key}`, body);
 
         return {
           structuredContent: response.data,
           content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
         };
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error updating app settings: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -5,6 +5,7 @@ import type { BranchMcpConfig } from '../config.js';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import { BranchApiError } from '../utils/errors.js';
+import { ExportJobManager } from '../utils/export-jobs.js';
 
 // Mock McpServer
 const mockRegisterTool = jest.fn();
@@ -65,13 +66,26 @@ describe('Cohort API Tools', () => {
       expect(result.structuredContent).toEqual(mockResponse);
     });
 
+    it('should track the export job, polling its status', async () => {
+      const jobs = new ExportJobManager({ sleep: async () => undefined });
+      registerCohortTools(mockServer, config, jobs);
+      const createTool = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_create_cohort_export')![2] as (params: Record<string, unknown>) => Promise<unknown>;
+      mock.onPost(url).reply(200, { job_id: 'job123' });
+      mock.onGet(`${url}/job123?app_id=12345`).reply(200, { status: 'FAILED' });
+
+      await createTool(createParams);
+      const { job } = await jobs.wait('job123', { timeoutMs: 60000 });
+
+      expect(job).toMatchObject({ type: 'cohort', state: 'failed', error: 'Branch reported the export as FAILED.' });
+    });
+
     it('should throw error if api_key is missing', async () => {
       registerCohortTools(mockServer, config);
       const toolCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_create_cohort_export');
       expect(toolCall).toBeDefined();
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...params } = createParams;
-      await expect(createTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(createTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should handle API errors', async () => {
@@ -92,7 +106,7 @@ describe('Cohort API Tools', () => {
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).networkError();
 
-      await expect(createTool(createParams)).rejects.toThrow('Error creating cohort export: Network Error');
+      await expect(createTool(createParams)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -102,7 +116,7 @@ describe('Cohort API Tools', () => {
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
 
-      await expect(createTool(createParams)).rejects.toThrow('Error creating cohort export: Network Error');
+      await expect(createTool(createParams)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 
@@ -149,7 +163,7 @@ describe('Cohort API Tools', () => {
       expect(toolCall).toBeDefined();
       const getTool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...params } = getParams;
-      await expect(getTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(getTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should handle API errors', async () => {
@@ -171,7 +185,7 @@ describe('Cohort API Tools', () => {
       const expectedUrl = `${url}?app_id=12345`;
       mock.onGet(expectedUrl).networkError();
 
-      await expect(getTool(getParams)).rejects.toThrow('Error getting cohort export status: Network Error');
+      await expect(getTool(getParams)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -182,7 +196,7 @@ describe('Cohort API Tools', () => {
       const expectedUrl = `${url}?app_id=12345`;
       mock.onGet(expectedUrl).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
 
-      await expect(getTool(getParams)).rejects.toThrow('Error getting cohort export status: Network Error');
+      await expect(getTool(getParams)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 });
@@ -1,12 +1,17 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import { getBranchBaseUrl, MCP_USER_AGENT } from '../utils/api.js';
-import axios from 'axios';
-import { BranchApiError, getErrorMessage } from '../utils/errors.js';
+import { CredentialsError } from '../utils/errors.js';
+import { getBranchBaseUrl, handleApiError } from '../utils/api.js';
+import { BranchClient } from '../utils/branch-client.js';
+import type { BranchResponseData } from '../utils/branch-client.js';
+import { recordExportPoll } from '../utils/metrics.js';
 import logger from '../utils/logger.js';
+import { getRequestApiKey, getResolvedAppOrOrgId } from '../utils/auth.js';
 import { createTable } from '../utils/tables.js';
 import { apiKeySchema, appIdOrOrgIdInput, appIdOrOrgIdValidator } from '../schemas/auth.js';
+import { getExportScope } from '../utils/export-jobs.js';
+import type { ExportJobManager } from '../utils/export-jobs.js';
 import {
   cohortMeasures,
   installCohortDimensions,
@@ -41,8 +46,31 @@ const otherDimensionsTable = createTable(otherDimensions);
  * @see https://help.branch.io/developers-hub/reference/cohort-api
  * @param server The MCP server instance.
  * @param config The Branch MCP configuration.
+ * @param jobs The manager that tracks the requested exports, if any.
  */
-export function registerCohortTools(server: McpServer, config: BranchMcpConfig) {
+export function registerCohortTools(server: McpServer, config: BranchMcpConfig, jobs?: ExportJobManager) {
+  const client = new BranchClient(config);
+
+  /**
+   * Reads the status of an export job, and records the poll in the metrics.
+   */
+  const getExportStatus = async (jobId: string, appId: string | undefined, organizationId: string | undefined, apiKey: string) => {
+    const url = new URL(`${getBranchBaseUrl(config)}/v2/analytics/${jobId}`);
+    if (appId) {
+      url.searchParams.append('app_id', appId);
+    }
+    if (organizationId) {
+      url.searchParams.append('organization_id', organizationId);
+    }
+
+    const response = await client.get(url.toString(), { accessToken: apiKey });
+    recordExportPoll('cohort', response.data.status);
+    return response.data;
+  };
+  jobs?.setStatusReader('cohort', (jobId, params, apiKey) => {
+    const { app_id, organization_id } = getExportScope(params);
+    return getExportStatus(jobId, app_id, organization_id, apiKey);
+  });
   const getStatusSchema = z.object({
     job_id: z.string().describe('The job ID returned from the create cohort export request.')
   });
@@ -71,80 +99,72 @@ export function registerCohortTools(server: McpServer, config: BranchMcpConfig)
   server.registerTool(
     'branch_create_cohort_export',
     {
-      description: 'Request a new cohort data export.',
+      description: 'Request a new cohort data export. The server tracks the job: use branch_wait_for_export to wait until it is ready.',
       inputSchema: createCohortExportSchema.shape,
-      outputSchema: z.object({ job_id: z.string() }).passthrough().shape
+      outputSchema: z.object({ job_id: z.string() }).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof createCohortExportSchema>) => {
       logger.debug('Executing tool: branch_create_cohort_export with params:', params);
-      const { api_key, ...rest } = params;
+      const { api_key: _apiKey, ...rest } = params;
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
-      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(rest);
+      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(getResolvedAppOrOrgId(rest, config));
       const { limit, format, ...bodyParams } = rest;
 
+      const queryParams = { app_id, organization_id, limit, format };
+      let data: BranchResponseData;
       try {
-        const url = `${getBranchBaseUrl(config)}/v2/analytics`;
-        const queryParams = { app_id, organization_id, limit, format };
-        const headers = { 'Content-Type': 'application/json', 'access-token': api_key, 'Accept': 'application/json', 'User-Agent': MCP_USER_AGENT };
-        const response = await axios.post(url, bodyParams, { params: queryParams, headers });
-
-        return {
-          structuredContent: response.data,
-          content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
-        };
+        data = (await client.post('/v2/analytics', bodyParams, { params: queryParams, accessToken: api_key })).data;
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error creating cohort export: ${getErrorMessage(error)}`);
+        handleApiError(error);
+      }
+      // Only the request is Branch's: a failure to track the job is not reported as a Branch error.
+      if (typeof data.job_id === 'string') {
+        await jobs?.track('cohort', data.job_id, { ...bodyParams, ...queryParams }, api_key);
       }
+
+      return {
+        structuredContent: data,
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }]
+      };
     }
   );
 
   server.registerTool(
     'branch_get_cohort_export_status',
     {
-      description: 'Get the status of a cohort data export job.',
+      description: 'Get the status of a cohort data export job. Once it is complete, use branch_download_export to download and read its files.',
       inputSchema: getCohortExportStatusSchema.shape,
-      outputSchema: z.object({}).passthrough().shape
+      outputSchema: z.object({}).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof getCohortExportStatusSchema>) => {
       logger.debug('Executing tool: branch_get_cohort_export_status with params:', params);
-      const { api_key, job_id, ...rest } = params;
+      const { api_key: _apiKey, job_id, ...rest } = params;
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
-      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(rest);
+      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(getResolvedAppOrOrgId(rest, config));
 
       try {
-        const url = new URL(`${getBranchBaseUrl(config)}/v2/analytics/${job_id}`);
-        if (app_id) {
-          url.searchParams.append('app_id', app_id);
-        }
-        if (organization_id) {
-          url.searchParams.append('organization_id', organization_id);
-        }
-
-        const headers = { 'Content-Type': 'application/json', 'access-token': api_key, 'Accept': 'application/json', 'User-Agent': MCP_USER_AGENT };
-        const response = await axios.get(url.toString(), { headers });
+        const data = await getExportStatus(job_id, app_id, organization_id, api_key);
 
         return {
-          structuredContent: response.data,
-          content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+          structuredContent: data,
+          content: [{ type: 'text', text: JSON.stringify(data, null, 2) }]
         };
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error getting cohort export status: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -5,6 +5,7 @@ import type { BranchMcpConfig } from '../config.js';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import { BranchApiError } from '../utils/errors.js';
+import { ExportJobManager } from '../utils/export-jobs.js';
 
 // Mock McpServer
 const mockRegisterTool = jest.fn();
@@ -63,13 +64,26 @@ describe('Cross-Event Export API Tools', () => {
       expect(result.job_id).toEqual(mockResponse.job_id);
     });
 
+    it('should track the export job, polling its status', async () => {
+      const jobs = new ExportJobManager({ sleep: async () => undefined });
+      registerCrossEventExportsTools(mockServer, config, jobs);
+      const createTool = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_create_cross_event_export')![2] as (params: Record<string, unknown>) => Promise<unknown>;
+      mock.onPost(url).reply(200, { job_id: 'job123' });
+      mock.onGet(`${baseUrl}/v1/branch_aggregate/async/status/job123`).reply(200, { status: 'COMPLETED' });
+
+      await createTool(createParams);
+      const { job } = await jobs.wait('job123', { timeoutMs: 60000 });
+
+      expect(job).toMatchObject({ type: 'cross_event', state: 'completed' });
+    });
+
     it('should throw error if api_key is missing', async () => {
       registerCrossEventExportsTools(mockServer, config);
       const toolCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_create_cross_event_export');
       expect(toolCall).toBeDefined();
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...params } = createParams;
-      await expect(createTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(createTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should handle API errors', async () => {
@@ -89,7 +103,7 @@ describe('Cross-Event Export API Tools', () => {
       const createTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).networkError();
 
-      await expect(createTool(createParams)).rejects.toThrow('Error creating cross-event export: Network Error');
+      await expect(createTool(createParams)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 
@@ -118,7 +132,7 @@ describe('Cross-Event Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const getTool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...params } = getParams;
-      await expect(getTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(getTool(params)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should handle API errors', async () => {
@@ -138,7 +152,7 @@ describe('Cross-Event Export API Tools', () => {
       const getTool = toolCall![2] as (params: any) => Promise<any>;
       mock.onGet(url).networkError();
 
-      await expect(getTool(getParams)).rejects.toThrow('Error retrieving cross-event export status: Network Error');
+      await expect(getTool(getParams)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 });
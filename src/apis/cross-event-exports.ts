@@ -1,12 +1,17 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { BranchMcpConfig } from '../config.js';
+import { CredentialsError } from '../utils/errors.js';
 import { z } from 'zod';
-import axios from 'axios';
-import { getBranchBaseUrl, MCP_USER_AGENT } from '../utils/api.js';
+import { getBranchBaseUrl, handleApiError } from '../utils/api.js';
+import { BranchClient } from '../utils/branch-client.js';
+import { recordExportPoll } from '../utils/metrics.js';
 import { apiKeySchema, appIdOrOrgIdInput, appIdOrOrgIdValidator } from '../schemas/auth.js';
-import { BranchApiError, getErrorMessage } from '../utils/errors.js';
 import logger from '../utils/logger.js';
+import { getRequestApiKey, getResolvedAppOrOrgId } from '../utils/auth.js';
 import { createTable } from '../utils/tables.js';
+import { getExportScope } from '../utils/export-jobs.js';
+import type { ExportJobManager } from '../utils/export-jobs.js';
 import {
   crossEventExportDimensions,
   crossEventExportDataSources
@@ -78,8 +83,20 @@ const limitSortSpecSchema = z.object({
  * @see https://help.branch.io/developers-hub/reference/cross-events-export-api
  * @param server The MCP server instance.
  * @param config The Branch MCP configuration.
+ * @param jobs The manager that tracks the requested exports, if any.
  */
-export function registerCrossEventExportsTools(server: McpServer, config: BranchMcpConfig) {
+export function registerCrossEventExportsTools(server: McpServer, config: BranchMcpConfig, jobs?: ExportJobManager) {
+  const client = new BranchClient(config);
+
+  /**
+   * Reads the status of an export job, and records the poll in the metrics.
+   */
+  const getExportStatus = async (url: string, queryParams: { app_id?: string; organization_id?: string }, apiKey: string) => {
+    const response = await client.get<CallToolResult>(url, { params: queryParams, accessToken: apiKey });
+    recordExportPoll('cross_event', response.data.status);
+    return response.data;
+  };
+  jobs?.setStatusReader('cross_event', (jobId, params, apiKey) => getExportStatus(`${getBranchBaseUrl(config)}/v1/branch_aggregate/async/status/${jobId}`, getExportScope(params), apiKey));
   const createExportSchema = z.object({
     start_date: z.string().describe('The start of the interval time range represented as an ISO-8601 complete date.'),
     end_date: z.string().describe('The end of the interval time range represented as an ISO-8601 complete date.'),
@@ -97,59 +114,71 @@ export function registerCrossEventExportsTools(server: McpServer, config: Branch
   server.registerTool(
     'branch_create_cross_event_export',
     {
-      description: 'Request a new Cross-Event data export from Branch.',
+      description: 'Request a new Cross-Event data export from Branch. The server tracks the job: use branch_wait_for_export to wait until it is ready.',
       inputSchema: createCrossEventExportSchema.shape,
-      outputSchema: z.object({}).passthrough().shape
+      outputSchema: z.object({}).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof createCrossEventExportSchema>) => {
       logger.debug('Executing tool: branch_create_cross_event_export with params:', params);
-      const { api_key, app_id, organization_id, ...requestBody } = createCrossEventExportSchema.and(appIdOrOrgIdValidator).parse(params);
+      const { api_key: _apiKey, app_id, organization_id, ...requestBody } = createCrossEventExportSchema.and(appIdOrOrgIdValidator).parse({ ...params, ...getResolvedAppOrOrgId(params, config) });
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
 
+      const url = `${getBranchBaseUrl(config)}/v1/branch_aggregate/async/analytics`;
+      const queryParams = { app_id, organization_id };
+      let data: CallToolResult;
       try {
-        const url = `${getBranchBaseUrl(config)}/v1/branch_aggregate/async/analytics`;
-        const headers = { 'Accept': 'application/json', 'access-token': api_key, 'User-Agent': MCP_USER_AGENT };
-        const queryParams = { app_id, organization_id };
-
-        const response = await axios.post(url, requestBody, { headers, params: queryParams });
-        return {
-          ...response.data,
-          _request: { url, headers, queryParams, body: requestBody }
-        };
+        data = (await client.post<CallToolResult>(url, requestBody, { params: queryParams, accessToken: api_key })).data;
       } catch (error) {
-        throw new BranchApiError(`Error creating cross-event export: ${getErrorMessage(error)}`);
+        handleApiError(error);
+      }
+      // Only the request is Branch's: a failure to track the job is not reported as a Branch error.
+      if (typeof data.job_id === 'string') {
+        await jobs?.track('cross_event', data.job_id, { ...requestBody, ...queryParams }, api_key);
       }
+      return {
+        ...data,
+        _request: { url, queryParams, body: requestBody }
+      };
     }
   );
 
   server.registerTool(
     'branch_get_cross_event_export_status',
     {
-      description: 'Retrieve the status of a cross-event export job.',
+      description: 'Retrieve the status of a cross-event export job. Once it is complete, use branch_download_export to download and read its files.',
       inputSchema: getCrossEventExportStatusSchema.shape,
-      outputSchema: z.object({}).passthrough().shape
+      outputSchema: z.object({}).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof getCrossEventExportStatusSchema>) => {
       logger.debug('Executing tool: branch_get_cross_event_export_status with params:', params);
-      const { api_key, app_id, organization_id, job_id } = getCrossEventExportStatusSchema.and(appIdOrOrgIdValidator).parse(params);
+      const { api_key: _apiKey, app_id, organization_id, job_id } = getCrossEventExportStatusSchema.and(appIdOrOrgIdValidator).parse({ ...params, ...getResolvedAppOrOrgId(params, config) });
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
 
       try {
         const url = `${getBranchBaseUrl(config)}/v1/branch_aggregate/async/status/${job_id}`;
-        const headers = { 'Accept': 'application/json', 'access-token': api_key, 'User-Agent': MCP_USER_AGENT };
         const queryParams = { app_id, organization_id };
 
-        const response = await axios.get(url, { headers, params: queryParams });
+        const data = await getExportStatus(url, queryParams, api_key);
         return {
-          ...response.data,
-          _request: { url, headers, queryParams }
+          ...data,
+          _request: { url, queryParams }
         };
       } catch (error) {
-        throw new BranchApiError(`Error retrieving cross-event export status: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -5,6 +5,7 @@ import type { BranchMcpConfig } from '../config.js';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import { BranchApiError } from '../utils/errors.js';
+import { ExportJobManager } from '../utils/export-jobs.js';
 
 // Mock McpServer
 const mockRegisterTool = jest.fn();
@@ -81,7 +82,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).networkError();
-      await expect(tool(params)).rejects.toThrow('Error getting daily exports: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -90,7 +91,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
-      await expect(tool(params)).rejects.toThrow('Error getting daily exports: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 
@@ -109,13 +110,27 @@ describe('Data Export API Tools', () => {
       expect(result.structuredContent).toEqual(mockResponse);
     });
 
+    it('should track the export job, polling its status', async () => {
+      const jobs = new ExportJobManager({ sleep: async () => undefined });
+      registerDataExportTools(mockServer, config, jobs);
+      const tool = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_create_custom_export')![2] as (params: Record<string, unknown>) => Promise<unknown>;
+      mock.onPost(url).reply(200, { request_handle: 'handle' });
+      mock.onGet(`${url}/handle`).reply(200, { status: 'complete', response_url: 'http://example.com/export.csv' });
+
+      await tool(params);
+      const { job } = await jobs.wait('handle', { timeoutMs: 60000 });
+
+      expect(job).toMatchObject({ type: 'custom', state: 'completed', result: { response_url: 'http://example.com/export.csv' } });
+      expect(mock.history.get[0].params).toMatchObject({ app_id: '12345' });
+    });
+
     it('should throw error if api_key is missing', async () => {
       registerDataExportTools(mockServer, config);
       const toolCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_create_custom_export');
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...rest } = params;
-      await expect(tool(rest)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(tool(rest)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should create a custom export using organization_id', async () => {
@@ -147,7 +162,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).networkError();
-      await expect(tool(params)).rejects.toThrow('Error creating custom export: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -156,7 +171,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
-      await expect(tool(params)).rejects.toThrow('Error creating custom export: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 
@@ -182,7 +197,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...rest } = params;
-      await expect(tool(rest)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(tool(rest)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should get export status using organization_id', async () => {
@@ -214,7 +229,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onGet(url).networkError();
-      await expect(tool(params)).rejects.toThrow('Error getting export status: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -223,7 +238,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onGet(url).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
-      await expect(tool(params)).rejects.toThrow('Error getting export status: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 
@@ -248,7 +263,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       const { api_key, ...rest } = params;
-      await expect(tool(rest)).rejects.toThrow('Branch API Key must be provided in tool parameters.');
+      await expect(tool(rest)).rejects.toThrow('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
     });
 
     it('should handle Branch API errors', async () => {
@@ -266,7 +281,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).networkError();
-      await expect(tool(params)).rejects.toThrow('Error checking data readiness: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
 
     it('should handle Axios errors without a response', async () => {
@@ -275,7 +290,7 @@ describe('Data Export API Tools', () => {
       expect(toolCall).toBeDefined();
       const tool = toolCall![2] as (params: any) => Promise<any>;
       mock.onPost(url).reply(() => Promise.reject(new axios.AxiosError('Network Error')));
-      await expect(tool(params)).rejects.toThrow('Error checking data readiness: Network Error');
+      await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
     });
   });
 });
@@ -1,13 +1,17 @@
-import axios from 'axios';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import { getBranchBaseUrl, MCP_USER_AGENT } from '../utils/api.js';
-import { BranchApiError, getErrorMessage } from '../utils/errors.js';
+import { handleApiError } from '../utils/api.js';
+import { CredentialsError } from '../utils/errors.js';
+import { BranchClient } from '../utils/branch-client.js';
+import type { BranchResponseData } from '../utils/branch-client.js';
+import { recordExportPoll } from '../utils/metrics.js';
 import logger from '../utils/logger.js';
-import { getResolvedAuth } from '../utils/auth.js';
+import { getResolvedAuth, getRequestApiKey, getResolvedAppOrOrgId } from '../utils/auth.js';
 import { createTable } from '../utils/tables.js';
 import { branchKeySchema, branchSecretSchema, apiKeySchema, appIdOrOrgIdInput, appIdOrOrgIdValidator } from '../schemas/auth.js';
+import { getExportScope } from '../utils/export-jobs.js';
+import type { ExportJobManager } from '../utils/export-jobs.js';
 import { customExportReportTypes, customExportFields } from './data-export-data.js';
 
 const customExportReportTypeEnum = z.enum(Object.keys(customExportReportTypes) as [string, ...string[]]);
@@ -24,8 +28,20 @@ const customExportFieldsTable = createTable(customExportFields);
  * @see https://help.branch.io/developers-hub/reference/daily-exports-api
  * @param server The MCP server instance.
  * @param config The Branch MCP configuration.
+ * @param jobs The manager that tracks the requested exports, if any.
  */
-export function registerDataExportTools(server: McpServer, config: BranchMcpConfig) {
+export function registerDataExportTools(server: McpServer, config: BranchMcpConfig, jobs?: ExportJobManager) {
+  const client = new BranchClient(config);
+
+  /**
+   * Reads the status of a custom export job, and records the poll in the metrics.
+   */
+  const getExportStatus = async (requestHandle: string, queryParams: Record<string, string | number | undefined>, apiKey: string) => {
+    const response = await client.get(`/v2/logs/${requestHandle}`, { params: queryParams, accessToken: apiKey });
+    recordExportPoll('custom', response.data.status);
+    return response.data;
+  };
+  jobs?.setStatusReader('custom', (requestHandle, params, apiKey) => getExportStatus(requestHandle, getExportScope(params), apiKey));
   const dailyExportsSchema = z.object({
     export_date: z.string().describe('The UTC date of the requested data export, in YYYY-MM-DD format.')
   }).merge(branchKeySchema).merge(branchSecretSchema);
@@ -35,41 +51,33 @@ export function registerDataExportTools(server: McpServer, config: BranchMcpConf
     {
       description: 'Pull granular Branch event data for a specific day.',
       inputSchema: dailyExportsSchema.shape,
-      outputSchema: z.object({}).passthrough().shape
+      outputSchema: z.object({}).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof dailyExportsSchema>) => {
       logger.debug('Executing tool: branch_get_daily_exports with params:', params);
       const { branch_key, branch_secret, export_date } = params;
       const resolvedAuth = getResolvedAuth({ branch_key, branch_secret }, config);
       if (!resolvedAuth.branch_key || !resolvedAuth.branch_secret) {
-        throw new Error('Branch Key and Secret are not configured.');
+        throw new CredentialsError('Branch Key and Secret are not configured.');
       }
       try {
-        const url = `${getBranchBaseUrl(config)}/v3/export`;
-        const response = await axios.post(url, {
+        // Listing the export files only reads data, so it is safe to retry.
+        const response = await client.post('/v3/export', {
           branch_key: resolvedAuth.branch_key,
           branch_secret: resolvedAuth.branch_secret,
           export_date
-        }, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-            'User-Agent': MCP_USER_AGENT
-          }
-        });
+        }, { idempotent: true });
 
         return {
           structuredContent: response.data,
           content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
         };
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error getting daily exports: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -93,17 +101,22 @@ export function registerDataExportTools(server: McpServer, config: BranchMcpConf
   server.registerTool(
     'branch_create_custom_export',
     {
-      description: 'Request a custom data export job.',
+      description: 'Request a custom data export job. The server tracks the job: use branch_wait_for_export with its request_handle to wait until it is ready.',
       inputSchema: createCustomExportSchema.shape,
-      outputSchema: z.object({ request_handle: z.string(), export_job_status_url: z.string() }).shape
+      outputSchema: z.object({ request_handle: z.string(), export_job_status_url: z.string() }).shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof createCustomExportSchema>) => {
       logger.debug('Executing tool: branch_create_custom_export with params:', params);
-      const { api_key, ...rest } = params;
+      const { api_key: _apiKey, ...rest } = params;
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
-      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(rest);
+      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(getResolvedAppOrOrgId(rest, config));
 
       const queryParams: Record<string, string> = {};
       if (app_id) {
@@ -116,31 +129,21 @@ export function registerDataExportTools(server: McpServer, config: BranchMcpConf
       const { start_date, end_date, report_type, fields, ...optionalParams } = rest;
       const requestBody = { start_date, end_date, report_type, fields, ...optionalParams };
 
+      let data: BranchResponseData;
       try {
-        const url = `${getBranchBaseUrl(config)}/v2/logs`;
-        const response = await axios.post(url, requestBody, {
-          params: queryParams,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Token': api_key,
-            'Accept': 'application/json',
-            'User-Agent': MCP_USER_AGENT
-          }
-        });
-
-        return {
-          structuredContent: response.data,
-          content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
-        };
+        data = (await client.post('/v2/logs', requestBody, { params: queryParams, accessToken: api_key })).data;
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error creating custom export: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
+      // Only the request is Branch's: a failure to track the job is not reported as a Branch error.
+      if (typeof data.request_handle === 'string') {
+        await jobs?.track('custom', data.request_handle, { ...requestBody, ...queryParams }, api_key);
+      }
+
+      return {
+        structuredContent: data,
+        content: [{ type: 'text', text: JSON.stringify(data, null, 2) }]
+      };
     }
   );
 
@@ -156,17 +159,22 @@ export function registerDataExportTools(server: McpServer, config: BranchMcpConf
   server.registerTool(
     'branch_get_export_status',
     {
-      description: 'Get the status of a custom data export job.',
+      description: 'Get the status of a custom data export job. Once it is complete, use branch_download_export to download and read its files.',
       inputSchema: getExportStatusSchema.shape,
-      outputSchema: z.object({}).passthrough().shape
+      outputSchema: z.object({}).passthrough().shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof getExportStatusSchema>) => {
       logger.debug('Executing tool: branch_get_export_status with params:', params);
-      const { api_key, request_handle, ...rest } = params;
+      const { api_key: _apiKey, request_handle, ...rest } = params;
+      const api_key = getRequestApiKey(params, config);
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
-      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(rest);
+      const { app_id, organization_id } = appIdOrOrgIdValidator.parse(getResolvedAppOrOrgId(rest, config));
 
       const queryParams: Record<string, string | number | undefined> = { ...rest };
       if (app_id) {
@@ -177,28 +185,14 @@ export function registerDataExportTools(server: McpServer, config: BranchMcpConf
       }
 
       try {
-        const url = `${getBranchBaseUrl(config)}/v2/logs/${request_handle}`;
-        const response = await axios.get(url, {
-          params: queryParams,
-          headers: {
-            'Access-Token': api_key,
-            'Accept': 'application/json',
-            'User-Agent': MCP_USER_AGENT
-          }
-        });
+        const data = await getExportStatus(request_handle, queryParams, api_key);
 
         return {
-          structuredContent: response.data,
-          content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+          structuredContent: data,
+          content: [{ type: 'text', text: JSON.stringify(data, null, 2) }]
         };
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error getting export status: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -219,41 +213,32 @@ export function registerDataExportTools(server: McpServer, config: BranchMcpConf
     {
       description: 'Check if data is ready for export for a given time.',
       inputSchema: checkDataReadinessInputSchema.shape,
-      outputSchema: z.object({ data_ready: z.boolean(), date: z.string() }).shape
+      outputSchema: z.object({ data_ready: z.boolean(), date: z.string() }).shape,
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof checkDataReadinessInputSchema>) => {
       logger.debug('Executing tool: branch_check_data_readiness with params:', params);
-      const { api_key, app_id, date, warehouse_meta_type, topic } = params;
+      const { app_id, date, warehouse_meta_type, topic } = params;
+      const api_key = getRequestApiKey(params, config);
 
       if (!api_key) {
-        throw new Error('Branch API Key must be provided in tool parameters.');
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
       }
 
       try {
-        const url = `${getBranchBaseUrl(config)}/v2/data/ready`;
         const requestBody = { date, warehouse_meta_type, topic, app_id };
-
-        const response = await axios.post(url, requestBody, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Token': api_key,
-            'Accept': 'application/json',
-            'User-Agent': MCP_USER_AGENT
-          }
-        });
+        // Checking readiness only reads data, so it is safe to retry.
+        const response = await client.post('/v2/data/ready', requestBody, { accessToken: api_key, idempotent: true });
 
         return {
           structuredContent: response.data,
           content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
         };
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-          throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
-            status: error.response.status,
-            response: error.response
-          });
-        }
-        throw new BranchApiError(`Error checking data readiness: ${getErrorMessage(error)}`);
+        handleApiError(error);
       }
     }
   );
@@ -4,7 +4,10 @@ import { registerDeepLinkingTools } from './deep-linking.js';
 import type { BranchMcpConfig } from '../config.js';
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { BranchApiError } from '../utils/errors.js';
+import { runWithRequestContext } from '../utils/context.js';
+import type { AuditDetails } from '../utils/audit.js';
 
 // Mock McpServer to check for both registerTool and tool calls
 const mockRegisterTool = jest.fn();
@@ -41,9 +44,11 @@ describe('Deep Linking API Tools', () => {
     registerDeepLinkingTools(mockServer, config);
     expect(mockRegisterTool).toHaveBeenCalledWith('branch_create_deep_link', expect.any(Object), expect.any(Function));
     expect(mockRegisterTool).toHaveBeenCalledWith('branch_bulk_create_deep_links', expect.any(Object), expect.any(Function));
-    expect(mockTool).toHaveBeenCalledWith('branch_read_deep_link', expect.any(String), expect.any(Object), expect.any(Function));
+    expect(mockTool).toHaveBeenCalledWith('branch_read_deep_link', expect.any(String), expect.any(Object), expect.objectContaining({ readOnlyHint: true }), expect.any(Function));
     expect(mockRegisterTool).toHaveBeenCalledWith('branch_update_deep_link', expect.any(Object), expect.any(Function));
-    expect(mockTool).toHaveBeenCalledWith('branch_delete_deep_link', expect.any(String), expect.any(Object), expect.any(Function));
+    expect(mockTool).toHaveBeenCalledWith('branch_delete_deep_link', expect.any(String), expect.any(Object), expect.objectContaining({ readOnlyHint: false }), expect.any(Function));
+    expect(mockRegisterTool).toHaveBeenCalledWith('branch_bulk_update_deep_links', expect.any(Object), expect.any(Function));
+    expect(mockRegisterTool).toHaveBeenCalledWith('branch_bulk_delete_deep_links', expect.any(Object), expect.any(Function));
   });
 
   describe('branch_create_deep_link', () => {
@@ -73,35 +78,54 @@ describe('Deep Linking API Tools', () => {
   });
 
   describe('branch_bulk_create_deep_links', () => {
-    it('should bulk create deep links successfully', async () => {
+    const extra = { signal: new AbortController().signal, sendNotification: jest.fn(async () => undefined), _meta: { progressToken: 'bulk' } };
+    const getBulkCreate = () => mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_bulk_create_deep_links')![2] as (params: Record<string, unknown>, toolExtra: object) => Promise<CallToolResult>;
+
+    it('should bulk create deep links successfully, reporting progress', async () => {
       registerDeepLinkingTools(mockServer, config);
-      const toolImpl = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_bulk_create_deep_links')![2] as (params: any) => Promise<any>;
-      const params = { links: [{ data: { foo: 'bar' } }] };
       const mockResponse = [{ url: 'https://branch.io/link' }];
       mock.onPost(`${bulkUrl}/${config.branch_key}`).reply(200, mockResponse);
-      const result = await toolImpl(params);
-      expect(result.structuredContent).toEqual({ links: mockResponse });
+      const result = await getBulkCreate()({ links: [{ data: { foo: 'bar' } }] }, extra);
+      expect(result.structuredContent).toEqual({
+        summary: { total: 1, succeeded: 1, failed: 0, skipped: 0, planned: 0 },
+        results: [{ index: 0, link: 'https://branch.io/link', status: 'succeeded' }],
+        links: mockResponse
+      });
+      expect(extra.sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'bulk', progress: 1, total: 1, message: 'Processed 1 of 1 links.' }
+      });
+    });
+
+    it('should report invalid links by index without sending them', async () => {
+      registerDeepLinkingTools(mockServer, config);
+      mock.onPost(`${bulkUrl}/${config.branch_key}`).reply(200, [{ url: 'https://branch.io/a' }]);
+      const result = await getBulkCreate()({ links: [{ alias: 'bad', duration: 'forever' }, { alias: 'a' }] }, extra);
+      expect((result.structuredContent as { results: object[] }).results).toEqual([
+        { index: 0, link: 'bad', status: 'failed', code: 'validation', reason: 'duration: Expected number, received string' },
+        { index: 1, link: 'https://branch.io/a', status: 'succeeded' }
+      ]);
+      expect(JSON.parse(mock.history.post[0].data)).toEqual([{ alias: 'a' }]);
     });
 
     it('should throw an error if branch_key is missing', async () => {
       registerDeepLinkingTools(mockServer, {});
-      const toolImpl = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_bulk_create_deep_links')![2] as (params: any) => Promise<any>;
-      await expect(toolImpl({ links: [] })).rejects.toThrow('Branch Key is not configured');
+      await expect(getBulkCreate()({ links: [] }, extra)).rejects.toThrow('Branch Key is not configured');
     });
 
-    it('should throw BranchApiError on API error', async () => {
+    it('should fail the call if Branch rejects every link', async () => {
       registerDeepLinkingTools(mockServer, config);
-      const toolImpl = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_bulk_create_deep_links')![2] as (params: any) => Promise<any>;
-      mock.onPost(`${bulkUrl}/${config.branch_key}`).reply(500, { error: { message: 'Server Error' } });
-      await expect(toolImpl({ links: [] })).rejects.toThrow(BranchApiError)
-        .catch((e: BranchApiError) => expect(e.status).toBe(500));
+      mock.onPost(`${bulkUrl}/${config.branch_key}`).reply(400, { error: { message: 'Bad Request' } });
+      const result = await getBulkCreate()({ links: [{}, {}] }, extra);
+      expect(result.isError).toBe(true);
+      expect(mock.history.post).toHaveLength(3);
     });
   });
 
   describe('branch_read_deep_link', () => {
     it('should read a deep link successfully', async () => {
       registerDeepLinkingTools(mockServer, config);
-      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_read_deep_link')![3] as (params: any) => Promise<any>;
+      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_read_deep_link')![4] as (params: any) => Promise<any>;
       const params = { url: 'https://branch.io/link' };
       const mockResponse = { data: { foo: 'bar' } };
       mock.onGet(url).reply(200, mockResponse);
@@ -109,15 +133,24 @@ describe('Deep Linking API Tools', () => {
       expect(JSON.parse(result.content[0].text)).toEqual(mockResponse);
     });
 
+    it('should read a deep link by its alias on the app\'s link domain', async () => {
+      registerDeepLinkingTools(mockServer, config);
+      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_read_deep_link')![4] as (params: Record<string, unknown>) => Promise<unknown>;
+      mock.onGet(`${baseUrl}/v1/app/key_live_123`).reply(200, { short_url_domain: 'example.app.link' });
+      mock.onGet(url).reply(200, { data: { foo: 'bar' } });
+      await toolImpl({ url: 'summer-sale', branch_secret: 'secret_123' });
+      expect(mock.history.get[1].params).toEqual({ url: 'https://example.app.link/summer-sale', branch_key: 'key_live_123' });
+    });
+
     it('should throw an error if branch_key is missing', async () => {
       registerDeepLinkingTools(mockServer, {});
-      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_read_deep_link')![3] as (params: any) => Promise<any>;
+      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_read_deep_link')![4] as (params: any) => Promise<any>;
       await expect(toolImpl({ url: 'https://branch.io/link' })).rejects.toThrow('Branch Key is not configured');
     });
 
     it('should throw BranchApiError on API error', async () => {
       registerDeepLinkingTools(mockServer, config);
-      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_read_deep_link')![3] as (params: any) => Promise<any>;
+      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_read_deep_link')![4] as (params: any) => Promise<any>;
       mock.onGet(url).reply(404, { error: { message: 'Not Found' } });
       await expect(toolImpl({ url: 'https://branch.io/link' })).rejects.toThrow(BranchApiError)
         .catch((e: BranchApiError) => expect(e.status).toBe(404));
@@ -135,6 +168,36 @@ describe('Deep Linking API Tools', () => {
       expect(result.structuredContent).toEqual(mockResponse);
     });
 
+    it('should replace the data of the link rather than merge it, as its schema describes', async () => {
+      registerDeepLinkingTools(mockServer, config);
+      const [, { inputSchema }, toolImpl] = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_update_deep_link') as [string, { inputSchema: Record<string, { description?: string }> }, (params: Record<string, unknown>) => Promise<unknown>];
+      expect(inputSchema.data.description).toMatch(/^The data of the link, which replaces its current data/);
+      mock.onGet(url).reply(200, { data: { $og_title: 'Old', keep: 1 } });
+      mock.onPut(url).reply(200, {});
+
+      await toolImpl({ url: 'https://example.app.link/a', data: { $og_title: 'New' } });
+      expect(JSON.parse(mock.history.put[0].data).data).toEqual({ $og_title: 'New' });
+    });
+
+    it('should audit the link an alias resolves to, and the links of bulk operations', async () => {
+      registerDeepLinkingTools(mockServer, config);
+      const update = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_update_deep_link')![2] as (params: Record<string, unknown>) => Promise<unknown>;
+      const bulkDelete = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_bulk_delete_deep_links')![2] as (params: Record<string, unknown>, toolExtra: object) => Promise<unknown>;
+      mock.onGet(`${baseUrl}/v1/app/key_live_123`).reply(200, { short_url_domain: 'example.app.link' });
+      mock.onGet(url).reply(200, {});
+      mock.onPut(url).reply(200, {});
+      mock.onDelete(url).reply(200, {});
+
+      // The audit middleware starts the target from the arguments of the call.
+      const audit: AuditDetails = { target: { url: 'summer-sale' } };
+      await runWithRequestContext({ audit }, () => update({ url: 'summer-sale', channel: 'email' }));
+      expect(audit.target.url).toBe('https://example.app.link/summer-sale');
+
+      const bulkAudit: AuditDetails = { target: { link_count: 2 } };
+      await runWithRequestContext({ audit: bulkAudit }, () => bulkDelete({ links: ['spring', 'example.app.link/fall?utm_source=email'] }, { signal: new AbortController().signal }));
+      expect(bulkAudit.target).toEqual({ link_count: 2, urls: ['https://example.app.link/spring', 'https://example.app.link/fall'] });
+    });
+
     it('should throw an error if branch_key or branch_secret is missing', async () => {
       registerDeepLinkingTools(mockServer, {});
       const toolImpl = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_update_deep_link')![2] as (params: any) => Promise<any>;
@@ -154,7 +217,7 @@ describe('Deep Linking API Tools', () => {
   describe('branch_delete_deep_link', () => {
     it('should delete a deep link successfully', async () => {
       registerDeepLinkingTools(mockServer, config);
-      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_delete_deep_link')![3] as (params: any) => Promise<any>;
+      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_delete_deep_link')![4] as (params: any) => Promise<any>;
       const params = { url: 'https://branch.io/link' };
       const mockResponse = {};
       mock.onDelete(url).reply(200, mockResponse);
@@ -164,17 +227,74 @@ describe('Deep Linking API Tools', () => {
 
     it('should throw an error if app_id or auth_token is missing', async () => {
       registerDeepLinkingTools(mockServer, {});
-      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_delete_deep_link')![3] as (params: any) => Promise<any>;
+      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_delete_deep_link')![4] as (params: any) => Promise<any>;
       await expect(toolImpl({ url: 'https://branch.io/link' })).rejects.toThrow('Branch App ID is not configured');
       await expect(toolImpl({ url: 'https://branch.io/link', app_id: '123' })).rejects.toThrow('Branch Auth Token is not configured');
     });
 
     it('should throw BranchApiError on API error', async () => {
       registerDeepLinkingTools(mockServer, config);
-      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_delete_deep_link')![3] as (params: any) => Promise<any>;
+      const toolImpl = mockTool.mock.calls.find((call) => call[0] === 'branch_delete_deep_link')![4] as (params: any) => Promise<any>;
       mock.onDelete(url).reply(500, { error: { message: 'Server Error' } });
       await expect(toolImpl({ url: 'https://branch.io/link' })).rejects.toThrow(BranchApiError)
         .catch((e: BranchApiError) => expect(e.status).toBe(500));
     });
   });
+
+  describe('bulk updates and deletes', () => {
+    const extra = { signal: new AbortController().signal };
+    const getBulkTool = (name: string) => mockRegisterTool.mock.calls.find((call) => call[0] === name)![2] as (params: Record<string, unknown>, toolExtra: object) => Promise<CallToolResult>;
+
+    it('should merge the changes into each link, and skip links that need no update', async () => {
+      registerDeepLinkingTools(mockServer, config);
+      mock.onGet(url, { params: { url: 'https://example.app.link/a', branch_key: 'key_live_123' } }).reply(200, { alias: 'a', channel: 'email', data: { $og_title: 'Old', keep: 1 } });
+      mock.onGet(url, { params: { url: 'https://example.app.link/b', branch_key: 'key_live_123' } }).reply(200, { channel: 'sms' });
+      mock.onGet(url, { params: { url: 'https://example.app.link/c', branch_key: 'key_live_123' } }).reply(404, { error: { message: 'Link not found' } });
+      mock.onPut(url).reply(200, {});
+
+      const result = await getBulkTool('branch_bulk_update_deep_links')({
+        links: [
+          { url: 'example.app.link/a?utm_source=email', data: { $og_title: 'New' } },
+          { url: 'https://example.app.link/b', channel: 'sms' },
+          { url: 'https://example.app.link/c', channel: 'sms' },
+          { url: 'https://example.app.link/a', channel: 'sms' },
+          { url: 'https://bnc.lt/c/123', channel: 'sms' }
+        ]
+      }, extra);
+
+      expect((result.structuredContent as { results: object[] }).results).toEqual([
+        { index: 0, link: 'https://example.app.link/a', status: 'succeeded' },
+        { index: 1, link: 'https://example.app.link/b', status: 'skipped', reason: 'The link already has these values.' },
+        { index: 2, link: 'https://example.app.link/c', status: 'failed', code: 'not_found', reason: 'Link not found' },
+        { index: 3, link: 'https://example.app.link/a', status: 'skipped', reason: 'The same link as item 0.' },
+        { index: 4, link: 'https://bnc.lt/c/123', status: 'skipped', reason: 'Links with the structure bnc.lt/c/ or bnc.lt/d/ cannot be updated.' }
+      ]);
+      expect(mock.history.put).toHaveLength(1);
+      expect(mock.history.put[0].params).toEqual({ url: 'https://example.app.link/a' });
+      expect(JSON.parse(mock.history.put[0].data)).toEqual({ channel: 'email', data: { $og_title: 'New', keep: 1 }, branch_key: 'key_live_123', branch_secret: 'secret_123' });
+      expect(result.isError).toBeUndefined();
+    });
+
+    it('should delete each link once, and fail the call if every deletion failed', async () => {
+      registerDeepLinkingTools(mockServer, config);
+      mock.onDelete(url).replyOnce(200, {}).onDelete(url).reply(404, { error: { message: 'Link not found' } });
+      const deleteLinks = getBulkTool('branch_bulk_delete_deep_links');
+
+      const result = await deleteLinks({ links: ['https://example.app.link/a', 'example.app.link/a'], concurrency: 1 }, extra);
+      expect((result.structuredContent as { summary: object }).summary).toEqual({ total: 2, succeeded: 1, failed: 0, skipped: 1, planned: 0 });
+      expect(mock.history.delete[0].params).toEqual({ url: 'https://example.app.link/a', app_id: '12345' });
+      expect(mock.history.delete[0].headers!['Access-Token']).toBe('token_123');
+
+      const failed = await deleteLinks({ links: ['https://example.app.link/b'] }, extra);
+      expect(failed.isError).toBe(true);
+    });
+
+    it('should need credentials before processing any link', async () => {
+      registerDeepLinkingTools(mockServer, {});
+      await expect(getBulkTool('branch_bulk_update_deep_links')({ links: [] }, extra)).rejects.toThrow('Branch Key is not configured');
+      await expect(getBulkTool('branch_bulk_update_deep_links')({ links: [], branch_key: 'key' }, extra)).rejects.toThrow('Branch Secret is not configured');
+      await expect(getBulkTool('branch_bulk_delete_deep_links')({ links: [] }, extra)).rejects.toThrow('Branch App ID is not configured');
+      await expect(getBulkTool('branch_bulk_delete_deep_links')({ links: [], app_id: '123' }, extra)).rejects.toThrow('Branch Auth Token is not configured');
+    });
+  });
 });
@@ -1,26 +1,72 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import { getBranchBaseUrl, handleApiError, MCP_USER_AGENT } from '../utils/api.js';
-import { deepLinkParamsSchema } from '../schemas/deep-link-params.js';
+import { CredentialsError } from '../utils/errors.js';
+import { handleApiError } from '../utils/api.js';
+import { BranchClient } from '../utils/branch-client.js';
+import type { BranchResponseData } from '../utils/branch-client.js';
+import { deepLinkParamsSchema, deepLinkUpdateParamsSchema, immutableLinkFields } from '../schemas/deep-link-params.js';
 import { authTokenSchema, appIdSchema, branchKeySchema, branchSecretSchema } from '../schemas/auth.js';
 import { getResolvedAuth } from '../utils/auth.js';
-import axios from 'axios';
+import { recordBefore, recordAuditDetails } from '../utils/audit.js';
+import { linkReferenceSchema, resolveLinkReference } from '../utils/link-reference.js';
+import {
+  BULK_CREATE_CHUNK_SIZE,
+  bulkConcurrencySchema,
+  bulkResultOutputShape,
+  createBulkLinks,
+  createBulkResult,
+  MAX_BULK_ITEMS,
+  runBulk,
+  validateBulkLinks
+} from '../utils/bulk.js';
+import type { BulkItemOutcome } from '../utils/bulk.js';
+import { diffValues, recordDryRunBefore } from '../utils/dry-run.js';
+import { createProgressReporter } from '../utils/progress.js';
+import type { ToolExtra } from '../utils/tool-middleware.js';
 
 /**
  * Registers Deep Linking API tools with the MCP server.
- * This includes tools for creating, reading, updating, and deleting deep links.
+ * This includes tools for creating, reading, updating, and deleting deep links, one at a time or in bulk.
  * @see https://help.branch.io/apidocs/deep-linking-api
  * @param server The MCP server instance.
  * @param config The Branch MCP configuration.
  */
 
 export function registerDeepLinkingTools(server: McpServer, config: BranchMcpConfig) {
+  const client = new BranchClient(config);
   const createDeepLinkSchema = deepLinkParamsSchema.merge(branchKeySchema);
-  const bulkCreateDeepLinksSchema = z.object({ links: z.array(deepLinkParamsSchema).describe('An array of deep link objects to create.') }).merge(branchKeySchema);
-  const readDeepLinkSchema = z.object({ url: z.string().describe('The Branch deep link URL to read') }).merge(branchKeySchema);
-  const updateDeepLinkSchema = z.object({ url: z.string().describe('The Branch deep link URL to update') }).merge(deepLinkParamsSchema).merge(branchKeySchema).merge(branchSecretSchema);
-  const deleteDeepLinkSchema = z.object({ url: z.string().describe('The Branch deep link URL to delete') }).merge(appIdSchema).merge(authTokenSchema);
+  const bulkCreateDeepLinksSchema = z.object({
+    links: z.array(z.object({}).passthrough()).min(1)
+      .describe('The links to create, each with the same parameters as branch_create_deep_link. Each link is validated on its own, and invalid links are reported without being sent.')
+  }).merge(branchKeySchema);
+  const readDeepLinkSchema = z.object({ url: linkReferenceSchema }).merge(branchKeySchema).merge(branchSecretSchema);
+  const updateDeepLinkSchema = z.object({ url: linkReferenceSchema }).merge(deepLinkParamsSchema).extend({
+    data: deepLinkParamsSchema.shape.data.describe('The data of the link, which replaces its current data: keys that are not given are removed. To change some keys only, use branch_bulk_update_deep_links, which merges them into the current data.')
+  }).merge(branchKeySchema).merge(branchSecretSchema);
+  const deleteDeepLinkSchema = z.object({ url: linkReferenceSchema }).merge(appIdSchema).merge(authTokenSchema).merge(branchKeySchema).merge(branchSecretSchema);
+  const bulkUpdateDeepLinksSchema = z.object({
+    links: z.array(z.object({ url: linkReferenceSchema }).merge(deepLinkUpdateParamsSchema)).min(1).max(MAX_BULK_ITEMS)
+      .describe('The links to update, each with the fields to change. The `data` of each link is merged into its current data.')
+  }).merge(bulkConcurrencySchema).merge(branchKeySchema).merge(branchSecretSchema);
+  const bulkDeleteDeepLinksSchema = z.object({
+    links: z.array(linkReferenceSchema).min(1).max(MAX_BULK_ITEMS).describe('The links to delete.')
+  }).merge(bulkConcurrencySchema).merge(appIdSchema).merge(authTokenSchema).merge(branchKeySchema).merge(branchSecretSchema);
+
+  /**
+   * Returns a check that skips the links a bulk call has already processed, however they were referred to.
+   */
+  const skipDuplicates = () => {
+    const seen = new Map<string, number>();
+    return (url: string, index: number): BulkItemOutcome | undefined => {
+      const first = seen.get(url);
+      if (first !== undefined) {
+        return { status: 'skipped', link: url, reason: `The same link as item ${first}.` };
+      }
+      seen.set(url, index);
+      return undefined;
+    };
+  };
   // Create a Deep Link URL
   server.registerTool(
     'branch_create_deep_link',
@@ -29,18 +75,21 @@ export function registerDeepLinkingTools(server: McpServer, config: BranchMcpCon
       inputSchema: createDeepLinkSchema.shape,
       outputSchema: z.object({
         url: z.string().url()
-      }).passthrough().shape
+      }).passthrough().shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof createDeepLinkSchema>) => {
       try {
-        const branch_key = params.branch_key ?? config.branch_key;
+        const { branch_key } = getResolvedAuth(params, config);
         if (!branch_key) {
-          throw new Error('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+          throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
         }
-        const url = `${getBranchBaseUrl(config)}/v1/url`;
-        const response = await axios.post(url, { ...params, branch_key }, {
-          headers: { 'Content-Type': 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
+        const response = await client.post('/v1/url', { ...params, branch_key });
         return { structuredContent: response.data, content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }] };
       } catch (error) {
         handleApiError(error);
@@ -52,25 +101,28 @@ export function registerDeepLinkingTools(server: McpServer, config: BranchMcpCon
   server.registerTool(
     'branch_bulk_create_deep_links',
     {
-      description: 'Create multiple Branch deep link URLs in a single request',
+      description: `Create multiple Branch deep link URLs. The links are sent in chunks of ${BULK_CREATE_CHUNK_SIZE}, and each link succeeds or fails on its own: the result maps the index of every link to its URL or to the reason it failed, and the call only fails if every link failed. Progress is reported after every chunk.`,
       inputSchema: bulkCreateDeepLinksSchema.shape,
-      outputSchema: z.object({ links: z.array(z.object({ url: z.string().url() }).passthrough()) }).shape
+      outputSchema: { ...bulkResultOutputShape, links: z.array(z.object({ url: z.string().url() }).passthrough()) },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
     },
-    async (params: z.infer<typeof bulkCreateDeepLinksSchema>) => {
-      const { links } = params;
-      const branch_key = params.branch_key ?? config.branch_key;
+    async (params: z.infer<typeof bulkCreateDeepLinksSchema>, extra: ToolExtra) => {
+      const { branch_key } = getResolvedAuth(params, config);
       if (!branch_key) {
-        throw new Error('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
-      }
-      try {
-        const url = `${getBranchBaseUrl(config)}/v1/url/bulk/${branch_key}`;
-        const response = await axios.post(url, links, {
-          headers: { 'Content-Type': 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
-        return { structuredContent: { links: response.data }, content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }] };
-      } catch (error) {
-        handleApiError(error);
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
       }
+      const { valid, invalid } = validateBulkLinks(params.links, (link) => deepLinkParamsSchema.parse(link));
+      const report = createProgressReporter(extra);
+      const { results, created } = await createBulkLinks(client, branch_key, valid, {
+        signal: extra.signal,
+        onChunk: (processed) => report(processed, valid.length, `Processed ${processed} of ${valid.length} links.`)
+      });
+      return createBulkResult([...invalid, ...results], { links: created });
     }
   );
 
@@ -79,17 +131,19 @@ export function registerDeepLinkingTools(server: McpServer, config: BranchMcpCon
     'branch_read_deep_link',
     'Read the data associated with a Branch deep link URL',
     readDeepLinkSchema.shape,
+    {
+      readOnlyHint: true,
+      openWorldHint: true
+    },
     async (params: z.infer<typeof readDeepLinkSchema>) => {
+      const auth = getResolvedAuth(params, config);
+      const { branch_key } = auth;
+      if (!branch_key) {
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+      }
+      const url = await resolveLinkReference(params.url, client, auth);
       try {
-        const { branch_key } = getResolvedAuth(params, config);
-        if (!branch_key) {
-          throw new Error('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
-        }
-        const readUrl = `${getBranchBaseUrl(config)}/v1/url`;
-        const response = await axios.get(readUrl, {
-          params: { ...params, branch_key },
-          headers: { Accept: 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
+        const response = await client.get('/v1/url', { params: { url, branch_key } });
         return { content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }] };
       } catch (error) {
         handleApiError(error);
@@ -101,30 +155,36 @@ export function registerDeepLinkingTools(server: McpServer, config: BranchMcpCon
   server.registerTool(
     'branch_update_deep_link',
     {
-      description: 'Update a Branch deep link URL',
+      description: 'Update a Branch deep link URL. The link is written as given, without reading it first: its `data` is replaced, not merged. To change some fields of links and keep the others, use branch_bulk_update_deep_links.',
       inputSchema: updateDeepLinkSchema.shape,
-      outputSchema: deepLinkParamsSchema.passthrough().shape
+      outputSchema: deepLinkParamsSchema.passthrough().shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true
+      }
     },
     async (params: z.infer<typeof updateDeepLinkSchema>) => {
-      const { branch_key, branch_secret } = getResolvedAuth(params, config);
+      const auth = getResolvedAuth(params, config);
+      const { branch_key, branch_secret } = auth;
       if (!branch_key) {
-        throw new Error('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
       }
       if (!branch_secret) {
-        throw new Error('Branch Secret is not configured and is required for this operation. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Secret is not configured and is required for this operation. Please provide it in the tool parameters or server configuration.');
       }
+      const url = await resolveLinkReference(params.url, client, auth);
+      recordAuditDetails({ target: { url } });
       try {
-        const { url, ...rest } = params;
-        const endpointUrl = `${getBranchBaseUrl(config)}/v1/url`;
+        const { url: _url, ...rest } = params;
         const requestBody = {
           ...rest,
           branch_key,
           branch_secret
         };
-        const response = await axios.put(endpointUrl, requestBody, {
-          params: { url },
-          headers: { 'Content-Type': 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
+        await recordBefore(async () => (await client.get('/v1/url', { params: { url, branch_key } })).data);
+        const response = await client.put('/v1/url', requestBody, { params: { url } });
         return { structuredContent: response.data, content: [] };
       } catch (error) {
         handleApiError(error);
@@ -137,28 +197,130 @@ export function registerDeepLinkingTools(server: McpServer, config: BranchMcpCon
     'branch_delete_deep_link',
     'Delete a Branch deep link URL',
     deleteDeepLinkSchema.shape,
+    {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true
+    },
     async (params: z.infer<typeof deleteDeepLinkSchema>) => {
-      const { auth_token, app_id } = getResolvedAuth(params, config);
+      const auth = getResolvedAuth(params, config);
+      const { auth_token, app_id } = auth;
       if (!app_id) {
-        throw new Error('Branch App ID is not configured. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch App ID is not configured. Please provide it in the tool parameters or server configuration.');
       }
       if (!auth_token) {
-        throw new Error('Branch Auth Token is not configured. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Auth Token is not configured. Please provide it in the tool parameters or server configuration.');
       }
+      const url = await resolveLinkReference(params.url, client, auth);
+      recordAuditDetails({ target: { url } });
 
-      const url = `${getBranchBaseUrl(config)}/v1/url`;
       try {
-        const response = await axios.delete(url, {
-          params: { url: params.url, app_id },
-          headers: {
-            'Access-Token': auth_token,
-            'User-Agent': MCP_USER_AGENT
-          }
+        const response = await client.delete('/v1/url', {
+          params: { url, app_id },
+          accessToken: auth_token
         });
+        recordAuditDetails({ after: response.data });
         return { content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }] };
       } catch (error) {
         handleApiError(error);
       }
     }
   );
-}
\ No newline at end of file
+
+  // Bulk Update Deep Link URLs
+  server.registerTool(
+    'branch_bulk_update_deep_links',
+    {
+      description: 'Update many Branch deep links in one call. Each link is read, its fields are merged with the given ones, and it is written back. Links are processed independently, a few at a time: the result lists for each link whether it succeeded, failed (with the reason) or was skipped (duplicates, links that cannot be updated, and links the update would not change), and the call only fails if every attempted link failed.',
+      inputSchema: bulkUpdateDeepLinksSchema.shape,
+      outputSchema: bulkResultOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: z.infer<typeof bulkUpdateDeepLinksSchema>, extra: ToolExtra) => {
+      const auth = getResolvedAuth(params, config);
+      const { branch_key, branch_secret } = auth;
+      if (!branch_key) {
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+      }
+      if (!branch_secret) {
+        throw new CredentialsError('Branch Secret is not configured and is required for this operation. Please provide it in the tool parameters or server configuration.');
+      }
+      const isDuplicate = skipDuplicates();
+      const results = await runBulk(params.links, (link) => link.url, async ({ url: reference, ...patch }, index) => {
+        const url = await resolveLinkReference(reference, client, auth);
+        const duplicate = isDuplicate(url, index);
+        if (duplicate) {
+          return duplicate;
+        }
+        if (url.includes('bnc.lt/c/') || url.includes('bnc.lt/d/')) {
+          return { status: 'skipped', link: url, reason: 'Links with the structure bnc.lt/c/ or bnc.lt/d/ cannot be updated.' };
+        }
+
+        // Read-then-write, as in branch_update_quick_link, so that the fields not given are kept.
+        const existing = (await client.get<BranchResponseData>('/v1/url', { params: { url, branch_key } })).data;
+        recordDryRunBefore(existing);
+        const existingData = typeof existing.data === 'object' && existing.data !== null ? existing.data : {};
+        const changes = { ...patch, ...(patch.data ? { data: { ...existingData, ...patch.data } } : {}) };
+        if (diffValues(existing, changes).length === 0) {
+          return { status: 'skipped', link: url, reason: 'The link already has these values.' };
+        }
+        const payload: Record<string, unknown> = { ...existing, ...changes, branch_key, branch_secret };
+        for (const key of [...immutableLinkFields, 'url']) {
+          delete payload[key];
+        }
+        await client.put('/v1/url', payload, { params: { url } });
+        return { status: 'succeeded', link: url };
+      }, { concurrency: params.concurrency, signal: extra.signal });
+
+      const result = createBulkResult(results);
+      recordAuditDetails({ target: { urls: results.map((item) => item.link) }, after: result.structuredContent });
+      return result;
+    }
+  );
+
+  // Bulk Delete Deep Link URLs
+  server.registerTool(
+    'branch_bulk_delete_deep_links',
+    {
+      description: 'Delete many Branch deep links in one call. Links are processed independently, a few at a time: the result lists for each link whether it succeeded, failed (with the reason) or was skipped as a duplicate, and the call only fails if every attempted link failed.',
+      inputSchema: bulkDeleteDeepLinksSchema.shape,
+      outputSchema: bulkResultOutputShape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: z.infer<typeof bulkDeleteDeepLinksSchema>, extra: ToolExtra) => {
+      const auth = getResolvedAuth(params, config);
+      const { auth_token, app_id } = auth;
+      if (!app_id) {
+        throw new CredentialsError('Branch App ID is not configured. Please provide it in the tool parameters or server configuration.');
+      }
+      if (!auth_token) {
+        throw new CredentialsError('Branch Auth Token is not configured. Please provide it in the tool parameters or server configuration.');
+      }
+      const isDuplicate = skipDuplicates();
+      const results = await runBulk(params.links, (link) => link, async (reference, index) => {
+        const url = await resolveLinkReference(reference, client, auth);
+        const duplicate = isDuplicate(url, index);
+        if (duplicate) {
+          return duplicate;
+        }
+        await client.delete('/v1/url', { params: { url, app_id }, accessToken: auth_token });
+        return { status: 'succeeded', link: url };
+      }, { concurrency: params.concurrency, signal: extra.signal });
+
+      const result = createBulkResult(results);
+      recordAuditDetails({ target: { urls: results.map((item) => item.link) }, after: result.structuredContent });
+      return result;
+    }
+  );
+}
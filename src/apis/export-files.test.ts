@@ -0,0 +1,158 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { gzipSync } from 'node:zlib';
+import { registerExportFileTools } from './export-files.js';
+import type { BranchMcpConfig } from '../config.js';
+import { ExportDataStore } from '../utils/export-files.js';
+import { ExportJobManager } from '../utils/export-jobs.js';
+
+const mockRegisterTool = jest.fn();
+const mockRegisterResource = jest.fn();
+const mockServer = { registerTool: mockRegisterTool, registerResource: mockRegisterResource } as unknown as McpServer;
+
+describe('Export File Tools', () => {
+  let mock: MockAdapter;
+  let jobs: ExportJobManager;
+  let datasets: ExportDataStore;
+  const config: BranchMcpConfig = { branch_url: 'api2.branch.io' };
+  const fileUrl = 'https://branch-exports-web.s3.us-west-1.amazonaws.com/export.csv.gz?X-Amz-Signature=abc';
+  const sendNotification = jest.fn(async () => undefined);
+  const extra = { signal: new AbortController().signal, _meta: { progressToken: 'token-1' }, sendNotification };
+  const download = (params: Record<string, unknown>) => {
+    const tool = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_download_export')![2] as (params: Record<string, unknown>, toolExtra: object) => Promise<CallToolResult>;
+    return tool(params, extra);
+  };
+  const queryExport = (params: Record<string, unknown>) => {
+    const tool = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_query_export')![2] as (params: Record<string, unknown>, toolExtra: object) => Promise<CallToolResult>;
+    return tool(params, extra);
+  };
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mockRegisterTool.mockClear();
+    mockRegisterResource.mockClear();
+    sendNotification.mockClear();
+    jobs = new ExportJobManager({ sleep: async () => undefined });
+    datasets = new ExportDataStore();
+    registerExportFileTools(mockServer, config, jobs, datasets);
+    mock.onGet(fileUrl).reply(200, gzipSync('channel,installs\nemail,3\nsms,4\n'));
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should download the files of a completed export job, with a summary and a preview', async () => {
+    jobs.setStatusReader('custom', async () => ({ status: 'complete', response_url: fileUrl }));
+    await jobs.attach('handle-1', { type: 'custom', params: { app_id: '123' }, apiKey: 'api_key' });
+
+    const result = await download({ job_id: 'handle-1', preview_rows: 1 });
+    expect(result.structuredContent).toEqual({
+      dataset: {
+        id: 'export-1',
+        uri: 'branch://exports/export-1',
+        job_id: 'handle-1',
+        urls: [fileUrl],
+        format: 'csv',
+        compression: 'gz',
+        bytes: 31,
+        row_count: 2,
+        columns: [
+          { name: 'channel', type: 'string', empty: 0, distinct: 2, example: 'email' },
+          { name: 'installs', type: 'integer', empty: 0, distinct: 2, example: '3' }
+        ]
+      },
+      preview: [{ channel: 'email', installs: '3' }]
+    });
+    expect((result.content[0] as { text: string }).text).toBe([
+      'Read 2 rows from the export file (CSV, gz). Every row is served by the resource branch://exports/export-1.',
+      '',
+      'Columns:',
+      '- channel (string, 2 distinct, 0 empty, e.g. "email")',
+      '- installs (integer, 2 distinct, 0 empty, e.g. "3")',
+      '',
+      'First 1 rows:',
+      'channel,installs\nemail,3'
+    ].join('\n'));
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'token-1', progress: 1, total: 1, message: 'Read 1 of 1 export files.' }
+    });
+  });
+
+  it('should download files by URL', async () => {
+    const result = await download({ urls: [fileUrl], format: 'csv', compression: 'gz' });
+    expect(result.structuredContent).toMatchObject({ dataset: { id: 'export-1', row_count: 2 }, preview: [{ channel: 'email' }, { channel: 'sms' }] });
+  });
+
+  it('should only download the files of completed jobs', async () => {
+    await expect(download({})).rejects.toThrow('Pass either the job_id of an export job or the urls of its files.');
+    await expect(download({ job_id: 'job-1' })).rejects.toThrow('There is no export job job-1 in this session.');
+
+    jobs.setStatusReader('aggregate', async () => ({ status: 'PENDING' }));
+    await jobs.attach('job-1', { type: 'aggregate', params: {}, apiKey: 'api_key' });
+    await expect(download({ job_id: 'job-1' })).rejects.toThrow('The export job job-1 is running, so its files cannot be downloaded. Use branch_wait_for_export to wait for it.');
+
+    jobs.setStatusReader('cohort', async () => ({ status: 'COMPLETED' }));
+    await jobs.attach('job-2', { type: 'cohort', params: {}, apiKey: 'api_key' });
+    await expect(download({ job_id: 'job-2' })).rejects.toThrow('Branch returned no download URL for the export job job-2.');
+  });
+
+  it('should only download files from the configured hosts', async () => {
+    mockRegisterTool.mockClear();
+    registerExportFileTools(mockServer, { ...config, download_hosts: ['exports.example.com'] }, jobs, datasets);
+    await expect(download({ urls: [fileUrl] })).rejects.toThrow('Export files cannot be downloaded from branch-exports-web.s3.us-west-1.amazonaws.com. The server downloads them from: exports.example.com.');
+  });
+
+  it('should query a downloaded export', async () => {
+    await download({ urls: [fileUrl] });
+    const result = await queryExport({ dataset_id: 'export-1', filters: [{ column: 'installs', op: 'gt', value: 3 }], aggregates: [{ fn: 'sum', column: 'installs' }] });
+    expect(result.structuredContent).toEqual({ dataset_id: 'export-1', columns: ['sum_installs'], rows: [[4]], total: 1, truncated: false });
+    expect((result.content[0] as { text: string }).text).toBe('1 rows, from export-1.\n\nsum_installs\n4');
+
+    const truncated = await queryExport({ dataset_id: 'export-1', sort: [{ column: 'installs', direction: 'desc' }], limit: 1 });
+    expect(truncated.structuredContent).toEqual({ dataset_id: 'export-1', columns: ['channel', 'installs'], rows: [['sms', '4']], total: 2, truncated: true });
+    expect((truncated.content[0] as { text: string }).text).toBe('The first 1 of 2 rows of the result, from export-1. Raise the limit or narrow the query to see more.\n\nchannel,installs\nsms,4');
+
+    await expect(queryExport({ dataset_id: 'export-2' })).rejects.toThrow('There is no downloaded export export-2 in this session.');
+    await expect(queryExport({})).rejects.toThrow('Pass either the dataset_id of a downloaded export or the job_id of an export job.');
+  });
+
+  it('should query an export job, downloading its files once', async () => {
+    jobs.setStatusReader('custom', async () => ({ status: 'complete', response_url: fileUrl }));
+    await jobs.attach('handle-1', { type: 'custom', params: { app_id: '123' }, apiKey: 'api_key' });
+
+    const first = await queryExport({ job_id: 'handle-1', group_by: ['channel'], sort: [{ column: 'channel' }] });
+    expect(first.structuredContent).toEqual({ dataset_id: 'export-1', columns: ['channel', 'count'], rows: [['email', 1], ['sms', 1]], total: 2, truncated: false });
+    const second = await queryExport({ job_id: 'handle-1' });
+    expect(second.structuredContent).toMatchObject({ dataset_id: 'export-1', total: 2 });
+    expect(mock.history.get).toHaveLength(1);
+  });
+
+  it('should serve the rows of the downloaded exports as a resource', async () => {
+    await download({ urls: [fileUrl] });
+    const [name, template, metadata, read] = mockRegisterResource.mock.calls[0] as [string, ResourceTemplate, object, (uri: URL, variables: Record<string, string>) => Promise<{ contents: { text: string }[] }>];
+
+    expect([name, template.uriTemplate.toString(), metadata]).toEqual(['export_data', 'branch://exports/{id}', expect.objectContaining({ mimeType: 'application/x-ndjson' })]);
+    const listed = await template.listCallback!({} as Parameters<NonNullable<ResourceTemplate['listCallback']>>[0]);
+    expect(listed.resources).toEqual([expect.objectContaining({ uri: 'branch://exports/export-1', name: 'export-1', description: expect.stringMatching(/^2 rows of a downloaded export/) })]);
+
+    const { contents } = await read(new URL('branch://exports/export-1'), { id: 'export-1' });
+    expect(contents[0].text).toBe('{"channel":"email","installs":"3"}\n{"channel":"sms","installs":"4"}');
+    await expect(read(new URL('branch://exports/export-2'), { id: 'export-2' })).rejects.toThrow('There is no downloaded export export-2 in this session.');
+  });
+
+  it('should cut the rows of large exports short in the resource', async () => {
+    const cell = 'x'.repeat(4 * 1024 * 1024);
+    const rows = [{ cell }, { cell }, { cell }];
+    const dataset = datasets.add({ urls: [], format: 'csv', compression: 'none', columns: [], rows, bytes: 3 * cell.length });
+    const read = mockRegisterResource.mock.calls[0][3] as (uri: URL, variables: Record<string, string>) => Promise<{ contents: { text: string; _meta?: object }[] }>;
+
+    const { contents } = await read(new URL(dataset.uri), { id: dataset.id });
+    expect(contents[0].text.split('\n')).toHaveLength(2);
+    expect(contents[0]._meta).toEqual({ rows: 2, total_rows: 3, truncated: true });
+  });
+});
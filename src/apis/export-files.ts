@@ -0,0 +1,259 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { BranchMcpConfig } from '../config.js';
+import logger from '../utils/logger.js';
+import {
+  DEFAULT_DOWNLOAD_HOSTS,
+  EXPORT_COMPRESSIONS,
+  EXPORT_DATA_RESOURCE_URI,
+  EXPORT_FILE_FORMATS,
+  getExportFileUrls,
+  MAX_EXPORT_RESOURCE_BYTES,
+  readExportFiles
+} from '../utils/export-files.js';
+import type { ExportColumn, ExportCompression, ExportDataset, ExportDataStore, ExportFileFormat } from '../utils/export-files.js';
+import type { ExportJobManager } from '../utils/export-jobs.js';
+import { AGGREGATE_FUNCTIONS, DEFAULT_QUERY_LIMIT, FILTER_OPERATORS, MAX_QUERY_LIMIT, runExportQuery, TIME_BUCKETS } from '../utils/export-query.js';
+import { toCsv } from '../utils/link-import.js';
+import { createProgressReporter } from '../utils/progress.js';
+import type { ToolExtra } from '../utils/tool-middleware.js';
+
+/**
+ * The default number of rows `branch_download_export` returns as a preview.
+ */
+const DEFAULT_PREVIEW_ROWS = 10;
+
+/**
+ * The largest number of rows `branch_download_export` returns as a preview.
+ */
+const MAX_PREVIEW_ROWS = 100;
+
+const exportColumnSchema = z.object({
+  name: z.string(),
+  type: z.enum(['integer', 'number', 'boolean', 'timestamp', 'string', 'object', 'empty']),
+  empty: z.number(),
+  distinct: z.number(),
+  example: z.unknown().optional()
+});
+
+/**
+ * Describes a column in a line: its name, type, and how many values are empty or different.
+ */
+const describeColumn = (column: ExportColumn) => {
+  const example = column.example === undefined ? '' : `, e.g. ${JSON.stringify(column.example)}`;
+  return `- ${column.name} (${column.type}, ${column.distinct} distinct, ${column.empty} empty${example})`;
+};
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * Registers the tools that download the files of completed exports and query their rows, and the
+ * resource that serves their rows.
+ * @param server The MCP server instance.
+ * @param config The server configuration, with the hosts files may be downloaded from.
+ * @param jobs The manager that tracks the requested exports.
+ * @param datasets The store the downloaded exports are kept in.
+ */
+export function registerExportFileTools(server: McpServer, config: BranchMcpConfig, jobs: ExportJobManager, datasets: ExportDataStore) {
+  /**
+   * Downloads and reads the files of an export job of the session, or at the given URLs, and keeps them in the store.
+   */
+  const download = async (
+    source: { job_id?: string; urls?: string[]; format?: ExportFileFormat; compression?: ExportCompression },
+    extra: ToolExtra
+  ): Promise<ExportDataset> => {
+    const { job_id, format, compression } = source;
+    let urls = source.urls ?? [];
+    if (job_id) {
+      const job = await jobs.get(job_id);
+      if (job.state !== 'completed') {
+        throw new Error(`The export job ${job_id} is ${job.state}, so its files cannot be downloaded.${job.state === 'running' ? ' Use branch_wait_for_export to wait for it.' : ''}`);
+      }
+      urls = getExportFileUrls(job.result ?? {});
+      if (urls.length === 0) {
+        throw new Error(`Branch returned no download URL for the export job ${job_id}.`);
+      }
+    }
+
+    const report = createProgressReporter(extra);
+    const data = await readExportFiles(urls, {
+      hosts: config.download_hosts ?? DEFAULT_DOWNLOAD_HOSTS,
+      format,
+      compression,
+      signal: extra.signal,
+      onFile: (done) => report(done, urls.length, `Read ${done} of ${urls.length} export files.`)
+    });
+    const dataset = datasets.add(data, job_id);
+    logger.info('Downloaded export', { datasetId: dataset.id, jobId: job_id, files: urls.length, rows: data.rows.length, bytes: data.bytes });
+    return dataset;
+  };
+
+  const downloadSchema = z.object({
+    job_id: z.string().min(1).optional().describe('The ID of a completed export job of this session, whose files are downloaded: the job_id or, for custom exports, the request_handle.'),
+    urls: z.array(z.string().url()).min(1).optional().describe('The URLs of the files to download, as returned by the status tools, if not downloading the files of a job.'),
+    format: z.enum(EXPORT_FILE_FORMATS).optional().describe('The format of the files. Worked out from their URLs or content if not given.'),
+    compression: z.enum(EXPORT_COMPRESSIONS).optional().describe('The compression of the files, as requested with response_format_compression. Worked out from their content if not given.'),
+    preview_rows: z.number().int().min(0).max(MAX_PREVIEW_ROWS).optional().describe(`The number of rows to return as a preview. Defaults to ${DEFAULT_PREVIEW_ROWS}.`)
+  });
+
+  server.registerTool(
+    'branch_download_export',
+    {
+      description: 'Download the files of a completed aggregate, cohort, custom or cross-event export, decompress them (gzip or snappy) and read them (CSV, JSON or JSONL). Pass the job_id of an export job of this session, or the download URLs the status tools returned. Returns the number of rows, a summary of every column (its type, and how many values are empty or different) and a preview of the first rows. Every row is served as JSON lines by the resource in `dataset.uri`.',
+      inputSchema: downloadSchema.shape,
+      outputSchema: {
+        dataset: z.object({
+          id: z.string(),
+          uri: z.string(),
+          job_id: z.string().optional(),
+          urls: z.array(z.string()),
+          format: z.enum(EXPORT_FILE_FORMATS),
+          compression: z.enum(EXPORT_COMPRESSIONS),
+          bytes: z.number(),
+          row_count: z.number(),
+          columns: z.array(exportColumnSchema)
+        }),
+        preview: z.array(z.record(z.unknown()))
+      },
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: z.infer<typeof downloadSchema>, extra: ToolExtra): Promise<CallToolResult> => {
+      logger.debug('Executing tool: branch_download_export with params:', params);
+      const { job_id, format, compression } = params;
+      if (!job_id === !params.urls) {
+        throw new Error('Pass either the job_id of an export job or the urls of its files.');
+      }
+      const { rows, ...dataset } = await download({ job_id, urls: params.urls, format, compression }, extra);
+      const preview = rows.slice(0, params.preview_rows ?? DEFAULT_PREVIEW_ROWS);
+
+      const columnNames = dataset.columns.map((column) => column.name);
+      const summary = [
+        `Read ${rows.length} rows from ${dataset.urls.length === 1 ? 'the export file' : `${dataset.urls.length} export files`} (${dataset.format.toUpperCase()}${dataset.compression === 'none' ? '' : `, ${dataset.compression}`}). Every row is served by the resource ${dataset.uri}.`,
+        '',
+        'Columns:',
+        ...dataset.columns.map(describeColumn),
+        ...(preview.length > 0 ? ['', `First ${preview.length} rows:`, toCsv([columnNames, ...preview.map((row) => columnNames.map((column) => row[column]))])] : [])
+      ];
+      return {
+        structuredContent: {
+          dataset: {
+            id: dataset.id,
+            uri: dataset.uri,
+            ...(dataset.job_id ? { job_id: dataset.job_id } : {}),
+            urls: dataset.urls,
+            format: dataset.format,
+            compression: dataset.compression,
+            bytes: dataset.bytes,
+            row_count: rows.length,
+            columns: dataset.columns
+          },
+          preview
+        },
+        content: [{ type: 'text', text: summary.join('\n') }]
+      };
+    }
+  );
+
+  const querySchema = z.object({
+    dataset_id: z.string().min(1).optional().describe('The ID of an export downloaded in this session with branch_download_export, such as export-1.'),
+    job_id: z.string().min(1).optional().describe('The ID of a completed export job of this session, instead of dataset_id. Its files are downloaded if they have not been yet.'),
+    filters: z.array(z.object({
+      column: z.string(),
+      op: z.enum(FILTER_OPERATORS),
+      value: z.union([filterValueSchema, z.array(filterValueSchema)]).optional()
+        .describe('The value to compare with: a list for in and not_in, none for is_empty and not_empty. Timestamps can be compared with ISO-8601 dates.')
+    })).optional().describe('Conditions every row must match.'),
+    group_by: z.array(z.union([z.string(), z.object({ column: z.string(), bucket: z.enum(TIME_BUCKETS) })])).optional()
+      .describe('Columns to group the rows by. Group a timestamp by hour, day, week or month with {"column": "timestamp", "bucket": "day"}.'),
+    aggregates: z.array(z.object({
+      fn: z.enum(AGGREGATE_FUNCTIONS),
+      column: z.string().optional().describe('The column to aggregate. count without a column counts rows.'),
+      as: z.string().optional().describe('The name of the result column. Defaults to the function and the column, such as sum_revenue.')
+    })).optional().describe('Values to compute for every group. Defaults to a count of rows when grouping.'),
+    select: z.array(z.string()).optional().describe('The columns to return when not grouping or aggregating. Defaults to every column.'),
+    sort: z.array(z.object({ column: z.string(), direction: z.enum(['asc', 'desc']).optional() })).optional()
+      .describe('Result columns to sort by, such as an aggregate. Empty values come last.'),
+    limit: z.number().int().min(1).max(MAX_QUERY_LIMIT).optional().describe(`The number of rows to return. Defaults to ${DEFAULT_QUERY_LIMIT}.`)
+  });
+
+  server.registerTool(
+    'branch_query_export',
+    {
+      description: 'Answer questions from the rows of a downloaded export, such as installs by channel for iOS last week, without requesting another export. Filter the rows, group them (timestamps by hour, day, week or month), aggregate every group (count, count_distinct, sum, avg, min, max), sort and limit the result, which is returned as a compact table. Without group_by or aggregates, the matching rows are returned. Works on the exports downloaded with branch_download_export, including daily exports downloaded by URL, or on a completed export job, which is downloaded first.',
+      inputSchema: querySchema.shape,
+      outputSchema: {
+        dataset_id: z.string(),
+        columns: z.array(z.string()),
+        rows: z.array(z.array(z.unknown())),
+        total: z.number(),
+        truncated: z.boolean()
+      },
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: z.infer<typeof querySchema>, extra: ToolExtra): Promise<CallToolResult> => {
+      logger.debug('Executing tool: branch_query_export with params:', params);
+      const { dataset_id, job_id, ...query } = params;
+      if (!dataset_id === !job_id) {
+        throw new Error('Pass either the dataset_id of a downloaded export or the job_id of an export job.');
+      }
+      const dataset = dataset_id ? datasets.get(dataset_id) : datasets.findByJob(job_id!) ?? await download({ job_id }, extra);
+      const result = runExportQuery(dataset.columns, dataset.rows, query);
+
+      const summary = result.truncated
+        ? `The first ${result.rows.length} of ${result.total} rows of the result, from ${dataset.id}. Raise the limit or narrow the query to see more.`
+        : `${result.total} rows, from ${dataset.id}.`;
+      return {
+        structuredContent: { dataset_id: dataset.id, ...result },
+        content: [{ type: 'text', text: `${summary}\n\n${toCsv([result.columns, ...result.rows])}` }]
+      };
+    }
+  );
+
+  server.registerResource(
+    'export_data',
+    new ResourceTemplate(EXPORT_DATA_RESOURCE_URI, {
+      list: async () => ({
+        resources: datasets.list().map((dataset) => ({
+          uri: dataset.uri,
+          name: dataset.id,
+          description: `${dataset.rows.length} rows of ${dataset.job_id ? `the export job ${dataset.job_id}` : 'a downloaded export'}, downloaded at ${dataset.created_at}.`,
+          mimeType: 'application/x-ndjson'
+        }))
+      })
+    }),
+    {
+      title: 'Downloaded export',
+      description: `The rows of an export downloaded in this session with branch_download_export, one JSON object per line, up to ${MAX_EXPORT_RESOURCE_BYTES / 1024 / 1024} MB. Use branch_query_export to read larger exports.`,
+      mimeType: 'application/x-ndjson'
+    },
+    async (uri, variables) => {
+      const dataset = datasets.get(String(variables.id));
+      const lines: string[] = [];
+      let bytes = 0;
+      for (const row of dataset.rows) {
+        const line = JSON.stringify(row);
+        bytes += Buffer.byteLength(line) + 1;
+        if (bytes > MAX_EXPORT_RESOURCE_BYTES) {
+          break;
+        }
+        lines.push(line);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/x-ndjson',
+          text: lines.join('\n'),
+          ...(lines.length < dataset.rows.length ? { _meta: { rows: lines.length, total_rows: dataset.rows.length, truncated: true } } : {})
+        }]
+      };
+    }
+  );
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { registerExportJobTools } from './export-jobs.js';
+import type { BranchMcpConfig } from '../config.js';
+import { runWithRequestContext } from '../utils/context.js';
+import { CredentialsError } from '../utils/errors.js';
+import { ExportJobManager } from '../utils/export-jobs.js';
+import type { ExportStatusReader } from '../utils/export-jobs.js';
+
+const mockRegisterTool = jest.fn();
+const mockServer = { registerTool: mockRegisterTool } as unknown as McpServer;
+const config: BranchMcpConfig = { branch_url: 'api2.branch.io', api_key: 'api_app_123', app_id: '123' };
+
+describe('Export Job Tools', () => {
+  let jobs: ExportJobManager;
+  const sendNotification = jest.fn(async () => undefined);
+  const extra = { signal: new AbortController().signal, _meta: { progressToken: 'token-1' }, sendNotification };
+  const getTool = (name: string) => mockRegisterTool.mock.calls.find((call) => call[0] === name)![2] as (params: Record<string, unknown>, toolExtra?: object) => Promise<CallToolResult>;
+
+  const track = (type: 'aggregate' | 'cohort' | 'custom' | 'cross_event', id: string, read: () => Promise<Record<string, unknown>>) => {
+    jobs.setStatusReader(type, () => read());
+    return jobs.track(type, id, { app_id: '123' }, 'api_app_123');
+  };
+
+  beforeEach(() => {
+    mockRegisterTool.mockClear();
+    sendNotification.mockClear();
+    jobs = new ExportJobManager({ sleep: async () => undefined });
+    registerExportJobTools(mockServer, config, jobs);
+  });
+
+  it('should register the export job tools', () => {
+    expect(mockRegisterTool.mock.calls.map((call) => call[0])).toEqual([
+      'branch_wait_for_export',
+      'branch_list_export_jobs',
+      'branch_get_export_job',
+      'branch_cancel_export_job',
+      'branch_attach_export_job'
+    ]);
+  });
+
+  describe('branch_wait_for_export', () => {
+    it('should wait for the export to complete, reporting progress', async () => {
+      const read = jest.fn<() => Promise<Record<string, unknown>>>()
+        .mockResolvedValueOnce({ status: 'PENDING' })
+        .mockResolvedValue({ status: 'COMPLETED', url: 'https://example.com/export.csv' });
+      await track('aggregate', 'job-1', read);
+      const result = await getTool('branch_wait_for_export')({ job_id: 'job-1' }, extra);
+
+      expect(result.structuredContent).toMatchObject({ job: { id: 'job-1', state: 'completed', result: { url: 'https://example.com/export.csv' } }, timed_out: false });
+      expect((result.content[0] as { text: string }).text).toMatch(/^The aggregate export job-1 is completed \(Branch status: COMPLETED\)\./);
+      expect(sendNotification).toHaveBeenCalledTimes(2);
+      expect(sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'token-1', progress: 0, total: 300, message: 'The aggregate export job-1 is running (Branch status: PENDING).' }
+      });
+    });
+
+    it('should tell the agent to wait again when the timeout elapses', async () => {
+      await track('cross_event', 'job-1', async () => ({ status: 'PENDING' }));
+      const result = await getTool('branch_wait_for_export')({ job_id: 'job-1', timeout_seconds: 0 }, extra);
+
+      expect(result.structuredContent).toMatchObject({ job: { state: 'running' }, timed_out: true });
+      expect((result.content[0] as { text: string }).text).toMatch(/^The cross-event export job-1 is still running after 0 seconds\. Call branch_wait_for_export again/);
+    });
+
+    it('should fail for a job that is not in the session', async () => {
+      await expect(getTool('branch_wait_for_export')({ job_id: 'job-1' }, extra)).rejects.toThrow('There is no export job job-1 in this session.');
+    });
+  });
+
+  describe('branch_list_export_jobs', () => {
+    it('should list the jobs of the session', async () => {
+      expect((await getTool('branch_list_export_jobs')({})).content).toEqual([{ type: 'text', text: 'No export jobs have been requested in this session.' }]);
+
+      await track('custom', 'handle-1', async () => ({}));
+      const result = await getTool('branch_list_export_jobs')({});
+      expect(result.structuredContent).toMatchObject({ jobs: [{ id: 'handle-1', type: 'custom', state: 'running' }] });
+      expect(result.content).toEqual([{ type: 'text', text: '- The custom export handle-1 is running.' }]);
+    });
+
+    it('should list the jobs of every session', async () => {
+      await runWithRequestContext({ sessionId: 'session-1' }, () => track('aggregate', 'job-1', async () => ({})));
+      const result = await runWithRequestContext({ sessionId: 'session-2' }, () => getTool('branch_list_export_jobs')({ all_sessions: true }));
+
+      expect(result.structuredContent).toMatchObject({ jobs: [{ id: 'job-1', session_id: 'session-1' }] });
+      expect(result.content).toEqual([{ type: 'text', text: '- The aggregate export job-1 is running. It belongs to another session.' }]);
+    });
+
+    it('should only list the jobs of other sessions for the app or organization of the session', async () => {
+      await runWithRequestContext({ sessionId: 'session-1' }, () => track('aggregate', 'job-1', async () => ({})));
+      const other = await runWithRequestContext({ sessionId: 'session-2', credentials: { app_id: '999' } }, () => getTool('branch_list_export_jobs')({ all_sessions: true }));
+      expect(other.structuredContent).toEqual({ jobs: [] });
+
+      mockRegisterTool.mockClear();
+      registerExportJobTools(mockServer, { branch_url: 'api2.branch.io' }, jobs);
+      await expect(runWithRequestContext({ sessionId: 'session-2' }, () => getTool('branch_list_export_jobs')({ all_sessions: true })))
+        .rejects.toThrow('Branch App ID or Organization ID is not configured, so the jobs of other sessions cannot be listed.');
+    });
+  });
+
+  describe('branch_get_export_job', () => {
+    it('should return a job of the session from the registry', async () => {
+      await track('aggregate', 'job-1', async () => ({}));
+      const result = await getTool('branch_get_export_job')({ job_id: 'job-1' });
+
+      expect(result.structuredContent).toMatchObject({ job: { id: 'job-1', type: 'aggregate', state: 'running', params: { app_id: '123' } } });
+      expect((result.content[0] as { text: string }).text).toMatch(/^The aggregate export job-1 is running\./);
+    });
+  });
+
+  describe('branch_cancel_export_job', () => {
+    it('should cancel a job of the session', async () => {
+      await track('cohort', 'job-1', async () => ({}));
+      const result = await getTool('branch_cancel_export_job')({ job_id: 'job-1' });
+
+      expect(result.structuredContent).toMatchObject({ job: { id: 'job-1', state: 'cancelled' } });
+      expect((await jobs.list())[0].state).toBe('cancelled');
+    });
+
+    it('should be annotated as changing state, and not cancel a job during a dry run', async () => {
+      const [, { annotations }] = mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_cancel_export_job') as [string, { annotations: object }];
+      expect(annotations).toMatchObject({ readOnlyHint: false, destructiveHint: false });
+
+      await track('cohort', 'job-1', async () => ({}));
+      const result = await runWithRequestContext({ dryRun: {} }, () => getTool('branch_cancel_export_job')({ job_id: 'job-1' }));
+      expect((result.content[0] as { text: string }).text).toMatch(/^Dry run: the job was not cancelled\. The cohort export job-1 is running\./);
+      expect((await jobs.list())[0].state).toBe('running');
+    });
+  });
+
+  describe('branch_attach_export_job', () => {
+    it('should attach to a job with the configured credentials', async () => {
+      const read = jest.fn<ExportStatusReader>(async () => ({ status: 'COMPLETED', url: 'https://example.com/export.csv' }));
+      jobs.setStatusReader('cross_event', read);
+      const result = await getTool('branch_attach_export_job')({ job_id: 'job-1', type: 'cross_event' });
+
+      expect(read).toHaveBeenCalledWith('job-1', { app_id: '123' }, 'api_app_123');
+      expect(result.structuredContent).toMatchObject({ job: { id: 'job-1', type: 'cross_event', state: 'completed', result: { url: 'https://example.com/export.csv' } } });
+      expect((result.content[0] as { text: string }).text).toMatch(/^The cross-event export job-1 is completed \(Branch status: COMPLETED\)\./);
+    });
+
+    it('should require an API key', async () => {
+      mockRegisterTool.mockClear();
+      registerExportJobTools(mockServer, { branch_url: 'api2.branch.io' }, jobs);
+      await expect(getTool('branch_attach_export_job')({ job_id: 'job-1', type: 'cohort', app_id: '123' })).rejects.toThrow(CredentialsError);
+    });
+  });
+});
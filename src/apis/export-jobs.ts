@@ -0,0 +1,206 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { BranchMcpConfig } from '../config.js';
+import { apiKeySchema, appIdOrOrgIdInput } from '../schemas/auth.js';
+import { getRequestApiKey, getResolvedAppOrOrgId, getResolvedAuth } from '../utils/auth.js';
+import { getRequestContext } from '../utils/context.js';
+import { isDryRun } from '../utils/dry-run.js';
+import { CredentialsError } from '../utils/errors.js';
+import logger from '../utils/logger.js';
+import { EXPORT_TYPES, getExportScope } from '../utils/export-jobs.js';
+import type { ExportJob, ExportJobManager } from '../utils/export-jobs.js';
+import { createProgressReporter } from '../utils/progress.js';
+import type { ToolExtra } from '../utils/tool-middleware.js';
+
+/**
+ * The default time, in seconds, `branch_wait_for_export` waits for a job (5 minutes).
+ */
+const DEFAULT_WAIT_SECONDS = 5 * 60;
+
+/**
+ * The longest time, in seconds, `branch_wait_for_export` waits for a job (30 minutes).
+ */
+const MAX_WAIT_SECONDS = 30 * 60;
+
+const exportJobSchema = z.object({
+  id: z.string(),
+  type: z.enum(EXPORT_TYPES),
+  state: z.enum(['running', 'completed', 'failed', 'cancelled']),
+  params: z.record(z.unknown()),
+  status: z.string().optional(),
+  result: z.record(z.unknown()).optional(),
+  error: z.string().optional(),
+  polls: z.number(),
+  session_id: z.string().optional(),
+  attached_session_ids: z.array(z.string()).optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  expires_at: z.string()
+});
+
+const jobIdSchema = z.object({
+  job_id: z.string().min(1).describe('The ID of the export job: the job_id returned when the export was requested or, for custom exports, the request_handle.')
+});
+
+/**
+ * Describes a job in a sentence.
+ */
+const describeJob = (job: ExportJob) => {
+  const status = job.status ? ` (Branch status: ${job.status})` : '';
+  return `The ${job.type.replace('_', '-')} export ${job.id} is ${job.state}${status}${job.error ? `: ${job.error}` : ''}.`;
+};
+
+const toJobResult = (job: ExportJob, structuredContent: Record<string, unknown>, summary: string): CallToolResult => ({
+  structuredContent,
+  content: [{ type: 'text', text: `${summary}\n\n${JSON.stringify(job, null, 2)}` }]
+});
+
+/**
+ * Registers the tools that wait for, list, inspect, cancel and attach to export jobs.
+ * Aggregate, cohort, custom and cross-event exports are tracked when they are requested.
+ * @param server The MCP server instance.
+ * @param config The server configuration, with the default credentials.
+ * @param jobs The manager that tracks the requested exports.
+ */
+export function registerExportJobTools(server: McpServer, config: BranchMcpConfig, jobs: ExportJobManager) {
+  const waitSchema = jobIdSchema.extend({
+    timeout_seconds: z.number().int().min(0).max(MAX_WAIT_SECONDS).optional()
+      .describe(`How long to wait for the export, in seconds. Defaults to ${DEFAULT_WAIT_SECONDS}. If it is still running by then, call the tool again to keep waiting.`)
+  });
+
+  server.registerTool(
+    'branch_wait_for_export',
+    {
+      description: 'Wait for an aggregate, cohort, custom or cross-event export requested in this session to finish. The server polls the status of the export, less and less often, and returns once it has completed (with its download URL in `result`; use branch_download_export to read its files), has failed, or the timeout elapses. Progress is reported after every poll. Use this instead of calling the status tools repeatedly.',
+      inputSchema: waitSchema.shape,
+      outputSchema: { job: exportJobSchema, timed_out: z.boolean() },
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: z.infer<typeof waitSchema>, extra: ToolExtra) => {
+      logger.debug('Executing tool: branch_wait_for_export with params:', params);
+      const timeoutSeconds = params.timeout_seconds ?? DEFAULT_WAIT_SECONDS;
+      const report = createProgressReporter(extra);
+      const startedAt = Date.now();
+      const { job, timedOut } = await jobs.wait(params.job_id, {
+        timeoutMs: timeoutSeconds * 1000,
+        signal: extra.signal,
+        onPoll: (polled) => report(Math.min(Math.round((Date.now() - startedAt) / 1000), timeoutSeconds), timeoutSeconds, describeJob(polled))
+      });
+      const summary = timedOut
+        ? `The ${job.type.replace('_', '-')} export ${job.id} is still running after ${timeoutSeconds} seconds. Call branch_wait_for_export again to keep waiting.`
+        : describeJob(job);
+      return toJobResult(job, { job, timed_out: timedOut }, summary);
+    }
+  );
+
+  const listSchema = z.object({
+    all_sessions: z.boolean().optional().describe('Whether to also list the jobs other sessions requested for the app or organization of the credentials of this session. Their download URLs are left out.')
+  });
+
+  const attachSchema = jobIdSchema.extend({
+    type: z.enum(EXPORT_TYPES).optional().describe('The type of the export. Only needed for jobs the registry does not know.')
+  }).merge(apiKeySchema).merge(appIdOrOrgIdInput);
+
+  server.registerTool(
+    'branch_list_export_jobs',
+    {
+      description: 'List the export jobs requested in this session, the most recent first, with the state each was last seen in. Jobs are kept in the registry, across server restarts if it is kept in a file, until they expire. Set all_sessions to also list the jobs other sessions requested for the same app or organization, which can be attached to with branch_attach_export_job.',
+      inputSchema: listSchema.shape,
+      outputSchema: { jobs: z.array(exportJobSchema) },
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof listSchema>) => {
+      logger.debug('Executing tool: branch_list_export_jobs with params:', params);
+      let scope: { app_id?: string; organization_id?: string } | undefined;
+      if (params.all_sessions) {
+        // Only the credentials of the session count: an App ID passed to a tool proves nothing.
+        const { app_id, organization_id } = getResolvedAuth({}, config);
+        if (!app_id && !organization_id) {
+          throw new CredentialsError('Branch App ID or Organization ID is not configured, so the jobs of other sessions cannot be listed. Please provide them in the session or server configuration.');
+        }
+        scope = { app_id, organization_id };
+      }
+      const list = await jobs.list(scope);
+      const lines = list.map((job) => `- ${describeJob(job)}${job.session_id === getRequestContext()?.sessionId ? '' : ' It belongs to another session.'}`);
+      return {
+        structuredContent: { jobs: list },
+        content: [{ type: 'text', text: list.length > 0 ? lines.join('\n') : 'No export jobs have been requested in this session.' }]
+      };
+    }
+  );
+
+  server.registerTool(
+    'branch_get_export_job',
+    {
+      description: 'Get an export job of this session from the registry: the parameters it was requested with, when it was requested and expires, and the status it was last seen in, with its download URL in `result` once it has completed. The status is not read again; use branch_wait_for_export for that.',
+      inputSchema: jobIdSchema.shape,
+      outputSchema: { job: exportJobSchema },
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof jobIdSchema>) => {
+      logger.debug('Executing tool: branch_get_export_job with params:', params);
+      const job = await jobs.get(params.job_id);
+      return toJobResult(job, { job }, describeJob(job));
+    }
+  );
+
+  // Cancelling changes nothing in Branch, which cannot cancel an export, but it changes the job for
+  // every session that shares it, and is undone by attaching to the job again.
+  server.registerTool(
+    'branch_cancel_export_job',
+    {
+      description: 'Cancel an export job requested in this session. Branch has no way to cancel an export, so the server stops polling it and any call waiting for it returns; the export itself may still complete.',
+      inputSchema: jobIdSchema.shape,
+      outputSchema: { job: exportJobSchema },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof jobIdSchema>) => {
+      logger.debug('Executing tool: branch_cancel_export_job with params:', params);
+      if (isDryRun()) {
+        // No request to Branch is planned, so the dry run reports the job as it is.
+        const job = await jobs.get(params.job_id);
+        return toJobResult(job, { job }, `Dry run: the job was not cancelled. ${describeJob(job)}`);
+      }
+      const job = await jobs.cancel(params.job_id);
+      return toJobResult(job, { job }, describeJob(job));
+    }
+  );
+
+  server.registerTool(
+    'branch_attach_export_job',
+    {
+      description: 'Attach this session to an export job, so that it can be waited for: a job requested before the server restarted, in another session, or outside this server. The status of the job is read with the given credentials, which must be allowed to read it. The job is shared with the session that requested it, and a cancelled job is resumed. Jobs the registry does not know need their type, and the app_id or organization_id they were requested for.',
+      inputSchema: attachSchema.shape,
+      outputSchema: { job: exportJobSchema },
+      annotations: {
+        readOnlyHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: z.infer<typeof attachSchema>) => {
+      logger.debug('Executing tool: branch_attach_export_job with params:', params);
+      const { job_id, type, api_key: _apiKey, ...rest } = params;
+      const api_key = getRequestApiKey(params, config);
+      if (!api_key) {
+        throw new CredentialsError('Branch API Key must be provided in tool parameters, with the session or in the server configuration.');
+      }
+      const job = await jobs.attach(job_id, { type, params: getExportScope(getResolvedAppOrOrgId(rest, config)), apiKey: api_key });
+      return toJobResult(job, { job }, describeJob(job));
+    }
+  );
+}
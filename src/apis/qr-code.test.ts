@@ -37,14 +37,14 @@ describe('QR Code API Tools', () => {
   it('should register qr code tools', () => {
     registerQrCodeTools(mockServer, config);
 
-    expect(mockTool).toHaveBeenCalledWith('branch_create_qr_code', expect.any(String), expect.any(Object), expect.any(Function));
+    expect(mockTool).toHaveBeenCalledWith('branch_create_qr_code', expect.any(String), expect.any(Object), expect.objectContaining({ readOnlyHint: false }), expect.any(Function));
     expect(mockTool).toHaveBeenCalledTimes(1);
   });
 
   describe('branch_create_qr_code', () => {
     it('should create a QR code successfully', async () => {
       registerQrCodeTools(mockServer, config);
-      const tool = mockTool.mock.calls[0][3] as (params: any) => Promise<any>;
+      const tool = mockTool.mock.calls[0][4] as (params: any) => Promise<any>;
       const params = { branch_key: 'key', link_data: { alias: 'test' } };
       const mockResponseData = Buffer.from('imagedata');
       mock.onPost(url).reply(200, mockResponseData);
@@ -60,7 +60,7 @@ describe('QR Code API Tools', () => {
 
     it('should create a QR code with custom settings', async () => {
       registerQrCodeTools(mockServer, config);
-      const tool = mockTool.mock.calls[0][3] as (params: any) => Promise<any>;
+      const tool = mockTool.mock.calls[0][4] as (params: any) => Promise<any>;
       const params = {
         branch_key: 'key',
         link_data: { alias: 'test' },
@@ -90,26 +90,26 @@ describe('QR Code API Tools', () => {
 
     it('should throw an error if branch_key is missing', async () => {
       registerQrCodeTools(mockServer, {});
-      const tool = mockTool.mock.calls[0][3] as (params: any) => Promise<any>;
+      const tool = mockTool.mock.calls[0][4] as (params: any) => Promise<any>;
       await expect(tool({})).rejects.toThrow('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
     });
 
     it('should handle API errors gracefully', async () => {
       registerQrCodeTools(mockServer, config);
-      const tool = mockTool.mock.calls[0][3] as (params: any) => Promise<any>;
+      const tool = mockTool.mock.calls[0][4] as (params: any) => Promise<any>;
       const params = { branch_key: 'key' };
       mock.onPost(url).reply(500, { error: { message: 'API Error' } });
 
-      await expect(tool(params)).rejects.toThrow(new BranchApiError('API Error', { status: 500 }));
+      await expect(tool(params)).rejects.toThrow(new BranchApiError('Branch API error: 500 undefined: API Error', { status: 500 }));
     });
 
     it('should handle network errors gracefully', async () => {
       registerQrCodeTools(mockServer, config);
-      const tool = mockTool.mock.calls[0][3] as (params: any) => Promise<any>;
+      const tool = mockTool.mock.calls[0][4] as (params: any) => Promise<any>;
       const params = { branch_key: 'key' };
       mock.onPost(url).networkError();
 
-      await expect(tool(params)).rejects.toThrow(new BranchApiError('Network Error', { status: 0 }));
+      await expect(tool(params)).rejects.toThrow(new BranchApiError('Branch API error: Network Error'));
     });
   });
 });
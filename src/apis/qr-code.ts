@@ -1,10 +1,10 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import axios from 'axios';
-import { getBranchBaseUrl, MCP_USER_AGENT } from '../utils/api.js';
+import { handleApiError } from '../utils/api.js';
+import { CredentialsError } from '../utils/errors.js';
+import { BranchClient } from '../utils/branch-client.js';
 import { deepLinkParamsSchema } from '../schemas/deep-link-params.js';
-import { BranchApiError, getErrorMessage } from '../utils/errors.js';
 import logger from '../utils/logger.js';
 import { getResolvedAuth } from '../utils/auth.js';
 import { branchKeySchema } from '../schemas/auth.js';
@@ -34,6 +34,7 @@ const finderPatterns = {
 } as const;
 
 export function registerQrCodeTools(server: McpServer, config: BranchMcpConfig) {
+  const client = new BranchClient(config);
   const codePatternMap: { [key in keyof typeof codePatterns]: number } = {
     STANDARD: 1,
     SQUARES: 2,
@@ -77,11 +78,17 @@ export function registerQrCodeTools(server: McpServer, config: BranchMcpConfig)
     'branch_create_qr_code',
     'Create a Branch QR code',
     createQrCodeToolSchema.shape,
+    {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    },
     async (params: z.infer<typeof createQrCodeToolSchema>) => {
       logger.debug('Executing tool: branch_create_qr_code with params:', params);
       const { branch_key } = getResolvedAuth(params, config);
       if (!branch_key) {
-        throw new Error('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
       }
       try {
         const { link_data, ...rest } = params;
@@ -102,16 +109,11 @@ export function registerQrCodeTools(server: McpServer, config: BranchMcpConfig)
           }
           requestBody.qr_code_settings = transformedSettings;
         }
-        const url = `${getBranchBaseUrl(config)}/v2/qr-code`;
-        const response = await axios.post(url, requestBody, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'image/*',
-            'User-Agent': MCP_USER_AGENT
-          },
+        const response = await client.post<ArrayBuffer>('/v2/qr-code', requestBody, {
+          headers: { Accept: 'image/*' },
           responseType: 'arraybuffer'
         });
-        const image = Buffer.from(response.data, 'binary').toString('base64');
+        const image = Buffer.from(response.data).toString('base64');
         return {
           content: [
             {
@@ -126,15 +128,7 @@ export function registerQrCodeTools(server: McpServer, config: BranchMcpConfig)
           ]
         };
       } catch (error) {
-        let message = getErrorMessage(error);
-        if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
-          message = error.response.data.error.message;
-        }
-        logger.error(`Error in branch_create_qr_code: ${message}`);
-        if (axios.isAxiosError(error)) {
-          throw new BranchApiError(message, { status: error.response?.status ?? 0, response: error.response });
-        }
-        throw new BranchApiError(message, { status: 0 });
+        handleApiError(error);
       }
     }
   );
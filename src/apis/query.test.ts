@@ -1,5 +1,6 @@
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { registerQueryTools } from './query.js';
 import type { BranchMcpConfig } from '../config.js';
 import axios from 'axios';
@@ -42,7 +43,7 @@ describe('Query API Tools', () => {
 
   it('should register query tools', () => {
     registerQueryTools(mockServer, config);
-    expect(mockTool).toHaveBeenCalledWith('branch_query', expect.any(String), expect.any(Object), expect.any(Function));
+    expect(mockTool).toHaveBeenCalledWith('branch_query', expect.any(String), expect.any(Object), expect.objectContaining({ readOnlyHint: true }), expect.any(Function));
   });
 
   describe('branch_query', () => {
@@ -52,7 +53,7 @@ describe('Query API Tools', () => {
       registerQueryTools(mockServer, config);
       const toolCall = mockTool.mock.calls.find(call => call[0] === 'branch_query');
       expect(toolCall).toBeDefined();
-      const tool = toolCall![3] as (params: any) => Promise<any>;
+      const tool = toolCall![4] as (params: any) => Promise<any>;
       const params = { ...requiredParams, branch_key: 'key', branch_secret: 'secret' };
       const mockResponse = { results: [] };
       mock.onPost(url).reply(200, mockResponse);
@@ -65,7 +66,7 @@ describe('Query API Tools', () => {
       registerQueryTools(mockServer, config);
       const toolCall = mockTool.mock.calls.find(call => call[0] === 'branch_query');
       expect(toolCall).toBeDefined();
-      const tool = toolCall![3] as (params: any) => Promise<any>;
+      const tool = toolCall![4] as (params: any) => Promise<any>;
       const params = { ...requiredParams, branch_key: 'key', branch_secret: 'secret', limit: 100, after: 10, query_id: 'qid' };
       const mockResponse = { results: [] };
       mock.onPost(url).reply(200, mockResponse);
@@ -77,11 +78,104 @@ describe('Query API Tools', () => {
       expect(postData).not.toHaveProperty('query_id');
     });
 
+    describe('with auto_paginate', () => {
+      const sendNotification = jest.fn(async () => undefined);
+      const extra = { signal: new AbortController().signal, _meta: { progressToken: 'token-1' }, sendNotification };
+      const params = { ...requiredParams, branch_key: 'key', branch_secret: 'secret', auto_paginate: true };
+      const getTool = () => {
+        registerQueryTools(mockServer, config);
+        return mockTool.mock.calls.find((call) => call[0] === 'branch_query')![4] as (params: Record<string, unknown>, extra: object) => Promise<CallToolResult & { structuredContent: { paging: unknown } }>;
+      };
+      const replyPages = () => {
+        mock.onPost(url).replyOnce(200, { results: [{ id: 1 }, { id: 2 }], paging: { next_url: '/v1/query/analytics?after=2&query_id=q-1&limit=2', total_count: 5 } });
+        mock.onPost(url).replyOnce(200, { results: [{ id: 3 }, { id: 4 }], paging: { next_url: '/v1/query/analytics?after=4&query_id=q-1&limit=2', total_count: 5 } });
+        mock.onPost(url).replyOnce(200, { results: [{ id: 5 }], paging: { total_count: 5 } });
+      };
+
+      beforeEach(() => {
+        sendNotification.mockClear();
+      });
+
+      it('should follow the pages of results, pinning the query_id of the first page', async () => {
+        replyPages();
+        const result = await getTool()({ ...params, limit: 2 }, extra);
+        expect(result.structuredContent).toEqual({
+          results: [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }, { id: 5 }],
+          paging: { query_id: 'q-1', total_count: 5, pages: 3, row_count: 5, truncated: false }
+        });
+        expect(result.content).toEqual([{
+          type: 'text',
+          text: 'Fetched 5 rows in 3 pages of 5 in total, with query_id q-1.\n{"id":1}\n{"id":2}\n{"id":3}\n{"id":4}\n{"id":5}'
+        }]);
+        expect(mock.history.post.map((request) => request.params)).toEqual([
+          { limit: 2 },
+          { limit: 2, after: 2, query_id: 'q-1' },
+          { limit: 2, after: 4, query_id: 'q-1' }
+        ]);
+        const postData = JSON.parse(mock.history.post[1].data);
+        expect(postData).toMatchObject({ branch_key: 'key', branch_secret: 'secret', data_source: 'CUSTOM_EVENT' });
+        expect(postData).not.toHaveProperty('auto_paginate');
+        expect(sendNotification).toHaveBeenLastCalledWith({
+          method: 'notifications/progress',
+          params: { progressToken: 'token-1', progress: 5, total: 5, message: 'Fetched 5 rows in 3 pages.' }
+        });
+      });
+
+      it('should stop at max_rows and report that the results were truncated', async () => {
+        replyPages();
+        const result = await getTool()({ ...params, max_rows: 3, query_id: 'q-0' }, extra);
+        expect(result.structuredContent).toEqual({
+          results: [{ id: 1 }, { id: 2 }, { id: 3 }],
+          paging: { query_id: 'q-0', total_count: 5, pages: 2, row_count: 3, truncated: true }
+        });
+        expect((result.content[0] as { text: string }).text).toContain('max_rows was reached, so the rest were left out.');
+        expect(mock.history.post.map((request) => request.params)).toEqual([
+          { limit: 1000, query_id: 'q-0' },
+          { limit: 1000, after: 2, query_id: 'q-0' }
+        ]);
+      });
+
+      it('should not report truncated results that end at max_rows', async () => {
+        mock.onPost(url).replyOnce(200, { results: [{ id: 1 }, { id: 2 }], paging: { total_count: 2 } });
+        const result = await getTool()({ ...params, max_rows: 2 }, extra);
+        expect(result.structuredContent.paging).toEqual({ total_count: 2, pages: 1, row_count: 2, truncated: false });
+      });
+
+      it('should stop on an empty page or a link that does not move forward', async () => {
+        mock.onPost(url).replyOnce(200, { results: [{ id: 1 }], paging: { next_url: 'https://api2.branch.io/v1/query/analytics?after=1&query_id=q-1' } });
+        mock.onPost(url).replyOnce(200, { results: [], paging: { next_url: '/v1/query/analytics?after=1&query_id=q-1' } });
+        expect((await getTool()(params, extra)).structuredContent.paging).toEqual({ query_id: 'q-1', pages: 2, row_count: 1, truncated: false });
+
+        mock.reset();
+        mock.onPost(url).replyOnce(200, { results: [{ id: 1 }], paging: { next_url: '/v1/query/analytics?after=0' } });
+        expect((await getTool()(params, extra)).structuredContent.paging).toEqual({ pages: 1, row_count: 1, truncated: false });
+      });
+
+      it('should only list the first rows in the text of the result', async () => {
+        mock.onPost(url).replyOnce(200, { results: Array.from({ length: 25 }, (_, id) => ({ id })) });
+        const { content } = await getTool()(params, extra);
+        const lines = (content[0] as { text: string }).text.split('\n');
+        expect(lines.slice(0, 2)).toEqual(['Fetched 25 rows in 1 page.', 'Every row is in the structured content; the first 20 are:']);
+        expect(lines).toHaveLength(22);
+      });
+
+      it('should stop when the call is cancelled, and throw API errors', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(getTool()(params, { ...extra, signal: controller.signal })).rejects.toThrow('This operation was aborted');
+        expect(mock.history.post).toHaveLength(0);
+
+        mock.onPost(url).replyOnce(200, { results: [{ id: 1 }], paging: { next_url: '/v1/query/analytics?after=1&query_id=q-1' } });
+        mock.onPost(url).replyOnce(400, { message: 'Bad Request' });
+        await expect(getTool()(params, extra)).rejects.toThrow('Branch API error: 400');
+      });
+    });
+
     it('should throw an error if branch_key or branch_secret are missing', async () => {
       registerQueryTools(mockServer, {});
       const toolCall = mockTool.mock.calls.find(call => call[0] === 'branch_query');
       expect(toolCall).toBeDefined();
-      const tool = toolCall![3] as (params: any) => Promise<any>;
+      const tool = toolCall![4] as (params: any) => Promise<any>;
       await expect(tool(requiredParams)).rejects.toThrow('Branch Key and Secret are not configured.');
     });
 
@@ -89,7 +183,7 @@ describe('Query API Tools', () => {
       registerQueryTools(mockServer, config);
       const toolCall = mockTool.mock.calls.find(call => call[0] === 'branch_query');
       expect(toolCall).toBeDefined();
-      const tool = toolCall![3] as (params: any) => Promise<any>;
+      const tool = toolCall![4] as (params: any) => Promise<any>;
       const params = { ...requiredParams, branch_key: 'key', branch_secret: 'secret' };
       mock.onPost(url).reply(400, { message: 'Bad Request' });
       await expect(tool(params)).rejects.toThrow('Branch API error: 400 undefined');
@@ -99,7 +193,7 @@ describe('Query API Tools', () => {
       registerQueryTools(mockServer, config);
       const toolCall = mockTool.mock.calls.find(call => call[0] === 'branch_query');
       expect(toolCall).toBeDefined();
-      const tool = toolCall![3] as (params: any) => Promise<any>;
+      const tool = toolCall![4] as (params: any) => Promise<any>;
       const params = { ...requiredParams, branch_key: 'key', branch_secret: 'secret' };
       mock.onPost(url).networkError();
       await expect(tool(params)).rejects.toThrow('Branch API error: Network Error');
@@ -1,14 +1,63 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import { getBranchBaseUrl, MCP_USER_AGENT, handleApiError } from '../utils/api.js';
-import axios from 'axios';
-import { getErrorMessage } from '../utils/errors.js';
+import { CredentialsError } from '../utils/errors.js';
+import { handleApiError } from '../utils/api.js';
+import { BranchClient } from '../utils/branch-client.js';
 import logger from '../utils/logger.js';
 import { getResolvedAuth } from '../utils/auth.js';
 import { branchKeySchema, branchSecretSchema } from '../schemas/auth.js';
 import { queryDataSources } from './query-data.js';
 import { createTable } from '../utils/tables.js';
+import { createProgressReporter } from '../utils/progress.js';
+import type { ToolExtra } from '../utils/tool-middleware.js';
+
+/**
+ * The default number of rows `branch_query` fetches when following pages.
+ */
+const DEFAULT_MAX_QUERY_ROWS = 10000;
+
+/**
+ * The largest number of rows `branch_query` fetches when following pages.
+ */
+const MAX_QUERY_ROWS = 100000;
+
+/**
+ * The number of results requested per page when following pages, unless a limit is given.
+ */
+const AUTO_PAGINATE_PAGE_SIZE = 1000;
+
+/**
+ * The number of rows listed in the text of the result when following pages. Every row is in its
+ * structured content.
+ */
+const QUERY_PREVIEW_ROWS = 20;
+
+/**
+ * A page of results of the Query API.
+ */
+interface QueryPage {
+  results?: unknown[];
+  paging?: {
+    next_url?: string;
+    total_count?: number;
+  };
+}
+
+/**
+ * Reads the paging parameters from the link to the next page of results.
+ * @param nextUrl The `next_url` of a page, relative to the API or absolute.
+ * @returns The `after` and `query_id` of the next page.
+ */
+function getNextPageParams(nextUrl: string): { after?: number; query_id?: string } {
+  const searchParams = new URL(nextUrl, 'https://api2.branch.io').searchParams;
+  const after = Number(searchParams.get('after'));
+  return {
+    ...(searchParams.has('after') && !Number.isNaN(after) ? { after } : {}),
+    ...(searchParams.get('query_id') ? { query_id: searchParams.get('query_id')! } : {})
+  };
+}
 
 /**
  * Registers Query API tools with the MCP server.
@@ -18,6 +67,7 @@ import { createTable } from '../utils/tables.js';
  * @param config The Branch MCP configuration.
  */
 export function registerQueryTools(server: McpServer, config: BranchMcpConfig) {
+  const client = new BranchClient(config);
 
   const querySchema = z.object({
     start_date: z.string().describe("A timestamp representing the oldest date to return data for. Format is an ISO-8601 compliant date-time string, e.g., '2024-01-20'. Timezone is set in your Branch Dashboard."),
@@ -33,23 +83,106 @@ export function registerQueryTools(server: McpServer, config: BranchMcpConfig) {
     ordered_by: z.string().optional().describe('Field to sort results by. Often aligns with your aggregation metric (e.g., total_count) or a selected dimension.'),
     zero_fill: z.boolean().optional().describe('When true, include zero-result rows for dimension combinations without data. Useful for complete breakdowns across a time range.'),
     after: z.number().optional().describe('A pagination parameter that indicates the index of the first result to return in the response. Default: 0.'),
-    query_id: z.string().optional().describe('A pagination parameter that locks the last event to include in a query, preventing count changes over time between paged requests.')
+    query_id: z.string().optional().describe('A pagination parameter that locks the last event to include in a query, preventing count changes over time between paged requests.'),
+    auto_paginate: z.boolean().optional().describe(`When true, follow the pages of results until there are no more or max_rows is reached, reusing the query_id of the first page so that counts do not shift, and return the rows of every page. Pages are requested with limit, or ${AUTO_PAGINATE_PAGE_SIZE} results, at a time.`),
+    max_rows: z.number().int().min(1).max(MAX_QUERY_ROWS).optional().describe(`With auto_paginate, the largest number of rows to return. \`paging.truncated\` tells whether more were left out. Default: ${DEFAULT_MAX_QUERY_ROWS}.`)
   });
 
+  /**
+   * Fetches the pages of results of a query until there are no more or the row cap is reached.
+   * Only the `after` and `query_id` of the paging links are followed: every page is requested from
+   * the Query API itself, so the Branch Secret is never sent to a URL taken from a response.
+   */
+  const queryAllPages = async (
+    body: Record<string, unknown>,
+    paging: { limit?: number; after?: number; query_id?: string; max_rows?: number },
+    extra: ToolExtra
+  ): Promise<CallToolResult> => {
+    const maxRows = paging.max_rows ?? DEFAULT_MAX_QUERY_ROWS;
+    const report = createProgressReporter(extra);
+    const rows: unknown[] = [];
+    let after = paging.after;
+    let queryId = paging.query_id;
+    let pages = 0;
+    let totalCount: number | undefined;
+    let truncated = false;
+
+    for (;;) {
+      extra.signal?.throwIfAborted();
+      let page: QueryPage;
+      try {
+        const response = await client.post<QueryPage>('/v1/query/analytics', body, {
+          params: { limit: paging.limit ?? AUTO_PAGINATE_PAGE_SIZE, ...(after ? { after } : {}), ...(queryId ? { query_id: queryId } : {}) },
+          idempotent: true
+        });
+        page = response.data;
+      } catch (error) {
+        handleApiError(error);
+      }
+      pages++;
+      const results = page.results ?? [];
+      totalCount = page.paging?.total_count ?? totalCount;
+      rows.push(...results);
+      const next = page.paging?.next_url ? getNextPageParams(page.paging.next_url) : undefined;
+      // The first page pins the query, so every later page counts the same events.
+      queryId = queryId ?? next?.query_id;
+      await report(Math.min(rows.length, maxRows), totalCount === undefined ? undefined : Math.min(totalCount, maxRows), `Fetched ${rows.length} rows in ${pages} pages.`);
+
+      const hasMore = results.length > 0 && next?.after !== undefined && next.after > (after ?? 0);
+      if (rows.length >= maxRows) {
+        truncated = rows.length > maxRows || hasMore;
+        break;
+      }
+      if (!hasMore) {
+        break;
+      }
+      after = next.after;
+    }
+
+    const results = rows.slice(0, maxRows);
+    logger.info('Fetched query results', { pages, rows: results.length, truncated });
+    const summary = [
+      `Fetched ${results.length} rows in ${pages} ${pages === 1 ? 'page' : 'pages'}${totalCount !== undefined ? ` of ${totalCount} in total` : ''}${queryId ? `, with query_id ${queryId}` : ''}.`,
+      ...(truncated ? [`max_rows was reached, so the rest were left out. Raise max_rows (at most ${MAX_QUERY_ROWS}) or narrow the query to see them.`] : []),
+      ...(results.length > QUERY_PREVIEW_ROWS ? [`Every row is in the structured content; the first ${QUERY_PREVIEW_ROWS} are:`] : [])
+    ];
+    return {
+      structuredContent: {
+        results,
+        paging: {
+          ...(queryId ? { query_id: queryId } : {}),
+          ...(totalCount !== undefined ? { total_count: totalCount } : {}),
+          pages,
+          row_count: results.length,
+          truncated
+        }
+      },
+      content: [{ type: 'text', text: [...summary, ...results.slice(0, QUERY_PREVIEW_ROWS).map((row) => JSON.stringify(row))].join('\n') }]
+    };
+  };
+
   const queryToolSchema = querySchema.merge(branchKeySchema).merge(branchSecretSchema);
 
   server.tool(
     'branch_query',
-    'Query Branch data with metrics, dimensions, and filters.',
+    'Query Branch data with metrics, dimensions, and filters. Set auto_paginate to fetch every page of results at once.',
     queryToolSchema.shape,
-    async (params: z.infer<typeof queryToolSchema>) => {
+    {
+      readOnlyHint: true,
+      openWorldHint: true
+    },
+    async (params: z.infer<typeof queryToolSchema>, extra: ToolExtra) => {
       logger.debug('Executing tool: branch_query with params:', params);
       const { branch_key, branch_secret } = getResolvedAuth(params, config);
       if (!branch_key || !branch_secret) {
-        throw new Error('Branch Key and Secret are not configured. Please provide them in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key and Secret are not configured. Please provide them in the tool parameters or server configuration.');
+      }
+
+      const { limit, after, query_id, auto_paginate, max_rows, ...body } = params;
+      if (auto_paginate) {
+        return queryAllPages({ ...body, branch_key, branch_secret }, { limit, after, query_id, max_rows }, extra);
       }
 
-      const { limit, after, query_id, ...body } = params;
       const queryParams: Record<string, string | number> = {};
       if (limit) {
         queryParams.limit = limit;
@@ -62,16 +195,16 @@ export function registerQueryTools(server: McpServer, config: BranchMcpConfig) {
       }
 
       try {
-        const url = `${getBranchBaseUrl(config)}/v1/query/analytics`;
-        const response = await axios.post(url, { ...body, branch_key, branch_secret }, {
+        // Queries only read data, so they are safe to retry.
+        const response = await client.post<CallToolResult>('/v1/query/analytics', { ...body, branch_key, branch_secret }, {
           params: queryParams,
-          headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', 'User-Agent': MCP_USER_AGENT }
+          idempotent: true
         });
         return response.data;
       } catch (error) {
-        logger.error(`Error in branch_query: ${getErrorMessage(error)}`);
         handleApiError(error);
       }
     }
   );
+
 }
@@ -1,11 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { registerQuickLinksTools } from './quick-links.js';
 import type { BranchMcpConfig } from '../config.js';
 import _axios from 'axios';
 const axios = _axios as jest.Mocked<typeof _axios>;
 import MockAdapter from 'axios-mock-adapter';
-import { BranchApiError } from '../utils/errors.js';
+import { runWithRequestContext } from '../utils/context.js';
+import { BranchApiError, PolicyError } from '../utils/errors.js';
 
 
 
@@ -41,7 +43,7 @@ describe('Quick Links API Tools', () => {
 
   it('should register quick links tools', () => {
     registerQuickLinksTools(mockServer, config);
-    expect(mockTool).toHaveBeenCalledWith('branch_create_quick_link', expect.any(String), expect.any(Object), expect.any(Function));
+    expect(mockTool).toHaveBeenCalledWith('branch_create_quick_link', expect.any(String), expect.any(Object), expect.objectContaining({ readOnlyHint: false }), expect.any(Function));
     expect(mockRegisterTool).toHaveBeenCalledWith('branch_update_quick_link', expect.any(Object), expect.any(Function));
     expect(mockRegisterTool).toHaveBeenCalledWith('branch_bulk_create_quick_links', expect.any(Object), expect.any(Function));
   });
@@ -54,7 +56,7 @@ describe('Quick Links API Tools', () => {
       registerQuickLinksTools(mockServer, config);
       const createCall = mockTool.mock.calls.find(call => call[0] === 'branch_create_quick_link');
       expect(createCall).toBeDefined();
-      const tool = createCall![3] as (params: any) => Promise<any>;
+      const tool = createCall![4] as (params: any) => Promise<any>;
       const mockResponse = { url: 'https://branch.io/link' };
       mock.onPost(url).reply(200, mockResponse);
       const result = await tool(createParams);
@@ -66,7 +68,7 @@ describe('Quick Links API Tools', () => {
       registerQuickLinksTools(mockServer, config);
       const createCall = mockTool.mock.calls.find(call => call[0] === 'branch_create_quick_link');
       expect(createCall).toBeDefined();
-      const tool = createCall![3] as (params: any) => Promise<any>;
+      const tool = createCall![4] as (params: any) => Promise<any>;
       mock.onPost(url).networkError();
       await expect(tool(createParams)).rejects.toThrow(BranchApiError);
     });
@@ -75,30 +77,32 @@ describe('Quick Links API Tools', () => {
       registerQuickLinksTools(mockServer, config);
       const createCall = mockTool.mock.calls.find(call => call[0] === 'branch_create_quick_link');
       expect(createCall).toBeDefined();
-      const tool = createCall![3] as (params: any) => Promise<any>;
+      const tool = createCall![4] as (params: any) => Promise<any>;
       mock.onPost(url).reply(400, { error: { message: 'Specific error message' } });
       await expect(tool(createParams)).rejects.toThrow('Specific error message');
     });
 
-        it('should handle non-Axios errors', async () => {
+    it('should rethrow non-Axios errors unchanged', async () => {
       registerQuickLinksTools(mockServer, config);
       const createCall = mockTool.mock.calls.find(call => call[0] === 'branch_create_quick_link');
       expect(createCall).toBeDefined();
-      const tool = createCall![3] as (params: any) => Promise<any>;
+      const tool = createCall![4] as (params: any) => Promise<any>;
 
       // Mock a network error and then mock isAxiosError to return false
       mock.onPost(url).networkError();
       const isAxiosErrorSpy = jest.spyOn(axios, 'isAxiosError').mockReturnValue(false);
 
-      await expect(tool(createParams)).rejects.toThrow(new BranchApiError('Network Error', { status: 0 }));
+      const error = await tool(createParams).catch((thrown: Error) => thrown);
       isAxiosErrorSpy.mockRestore();
+      expect(error).not.toBeInstanceOf(BranchApiError);
+      expect(error.message).toBe('Network Error');
     });
 
     it('should throw error if marketing link is missing title', async () => {
       registerQuickLinksTools(mockServer, config);
       const createCall = mockTool.mock.calls.find(call => call[0] === 'branch_create_quick_link');
       expect(createCall).toBeDefined();
-      const tool = createCall![3] as (params: any) => Promise<any>;
+      const tool = createCall![4] as (params: any) => Promise<any>;
       const marketingParams = { ...createParams, type: 'MARKETING', data: {} };
       await expect(tool(marketingParams)).rejects.toThrow('A $marketing_title is required in the data object for links to be visible on the dashboard (when type is MARKETING).');
     });
@@ -107,7 +111,7 @@ describe('Quick Links API Tools', () => {
       registerQuickLinksTools(mockServer, {});
       const createCall = mockTool.mock.calls.find(call => call[0] === 'branch_create_quick_link');
       expect(createCall).toBeDefined();
-      const tool = createCall![3] as (params: any) => Promise<any>;
+      const tool = createCall![4] as (params: any) => Promise<any>;
       await expect(tool({ alias: 'test' })).rejects.toThrow('Branch Key and Secret are not configured. Please provide them in the tool parameters or server configuration.');
     });
   });
@@ -149,7 +153,7 @@ describe('Quick Links API Tools', () => {
       await expect(tool(updateParams)).rejects.toThrow('Specific update error');
     });
 
-    it('should handle non-Axios errors', async () => {
+    it('should rethrow non-Axios errors unchanged', async () => {
       registerQuickLinksTools(mockServer, config);
       const updateCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_update_quick_link');
       expect(updateCall).toBeDefined();
@@ -158,8 +162,10 @@ describe('Quick Links API Tools', () => {
       mock.onGet(url).networkError();
       const isAxiosErrorSpy = jest.spyOn(axios, 'isAxiosError').mockReturnValue(false);
 
-      await expect(tool(updateParams)).rejects.toThrow(new BranchApiError('Network Error', { status: 0 }));
+      const error = await tool(updateParams).catch((thrown: Error) => thrown);
       isAxiosErrorSpy.mockRestore();
+      expect(error).not.toBeInstanceOf(BranchApiError);
+      expect(error.message).toBe('Network Error');
     });
 
     it('should return error for restricted link URLs', async () => {
@@ -194,80 +200,122 @@ describe('Quick Links API Tools', () => {
     const url = `${baseUrl}/v1/url/bulk/${branchKey}`;
     const bulkParams = { links: [{ alias: 'link1' }, { alias: 'link2' }], branch_key: branchKey };
 
+    const extra = { signal: new AbortController().signal };
+    const getBulkCreate = () => mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_bulk_create_quick_links')![2] as (params: Record<string, unknown>, toolExtra: object) => Promise<CallToolResult>;
+
     it('should bulk create links successfully', async () => {
       registerQuickLinksTools(mockServer, config);
-      const bulkCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_bulk_create_quick_links');
-      expect(bulkCall).toBeDefined();
-      const tool = bulkCall![2] as (params: any) => Promise<any>;
       const mockResponse = [{ url: 'url1' }, { url: 'url2' }];
       mock.onPost(url).reply(200, mockResponse);
-      const result = await tool(bulkParams);
-      expect(result.structuredContent).toEqual(mockResponse);
+      const result = await getBulkCreate()(bulkParams, extra);
+      expect(result.structuredContent).toMatchObject({ summary: { total: 2, succeeded: 2 }, links: mockResponse });
       expect(mock.history.post[0].data).toBe(JSON.stringify(bulkParams.links));
     });
 
-    it('should handle API errors', async () => {
-      registerQuickLinksTools(mockServer, config);
-      const bulkCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_bulk_create_quick_links');
-      expect(bulkCall).toBeDefined();
-      const tool = bulkCall![2] as (params: any) => Promise<any>;
-      mock.onPost(url).reply(500);
-            await expect(tool(bulkParams)).rejects.toThrow(BranchApiError);
-    });
-
-    it('should handle API errors with a message', async () => {
+    it('should skip the links of a cancelled call', async () => {
       registerQuickLinksTools(mockServer, config);
-      const bulkCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_bulk_create_quick_links');
-      expect(bulkCall).toBeDefined();
-      const tool = bulkCall![2] as (params: any) => Promise<any>;
-      mock.onPost(url).reply(400, { error: { message: 'Specific bulk error' } });
-      await expect(tool(bulkParams)).rejects.toThrow('Specific bulk error');
+      const result = await getBulkCreate()({ links: [{ alias: 'link1' }], branch_key: branchKey }, { ...extra, signal: AbortSignal.abort() });
+      expect(result.structuredContent).toMatchObject({ results: [{ index: 0, link: 'link1', status: 'skipped' }] });
+      expect(mock.history.post).toHaveLength(0);
     });
 
     it('should handle the marketing type correctly', async () => {
       registerQuickLinksTools(mockServer, config);
-      const bulkCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_bulk_create_quick_links');
-      expect(bulkCall).toBeDefined();
-      const tool = bulkCall![2] as (params: any) => Promise<any>;
       const marketingParams = { links: [{ alias: 'link1', type: 'MARKETING', data: { '$marketing_title': 'title' } }], branch_key: branchKey };
       const mockResponse = [{ url: 'url1' }];
       mock.onPost(url).reply(200, mockResponse);
-      const result = await tool(marketingParams);
-      expect(result.structuredContent).toEqual(mockResponse);
+      await getBulkCreate()(marketingParams, extra);
       expect(JSON.parse(mock.history.post[0].data)[0].type).toBe(2);
     });
 
-        it('should handle non-Axios errors', async () => {
+    it('should report a marketing link without a title without sending it', async () => {
       registerQuickLinksTools(mockServer, config);
+      mock.onPost(url).reply(200, [{ url: 'url1' }]);
+      const params = { links: [{ type: 'MARKETING', data: {} }, { alias: 'link1' }], branch_key: branchKey };
+      const result = await getBulkCreate()(params, extra);
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent).toMatchObject({
+        results: [
+          { index: 0, status: 'failed', code: 'validation', reason: expect.stringContaining('$marketing_title is required') },
+          { index: 1, status: 'succeeded' }
+        ]
+      });
+      expect(JSON.parse(mock.history.post[0].data)).toEqual([{ alias: 'link1' }]);
+    });
+
+    it('should throw error if credentials are missing', async () => {
+      registerQuickLinksTools(mockServer, {});
       const bulkCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_bulk_create_quick_links');
       expect(bulkCall).toBeDefined();
       const tool = bulkCall![2] as (params: any) => Promise<any>;
+      await expect(tool({ links: [] })).rejects.toThrow('Branch Key is not configured.');
+    });
+  });
 
-      // Mock a network error and then mock isAxiosError to return false
-      mock.onPost(url).networkError();
-      const isAxiosErrorSpy = jest.spyOn(axios, 'isAxiosError').mockReturnValue(false);
+  describe('branch_import_quick_links', () => {
+    const url = `${baseUrl}/v1/url/bulk/key`;
+    const extra = { signal: new AbortController().signal };
+    const getImport = () => mockRegisterTool.mock.calls.find((call) => call[0] === 'branch_import_quick_links')![2] as (params: Record<string, unknown>, toolExtra: object) => Promise<CallToolResult>;
+    const content = [
+      'Slug,Campaign,Landing page,SKU',
+      'spring,spring-sale,https://example.com/spring,A1',
+      'summer,summer-sale,not a url,B2',
+      '"fall, early",fall-sale,https://example.com/fall,C3'
+    ].join('\n');
+    const mapping = { Slug: 'alias', Campaign: '~campaign', 'Landing page': '$fallback_url', SKU: 'product_sku' };
+
+    it('should create a link for every valid row and report the others by row number', async () => {
+      registerQuickLinksTools(mockServer, config);
+      mock.onPost(url).reply(200, [{ url: 'https://example.app.link/spring' }, { url: 'https://example.app.link/fall' }]);
+      const result = await getImport()({ content, mapping, branch_key: 'key' }, extra);
+
+      expect(JSON.parse(mock.history.post[0].data)).toEqual([
+        { alias: 'spring', data: { '~campaign': 'spring-sale', '$fallback_url': 'https://example.com/spring', product_sku: 'A1' } },
+        { alias: 'fall, early', data: { '~campaign': 'fall-sale', '$fallback_url': 'https://example.com/fall', product_sku: 'C3' } }
+      ]);
+      expect(result.structuredContent).toMatchObject({
+        summary: { total: 3, succeeded: 2, failed: 1 },
+        results: [
+          { index: 2, link: 'https://example.app.link/spring', status: 'succeeded' },
+          { index: 3, status: 'failed', code: 'validation', reason: expect.stringContaining('$fallback_url') },
+          { index: 4, link: 'https://example.app.link/fall', status: 'succeeded' }
+        ]
+      });
+      const csv = (result.structuredContent as { csv: string }).csv.split('\n');
+      expect(csv[0]).toBe('row,Slug,Campaign,Landing page,SKU,url,status,reason');
+      expect(csv[1]).toBe('2,spring,spring-sale,https://example.com/spring,A1,https://example.app.link/spring,succeeded,');
+      expect(csv[2]).toMatch(/^3,summer,.*,,failed,/);
+      expect(result.content).toContainEqual({ type: 'text', text: csv.join('\n') });
+    });
 
-      await expect(tool(bulkParams)).rejects.toThrow(new BranchApiError('Network Error', { status: 0 }));
-      isAxiosErrorSpy.mockRestore();
+    it('should hold the links mapped from the rows to the constraints of the tool policy', async () => {
+      registerQuickLinksTools(mockServer, config);
+      const policy = { read_only: false, constraints: { branch_import_quick_links: { alias: { pattern: '[a-z]+' } } } };
+      await expect(runWithRequestContext({ policy }, () => getImport()({ content, mapping, branch_key: 'key' }, extra))).rejects.toThrow(new PolicyError(
+        'The tool policy does not allow this value of alias for branch_import_quick_links in row 4: "fall, early" must match [a-z]+.'
+      ));
+      expect(mock.history.post).toHaveLength(0);
     });
 
-    it('should return validation error for marketing link without title', async () => {
+    it('should import JSONL, reporting lines that are not JSON', async () => {
       registerQuickLinksTools(mockServer, config);
-      const bulkCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_bulk_create_quick_links');
-      expect(bulkCall).toBeDefined();
-      const tool = bulkCall![2] as (params: any) => Promise<any>;
-      const params = { links: [{ type: 'MARKETING', data: {} }], branch_key: 'key' };
-      const result = await tool(params);
-      expect(result.isError).toBe(true);
-      expect(result.content[0].text).toContain('Validation Error');
+      mock.onPost(url).reply(200, [{ url: 'https://example.app.link/a' }]);
+      const result = await getImport()({ content: '{"alias":"a","type":"MARKETING","$marketing_title":"A"}\n\n{"alias":', branch_key: 'key' }, extra);
+
+      expect(JSON.parse(mock.history.post[0].data)).toEqual([{ alias: 'a', type: 2, data: { $marketing_title: 'A' } }]);
+      expect(result.structuredContent).toMatchObject({ results: [{ index: 1, status: 'succeeded' }, { index: 3, status: 'failed', reason: expect.stringContaining('not valid JSON') }] });
+    });
+
+    it('should take either content or a file', async () => {
+      registerQuickLinksTools(mockServer, config);
+      await expect(getImport()({ branch_key: 'key' }, extra)).rejects.toThrow('Give either the content to import or a file');
+      await expect(getImport()({ content, file: 'links.csv', branch_key: 'key' }, extra)).rejects.toThrow('Give either the content to import or a file');
+      await expect(getImport()({ file: 'links.csv', branch_key: 'key' }, extra)).rejects.toThrow('the server has no import directory');
     });
 
     it('should throw error if credentials are missing', async () => {
       registerQuickLinksTools(mockServer, {});
-      const bulkCall = mockRegisterTool.mock.calls.find(call => call[0] === 'branch_bulk_create_quick_links');
-      expect(bulkCall).toBeDefined();
-      const tool = bulkCall![2] as (params: any) => Promise<any>;
-      await expect(tool({ links: [] })).rejects.toThrow('Branch Key is not configured.');
+      await expect(getImport()({ content }, extra)).rejects.toThrow('Branch Key is not configured.');
     });
   });
 });
@@ -1,13 +1,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
-import axios from 'axios';
-import { getBranchBaseUrl, MCP_USER_AGENT } from '../utils/api.js';
-import { BranchApiError, getErrorMessage } from '../utils/errors.js';
+import { handleApiError } from '../utils/api.js';
+import { CredentialsError } from '../utils/errors.js';
+import { BranchClient } from '../utils/branch-client.js';
 import logger from '../utils/logger.js';
-import { deepLinkParamsSchema } from '../schemas/deep-link-params.js';
+import { deepLinkParamsSchema, deepLinkUpdateParamsSchema, immutableLinkFields } from '../schemas/deep-link-params.js';
 import { branchKeySchema, branchSecretSchema } from '../schemas/auth.js';
 import { getResolvedAuth } from '../utils/auth.js';
+import { recordAuditDetails, recordBefore } from '../utils/audit.js';
+import { linkReferenceSchema, resolveLinkReference } from '../utils/link-reference.js';
+import { BULK_CREATE_CHUNK_SIZE, bulkResultOutputShape, createBulkLinks, createBulkResult, MAX_BULK_ITEMS, validateBulkLinks } from '../utils/bulk.js';
+import type { BulkItemResult } from '../utils/bulk.js';
+import { detectImportFormat, IMPORT_FORMATS, mapImportRow, MAX_IMPORT_BYTES, parseImport, readImportFile, toCsv } from '../utils/link-import.js';
+import { confirmBulkSize } from '../utils/confirmation.js';
+import { checkPolicyConstraints } from '../utils/policy.js';
+import { createProgressReporter } from '../utils/progress.js';
+import type { ToolExtra } from '../utils/tool-middleware.js';
 
 // Schema for creating a Quick Link, with an option for dashboard visibility.
 const quickLinkCreateParamsSchema = deepLinkParamsSchema;
@@ -15,11 +25,18 @@ const quickLinkCreateParamsSchema = deepLinkParamsSchema;
 // is handled inside the tool's implementation.
 
 // Schema for updating a Quick Link. Note: some fields are immutable.
-const quickLinkUpdateParamsSchema = deepLinkParamsSchema.omit({
-  alias: true, // Cannot be updated
-  type: true, // Cannot be updated
-  identity: true // Cannot be updated
-});
+const quickLinkUpdateParamsSchema = deepLinkUpdateParamsSchema;
+
+/**
+ * Validates a quick link of a bulk creation, and returns its parameters as sent to Branch.
+ */
+const validateQuickLink = (link: unknown) => {
+  const { type, ...rest } = quickLinkCreateParamsSchema.parse(link);
+  if (type === 'MARKETING' && !rest.data?.$marketing_title) {
+    throw new Error('A $marketing_title is required in the data object for links to be visible on the dashboard (when type is MARKETING).');
+  }
+  return type === 'MARKETING' ? { ...rest, type: 2 } : rest;
+};
 
 /**
  * Registers Quick Links API tools with the MCP server.
@@ -29,16 +46,24 @@ const quickLinkUpdateParamsSchema = deepLinkParamsSchema.omit({
  * @param config The Branch MCP configuration.
  */
 export function registerQuickLinksTools(server: McpServer, config: BranchMcpConfig) {
+  const client = new BranchClient(config);
+
   // Create Quick Link
   server.tool(
     'branch_create_quick_link',
     'Create a Branch Quick Link, with an option to make it visible on the dashboard.',
     quickLinkCreateParamsSchema.merge(branchKeySchema).merge(branchSecretSchema).shape,
+    {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    },
     async (params: z.infer<typeof quickLinkCreateParamsSchema & typeof branchKeySchema & typeof branchSecretSchema>) => {
       logger.debug('Executing tool: branch_create_quick_link with params:', params);
       const { branch_key, branch_secret } = getResolvedAuth(params, config);
       if (!branch_key || !branch_secret) {
-        throw new Error('Branch Key and Secret are not configured. Please provide them in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key and Secret are not configured. Please provide them in the tool parameters or server configuration.');
       }
 
       if (params.type === 'MARKETING' && !params.data?.$marketing_title) {
@@ -54,21 +79,11 @@ export function registerQuickLinksTools(server: McpServer, config: BranchMcpConf
           type: type === 'MARKETING' ? 2 : 0
         };
 
-        const url = `${getBranchBaseUrl(config)}/v1/url`;
-        const response = await axios.post(url, requestBody, {
-          headers: { 'Content-Type': 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
+        const response = await client.post<CallToolResult>('/v1/url', requestBody);
+        recordAuditDetails({ after: response.data });
         return response.data;
       } catch (error) {
-        let message = getErrorMessage(error);
-        if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
-          message = error.response.data.error.message;
-        }
-        logger.error(`Error in branch_create_quick_link: ${message}`);
-        if (axios.isAxiosError(error)) {
-          throw new BranchApiError(message, { status: error.response?.status ?? 0, response: error.response });
-        }
-        throw new BranchApiError(message, { status: 0 });
+        handleApiError(error);
       }
     }
   );
@@ -79,23 +94,32 @@ export function registerQuickLinksTools(server: McpServer, config: BranchMcpConf
     {
       description: 'Update an existing Branch Quick Link. This follows a read-then-write pattern.\n\n**Link Update Restrictions**\n- Not all links can be updated (e.g., links with the structure of bnc.lt/c/ or bnc.lt/d/).\n- The following fields are immutable and cannot be updated: `alias`, `identity`, `type`, `app_id`, `randomized_bundle_token`, `domain`, `state`, `creation_source`, `app_short_identifier`.\n- For dashboard visibility, `type` must have been set to `2` during creation and cannot be changed.',
       inputSchema: z.object({
-        url: z.string().url().describe('The Branch Quick Link URL to update.'),
+        url: linkReferenceSchema,
         link_data: quickLinkUpdateParamsSchema
       }).merge(branchKeySchema).merge(branchSecretSchema).shape,
-      outputSchema: z.object({}).passthrough().shape
+      outputSchema: z.object({}).passthrough().shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true
+      }
     },
-    async (params: z.infer<z.ZodObject<{url: z.ZodString, link_data: typeof quickLinkUpdateParamsSchema}> & typeof branchKeySchema & typeof branchSecretSchema>) => {
-      const { url, link_data } = params;
-      logger.debug('Executing tool: branch_update_quick_link with params:', { url, link_data });
-      const { branch_key, branch_secret } = getResolvedAuth(params, config);
+    async (params: z.infer<z.ZodObject<{url: typeof linkReferenceSchema, link_data: typeof quickLinkUpdateParamsSchema}> & typeof branchKeySchema & typeof branchSecretSchema>) => {
+      const { link_data } = params;
+      logger.debug('Executing tool: branch_update_quick_link with params:', { url: params.url, link_data });
+      const auth = getResolvedAuth(params, config);
+      const { branch_key, branch_secret } = auth;
 
       if (!branch_key) {
-        throw new Error('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
       }
       if (!branch_secret) {
-        throw new Error('Branch Secret is not configured. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Secret is not configured. Please provide it in the tool parameters or server configuration.');
       }
 
+      const url = await resolveLinkReference(params.url, client, auth);
+      recordAuditDetails({ target: { url } });
       // Enforce update restrictions: check link structure.
       if (url.includes('bnc.lt/c/') || url.includes('bnc.lt/d/')) {
         return {
@@ -107,12 +131,9 @@ export function registerQuickLinksTools(server: McpServer, config: BranchMcpConf
       try {
         // Per Branch.io docs, update is a read-then-write operation to avoid data loss.
         // 1. Read the existing link data.
-        const getUrl = `${getBranchBaseUrl(config)}/v1/url`;
-        const getResponse = await axios.get(getUrl, {
-          params: { url, branch_key },
-          headers: { 'Accept': 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
+        const getResponse = await client.get('/v1/url', { params: { url, branch_key } });
         const existingLinkData = getResponse.data;
+        await recordBefore(async () => existingLinkData);
 
         // 2. Merge existing data with the new data.
         const updatedLinkData = {
@@ -124,33 +145,16 @@ export function registerQuickLinksTools(server: McpServer, config: BranchMcpConf
         };
 
         // 3. Enforce update restrictions: filter out immutable fields from the payload.
-        const immutableKeys = [
-          'alias', 'identity', 'type', 'app_id', 'randomized_bundle_token',
-          'domain', 'state', 'creation_source', 'app_short_identifier'
-        ];
-
         const payload = { ...updatedLinkData };
-        for (const key of immutableKeys) {
+        for (const key of immutableLinkFields) {
           delete (payload as Record<string, unknown>)[key];
         }
 
         // 4. Write the updated data back.
-        const endpointUrl = `${getBranchBaseUrl(config)}/v1/url`;
-        const response = await axios.put(endpointUrl, payload, {
-          params: { url },
-          headers: { 'Content-Type': 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
+        const response = await client.put('/v1/url', payload, { params: { url } });
         return { structuredContent: response.data, content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }] };
       } catch (error) {
-        let message = getErrorMessage(error);
-        if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
-          message = error.response.data.error.message;
-        }
-        logger.error(`Error in branch_update_quick_link: ${message}`);
-        if (axios.isAxiosError(error)) {
-          throw new BranchApiError(message, { status: error.response?.status ?? 0, response: error.response });
-        }
-        throw new BranchApiError(message, { status: 0 });
+        handleApiError(error);
       }
     }
   );
@@ -158,62 +162,120 @@ export function registerQuickLinksTools(server: McpServer, config: BranchMcpConf
   // Bulk Create Quick Links
   // working as of 6/25/2025
   const bulkCreateSchema = z.object({
-    links: z.array(quickLinkCreateParamsSchema).describe('An array of quick link objects to create.')
+    links: z.array(z.object({}).passthrough()).min(1)
+      .describe('The quick links to create, each with the same parameters as branch_create_quick_link. Each link is validated on its own, and invalid links are reported without being sent.')
   });
 
   server.registerTool(
     'branch_bulk_create_quick_links',
     {
-      description: 'Create multiple Branch Quick Links in a single request',
+      description: `Create multiple Branch Quick Links. The links are sent in chunks of ${BULK_CREATE_CHUNK_SIZE}, and each link succeeds or fails on its own: the result maps the index of every link to its URL or to the reason it failed, and the call only fails if every link failed. Progress is reported after every chunk.`,
       inputSchema: bulkCreateSchema.merge(branchKeySchema).shape,
-      outputSchema: z.object({ links: z.array(z.object({ url: z.string().url() }).passthrough()) }).shape
+      outputSchema: { ...bulkResultOutputShape, links: z.array(z.object({ url: z.string().url() }).passthrough()) },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
     },
-    async (params: z.infer<typeof bulkCreateSchema & typeof branchKeySchema>) => {
+    async (params: z.infer<typeof bulkCreateSchema & typeof branchKeySchema>, extra: ToolExtra) => {
       const { links } = params;
       logger.debug('Executing tool: branch_bulk_create_quick_links with params:', links);
       const { branch_key } = getResolvedAuth(params, config);
 
       if (!branch_key) {
-        throw new Error('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
       }
 
-      // Pre-flight validation for all links.
-      for (const link of links) {
-        if (link.type === 'MARKETING' && !link.data?.$marketing_title) {
-          return {
-            content: [{ type: 'text', text: `Validation Error: A $marketing_title is required for links to be visible on the dashboard. Problematic link data: ${JSON.stringify(link)}` }],
-            isError: true
-          };
-        }
+      // Validate every link before sending any of them.
+      const { valid, invalid } = validateBulkLinks(links, validateQuickLink);
+
+      // The API endpoint for bulk creation is /v1/url/bulk/:branch_key and it expects an array payload.
+      const report = createProgressReporter(extra);
+      const { results, created } = await createBulkLinks(client, branch_key, valid, {
+        signal: extra.signal,
+        onChunk: (processed) => report(processed, valid.length, `Processed ${processed} of ${valid.length} links.`)
+      });
+      return createBulkResult([...invalid, ...results], { links: created });
+    }
+  );
+
+  // Import Quick Links from a CSV or JSONL file
+  const importSchema = z.object({
+    content: z.string().max(MAX_IMPORT_BYTES).optional().describe('The CSV or JSONL to import. Give either the content or a file.'),
+    file: z.string().optional().describe('The path of the file to import, relative to the import directory of the server.'),
+    format: z.enum(IMPORT_FORMATS).optional().describe('The format of the content. Worked out from the extension of the file, or from the content, if not given.'),
+    mapping: z.record(z.string()).optional().describe(
+      'The link field each column goes to, such as {"Campaign": "~campaign", "Landing page": "$fallback_url", "Slug": "alias", "SKU": "product_sku"}. ' +
+      'Fields that are not link parameters (alias, type, duration, identity, tags, campaign, feature, channel, stage) go into the link\'s data, so custom data keys can be mapped too. ' +
+      'Columns that are not mapped are not imported. Every column goes to the field of its own name if not given.'
+    )
+  });
+
+  server.registerTool(
+    'branch_import_quick_links',
+    {
+      description: `Create Branch Quick Links from a spreadsheet: CSV with a header row, or JSONL with one link per line, given inline or as a file in the server's import directory. Every row is mapped to a link and validated on its own, and the links are created as by branch_bulk_create_quick_links. Results are numbered by the row of the file they come from (the header of a CSV file is row 1), and the result includes the rows as CSV with the URL of the link created for each, or the reason it failed. At most ${MAX_BULK_ITEMS} rows can be imported at once.`,
+      inputSchema: importSchema.merge(branchKeySchema).shape,
+      outputSchema: { ...bulkResultOutputShape, links: z.array(z.object({ url: z.string().url() }).passthrough()), csv: z.string() },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
       }
+    },
+    async (params: z.infer<typeof importSchema & typeof branchKeySchema>, extra: ToolExtra) => {
+      const { file, mapping } = params;
+      logger.debug('Executing tool: branch_import_quick_links with params:', { file, format: params.format, mapping });
+      const { branch_key } = getResolvedAuth(params, config);
 
-      try {
-                const transformedLinks = links.map((link: z.infer<typeof quickLinkCreateParamsSchema>) => {
-          const { type, ...rest } = link;
-          const newLink: Record<string, unknown> = { ...rest };
-          if (type === 'MARKETING') {
-            newLink.type = 2;
-          }
-          return newLink;
-        });
-
-        // The API endpoint for bulk creation is /v1/url/bulk/:branch_key and it expects an array payload.
-        const url = `${getBranchBaseUrl(config)}/v1/url/bulk/${branch_key}`;
-        const response = await axios.post(url, transformedLinks, {
-          headers: { 'Content-Type': 'application/json', 'User-Agent': MCP_USER_AGENT }
-        });
-        return { structuredContent: response.data, content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }] };
-      } catch (error) {
-        let message = getErrorMessage(error);
-        if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
-          message = error.response.data.error.message;
-        }
-        logger.error(`Error in branch_bulk_create_quick_links: ${message}`);
-        if (axios.isAxiosError(error)) {
-          throw new BranchApiError(message, { status: error.response?.status ?? 0, response: error.response });
-        }
-        throw new BranchApiError(message, { status: 0 });
+      if (!branch_key) {
+        throw new CredentialsError('Branch Key is not configured. Please provide it in the tool parameters or server configuration.');
+      }
+      if ((params.content === undefined) === (file === undefined)) {
+        throw new Error('Give either the content to import or a file, but not both.');
+      }
+
+      const content = file !== undefined ? await readImportFile(config.import_dir, file) : params.content!;
+      const { columns, rows } = parseImport(content, params.format ?? detectImportFormat(content, file));
+      if (rows.length > MAX_BULK_ITEMS) {
+        throw new Error(`The file has ${rows.length} rows, but at most ${MAX_BULK_ITEMS} can be imported at once. Split it into smaller files.`);
       }
+
+      // Validate every row before sending any of them, and number the results by row.
+      const validated = validateBulkLinks(rows, (row) => {
+        const { values, error } = row as typeof rows[number];
+        if (error) {
+          throw new Error(error);
+        }
+        return validateQuickLink(mapImportRow(values, mapping));
+      });
+      const toRow = <T extends { index: number }>(item: T): T => ({ ...item, index: rows[item.index].row });
+      const valid = validated.valid.map(toRow);
+      const invalid = validated.invalid.map(toRow);
+      // The links come from the rows rather than the arguments, so the policy middleware cannot see them.
+      valid.forEach(({ index, params: link }) => checkPolicyConstraints('branch_import_quick_links', link, `row ${index}`));
+      // Nor can the confirmation middleware count them.
+      await confirmBulkSize(valid.length);
+
+      const report = createProgressReporter(extra);
+      const { results, created } = await createBulkLinks(client, branch_key, valid, {
+        signal: extra.signal,
+        onChunk: (processed) => report(processed, valid.length, `Processed ${processed} of ${valid.length} rows.`)
+      });
+
+      const byRow = new Map<number, BulkItemResult>([...invalid, ...results].map((result) => [result.index, result]));
+      const csv = toCsv([
+        ['row', ...columns, 'url', 'status', 'reason'],
+        ...rows.map(({ row, values }) => {
+          const result = byRow.get(row)!;
+          return [row, ...columns.map((column) => values[column]), result.status === 'succeeded' ? result.link : '', result.status, result.reason];
+        })
+      ]);
+      const result = createBulkResult([...invalid, ...results], { links: created, csv });
+      return { ...result, content: [...result.content, { type: 'text', text: csv }] };
     }
   );
-}
\ No newline at end of file
+}
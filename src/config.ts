@@ -1,9 +1,26 @@
 /**
  * @file This file defines the configuration structure for the Branch MCP Server.
  * It includes the `BranchMcpConfig` interface, which specifies the shape of the
- * configuration object, and `DEFAULT_CONFIG`, which provides default values for
- * certain properties.
+ * Branch configuration object, the `ServerConfig` and `AppConfig` interfaces that
+ * describe the complete server configuration, and defaults for certain properties.
+ * The configuration is loaded and validated by `loadConfig` in `utils/config-loader.ts`.
  */
+import type { AuthConfig } from './http/auth.js';
+import { DEFAULT_AUDIT_LOG_MAX_BYTES, DEFAULT_AUDIT_LOG_MAX_FILES } from './utils/audit.js';
+import type { AuditConfig } from './utils/audit.js';
+import type { PolicyConfig } from './utils/policy.js';
+import { DEFAULT_CONFIRM_BULK_THRESHOLD, DEFAULT_CONFIRM_TIMEOUT_MS, DEFAULT_CONFIRM_TOOLS } from './utils/confirmation.js';
+import type { ConfirmationConfig } from './utils/confirmation.js';
+import { DEFAULT_IDEMPOTENCY_TTL_MS } from './utils/idempotency.js';
+import { DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTLS } from './utils/cache.js';
+import type { CacheConfig } from './utils/cache.js';
+import type { IdempotencyConfig } from './utils/idempotency.js';
+import { DEFAULT_EXPORT_JOB_TTL_MS } from './utils/export-jobs.js';
+import type { ExportJobsConfig } from './utils/export-jobs.js';
+import { DEFAULT_SESSION_IDLE_TIMEOUT_MS } from './utils/sessions.js';
+import { DEFAULT_SHUTDOWN_TIMEOUT_MS } from './utils/shutdown.js';
+import { DEFAULT_READY_PROBE_TTL_MS, READINESS_CHECK_NAMES } from './http/readiness.js';
+import type { ReadinessCheckName } from './http/readiness.js';
 
 /**
  * Defines the structure for the Branch MCP server's configuration object.
@@ -45,6 +62,118 @@ export interface BranchMcpConfig {
    * Optional Branch Auth Token for sensitive API operations
    */
   auth_token?: string;
+
+  /**
+   * Optional timeout, in milliseconds, for requests to the Branch API
+   */
+  request_timeout_ms?: number;
+
+  /**
+   * Optional number of times a failed Branch API request is retried
+   */
+  max_retries?: number;
+
+  /**
+   * Optional number of concurrent Branch API requests allowed per credential
+   */
+  max_concurrency?: number;
+
+  /**
+   * Optional directory that the import tool may read files of links from
+   */
+  import_dir?: string;
+
+  /**
+   * Optional hosts the files of completed exports may be downloaded from, such as `*.branch.io`,
+   * `my-bucket.s3.*.amazonaws.com` or `http://localhost:8080`. Defaults to Branch and its export bucket on S3.
+   */
+  download_hosts?: string[];
+
+  /**
+   * Optional named sets of credentials (e.g. `prod-ios`, `staging`), so that one server can
+   * address several Branch apps. Tools accept a `profile` argument to select one.
+   */
+  profiles?: Record<string, BranchProfile>;
+
+  /**
+   * Optional name of the profile used when a tool call does not select one
+   */
+  default_profile?: string;
+}
+
+/**
+ * The credentials of a named Branch profile.
+ */
+export type BranchProfile = Pick<BranchMcpConfig, 'branch_key' | 'branch_secret' | 'api_key' | 'app_id' | 'organization_id' | 'auth_token'>;
+
+/**
+ * The MCP transport the server communicates over.
+ */
+export type McpTransportType = 'stdio' | 'sse' | 'streamable-http';
+
+/**
+ * Defines the network and session settings of the server.
+ */
+export interface ServerConfig {
+  /**
+   * The MCP transport to serve
+   */
+  transport: McpTransportType;
+
+  /**
+   * Optional host the MCP HTTP server binds to, defaults to all interfaces
+   */
+  host?: string;
+
+  /**
+   * The port the MCP HTTP server listens on
+   */
+  port: number;
+
+  /**
+   * Optional host the monitoring server binds to, defaults to all interfaces
+   */
+  monitor_host?: string;
+
+  /**
+   * The port the monitoring server (/health, /ready, /metrics) listens on
+   */
+  monitor_port: number;
+
+  /**
+   * How long, in milliseconds, an HTTP session may stay idle before it is closed
+   */
+  session_idle_timeout_ms: number;
+
+  /**
+   * The checks run by the monitoring server's /ready endpoint
+   */
+  ready_checks: ReadinessCheckName[];
+
+  /**
+   * How long, in milliseconds, the result of the authenticated Branch API probe is reused
+   */
+  ready_probe_ttl_ms: number;
+
+  /**
+   * How long, in milliseconds, in-flight tool calls are given to finish when the server shuts down
+   */
+  shutdown_timeout_ms: number;
+}
+
+/**
+ * The complete, validated configuration of the server.
+ */
+export interface AppConfig {
+  branch: BranchMcpConfig;
+  server: ServerConfig;
+  auth: AuthConfig;
+  audit: AuditConfig;
+  policy: PolicyConfig;
+  confirmation: ConfirmationConfig;
+  idempotency: IdempotencyConfig;
+  cache: CacheConfig;
+  export_jobs: ExportJobsConfig;
 }
 
 /**
@@ -54,4 +183,68 @@ export interface BranchMcpConfig {
  */
 export const DEFAULT_CONFIG: Partial<BranchMcpConfig> = {
   branch_url: 'api2.branch.io'
-};
\ No newline at end of file
+};
+
+/**
+ * Provides default values for the server's network and session settings.
+ */
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  transport: 'streamable-http',
+  port: 8080,
+  monitor_port: 8081,
+  session_idle_timeout_ms: DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+  ready_checks: [...READINESS_CHECK_NAMES],
+  ready_probe_ttl_ms: DEFAULT_READY_PROBE_TTL_MS,
+  shutdown_timeout_ms: DEFAULT_SHUTDOWN_TIMEOUT_MS
+};
+
+/**
+ * Provides default values for the audit log settings.
+ */
+export const DEFAULT_AUDIT_CONFIG: AuditConfig = {
+  max_bytes: DEFAULT_AUDIT_LOG_MAX_BYTES,
+  max_files: DEFAULT_AUDIT_LOG_MAX_FILES
+};
+
+/**
+ * Provides default values for the tool policy settings: every tool is allowed.
+ */
+export const DEFAULT_POLICY_CONFIG: PolicyConfig = {
+  read_only: false,
+  dry_run: false
+};
+
+/**
+ * Provides default values for the confirmation settings: deletes and app settings changes are
+ * confirmed, and clients that cannot ask the user are trusted.
+ */
+export const DEFAULT_CONFIRMATION_CONFIG: ConfirmationConfig = {
+  enabled: true,
+  tools: DEFAULT_CONFIRM_TOOLS,
+  bulk_threshold: DEFAULT_CONFIRM_BULK_THRESHOLD,
+  fallback: 'allow',
+  timeout_ms: DEFAULT_CONFIRM_TIMEOUT_MS
+};
+
+/**
+ * Provides default values for the idempotency key settings: results are kept in memory.
+ */
+export const DEFAULT_IDEMPOTENCY_CONFIG: IdempotencyConfig = {
+  ttl_ms: DEFAULT_IDEMPOTENCY_TTL_MS
+};
+
+/**
+ * Provides default values for the cache settings: links, app settings and query results are cached in memory.
+ */
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: true,
+  ttl_ms: DEFAULT_CACHE_TTLS,
+  max_entries: DEFAULT_CACHE_MAX_ENTRIES
+};
+
+/**
+ * Provides default values for the export job registry settings: jobs are kept in memory for 7 days.
+ */
+export const DEFAULT_EXPORT_JOBS_CONFIG: ExportJobsConfig = {
+  ttl_ms: DEFAULT_EXPORT_JOB_TTL_MS
+};
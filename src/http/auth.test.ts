@@ -0,0 +1,248 @@
+import { describe, it, expect, jest, beforeAll, afterAll, afterEach } from '@jest/globals';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+import type { JSONWebKeySet } from 'jose';
+import type { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import {
+  CompositeTokenVerifier,
+  createProtectedResourceMetadataRouter,
+  createTokenVerifier,
+  JwtTokenVerifier,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  requireAuth,
+  StaticTokenVerifier
+} from './auth.js';
+import type { AuthConfig } from './auth.js';
+import logger from '../utils/logger.js';
+
+describe('HTTP authentication', () => {
+  let privateKey: CryptoKey;
+  let jwks: JSONWebKeySet;
+  let tempDir: string;
+  let httpServer: Server | undefined;
+
+  const issuer = 'https://auth.example.com';
+  const audience = 'https://mcp.example.com';
+
+  const signToken = (claims: Record<string, unknown> = {}, expiresIn = '5m') => new SignJWT({ scope: 'mcp:tools', client_id: 'agent-1', ...claims })
+    .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+    .setIssuer(issuer)
+    .setAudience(audience)
+    .setSubject('user-1')
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(privateKey);
+
+  /**
+   * Starts an app protected by the auth middleware that echoes the validated auth info.
+   */
+  const startApp = async (verifier: OAuthTokenVerifier, config: AuthConfig = {}) => {
+    const app = express();
+    app.use(createProtectedResourceMetadataRouter(config));
+    app.use('/mcp', requireAuth(verifier, config));
+    app.post('/mcp', (req, res) => {
+      res.json(req.auth);
+    });
+    httpServer = app.listen(0);
+    return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  };
+
+  const call = (baseUrl: string, token?: string) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair('RS256');
+    privateKey = keyPair.privateKey as CryptoKey;
+    jwks = { keys: [{ ...(await exportJWK(keyPair.publicKey)), kid: 'test-key', alg: 'RS256' }] };
+    tempDir = mkdtempSync(join(tmpdir(), 'branch-mcp-auth-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    if (httpServer) {
+      await new Promise((resolve) => httpServer!.close(resolve));
+      httpServer = undefined;
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('StaticTokenVerifier', () => {
+    it('should accept configured tokens and reject others', async () => {
+      const verifier = new StaticTokenVerifier(new Map([['secret-token', 'ci-bot']]));
+      await expect(verifier.verifyAccessToken('secret-token')).resolves.toEqual({ token: 'secret-token', clientId: 'ci-bot', scopes: [] });
+      await expect(verifier.verifyAccessToken('wrong-token')).rejects.toThrow('Invalid access token');
+    });
+
+    it('should parse token files, ignoring comments and blank lines', () => {
+      const tokens = StaticTokenVerifier.parseTokensFile('# tokens\nabc marketing-agent\n\ndef\n');
+      expect([...tokens]).toEqual([['abc', 'marketing-agent'], ['def', 'static-token-2']]);
+    });
+  });
+
+  describe('JwtTokenVerifier', () => {
+    it('should accept tokens signed by a key in the JWKS', async () => {
+      const verifier = new JwtTokenVerifier(jwks, { issuer, audience });
+      const token = await signToken();
+      const authInfo = await verifier.verifyAccessToken(token);
+      expect(authInfo).toMatchObject({ token, clientId: 'agent-1', scopes: ['mcp:tools'], extra: { subject: 'user-1' } });
+      expect(authInfo.expiresAt).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    it('should reject tokens with the wrong audience', async () => {
+      const verifier = new JwtTokenVerifier(jwks, { issuer, audience: 'https://other.example.com' });
+      await expect(verifier.verifyAccessToken(await signToken())).rejects.toThrow('Invalid access token');
+    });
+
+    it('should reject tokens signed by an unknown key', async () => {
+      const { privateKey: otherKey } = await generateKeyPair('RS256');
+      const token = await new SignJWT({}).setProtectedHeader({ alg: 'RS256', kid: 'test-key' }).setExpirationTime('5m').sign(otherKey);
+      await expect(new JwtTokenVerifier(jwks).verifyAccessToken(token)).rejects.toThrow('Invalid access token');
+    });
+
+    it('should fall back to the subject as client ID and no scopes', async () => {
+      const token = await signToken({ scope: undefined, client_id: undefined });
+      const authInfo = await new JwtTokenVerifier(jwks).verifyAccessToken(token);
+      expect(authInfo.clientId).toBe('user-1');
+      expect(authInfo.scopes).toEqual([]);
+    });
+  });
+
+  describe('CompositeTokenVerifier', () => {
+    it('should accept a token if any verifier accepts it', async () => {
+      const verifier = new CompositeTokenVerifier([
+        new StaticTokenVerifier(new Map([['static', 'ci-bot']])),
+        new JwtTokenVerifier(jwks)
+      ]);
+      await expect(verifier.verifyAccessToken('static')).resolves.toMatchObject({ clientId: 'ci-bot' });
+      await expect(verifier.verifyAccessToken(await signToken())).resolves.toMatchObject({ clientId: 'agent-1' });
+      await expect(verifier.verifyAccessToken('nope')).rejects.toThrow('Invalid access token');
+    });
+  });
+
+  describe('createTokenVerifier', () => {
+    it('should return undefined when no token source is configured', () => {
+      expect(createTokenVerifier({})).toBeUndefined();
+    });
+
+    it('should build a verifier from inline tokens', async () => {
+      const verifier = createTokenVerifier({ tokens: ['inline'], required_scopes: ['mcp:tools'] });
+      expect(verifier).toBeInstanceOf(StaticTokenVerifier);
+      await expect(verifier!.verifyAccessToken('inline')).resolves.toMatchObject({ clientId: 'static-token-1', scopes: ['mcp:tools'] });
+    });
+
+    it('should combine a tokens file with a JWKS file', async () => {
+      const tokensFile = join(tempDir, 'tokens');
+      const jwksFile = join(tempDir, 'jwks.json');
+      writeFileSync(tokensFile, 'from-file dashboard\n');
+      writeFileSync(jwksFile, JSON.stringify(jwks));
+
+      const verifier = createTokenVerifier({ tokens_file: tokensFile, jwks_file: jwksFile, jwt_issuer: issuer });
+      expect(verifier).toBeInstanceOf(CompositeTokenVerifier);
+      await expect(verifier!.verifyAccessToken('from-file')).resolves.toMatchObject({ clientId: 'dashboard' });
+      await expect(verifier!.verifyAccessToken(await signToken())).resolves.toMatchObject({ clientId: 'agent-1' });
+    });
+  });
+
+  describe('requireAuth', () => {
+    const config: AuthConfig = { resource_url: audience, jwt_issuer: issuer, required_scopes: ['mcp:tools'] };
+
+    it('should reject requests without a bearer token with a spec-shaped 401', async () => {
+      const baseUrl = await startApp(new JwtTokenVerifier(jwks), config);
+      const response = await call(baseUrl);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe(
+        `Bearer error="invalid_token", error_description="Missing or malformed Authorization header, expected 'Bearer TOKEN'", resource_metadata="${audience}${PROTECTED_RESOURCE_METADATA_PATH}"`
+      );
+      expect(await response.json()).toMatchObject({ error: 'invalid_token' });
+    });
+
+    it('should reject invalid tokens and escape quotes in the challenge', async () => {
+      const baseUrl = await startApp(new JwtTokenVerifier(jwks, { issuer: 'https://other.example.com' }));
+      const response = await call(baseUrl, await signToken());
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toContain('\\"iss\\"');
+      expect(response.headers.get('www-authenticate')).not.toContain('resource_metadata');
+    });
+
+    it('should pass valid tokens through and attach the auth info', async () => {
+      const baseUrl = await startApp(new JwtTokenVerifier(jwks), config);
+      const response = await call(baseUrl, await signToken());
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ clientId: 'agent-1', scopes: ['mcp:tools'] });
+    });
+
+    it('should reject tokens missing a required scope with a 403', async () => {
+      const baseUrl = await startApp(new JwtTokenVerifier(jwks), config);
+      const response = await call(baseUrl, await signToken({ scope: 'other' }));
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('www-authenticate')).toContain('error="insufficient_scope"');
+    });
+
+    it('should reject expired tokens', async () => {
+      const verifier = { verifyAccessToken: async (token: string) => ({ token, clientId: 'x', scopes: [], expiresAt: 1 }) };
+      const baseUrl = await startApp(verifier);
+      const response = await call(baseUrl, 'expired');
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toContain('Token has expired');
+    });
+
+    it('should respond with a server error if the verifier fails unexpectedly', async () => {
+      jest.spyOn(logger, 'error').mockImplementation(() => logger);
+      const verifier = { verifyAccessToken: async () => {
+        throw new Error('database down');
+      } };
+      const baseUrl = await startApp(verifier);
+      const response = await call(baseUrl, 'token');
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'server_error', error_description: 'Internal Server Error' });
+    });
+  });
+
+  describe('createProtectedResourceMetadataRouter', () => {
+    it('should serve the protected resource metadata document', async () => {
+      const baseUrl = await startApp(new StaticTokenVerifier(new Map()), { resource_url: audience, jwt_issuer: issuer });
+      const response = await fetch(`${baseUrl}${PROTECTED_RESOURCE_METADATA_PATH}`);
+
+      expect(await response.json()).toEqual({
+        resource: audience,
+        authorization_servers: [issuer],
+        scopes_supported: [],
+        bearer_methods_supported: ['header']
+      });
+    });
+
+    it('should prefer explicitly configured authorization servers', async () => {
+      const baseUrl = await startApp(new StaticTokenVerifier(new Map()), {
+        resource_url: audience,
+        authorization_servers: ['https://idp.example.com'],
+        required_scopes: ['mcp:tools']
+      });
+      const response = await fetch(`${baseUrl}${PROTECTED_RESOURCE_METADATA_PATH}`);
+
+      expect(await response.json()).toMatchObject({ authorization_servers: ['https://idp.example.com'], scopes_supported: ['mcp:tools'] });
+    });
+
+    it('should advertise no authorization servers when none are known', async () => {
+      const baseUrl = await startApp(new StaticTokenVerifier(new Map()), { resource_url: audience });
+      const response = await fetch(`${baseUrl}${PROTECTED_RESOURCE_METADATA_PATH}`);
+
+      expect(await response.json()).toMatchObject({ authorization_servers: [] });
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * @file This file implements the authentication gate in front of the MCP HTTP endpoints.
+ *
+ * Clients must send `Authorization: Bearer <token>`. Tokens are checked by pluggable verifiers
+ * implementing the MCP SDK's `OAuthTokenVerifier` interface: static API tokens (from the
+ * environment or a file) and JWTs validated against a locally configured JWKS. Failures are
+ * answered with a `401` and a `WWW-Authenticate` header as described by the MCP authorization spec.
+ */
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { Router } from 'express';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { createLocalJWKSet, jwtVerify } from 'jose';
+import type { JSONWebKeySet } from 'jose';
+import type { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InsufficientScopeError, InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import logger from '../utils/logger.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /**
+     * Information about the validated access token, set by `requireAuth`.
+     */
+    auth?: AuthInfo;
+  }
+}
+
+/**
+ * The path at which the OAuth 2.0 Protected Resource Metadata document is served.
+ */
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+/**
+ * Settings for the authentication gate. Authentication is enabled when any token source is configured.
+ */
+export interface AuthConfig {
+  /**
+   * Static API tokens accepted by the server.
+   */
+  tokens?: string[];
+
+  /**
+   * Path to a file of static API tokens, one per line, optionally followed by a client ID.
+   * Blank lines and lines starting with `#` are ignored.
+   */
+  tokens_file?: string;
+
+  /**
+   * Path to a JSON Web Key Set used to validate JWT bearer tokens.
+   */
+  jwks_file?: string;
+
+  /**
+   * The issuer (`iss`) JWTs must carry.
+   */
+  jwt_issuer?: string;
+
+  /**
+   * The audience (`aud`) JWTs must carry.
+   */
+  jwt_audience?: string;
+
+  /**
+   * Scopes every token must have.
+   */
+  required_scopes?: string[];
+
+  /**
+   * The public URL of this MCP server, advertised in the protected resource metadata.
+   */
+  resource_url?: string;
+
+  /**
+   * The authorization servers that issue tokens for this server.
+   */
+  authorization_servers?: string[];
+}
+
+/**
+ * Hashes a token so that tokens can be compared in constant time regardless of their length.
+ */
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+/**
+ * Verifies static API tokens. Static tokens never expire and are granted a fixed set of scopes.
+ */
+export class StaticTokenVerifier implements OAuthTokenVerifier {
+  private readonly tokens: { hash: Buffer; clientId: string }[];
+
+  /**
+   * @param tokens A map of accepted tokens to the client ID each one identifies.
+   * @param scopes The scopes granted to every static token.
+   */
+  constructor(tokens: Map<string, string>, private readonly scopes: string[] = []) {
+    this.tokens = [...tokens].map(([token, clientId]) => ({ hash: hashToken(token), clientId }));
+  }
+
+  /**
+   * Parses a tokens file with one token per line, optionally followed by whitespace and a client ID.
+   * @param contents The file contents.
+   * @returns A map of tokens to client IDs.
+   */
+  static parseTokensFile(contents: string): Map<string, string> {
+    const tokens = new Map<string, string>();
+    for (const line of contents.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) {
+        continue;
+      }
+      const [token, clientId] = trimmed.split(/\s+/);
+      tokens.set(token, clientId ?? `static-token-${tokens.size + 1}`);
+    }
+    return tokens;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const hash = hashToken(token);
+    const match = this.tokens.find((candidate) => timingSafeEqual(candidate.hash, hash));
+    if (!match) {
+      throw new InvalidTokenError('Invalid access token');
+    }
+    return { token, clientId: match.clientId, scopes: this.scopes };
+  }
+}
+
+/**
+ * Verifies JWT bearer tokens against a local JSON Web Key Set.
+ */
+export class JwtTokenVerifier implements OAuthTokenVerifier {
+  private readonly keys: ReturnType<typeof createLocalJWKSet>;
+
+  /**
+   * @param jwks The JSON Web Key Set containing the public keys tokens are signed with.
+   * @param options The issuer and audience tokens must carry, if any.
+   */
+  constructor(jwks: JSONWebKeySet, private readonly options: { issuer?: string; audience?: string } = {}) {
+    this.keys = createLocalJWKSet(jwks);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    try {
+      const { payload } = await jwtVerify(token, this.keys, {
+        issuer: this.options.issuer,
+        audience: this.options.audience
+      });
+      const scope = typeof payload.scope === 'string' ? payload.scope : '';
+      return {
+        token,
+        clientId: String(payload.client_id ?? payload.azp ?? payload.sub ?? 'unknown'),
+        scopes: scope.split(' ').filter(Boolean),
+        expiresAt: payload.exp,
+        extra: { subject: payload.sub }
+      };
+    } catch (error) {
+      throw new InvalidTokenError(`Invalid access token: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Tries several verifiers in turn, accepting a token as soon as one of them does.
+ */
+export class CompositeTokenVerifier implements OAuthTokenVerifier {
+  constructor(private readonly verifiers: OAuthTokenVerifier[]) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    let lastError: unknown = new InvalidTokenError('Invalid access token');
+    for (const verifier of this.verifiers) {
+      try {
+        return await verifier.verifyAccessToken(token);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Builds the token verifier described by the auth configuration.
+ * @param config The auth configuration.
+ * @returns The verifier, or `undefined` if no token source is configured and authentication is disabled.
+ */
+export function createTokenVerifier(config: AuthConfig): OAuthTokenVerifier | undefined {
+  const verifiers: OAuthTokenVerifier[] = [];
+
+  const tokens = new Map<string, string>();
+  config.tokens?.forEach((token, index) => tokens.set(token, `static-token-${index + 1}`));
+  if (config.tokens_file) {
+    StaticTokenVerifier.parseTokensFile(readFileSync(config.tokens_file, 'utf8'))
+      .forEach((clientId, token) => tokens.set(token, clientId));
+  }
+  if (tokens.size > 0) {
+    verifiers.push(new StaticTokenVerifier(tokens, config.required_scopes));
+  }
+
+  if (config.jwks_file) {
+    const jwks = JSON.parse(readFileSync(config.jwks_file, 'utf8')) as JSONWebKeySet;
+    verifiers.push(new JwtTokenVerifier(jwks, { issuer: config.jwt_issuer, audience: config.jwt_audience }));
+  }
+
+  if (verifiers.length === 0) {
+    return undefined;
+  }
+  return verifiers.length === 1 ? verifiers[0] : new CompositeTokenVerifier(verifiers);
+}
+
+/**
+ * Formats a `WWW-Authenticate` challenge for a failed request.
+ */
+function formatChallenge(error: InvalidTokenError | InsufficientScopeError, resourceMetadataUrl?: string) {
+  const description = error.message.replace(/"/g, '\\"');
+  const params = [`error="${error.errorCode}"`, `error_description="${description}"`];
+  if (resourceMetadataUrl) {
+    params.push(`resource_metadata="${resourceMetadataUrl}"`);
+  }
+  return `Bearer ${params.join(', ')}`;
+}
+
+/**
+ * Creates an Express middleware that rejects requests without a valid bearer token.
+ * On success the validated token is attached as `req.auth`, which the MCP transports pass on to
+ * request handlers as `authInfo`.
+ * @param verifier The verifier used to validate tokens.
+ * @param config The auth configuration, used for required scopes and the resource metadata URL.
+ * @returns The Express middleware.
+ */
+export function requireAuth(verifier: OAuthTokenVerifier, config: AuthConfig = {}): RequestHandler {
+  const requiredScopes = config.required_scopes ?? [];
+  const resourceMetadataUrl = config.resource_url
+    ? new URL(PROTECTED_RESOURCE_METADATA_PATH, config.resource_url).href
+    : undefined;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [type, token] = (req.headers.authorization ?? '').split(' ');
+      if (type?.toLowerCase() !== 'bearer' || !token) {
+        throw new InvalidTokenError('Missing or malformed Authorization header, expected \'Bearer TOKEN\'');
+      }
+
+      const authInfo = await verifier.verifyAccessToken(token);
+      if (authInfo.expiresAt !== undefined && authInfo.expiresAt < Date.now() / 1000) {
+        throw new InvalidTokenError('Token has expired');
+      }
+      if (!requiredScopes.every((scope) => authInfo.scopes.includes(scope))) {
+        throw new InsufficientScopeError('Insufficient scope');
+      }
+
+      req.auth = authInfo;
+      next();
+    } catch (error) {
+      if (error instanceof InvalidTokenError || error instanceof InsufficientScopeError) {
+        res.set('WWW-Authenticate', formatChallenge(error, resourceMetadataUrl));
+        res.status(error instanceof InvalidTokenError ? 401 : 403).json(error.toResponseObject());
+        return;
+      }
+      logger.error('Error verifying access token', { error: getErrorMessage(error) });
+      res.status(500).json({ error: 'server_error', error_description: 'Internal Server Error' });
+    }
+  };
+}
+
+/**
+ * Creates a router serving the OAuth 2.0 Protected Resource Metadata document (RFC 9728), which
+ * tells MCP clients which authorization servers issue tokens for this server.
+ * @param config The auth configuration. `resource_url` must be set.
+ * @returns The Express router.
+ */
+export function createProtectedResourceMetadataRouter(config: AuthConfig): Router {
+  const router = Router();
+  router.get(PROTECTED_RESOURCE_METADATA_PATH, (_req: Request, res: Response) => {
+    res.json({
+      resource: config.resource_url,
+      authorization_servers: config.authorization_servers ?? (config.jwt_issuer ? [config.jwt_issuer] : []),
+      scopes_supported: config.required_scopes ?? [],
+      bearer_methods_supported: ['header']
+    });
+  });
+  return router;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  createBranchProbeCheck,
+  createConfigCheck,
+  createReadinessHandler,
+  createTransportCheck,
+  runReadinessChecks
+} from './readiness.js';
+import type { ReadinessCheck } from './readiness.js';
+import logger from '../utils/logger.js';
+
+describe('readiness checks', () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    mock.restore();
+    jest.restoreAllMocks();
+  });
+
+  describe('createConfigCheck', () => {
+    it('should pass when every tool family is configured', async () => {
+      const check = createConfigCheck({ branch_key: 'key', branch_secret: 'secret', api_key: 'api', app_id: '123', auth_token: 'token' });
+      expect(await check.run()).toMatchObject({ status: 'pass', message: '8 of 8 tool families have credentials in the server configuration' });
+    });
+
+    it('should warn about the credentials missing for some tool families', async () => {
+      const result = await createConfigCheck({ profiles: { main: { branch_key: 'key' } }, default_profile: 'main', organization_id: 'org' }).run();
+      expect(result.status).toBe('warn');
+      expect(result.details).toMatchObject({
+        deep_linking: 'configured',
+        app: 'missing branch_secret',
+        data_exports: 'missing api_key',
+        deep_link_deletion: 'missing auth_token, app_id'
+      });
+    });
+
+    it('should only warn when no tool family is configured, for sessions that pass their own credentials', async () => {
+      expect(await createConfigCheck({}).run()).toMatchObject({
+        status: 'warn',
+        message: 'No tool family has credentials in the server configuration, so every session or call must pass its own'
+      });
+      expect(await runReadinessChecks([createConfigCheck({})])).toMatchObject({ status: 'ready' });
+    });
+  });
+
+  describe('createBranchProbeCheck', () => {
+    const config = { branch_url: 'api.branch.io', branch_key: 'key_live_123', branch_secret: 'secret' };
+    const url = 'https://api.branch.io/v1/app/key_live_123';
+
+    it('should pass when Branch accepts the credentials, and cache the result', async () => {
+      let now = 0;
+      mock.onGet(url).reply(200, {});
+      const check = createBranchProbeCheck(config, { ttlMs: 1000, now: () => now });
+
+      expect(await check.run()).toMatchObject({ status: 'pass' });
+      now = 999;
+      await check.run();
+      expect(mock.history.get).toHaveLength(1);
+      expect(mock.history.get[0].params).toEqual({ branch_secret: 'secret' });
+
+      now = 1000;
+      await check.run();
+      expect(mock.history.get).toHaveLength(2);
+    });
+
+    it('should fail when Branch rejects the credentials', async () => {
+      mock.onGet(url).reply(401, { error: { message: 'Invalid branch_secret' } });
+      const result = await createBranchProbeCheck(config).run();
+      expect(result).toEqual({
+        status: 'fail',
+        message: 'The Branch API rejected the configured credentials: Invalid branch_secret',
+        details: { code: 'auth', status: 401 }
+      });
+    });
+
+    it('should fail without retrying when Branch is unreachable', async () => {
+      mock.onGet(url).networkError();
+      const result = await createBranchProbeCheck(config).run();
+      expect(result).toMatchObject({ status: 'fail', details: { code: 'upstream' } });
+      expect(result.message).toContain('The Branch API probe failed');
+      expect(mock.history.get).toHaveLength(1);
+    });
+
+    it('should warn when there are no credentials to probe with', async () => {
+      expect(await createBranchProbeCheck({ branch_key: 'key' }).run()).toMatchObject({ status: 'warn' });
+      expect(mock.history.get).toHaveLength(0);
+    });
+  });
+
+  describe('createTransportCheck', () => {
+    it('should report whether the transport is bound', async () => {
+      let bound = false;
+      const check = createTransportCheck('streamable-http', () => bound);
+      expect(await check.run()).toMatchObject({ status: 'fail' });
+      bound = true;
+      expect(await check.run()).toEqual({ status: 'pass', message: 'The streamable-http transport is accepting connections' });
+    });
+  });
+
+  describe('runReadinessChecks', () => {
+    it('should be degraded when a check fails or throws, but not when it warns', async () => {
+      const warn: ReadinessCheck = { name: 'warn', run: () => ({ status: 'warn', message: 'careful' }) };
+      const broken: ReadinessCheck = { name: 'broken', run: async () => {
+        throw new Error('boom');
+      } };
+
+      expect(await runReadinessChecks([warn])).toEqual({ status: 'ready', checks: [{ name: 'warn', status: 'warn', message: 'careful' }] });
+      expect(await runReadinessChecks([warn, broken])).toEqual({
+        status: 'degraded',
+        checks: [{ name: 'warn', status: 'warn', message: 'careful' }, { name: 'broken', status: 'fail', message: 'boom' }]
+      });
+    });
+  });
+
+  describe('createReadinessHandler', () => {
+    let httpServer: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise((resolve) => httpServer?.close(resolve));
+    });
+
+    const get = async (checks: ReadinessCheck[]) => {
+      const app = express();
+      app.get('/ready', createReadinessHandler(checks));
+      httpServer = app.listen(0);
+      const response = await fetch(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/ready`);
+      return { status: response.status, body: await response.json() };
+    };
+
+    it('should return 200 with the report when ready', async () => {
+      const { status, body } = await get([createTransportCheck('sse', () => true)]);
+      expect(status).toBe(200);
+      expect(body).toEqual({ status: 'ready', checks: [{ name: 'transport', status: 'pass', message: 'The sse transport is accepting connections' }] });
+    });
+
+    it('should return 503 when degraded', async () => {
+      const { status, body } = await get([createTransportCheck('sse', () => false), createConfigCheck({ branch_key: 'key' })]);
+      expect(status).toBe(503);
+      expect(body.status).toBe('degraded');
+      expect(body.checks.map((check: { name: string }) => check.name)).toEqual(['transport', 'config']);
+    });
+  });
+});
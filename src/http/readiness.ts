@@ -0,0 +1,230 @@
+/**
+ * @file This file implements the readiness checks behind the monitoring server's `/ready` endpoint.
+ *
+ * Each check reports `pass`, `warn` or `fail`. The endpoint runs the configured checks and returns
+ * a JSON report with the result of each one, with status 200 when none failed and 503 otherwise,
+ * so that orchestrators stop routing traffic to an instance that cannot serve it. The checks are:
+ * - `config`: which tool families have the credentials they need in the server configuration;
+ * - `branch_api`: an authenticated request to the Branch API, cached for a configurable time;
+ * - `transport`: whether the MCP transport is bound and accepting connections.
+ */
+import type { Request, RequestHandler, Response } from 'express';
+import type { BranchMcpConfig } from '../config.js';
+import { getRequestApiKey, getResolvedAppOrOrgId, getResolvedAuth } from '../utils/auth.js';
+import { BranchClient } from '../utils/branch-client.js';
+import { getErrorMessage, toToolError } from '../utils/errors.js';
+import logger from '../utils/logger.js';
+
+/**
+ * The names of the available readiness checks.
+ */
+export const READINESS_CHECK_NAMES = ['config', 'branch_api', 'transport'] as const;
+
+export type ReadinessCheckName = typeof READINESS_CHECK_NAMES[number];
+
+/**
+ * The default time the result of the Branch API probe is reused (1 minute).
+ */
+export const DEFAULT_READY_PROBE_TTL_MS = 60 * 1000;
+
+/**
+ * The timeout of the Branch API probe (5 seconds).
+ */
+const PROBE_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * The outcome of a check. Only `fail` makes the server unready.
+ */
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * The result of a single readiness check.
+ */
+export interface CheckResult {
+  status: CheckStatus;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A named readiness check.
+ */
+export interface ReadinessCheck {
+  name: string;
+  run(): Promise<CheckResult> | CheckResult;
+}
+
+/**
+ * The report returned by `/ready`.
+ */
+export interface ReadinessReport {
+  status: 'ready' | 'degraded';
+  checks: (CheckResult & { name: string })[];
+}
+
+/**
+ * The credentials each family of tools needs. A list of alternatives means any one of them will do.
+ */
+const TOOL_FAMILY_CREDENTIALS: Record<string, (string | string[])[]> = {
+  app: ['branch_key', 'branch_secret'],
+  deep_linking: ['branch_key'],
+  deep_link_deletion: ['auth_token', 'app_id'],
+  quick_links: ['branch_key', 'branch_secret'],
+  qr_code: ['branch_key'],
+  query: ['branch_key', 'branch_secret'],
+  daily_exports: ['branch_key', 'branch_secret'],
+  data_exports: ['api_key', ['app_id', 'organization_id']]
+};
+
+/**
+ * Runs readiness checks. A check that throws counts as failed.
+ * @param checks The checks to run.
+ * @returns The report, `degraded` if any check failed.
+ */
+export async function runReadinessChecks(checks: ReadinessCheck[]): Promise<ReadinessReport> {
+  const results = await Promise.all(checks.map(async (check) => {
+    try {
+      return { name: check.name, ...(await check.run()) };
+    } catch (error) {
+      return { name: check.name, status: 'fail' as const, message: getErrorMessage(error) };
+    }
+  }));
+  return {
+    status: results.some((result) => result.status === 'fail') ? 'degraded' : 'ready',
+    checks: results
+  };
+}
+
+/**
+ * Creates a check of which tool families have the credentials they need in the server configuration
+ * (including the default profile). Missing credentials only warn, since they can also be passed with
+ * each call or the session, even when no tool family is configured at all: a deployment may rely on
+ * every session sending its own credentials.
+ * @param config The Branch MCP configuration.
+ * @returns The check.
+ */
+export function createConfigCheck(config: BranchMcpConfig): ReadinessCheck {
+  return {
+    name: 'config',
+    run: () => {
+      const credentials: Record<string, string | undefined> = {
+        ...getResolvedAuth({}, config),
+        ...getResolvedAppOrOrgId({}, config),
+        api_key: getRequestApiKey({}, config)
+      };
+      const details: Record<string, string> = {};
+      for (const [family, required] of Object.entries(TOOL_FAMILY_CREDENTIALS)) {
+        const missing = required
+          .filter((names) => [names].flat().every((name) => !credentials[name]))
+          .map((names) => [names].flat().join(' or '));
+        details[family] = missing.length === 0 ? 'configured' : `missing ${missing.join(', ')}`;
+      }
+      const configured = Object.values(details).filter((value) => value === 'configured').length;
+      const total = Object.keys(details).length;
+      if (configured === 0) {
+        return { status: 'warn', message: 'No tool family has credentials in the server configuration, so every session or call must pass its own', details };
+      }
+      return {
+        status: configured === total ? 'pass' : 'warn',
+        message: `${configured} of ${total} tool families have credentials in the server configuration`,
+        details
+      };
+    }
+  };
+}
+
+/**
+ * Options for the Branch API probe.
+ */
+export interface BranchProbeOptions {
+  /**
+   * How long, in milliseconds, a probe result is reused.
+   */
+  ttlMs?: number;
+
+  /**
+   * The client used for the probe. Defaults to a client that does not retry.
+   */
+  client?: BranchClient;
+
+  /**
+   * Returns the current time in milliseconds. Replaceable for testing.
+   */
+  now?: () => number;
+}
+
+/**
+ * Creates a check that reads the app settings with the configured Branch Key and Secret, proving that
+ * Branch is reachable and accepts the credentials. The result is cached so that frequent readiness
+ * probes do not add load on Branch; concurrent checks share a single request.
+ * @param config The Branch MCP configuration.
+ * @param options The cache duration and the client to use.
+ * @returns The check.
+ */
+export function createBranchProbeCheck(config: BranchMcpConfig, options: BranchProbeOptions = {}): ReadinessCheck {
+  const ttlMs = options.ttlMs ?? DEFAULT_READY_PROBE_TTL_MS;
+  const now = options.now ?? Date.now;
+  const client = options.client ?? new BranchClient({
+    ...config,
+    max_retries: 0,
+    request_timeout_ms: Math.min(config.request_timeout_ms ?? PROBE_TIMEOUT_MS, PROBE_TIMEOUT_MS)
+  });
+  let cached: { result: Promise<CheckResult>; at: number } | undefined;
+
+  const probe = async (): Promise<CheckResult> => {
+    const { branch_key, branch_secret } = getResolvedAuth({}, config);
+    if (!branch_key || !branch_secret) {
+      return { status: 'warn', message: 'No Branch Key and Secret are configured to probe the Branch API with' };
+    }
+    const startedAt = now();
+    try {
+      await client.get(`/v1/app/${branch_key}`, { params: { branch_secret } });
+      return { status: 'pass', message: 'The Branch API accepted the configured credentials', details: { latency_ms: now() - startedAt } };
+    } catch (error) {
+      const { code, status, message } = toToolError(error);
+      logger.warn('Branch API readiness probe failed', { code, status, message });
+      return {
+        status: 'fail',
+        message: code === 'auth' ? `The Branch API rejected the configured credentials: ${message}` : `The Branch API probe failed: ${message}`,
+        details: { code, ...(status !== undefined ? { status } : {}) }
+      };
+    }
+  };
+
+  return {
+    name: 'branch_api',
+    run: () => {
+      if (!cached || now() - cached.at >= ttlMs) {
+        cached = { result: probe(), at: now() };
+      }
+      return cached.result;
+    }
+  };
+}
+
+/**
+ * Creates a check that the MCP transport is bound.
+ * @param transport The name of the transport, reported in the result.
+ * @param isBound Returns whether the transport is accepting connections.
+ * @returns The check.
+ */
+export function createTransportCheck(transport: string, isBound: () => boolean): ReadinessCheck {
+  return {
+    name: 'transport',
+    run: () => (isBound()
+      ? { status: 'pass', message: `The ${transport} transport is accepting connections` }
+      : { status: 'fail', message: `The ${transport} transport is not accepting connections` })
+  };
+}
+
+/**
+ * Creates the Express handler for `/ready`.
+ * @param checks The checks to run on every request.
+ * @returns The request handler.
+ */
+export function createReadinessHandler(checks: ReadinessCheck[]): RequestHandler {
+  return async (_req: Request, res: Response) => {
+    const report = await runReadinessChecks(checks);
+    res.status(report.status === 'ready' ? 200 : 503).json(report);
+  };
+}
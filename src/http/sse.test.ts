@@ -0,0 +1,101 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { createSseRouter } from './sse.js';
+import { requireAuth, StaticTokenVerifier } from './auth.js';
+import { SessionManager } from '../utils/sessions.js';
+import logger from '../utils/logger.js';
+
+describe('createSseRouter', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  let sessions: SessionManager<SSEServerTransport>;
+  let createServer: () => Promise<McpServer>;
+
+  beforeEach(async () => {
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    sessions = new SessionManager<SSEServerTransport>();
+    createServer = async () => new McpServer({ name: 'test', version: '1.0.0' });
+    const app = express();
+    app.use(express.json());
+    app.use(createSseRouter({ createServer: () => createServer(), sessions }));
+    httpServer = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await sessions.closeAll();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('should open a session with the credentials supplied as headers', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/sse`, {
+      headers: { Accept: 'text/event-stream', 'X-Branch-Key': 'key_live_sse' },
+      signal: controller.signal
+    });
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    const endpoint = new TextDecoder().decode(value);
+
+    expect(endpoint).toContain('/sse?sessionId=');
+    expect(sessions.size).toBe(1);
+    expect(sessions.list()[0].credentials).toEqual({ branch_key: 'key_live_sse' });
+    controller.abort();
+  });
+
+  it('should refuse new sessions once shutting down', async () => {
+    sessions.stopAccepting();
+    const response = await fetch(`${baseUrl}/sse`, { headers: { Accept: 'text/event-stream' } });
+    expect(response.status).toBe(503);
+    expect(sessions.size).toBe(0);
+  });
+
+  it('should return 404 when posting to an unknown session', async () => {
+    const response = await fetch(`${baseUrl}/sse?sessionId=unknown`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('should only accept messages for a session from the client whose token opened it', async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+    const app = express();
+    app.use(express.json());
+    app.use(requireAuth(new StaticTokenVerifier(new Map([['token-a', 'client-a'], ['token-b', 'client-b']]))));
+    app.use(createSseRouter({ createServer: () => createServer(), sessions }));
+    httpServer = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/sse`, { headers: { Accept: 'text/event-stream', Authorization: 'Bearer token-a' }, signal: controller.signal });
+    await response.body!.getReader().read();
+    const [session] = sessions.list();
+    expect(session.clientId).toBe('client-a');
+    const postMessage = (authorization: string) => fetch(`${baseUrl}/sse?sessionId=${session.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: authorization },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect((await postMessage('Bearer token-b')).status).toBe(404);
+    expect((await postMessage('Bearer token-a')).status).toBe(202);
+    controller.abort();
+  });
+
+  it('should respond with a server error if the session cannot be created', async () => {
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    createServer = async () => {
+      throw new Error('boom');
+    };
+    const response = await fetch(`${baseUrl}/sse`);
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @file This file implements the legacy HTTP+SSE transport endpoints (`GET /sse` and `POST /sse`).
+ *
+ * Each `GET /sse` connection is a session with its own `SSEServerTransport` and `McpServer`.
+ * Clients post messages to `/sse?sessionId=...`, and Branch credentials sent as headers when the
+ * stream is opened are kept for the lifetime of the session. Once the session manager stops
+ * accepting sessions, new streams are refused with 503.
+ */
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { runInSession } from '../utils/sessions.js';
+import type { SessionManager } from '../utils/sessions.js';
+import { getCredentialsFromHeaders } from '../utils/auth.js';
+import logger from '../utils/logger.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/**
+ * Options for creating the SSE router.
+ */
+export interface SseOptions {
+  /**
+   * Creates the MCP server that will serve a new session, given the request that opened it.
+   */
+  createServer: (req: Request) => Promise<McpServer>;
+
+  /**
+   * The session manager that tracks the active sessions.
+   */
+  sessions: SessionManager<SSEServerTransport>;
+}
+
+/**
+ * Creates an Express router that serves the SSE transport at `/sse`.
+ * @param options The session manager and server factory to use.
+ * @returns The Express router.
+ */
+export function createSseRouter(options: SseOptions): Router {
+  const { sessions } = options;
+  const router = Router();
+
+  router.get('/sse', async (req: Request, res: Response) => {
+    if (!sessions.accepting) {
+      res.status(503).send('Service Unavailable: The server is shutting down');
+      return;
+    }
+    try {
+      const server = await options.createServer(req);
+      const transport = new SSEServerTransport('/sse', res);
+      sessions.add(transport.sessionId, transport, { server, credentials: getCredentialsFromHeaders(req.headers), clientId: req.auth?.clientId });
+      req.on('close', () => {
+        void sessions.close(transport.sessionId);
+      });
+      await server.connect(transport);
+    } catch (error) {
+      logger.error('Error opening SSE session', { error: getErrorMessage(error) });
+      if (!res.headersSent) {
+        res.status(500).send('Internal server error');
+      }
+    }
+  });
+
+  router.post('/sse', async (req: Request, res: Response) => {
+    // A session only serves the client that opened it, so that another token cannot take it over.
+    const session = sessions.get(req.query.sessionId as string, req.auth?.clientId);
+    if (!session) {
+      res.status(404).send('Session not found');
+      return;
+    }
+    await runInSession(session, () => session.transport.handlePostMessage(req, res, req.body));
+  });
+
+  return router;
+}
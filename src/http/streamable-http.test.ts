@@ -0,0 +1,194 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { createStreamableHttpRouter, SESSION_ID_HEADER } from './streamable-http.js';
+import { requireAuth, StaticTokenVerifier } from './auth.js';
+import { SessionManager } from '../utils/sessions.js';
+import logger from '../utils/logger.js';
+import { getResolvedAuth } from '../utils/auth.js';
+
+const createTestServer = async () => {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  server.tool('echo', 'Echo a message', { message: z.string() }, async ({ message }) => ({
+    content: [{ type: 'text', text: message }]
+  }));
+  server.tool('whoami', 'Return the resolved Branch key', async () => ({
+    content: [{ type: 'text', text: getResolvedAuth({}, { branch_key: 'key_live_config' }).branch_key ?? '' }]
+  }));
+  return server;
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+/**
+ * Extracts the JSON-RPC messages from a server-sent events response body.
+ */
+const parseSse = (body: string) => body
+  .split('\n')
+  .filter((line) => line.startsWith('data: '))
+  .map((line) => JSON.parse(line.slice('data: '.length)));
+
+describe('createStreamableHttpRouter', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  let sessions: SessionManager<StreamableHTTPServerTransport>;
+
+  const post = (body: unknown, sessionId?: string, headers: Record<string, string> = {}) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'mcp-protocol-version': LATEST_PROTOCOL_VERSION,
+      ...(sessionId ? { [SESSION_ID_HEADER]: sessionId } : {}),
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+
+  const callTool = async (sessionId: string, name: string, args: Record<string, unknown> = {}) => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name, arguments: args } }, sessionId);
+    const [message] = parseSse(await response.text());
+    return message.result.content[0].text;
+  };
+
+  const initialize = async (headers: Record<string, string> = {}) => {
+    const response = await post(initializeRequest, undefined, headers);
+    expect(response.status).toBe(200);
+    await response.text();
+    const sessionId = response.headers.get(SESSION_ID_HEADER)!;
+    await (await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId)).text();
+    return sessionId;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    sessions = new SessionManager<StreamableHTTPServerTransport>();
+    const app = express();
+    app.use(express.json());
+    app.use(createStreamableHttpRouter({ createServer: createTestServer, sessions }));
+    httpServer = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await sessions.closeAll();
+    await new Promise((resolve) => httpServer.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('should create a separate session for each initializing client', async () => {
+    const first = await initialize();
+    const second = await initialize();
+
+    expect(first).toBeTruthy();
+    expect(second).toBeTruthy();
+    expect(first).not.toBe(second);
+    expect(sessions.size).toBe(2);
+  });
+
+  it('should route requests to the session identified by the header', async () => {
+    const sessionId = await initialize();
+    expect(await callTool(sessionId, 'echo', { message: 'hello' })).toBe('hello');
+  });
+
+  it('should resolve credentials supplied when each session was initialized', async () => {
+    const first = await initialize({ 'X-Branch-Key': 'key_live_first' });
+    const second = await initialize({ 'X-Branch-Key': 'key_live_second' });
+    const anonymous = await initialize();
+
+    expect(await callTool(first, 'whoami')).toBe('key_live_first');
+    expect(await callTool(second, 'whoami')).toBe('key_live_second');
+    expect(await callTool(anonymous, 'whoami')).toBe('key_live_config');
+  });
+
+  it('should only serve a session to the client whose token opened it', async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+    const app = express();
+    app.use(express.json());
+    app.use(requireAuth(new StaticTokenVerifier(new Map([['token-a', 'client-a'], ['token-b', 'client-b']]))));
+    app.use(createStreamableHttpRouter({ createServer: createTestServer, sessions }));
+    httpServer = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+    const sessionId = await initialize({ Authorization: 'Bearer token-a' });
+    expect(sessions.list()[0].clientId).toBe('client-a');
+    const list = (authorization: string) => post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId, { Authorization: authorization });
+    const stolen = await list('Bearer token-b');
+    expect(stolen.status).toBe(404);
+    expect((await stolen.json()).error.message).toBe('Session not found');
+    const own = await list('Bearer token-a');
+    expect(own.status).toBe(200);
+    await own.text();
+  });
+
+  it('should reject non-initialize requests without a session ID', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('No valid session ID');
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, 'unknown');
+    expect(response.status).toBe(404);
+  });
+
+  it('should close a session on DELETE', async () => {
+    const sessionId = await initialize();
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { [SESSION_ID_HEADER]: sessionId, 'mcp-protocol-version': LATEST_PROTOCOL_VERSION }
+    });
+
+    expect(response.status).toBe(200);
+    expect(sessions.size).toBe(0);
+    const followUp = await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, sessionId);
+    expect(followUp.status).toBe(404);
+  });
+
+  it('should refuse new sessions but keep serving existing ones once shutting down', async () => {
+    const sessionId = await initialize();
+    sessions.stopAccepting();
+
+    const response = await post(initializeRequest);
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.message).toContain('shutting down');
+    expect(await callTool(sessionId, 'echo', { message: 'still here' })).toBe('still here');
+  });
+
+  it('should require a session ID for GET requests', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { headers: { Accept: 'text/event-stream' } });
+    expect(response.status).toBe(400);
+  });
+
+  it('should respond with a server error if the session cannot be created', async () => {
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    await new Promise((resolve) => httpServer.close(resolve));
+    const app = express();
+    app.use(express.json());
+    app.use(createStreamableHttpRouter({
+      createServer: async () => {
+        throw new Error('boom');
+      },
+      sessions
+    }));
+    httpServer = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+    const response = await post(initializeRequest);
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @file This file implements the stateful Streamable HTTP transport endpoint (`/mcp`).
+ *
+ * Every client that sends an `initialize` request gets its own session: a generated session ID,
+ * a dedicated `StreamableHTTPServerTransport` and a dedicated `McpServer`. Subsequent requests are
+ * routed by the `Mcp-Session-Id` header, a `DELETE` ends the session, and an event store lets
+ * clients that reconnect with `Last-Event-ID` receive the notifications they missed. Branch
+ * credentials sent as headers with the `initialize` request are kept for the lifetime of the session.
+ * Once the session manager stops accepting sessions, `initialize` requests are refused with 503.
+ */
+import { randomUUID } from 'node:crypto';
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from '../utils/event-store.js';
+import { runInSession } from '../utils/sessions.js';
+import type { SessionManager } from '../utils/sessions.js';
+import { getCredentialsFromHeaders } from '../utils/auth.js';
+import logger from '../utils/logger.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/**
+ * The header used by the Streamable HTTP transport to carry the session ID.
+ */
+export const SESSION_ID_HEADER = 'mcp-session-id';
+
+/**
+ * Options for creating the Streamable HTTP router.
+ */
+export interface StreamableHttpOptions {
+  /**
+   * Creates the MCP server that will serve a new session, given the request that opened it.
+   */
+  createServer: (req: Request) => Promise<McpServer>;
+
+  /**
+   * The session manager that tracks the active sessions.
+   */
+  sessions: SessionManager<StreamableHTTPServerTransport>;
+
+  /**
+   * Creates the event store used for resumability. Defaults to a new `InMemoryEventStore` per session.
+   */
+  createEventStore?: () => EventStore;
+}
+
+/**
+ * Sends a JSON-RPC error response for a request that could not be routed to a session.
+ */
+function sendJsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+}
+
+/**
+ * Creates an Express router that serves the stateful Streamable HTTP endpoint at `/mcp`.
+ * @param options The session manager and server factory to use.
+ * @returns The Express router.
+ */
+export function createStreamableHttpRouter(options: StreamableHttpOptions): Router {
+  const { sessions } = options;
+  const createEventStore = options.createEventStore ?? (() => new InMemoryEventStore());
+  const router = Router();
+
+  /**
+   * Resolves the session for a request, responding with an error if it cannot be found.
+   */
+  const getSession = (req: Request, res: Response) => {
+    const sessionId = req.header(SESSION_ID_HEADER);
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return undefined;
+    }
+    // A session only serves the client that opened it, so that another token cannot take it over.
+    const session = sessions.get(sessionId, req.auth?.clientId);
+    if (!session) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return undefined;
+    }
+    return session;
+  };
+
+  /**
+   * Creates a new session for an `initialize` request.
+   */
+  const initializeSession = async (req: Request) => {
+    const credentials = getCredentialsFromHeaders(req.headers);
+    const server = await options.createServer(req);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: createEventStore(),
+      onsessioninitialized: (sessionId) => {
+        sessions.add(sessionId, transport, { server, credentials, clientId: req.auth?.clientId });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.remove(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    return transport;
+  };
+
+  router.post('/mcp', async (req: Request, res: Response) => {
+    try {
+      if (req.header(SESSION_ID_HEADER)) {
+        const session = getSession(req, res);
+        if (session) {
+          await runInSession(session, () => session.transport.handleRequest(req, res, req.body));
+        }
+      } else if (isInitializeRequest(req.body) && !sessions.accepting) {
+        sendJsonRpcError(res, 503, 'Service Unavailable: The server is shutting down');
+      } else if (isInitializeRequest(req.body)) {
+        const transport = await initializeSession(req);
+        await transport.handleRequest(req, res, req.body);
+      } else {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      }
+    } catch (error) {
+      logger.error('Error handling MCP request', { error: getErrorMessage(error) });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  // GET opens (or resumes) the server-to-client notification stream; DELETE ends the session.
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const session = getSession(req, res);
+    if (session) {
+      await runInSession(session, () => session.transport.handleRequest(req, res));
+    }
+  };
+  router.get('/mcp', handleSessionRequest);
+  router.delete('/mcp', handleSessionRequest);
+
+  return router;
+}
@@ -4,139 +4,170 @@
  *
  * It performs the following key functions:
  * 1. Initializes the MCP (Model Context Protocol) server instance.
- * 2. Reads configuration from environment variables, with sensible defaults.
- * 3. Dynamically imports and registers all available Branch API tools.
- * 4. Seeds the language model with context about Branch's documentation.
- * 5. Sets up and starts a transport layer for communication (Stdio, SSE, or HTTP).
- * 6. Launches a separate monitoring server that exposes /health, /ready, and /metrics endpoints.
+ * 2. Loads configuration from an optional config file and environment variables, with sensible defaults.
+ * 3. Creates MCP server instances with all Branch API tools registered (see `server.ts`).
+ * 4. Sets up and starts a transport layer for communication (Stdio, SSE, or HTTP).
+ *    The HTTP transports create a dedicated server instance for every client session.
+ * 5. Launches a separate monitoring server that exposes /health, /ready, and /metrics endpoints.
+ * 6. Records OpenTelemetry traces when an exporter is configured (see `utils/tracing.ts`).
+ * 7. Records calls of tools that change state in Branch in an audit log, when one is configured.
+ *    Applies the configured tool policy, which HTTP sessions can narrow further (see `utils/policy.ts`),
+ *    and asks the user to confirm destructive calls (see `utils/confirmation.ts`). The results of
+ *    link creation calls with an idempotency key are shared by all sessions (see `utils/idempotency.ts`),
+ *    as are the cache of the results of read-only tools (see `utils/cache.ts`) and the registry of
+ *    export jobs, which can be kept in a file that survives restarts (see `utils/export-jobs.ts`), and
+ *    the downloaded exports (see `utils/export-files.ts`).
+ * 8. Shuts down gracefully on SIGTERM or SIGINT, letting in-flight tool calls finish (see `utils/shutdown.ts`).
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import express, {Request, Response} from 'express';
-import { DEFAULT_CONFIG } from './config.js';
-import type { BranchMcpConfig } from './config.js';
-import { seedLLMWithBranchDocs } from './utils/docs-fetcher.js';
+import { createServer } from './server.js';
+import { createStreamableHttpRouter } from './http/streamable-http.js';
+import { createSseRouter } from './http/sse.js';
+import { createProtectedResourceMetadataRouter, createTokenVerifier, requireAuth } from './http/auth.js';
+import { createBranchProbeCheck, createConfigCheck, createReadinessHandler, createTransportCheck } from './http/readiness.js';
+import type { ReadinessCheck, ReadinessCheckName } from './http/readiness.js';
+import { SessionManager } from './utils/sessions.js';
+import { loadConfig } from './utils/config-loader.js';
+import { ConfigError } from './utils/errors.js';
 import logger from './utils/logger.js';
+import { metricsRegistry, trackSessions } from './utils/metrics.js';
+import { closeHttpServer, GracefulShutdown } from './utils/shutdown.js';
+import { initTracing, traceHttpRequests } from './utils/tracing.js';
+import { AuditLog } from './utils/audit.js';
+import { createIdempotencyStore } from './utils/idempotency.js';
+import { MemoryToolCache } from './utils/cache.js';
+import { createExportJobManager } from './utils/export-jobs.js';
+import { ExportDataStore } from './utils/export-files.js';
+import { getSessionPolicy } from './utils/policy.js';
 import * as client from 'prom-client';
+import type { Server } from 'node:http';
 
-// Get configuration from environment variables
-const config: BranchMcpConfig = {
-  branch_key: process.env.BRANCH_KEY ?? '',
-  branch_url: process.env.BRANCH_URL || DEFAULT_CONFIG.branch_url,
-  branch_secret: process.env.BRANCH_SECRET ?? '',
-  app_id: process.env.BRANCH_APP_ID ?? '',
-  auth_token: process.env.USER_AUTH_TOKEN ?? '',
-  organization_id: process.env.BRANCH_ORGANIZATION_ID ?? ''
-};
-
-const mcpTransport = process.env.MCP_TRANSPORT || 'streamable-http';
-const mcpPort = 8080;
-
-// Create MCP server
-const server = new McpServer({
-  name: 'branch',
-  description: 'Branch.io API tools for deep linking, attribution, and analytics',
-  version: '1.0.0'
-});
-
-// Import API modules and register tools
-import { registerDeepLinkingTools } from './apis/deep-linking.js';
-import { registerQrCodeTools } from './apis/qr-code.js';
-
-import { registerAppTools } from './apis/app.js';
-import { registerQuickLinksTools } from './apis/quick-links.js';
-import { registerAggregateExportTools } from './apis/aggregate-exports.js';
-import { registerDataExportTools } from './apis/data-export.js';
-import { registerCrossEventExportsTools } from './apis/cross-event-exports.js';
-import { registerCohortTools } from './apis/cohort.js';
-import { registerQueryTools } from './apis/query.js';
-
-// Register all API tools
-registerDeepLinkingTools(server, config);
-registerQrCodeTools(server, config);
-registerAppTools(server, config);
-registerQuickLinksTools(server, config);
-registerAggregateExportTools(server, config);
-registerDataExportTools(server, config);
-registerCrossEventExportsTools(server, config);
-registerCohortTools(server, config);
-registerQueryTools(server, config);
+/**
+ * Starts an Express app listening on the configured port and, if set, host.
+ */
+function listen(app: express.Express, port: number, host: string | undefined, onListening: () => void): Server {
+  return host ? app.listen(port, host, onListening) : app.listen(port, onListening);
+}
 
 // Start server
 async function runServer() {
-  try {
-    // Seed the LLM with Branch documentation before connecting
-    await seedLLMWithBranchDocs(server);
+  // Get configuration from the config file and environment variables
+  const {
+    branch: config,
+    server: serverConfig,
+    auth: authConfig,
+    audit: auditConfig,
+    policy: policyConfig,
+    confirmation,
+    idempotency,
+    cache: cacheConfig,
+    export_jobs: exportJobsConfig
+  } = loadConfig();
+  const mcpTransport = serverConfig.transport;
+  const mcpPort = serverConfig.port;
+  const mcpHost = serverConfig.host ?? 'localhost';
+  const sessionIdleTimeoutMs = serverConfig.session_idle_timeout_ms;
+  const shutdownTimeoutMs = serverConfig.shutdown_timeout_ms;
+  const auditLog = auditConfig.file ? new AuditLog({ ...auditConfig, file: auditConfig.file }) : undefined;
+  const idempotencyStore = createIdempotencyStore(idempotency);
+  const cache = cacheConfig.enabled ? { store: new MemoryToolCache(cacheConfig.max_entries), ttl_ms: cacheConfig.ttl_ms } : undefined;
+  const exportJobs = createExportJobManager(exportJobsConfig);
+  const exportData = new ExportDataStore();
+  const tracerProvider = initTracing();
+  const flushTraces = async () => {
+    await tracerProvider?.shutdown();
+  };
 
+  try {
     if (mcpTransport === 'stdio') {
+      const server = await createServer(config, { auditLog, policy: policyConfig, confirmation, idempotencyStore, cache, exportJobs, exportData });
       const transport = new StdioServerTransport();
       await server.connect(transport);
+      new GracefulShutdown({ timeoutMs: shutdownTimeoutMs, close: [() => server.close(), flushTraces] }).handleSignals();
       console.error('Branch MCP Server running on stdio');
     } else {
       const app = express();
       app.use(express.json());
+      app.use(['/mcp', '/sse'], traceHttpRequests());
+
+      const verifier = createTokenVerifier(authConfig);
+      if (verifier) {
+        if (authConfig.resource_url) {
+          app.use(createProtectedResourceMetadataRouter(authConfig));
+        }
+        app.use(['/mcp', '/sse'], requireAuth(verifier, authConfig));
+      } else {
+        logger.warn('No authentication configured: the MCP endpoints are not authenticated');
+      }
 
       // Monitoring server for health/readiness/metrics
       const monitorApp = express();
-      const monitorPort = 8081;
-      const register = new client.Registry();
+      const monitorPort = serverConfig.monitor_port;
+      const register = metricsRegistry;
       client.collectDefaultMetrics({ register });
 
       monitorApp.get('/health', (_req: Request, res: Response) => {
         res.status(200).send('OK');
       });
 
-      monitorApp.get('/ready', (_req: Request, res: Response) => {
-        res.status(200).send('OK');
+      let mcpHttpServer: Server | undefined;
+      const sessions = mcpTransport === 'sse'
+        ? new SessionManager<SSEServerTransport>({ idleTimeoutMs: sessionIdleTimeoutMs })
+        : new SessionManager<StreamableHTTPServerTransport>({ idleTimeoutMs: sessionIdleTimeoutMs });
+      const shutdown = new GracefulShutdown({
+        timeoutMs: shutdownTimeoutMs,
+        sessions: [sessions],
+        close: [
+          async () => mcpHttpServer && closeHttpServer(mcpHttpServer),
+          () => closeHttpServer(monitorServer),
+          flushTraces
+        ]
       });
 
+      const readinessChecks: Record<ReadinessCheckName, () => ReadinessCheck> = {
+        config: () => createConfigCheck(config),
+        branch_api: () => createBranchProbeCheck(config, { ttlMs: serverConfig.ready_probe_ttl_ms }),
+        transport: () => createTransportCheck(mcpTransport, () => mcpHttpServer?.listening === true)
+      };
+      monitorApp.get('/ready', createReadinessHandler([
+        shutdown.createReadinessCheck(),
+        ...serverConfig.ready_checks.map((name) => readinessChecks[name]())
+      ]));
+
       monitorApp.get('/metrics', async (_req: Request, res: Response) => {
         res.set('Content-Type', register.contentType);
         res.end(await register.metrics());
       });
 
-      monitorApp.listen(monitorPort, () => {
-        logger.info(`Monitoring server running on http://localhost:${monitorPort}`);
+      const monitorServer = listen(monitorApp, monitorPort, serverConfig.monitor_host, () => {
+        logger.info(`Monitoring server running on http://${serverConfig.monitor_host ?? 'localhost'}:${monitorPort}`);
       });
 
-      if (mcpTransport === 'sse') {
-        const transports = new Map<string, SSEServerTransport>();
-
-        app.get('/sse', async (req, res) => {
-          const transport = new SSEServerTransport('/sse', res);
-          transports.set(transport.sessionId, transport);
-          req.on('close', () => {
-            transports.delete(transport.sessionId);
-          });
-          await server.connect(transport);
-        });
+      sessions.start();
+      trackSessions(mcpTransport, sessions);
+      shutdown.handleSignals();
 
-        app.post('/sse', (req, res) => {
-          const sessionId = req.query.sessionId as string;
-          const transport = transports.get(sessionId);
-          if (transport) {
-            transport.handlePostMessage(req, res, req.body);
-          } else {
-            res.status(404).send('Session not found');
-          }
-        });
+      if (mcpTransport === 'sse') {
+        app.use(createSseRouter({
+          createServer: (req) => createServer(config, { auditLog, policy: getSessionPolicy(policyConfig, req.headers, req.auth), confirmation, idempotencyStore, cache, exportJobs, exportData }),
+          sessions: sessions as SessionManager<SSEServerTransport>
+        }));
 
-        app.listen(mcpPort, () => {
-          console.error(`Branch MCP Server (SSE) running on http://localhost:${mcpPort}/sse`);
+        mcpHttpServer = listen(app, mcpPort, serverConfig.host, () => {
+          console.error(`Branch MCP Server (SSE) running on http://${mcpHost}:${mcpPort}/sse`);
         });
       } else if (mcpTransport === 'streamable-http') {
-        const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
-        await server.connect(transport);
+        app.use(createStreamableHttpRouter({
+          createServer: (req) => createServer(config, { auditLog, policy: getSessionPolicy(policyConfig, req.headers, req.auth), confirmation, idempotencyStore, cache, exportJobs, exportData }),
+          sessions: sessions as SessionManager<StreamableHTTPServerTransport>
+        }));
 
-        app.all('/mcp', (req: Request, res: Response) => {
-          transport.handleRequest(req, res, req.body);
-        });
-
-        app.listen(mcpPort, () => {
-          console.error(`Branch MCP Server (Streamable HTTP) running on http://localhost:${mcpPort}/mcp`);
+        mcpHttpServer = listen(app, mcpPort, serverConfig.host, () => {
+          console.error(`Branch MCP Server (Streamable HTTP) running on http://${mcpHost}:${mcpPort}/mcp`);
         });
       }
     }
@@ -147,6 +178,10 @@ async function runServer() {
 }
 
 runServer().catch((error) => {
-  logger.error("Fatal error running server:", error);
+  if (error instanceof ConfigError) {
+    console.error(error.message);
+  } else {
+    logger.error('Fatal error running server:', error);
+  }
   process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,174 @@
+/**
+ * @file This file contains the Zod schema for validating the server configuration.
+ * The same schema validates a configuration file, the environment variable overrides
+ * applied on top of it, and the defaults, so that every invalid setting is reported
+ * at startup with the path of the offending value.
+ */
+import { z } from 'zod';
+import {
+  DEFAULT_AUDIT_CONFIG,
+  DEFAULT_CACHE_CONFIG,
+  DEFAULT_CONFIG,
+  DEFAULT_CONFIRMATION_CONFIG,
+  DEFAULT_EXPORT_JOBS_CONFIG,
+  DEFAULT_IDEMPOTENCY_CONFIG,
+  DEFAULT_POLICY_CONFIG,
+  DEFAULT_SERVER_CONFIG
+} from '../config.js';
+import { READINESS_CHECK_NAMES } from '../http/readiness.js';
+
+const port = z.coerce.number().int().min(0).max(65535);
+
+/**
+ * A boolean, which environment variables set as `true`, `false`, `1` or `0`.
+ */
+const flag = z.union([z.boolean(), z.enum(['true', 'false', '1', '0']).transform((value) => value === 'true' || value === '1')]);
+
+const isRegExp = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Zod schema for the credentials of a named Branch profile.
+ */
+export const branchProfileSchema = z.object({
+  branch_key: z.string().optional(),
+  branch_secret: z.string().optional(),
+  api_key: z.string().optional(),
+  app_id: z.string().optional(),
+  organization_id: z.string().optional(),
+  auth_token: z.string().optional()
+}).strict();
+
+/**
+ * Zod schema for the Branch section of the configuration: default credentials and named profiles.
+ */
+export const branchConfigSchema = branchProfileSchema.extend({
+  branch_url: z.string().default(DEFAULT_CONFIG.branch_url!),
+  request_timeout_ms: z.coerce.number().int().positive().optional(),
+  max_retries: z.coerce.number().int().min(0).optional(),
+  max_concurrency: z.coerce.number().int().positive().optional(),
+  import_dir: z.string().optional(),
+  download_hosts: z.array(z.string()).optional(),
+  profiles: z.record(branchProfileSchema).optional(),
+  default_profile: z.string().optional()
+}).strict().refine(
+  (branch) => !branch.default_profile || !!branch.profiles?.[branch.default_profile],
+  (branch) => ({ message: `Unknown profile "${branch.default_profile}"`, path: ['default_profile'] })
+);
+
+/**
+ * Zod schema for the network and session settings of the server.
+ */
+export const serverConfigSchema = z.object({
+  transport: z.enum(['stdio', 'sse', 'streamable-http']).default(DEFAULT_SERVER_CONFIG.transport),
+  host: z.string().optional(),
+  port: port.default(DEFAULT_SERVER_CONFIG.port),
+  monitor_host: z.string().optional(),
+  monitor_port: port.default(DEFAULT_SERVER_CONFIG.monitor_port),
+  session_idle_timeout_ms: z.coerce.number().int().positive().default(DEFAULT_SERVER_CONFIG.session_idle_timeout_ms),
+  ready_checks: z.array(z.enum(READINESS_CHECK_NAMES)).default(DEFAULT_SERVER_CONFIG.ready_checks),
+  ready_probe_ttl_ms: z.coerce.number().int().min(0).default(DEFAULT_SERVER_CONFIG.ready_probe_ttl_ms),
+  shutdown_timeout_ms: z.coerce.number().int().min(0).default(DEFAULT_SERVER_CONFIG.shutdown_timeout_ms)
+}).strict();
+
+/**
+ * Zod schema for the authentication settings of the HTTP transports.
+ */
+export const authConfigSchema = z.object({
+  tokens: z.array(z.string()).optional(),
+  tokens_file: z.string().optional(),
+  jwks_file: z.string().optional(),
+  jwt_issuer: z.string().optional(),
+  jwt_audience: z.string().optional(),
+  required_scopes: z.array(z.string()).optional(),
+  resource_url: z.string().url().optional(),
+  authorization_servers: z.array(z.string().url()).optional()
+}).strict();
+
+/**
+ * Zod schema for the audit log settings.
+ */
+export const auditConfigSchema = z.object({
+  file: z.string().optional(),
+  max_bytes: z.coerce.number().int().positive().default(DEFAULT_AUDIT_CONFIG.max_bytes),
+  max_files: z.coerce.number().int().min(0).default(DEFAULT_AUDIT_CONFIG.max_files)
+}).strict();
+
+/**
+ * Zod schema for a constraint on the value of a tool argument.
+ */
+export const argumentConstraintSchema = z.object({
+  values: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  pattern: z.string().refine(isRegExp, 'Invalid regular expression').optional(),
+  domains: z.array(z.string()).optional()
+}).strict();
+
+/**
+ * Zod schema for the tool policy settings.
+ */
+export const policyConfigSchema = z.object({
+  read_only: flag.default(DEFAULT_POLICY_CONFIG.read_only),
+  dry_run: flag.default(DEFAULT_POLICY_CONFIG.dry_run!),
+  allow_tools: z.array(z.string()).optional(),
+  deny_tools: z.array(z.string()).optional(),
+  constraints: z.record(z.record(argumentConstraintSchema)).optional(),
+  write_scope: z.string().optional()
+}).strict();
+
+/**
+ * Zod schema for the settings of the confirmation of tool calls by the user.
+ */
+export const confirmationConfigSchema = z.object({
+  enabled: flag.default(DEFAULT_CONFIRMATION_CONFIG.enabled),
+  tools: z.array(z.string()).default(DEFAULT_CONFIRMATION_CONFIG.tools),
+  bulk_threshold: z.coerce.number().int().min(0).default(DEFAULT_CONFIRMATION_CONFIG.bulk_threshold),
+  fallback: z.enum(['allow', 'deny']).default(DEFAULT_CONFIRMATION_CONFIG.fallback),
+  timeout_ms: z.coerce.number().int().positive().default(DEFAULT_CONFIRMATION_CONFIG.timeout_ms)
+}).strict();
+
+/**
+ * Zod schema for the idempotency key settings.
+ */
+export const idempotencyConfigSchema = z.object({
+  file: z.string().optional(),
+  ttl_ms: z.coerce.number().int().positive().default(DEFAULT_IDEMPOTENCY_CONFIG.ttl_ms)
+}).strict();
+
+/**
+ * Zod schema for the cache settings. The configured times to live are added to the defaults, so
+ * that a single tool can be changed or, with 0, not cached.
+ */
+export const cacheConfigSchema = z.object({
+  enabled: flag.default(DEFAULT_CACHE_CONFIG.enabled),
+  ttl_ms: z.record(z.coerce.number().int().min(0)).default({}).transform((ttls) => ({ ...DEFAULT_CACHE_CONFIG.ttl_ms, ...ttls })),
+  max_entries: z.coerce.number().int().positive().default(DEFAULT_CACHE_CONFIG.max_entries)
+}).strict();
+
+/**
+ * Zod schema for the export job registry settings.
+ */
+export const exportJobsConfigSchema = z.object({
+  file: z.string().optional(),
+  ttl_ms: z.coerce.number().int().positive().default(DEFAULT_EXPORT_JOBS_CONFIG.ttl_ms)
+}).strict();
+
+/**
+ * Zod schema for the complete server configuration.
+ */
+export const appConfigSchema = z.object({
+  branch: branchConfigSchema.default({}),
+  server: serverConfigSchema.default({}),
+  auth: authConfigSchema.default({}),
+  audit: auditConfigSchema.default({}),
+  policy: policyConfigSchema.default({}),
+  confirmation: confirmationConfigSchema.default({}),
+  idempotency: idempotencyConfigSchema.default({}),
+  cache: cacheConfigSchema.default({}),
+  export_jobs: exportJobsConfigSchema.default({})
+}).strict();
@@ -78,3 +78,21 @@ export const deepLinkParamsSchema = z.object({
   channel: z.string().optional().describe('The channel the link is shared on.'),
   stage: z.string().optional().describe('The user stage when the link was generated.')
 });
+
+/**
+ * The fields of an existing link that cannot be updated. They are returned when a link is read,
+ * and must be removed before its data is written back.
+ */
+export const immutableLinkFields = [
+  'alias', 'identity', 'type', 'app_id', 'randomized_bundle_token',
+  'domain', 'state', 'creation_source', 'app_short_identifier'
+];
+
+/**
+ * Zod schema for the parameters of a link that can be changed by an update.
+ */
+export const deepLinkUpdateParamsSchema = deepLinkParamsSchema.omit({
+  alias: true, // Cannot be updated
+  type: true, // Cannot be updated
+  identity: true // Cannot be updated
+});
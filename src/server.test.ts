@@ -0,0 +1,342 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createServer } from './server.js';
+import type { BranchMcpConfig } from './config.js';
+import { AUDIT_LOG_RESOURCE_URI, AuditLog, fingerprintCredential } from './utils/audit.js';
+import { MemoryToolCache } from './utils/cache.js';
+
+describe('createServer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create a server with every Branch tool and the docs prompt registered', async () => {
+    const server = await createServer({ branch_key: 'key_live_123' });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+    expect(names).toEqual(expect.arrayContaining([
+      'branch_create_deep_link',
+      'branch_create_qr_code',
+      'branch_get_app_settings',
+      'branch_create_quick_link',
+      'branch_create_aggregate_export',
+      'branch_create_custom_export',
+      'branch_create_cross_event_export',
+      'branch_create_cohort_export',
+      'branch_query'
+    ]));
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toContain('branch_context');
+
+    await client.close();
+  });
+
+  it('should let every tool select a configured profile', async () => {
+    const config: BranchMcpConfig = {
+      branch_key: 'key_live_default',
+      profiles: { 'prod-ios': { branch_key: 'key_live_ios' }, staging: { branch_key: 'key_live_staging' } }
+    };
+    const server = await createServer(config);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      expect(tool.inputSchema.properties).toHaveProperty('profile.enum', ['prod-ios', 'staging']);
+    }
+
+    const mock = new MockAdapter(axios);
+    mock.onGet('https://api2.branch.io/v1/url').reply((request) => [200, { branch_key: request.params.branch_key, profile: request.params.profile }]);
+    const result = await client.callTool({ name: 'branch_read_deep_link', arguments: { url: 'https://example.app.link/abc', profile: 'staging' } });
+    expect(JSON.parse((result.content as { text: string }[])[0].text)).toEqual({ branch_key: 'key_live_staging' });
+
+    const invalid = client.callTool({ name: 'branch_read_deep_link', arguments: { url: 'https://example.app.link/abc', profile: 'production' } });
+    await expect(invalid).rejects.toThrow('Invalid arguments for tool branch_read_deep_link');
+
+    mock.restore();
+    await client.close();
+  });
+
+  it('should not add a profile argument when no profiles are configured', async () => {
+    const server = await createServer({});
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.find((tool) => tool.name === 'branch_query')!.inputSchema.properties).not.toHaveProperty('profile');
+
+    await client.close();
+  });
+
+  it('should report tool failures as structured error results with a request ID sent to Branch', async () => {
+    const server = await createServer({ branch_key: 'key_live_123' });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const mock = new MockAdapter(axios);
+    mock.onPost('https://api2.branch.io/v1/url').reply(409, { error: { message: 'Alias already exists', code: 409 } });
+    const result = await client.callTool({ name: 'branch_create_deep_link', arguments: { alias: 'taken' } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as { text: string }[])[0].text)).toEqual({
+      error: { code: 'conflict', message: 'Alias already exists', status: 409, hint: expect.any(String), retryable: false }
+    });
+    expect(mock.history.post[0].headers!['X-Request-Id']).toMatch(/^[0-9a-f-]{36}$/);
+
+    const missing = await client.callTool({ name: 'branch_get_app_settings', arguments: {} });
+    expect(JSON.parse((missing.content as { text: string }[])[0].text).error).toMatchObject({ code: 'auth', retryable: false });
+
+    mock.restore();
+    await client.close();
+  });
+
+  it('should audit changes to Branch and serve the audit log as a resource', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'branch-mcp-audit-'));
+    const auditLog = new AuditLog({ file: join(tempDir, 'audit.jsonl'), max_bytes: 1024 * 1024, max_files: 1 });
+    const server = await createServer({ branch_key: 'key_live_123', branch_secret: 'secret_123' }, { auditLog });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    // The audit log resource serves the entries of the session that reads it.
+    serverTransport.sessionId = 'session-1';
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const mock = new MockAdapter(axios);
+    mock.onGet('https://api2.branch.io/v1/app/key_live_123').reply(200, { app_name: 'Old Name', branch_secret: 'secret_123' });
+    mock.onPut('https://api2.branch.io/v1/app/key_live_123').reply(200, { app_name: 'New Name' });
+    await client.callTool({ name: 'branch_update_app_settings', arguments: { app_name: 'New Name' } });
+    await client.callTool({ name: 'branch_read_deep_link', arguments: { url: 'https://example.app.link/abc' } });
+    mock.onDelete('https://api2.branch.io/v1/url').reply(200, {});
+    await client.callTool({
+      name: 'branch_bulk_delete_deep_links',
+      arguments: { links: ['https://example.app.link/a', 'https://example.app.link/b'], app_id: '123', auth_token: 'api_key' }
+    });
+
+    const { contents } = await client.readResource({ uri: AUDIT_LOG_RESOURCE_URI });
+    const entries = (contents[0].text as string).split('\n').map((line) => JSON.parse(line));
+    expect(entries).toEqual([expect.objectContaining({
+      tool: 'branch_update_app_settings',
+      outcome: 'success',
+      request_id: expect.any(String),
+      target: { branch_key_fingerprint: fingerprintCredential('key_live_123') },
+      before: { app_name: 'Old Name', branch_secret: '[REDACTED]' },
+      after: { app_name: 'New Name' }
+    }), expect.objectContaining({
+      tool: 'branch_bulk_delete_deep_links',
+      outcome: 'success',
+      session_id: 'session-1',
+      target: { branch_key_fingerprint: fingerprintCredential('key_live_123'), link_count: 2, urls: ['https://example.app.link/a', 'https://example.app.link/b'] },
+      after: expect.objectContaining({ summary: expect.objectContaining({ succeeded: 2 }) })
+    })]);
+
+    mock.restore();
+    await client.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should annotate every tool and hide the tools the policy does not allow', async () => {
+    const connect = async (server: McpServer) => {
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    };
+
+    const client = await connect(await createServer({}));
+    const { tools } = await client.listTools();
+    expect(tools.filter((tool) => typeof tool.annotations?.readOnlyHint !== 'boolean')).toEqual([]);
+    expect(tools.filter((tool) => tool.annotations?.readOnlyHint === false && typeof tool.annotations.destructiveHint !== 'boolean')).toEqual([]);
+    const readOnlyTools = tools.filter((tool) => tool.annotations?.readOnlyHint).map((tool) => tool.name);
+    expect(readOnlyTools).toContain('branch_read_deep_link');
+    expect(readOnlyTools).not.toContain('branch_delete_deep_link');
+    await client.close();
+
+    const readOnlyClient = await connect(await createServer({}, { policy: { read_only: true, deny_tools: ['branch_query'] } }));
+    expect((await readOnlyClient.listTools()).tools.map((tool) => tool.name)).toEqual(readOnlyTools.filter((name) => name !== 'branch_query'));
+    await readOnlyClient.close();
+  });
+
+  it('should reject calls whose arguments break a constraint of the policy', async () => {
+    const server = await createServer({ branch_key: 'key_live_123' }, {
+      policy: { read_only: false, constraints: { branch_read_deep_link: { url: { domains: ['example.app.link'] } } } }
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({ name: 'branch_read_deep_link', arguments: { url: 'https://other.app.link/abc' } });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as { text: string }[])[0].text).error).toMatchObject({ code: 'forbidden', retryable: false });
+    await client.close();
+  });
+
+  it('should run mutating tools as dry runs without changing anything in Branch', async () => {
+    const server = await createServer({ branch_key: 'key_live_123', branch_secret: 'secret_123' });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.find((tool) => tool.name === 'branch_update_app_settings')!.inputSchema.properties).toHaveProperty('dry_run');
+    expect(tools.find((tool) => tool.name === 'branch_get_app_settings')!.inputSchema.properties).not.toHaveProperty('dry_run');
+
+    const mock = new MockAdapter(axios);
+    mock.onGet('https://api2.branch.io/v1/app/key_live_123').reply(200, { app_name: 'Old Name', dev_name: 'Dev' });
+    const result = await client.callTool({ name: 'branch_update_app_settings', arguments: { app_name: 'New Name', dev_name: 'Dev', dry_run: true } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({
+      dry_run: true,
+      request: {
+        method: 'PUT',
+        url: 'https://api2.branch.io/v1/app/key_live_123',
+        headers: expect.objectContaining({ 'Content-Type': 'application/json' }),
+        body: { app_name: 'New Name', dev_name: 'Dev', branch_secret: '[REDACTED]' }
+      },
+      changes: [{ path: 'app_name', before: 'Old Name', after: 'New Name' }]
+    });
+    expect(mock.history.put).toHaveLength(0);
+
+    mock.restore();
+    await client.close();
+  });
+
+  it('should ask the user to confirm deletes, and only make them once confirmed', async () => {
+    const server = await createServer({ app_id: '12345', auth_token: 'token_123' }, {
+      confirmation: { enabled: true, tools: ['branch_delete_deep_link'], bulk_threshold: 10, fallback: 'deny', timeout_ms: 1000 }
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+    const answers = [{ action: 'decline' }, { action: 'accept', content: { confirm: true } }];
+    const messages: string[] = [];
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      messages.push(request.params.message);
+      return answers.shift()!;
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const mock = new MockAdapter(axios);
+    mock.onDelete('https://api2.branch.io/v1/url').reply(200, { url: 'https://example.app.link/abc', deleted: true });
+    const declined = await client.callTool({ name: 'branch_delete_deep_link', arguments: { url: 'https://example.app.link/abc' } });
+    expect(JSON.parse((declined.content as { text: string }[])[0].text).error).toMatchObject({ code: 'cancelled', retryable: false });
+    expect(mock.history.delete).toHaveLength(0);
+
+    const confirmed = await client.callTool({ name: 'branch_delete_deep_link', arguments: { url: 'https://example.app.link/abc' } });
+    expect(confirmed.isError).toBeFalsy();
+    expect(mock.history.delete).toHaveLength(1);
+    expect(messages[0]).toBe('Confirm branch_delete_deep_link?\nDELETE https://api2.branch.io/v1/url?url=https%3A%2F%2Fexample.app.link%2Fabc&app_id=[REDACTED]');
+
+    mock.restore();
+    await client.close();
+  });
+
+  it('should ask the user to confirm imports of more rows than the bulk threshold', async () => {
+    const server = await createServer({ branch_key: 'key_live_123' }, {
+      confirmation: { enabled: true, tools: [], bulk_threshold: 1, fallback: 'deny', timeout_ms: 1000 }
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+    const messages: string[] = [];
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      messages.push(request.params.message);
+      return { action: 'decline' };
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const mock = new MockAdapter(axios);
+    const result = await client.callTool({ name: 'branch_import_quick_links', arguments: { content: 'alias,$marketing_title\na,A\nb,B', format: 'csv' } });
+    expect(JSON.parse((result.content as { text: string }[])[0].text).error).toMatchObject({ code: 'cancelled' });
+    expect(messages[0]).toContain('This call acts on 2 links.');
+    expect(mock.history.post).toHaveLength(0);
+
+    mock.restore();
+    await client.close();
+  });
+
+  it('should not create a link twice when a call is retried with the same idempotency key', async () => {
+    const server = await createServer({ branch_key: 'key_live_123' });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const mock = new MockAdapter(axios);
+    mock.onPost('https://api2.branch.io/v1/url').reply(200, { url: 'https://example.app.link/abc' });
+    const call = { name: 'branch_create_deep_link', arguments: { channel: 'email', idempotency_key: 'campaign-42' } };
+    const first = await client.callTool(call);
+    const retry = await client.callTool(call);
+    const reused = await client.callTool({ ...call, arguments: { ...call.arguments, channel: 'sms' } });
+
+    expect(mock.history.post).toHaveLength(1);
+    expect(mock.history.post[0].data).not.toContain('idempotency_key');
+    expect(retry.content).toEqual(first.content);
+    expect(retry._meta).toEqual({ idempotent_replay: true });
+    expect(JSON.parse((reused.content as { text: string }[])[0].text).error).toMatchObject({ code: 'conflict', retryable: false });
+
+    mock.restore();
+    await client.close();
+  });
+
+  it('should answer repeated reads from the cache until the link is updated', async () => {
+    const server = await createServer({ branch_key: 'key_live_123', branch_secret: 'secret_123' }, {
+      cache: { store: new MemoryToolCache(), ttl_ms: { branch_read_deep_link: 60000 } }
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const mock = new MockAdapter(axios);
+    mock.onGet('https://api2.branch.io/v1/url').reply(200, { data: { $deeplink_path: 'a' } });
+    mock.onPut('https://api2.branch.io/v1/url').reply(200, { data: { $deeplink_path: 'b' } });
+    const read = { name: 'branch_read_deep_link', arguments: { url: 'https://example.app.link/abc' } };
+    await client.callTool(read);
+    const cached = await client.callTool(read);
+    const readsBefore = mock.history.get.length;
+    await client.callTool({ name: 'branch_update_deep_link', arguments: { url: 'https://example.app.link/abc', channel: 'sms' } });
+    const reread = await client.callTool(read);
+
+    expect(readsBefore).toBe(1);
+    expect(cached._meta).toEqual({ cache: { hit: true, age_ms: expect.any(Number), ttl_ms: 60000 } });
+    expect(reread._meta).toEqual({ cache: { hit: false, ttl_ms: 60000 } });
+    expect(mock.history.put).toHaveLength(1);
+
+    mock.restore();
+    await client.close();
+  });
+
+  it('should create independent server instances', async () => {
+    const first = await createServer({});
+    const second = await createServer({});
+    expect(first).not.toBe(second);
+  });
+});
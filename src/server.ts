@@ -0,0 +1,153 @@
+/**
+ * @file This file builds fully configured Branch MCP server instances.
+ *
+ * Stateful transports need one `McpServer` per connected client, so server construction lives
+ * in a factory rather than in the entry point. Every instance has all Branch API tools registered
+ * and is seeded with context about Branch's documentation. Every tool call gets a request ID that is
+ * passed on to the Branch API, is recorded in the metrics and traces, and reports failures as a
+ * structured error result. In-flight tool calls are counted so that shutdown can wait for them, and the server can
+ * send log notifications such as the shutdown notice. When credential profiles are configured,
+ * every tool accepts a `profile` argument selecting one of them. When an audit log is given, calls
+ * of tools that change state in Branch are recorded in it and it is served as a resource. When a
+ * tool policy is given, the tools it does not allow are not registered and the arguments of every
+ * call are checked against its constraints. Tools that change state in Branch can be run as dry
+ * runs, which return the request they would send instead of sending it. When confirmation is
+ * enabled, the user is asked to confirm destructive and high-impact calls before they are made.
+ * The tools that create links accept an idempotency key, so that retried calls do not create duplicates.
+ * When a cache is given, repeated reads are answered from it until the data they read is changed.
+ * Requested exports are tracked, so that a single tool can wait for any of them to be ready, and
+ * their files can be downloaded and read, with their rows served as resources.
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { BranchMcpConfig } from './config.js';
+import { seedLLMWithBranchDocs } from './utils/docs-fetcher.js';
+import { useToolMiddleware } from './utils/tool-middleware.js';
+import { createProfileMiddleware } from './utils/auth.js';
+import { createRequestIdMiddleware } from './utils/branch-client.js';
+import { createErrorMiddleware } from './utils/errors.js';
+import { createMetricsMiddleware } from './utils/metrics.js';
+import { createInFlightMiddleware } from './utils/shutdown.js';
+import { createTracingMiddleware } from './utils/tracing.js';
+import { createAuditMiddleware, registerAuditLogResource } from './utils/audit.js';
+import type { AuditLog } from './utils/audit.js';
+import { createConfirmationMiddleware } from './utils/confirmation.js';
+import type { ConfirmationConfig } from './utils/confirmation.js';
+import { createCacheMiddleware } from './utils/cache.js';
+import type { ToolCache } from './utils/cache.js';
+import { createDryRunMiddleware } from './utils/dry-run.js';
+import { createIdempotencyMiddleware, MemoryIdempotencyStore } from './utils/idempotency.js';
+import type { IdempotencyStore } from './utils/idempotency.js';
+import { createPolicyMiddleware } from './utils/policy.js';
+import type { ToolPolicy } from './utils/policy.js';
+import { ExportJobManager } from './utils/export-jobs.js';
+import { ExportDataStore } from './utils/export-files.js';
+import { registerDeepLinkingTools } from './apis/deep-linking.js';
+import { registerQrCodeTools } from './apis/qr-code.js';
+import { registerAppTools } from './apis/app.js';
+import { registerQuickLinksTools } from './apis/quick-links.js';
+import { registerAggregateExportTools } from './apis/aggregate-exports.js';
+import { registerDataExportTools } from './apis/data-export.js';
+import { registerCrossEventExportsTools } from './apis/cross-event-exports.js';
+import { registerCohortTools } from './apis/cohort.js';
+import { registerQueryTools } from './apis/query.js';
+import { registerExportJobTools } from './apis/export-jobs.js';
+import { registerExportFileTools } from './apis/export-files.js';
+
+/**
+ * Options for creating an MCP server.
+ */
+export interface ServerOptions {
+  /**
+   * The audit log that calls of mutating tools are recorded in. Auditing is off if not given.
+   */
+  auditLog?: AuditLog;
+
+  /**
+   * The tool policy of the server. Every tool is allowed if not given.
+   */
+  policy?: ToolPolicy;
+
+  /**
+   * The settings for the confirmation of destructive and high-impact calls by the user. Calls
+   * are not confirmed if not given.
+   */
+  confirmation?: ConfirmationConfig;
+
+  /**
+   * The store the results of calls with an idempotency key are kept in. Servers that share a store
+   * recognize each other's keys. A new in-memory store is used if not given.
+   */
+  idempotencyStore?: IdempotencyStore;
+
+  /**
+   * The cache of the results of read-only tools, and how long the results of each tool are kept.
+   * Servers that share a cache share their results. Results are not cached if not given.
+   */
+  cache?: { store: ToolCache; ttl_ms: Record<string, number> };
+
+  /**
+   * The manager that tracks the requested exports. Servers that share a manager track their jobs
+   * together, each session seeing its own. A new manager is used if not given.
+   */
+  exportJobs?: ExportJobManager;
+
+  /**
+   * The store the downloaded exports are kept in. Servers that share a store share the exports,
+   * each session seeing its own. A new store is used if not given.
+   */
+  exportData?: ExportDataStore;
+}
+
+/**
+ * Creates a new MCP server with every Branch API tool registered.
+ * @param config The Branch MCP configuration.
+ * @param options The audit log, tool policy, confirmation settings, idempotency store, cache, export job manager and export data store to use, if any.
+ * @returns The configured MCP server, ready to be connected to a transport.
+ */
+export async function createServer(config: BranchMcpConfig, options: ServerOptions = {}): Promise<McpServer> {
+  const server = new McpServer({
+    name: 'branch',
+    description: 'Branch.io API tools for deep linking, attribution, and analytics',
+    version: '1.0.0'
+  }, {
+    capabilities: { logging: {} }
+  });
+
+  useToolMiddleware(
+    server,
+    createInFlightMiddleware(),
+    createRequestIdMiddleware(),
+    createErrorMiddleware(),
+    createTracingMiddleware(),
+    createMetricsMiddleware(),
+    ...(Object.keys(config.profiles ?? {}).length > 0 ? [createProfileMiddleware(config)] : []),
+    createDryRunMiddleware(options.policy?.dry_run),
+    createIdempotencyMiddleware(options.idempotencyStore ?? new MemoryIdempotencyStore(), config),
+    ...(options.auditLog ? [createAuditMiddleware(options.auditLog, config)] : []),
+    ...(options.policy ? [createPolicyMiddleware(options.policy)] : []),
+    ...(options.cache ? [createCacheMiddleware(options.cache.store, options.cache.ttl_ms, config)] : []),
+    ...(options.confirmation?.enabled ? [createConfirmationMiddleware(server, options.confirmation)] : [])
+  );
+
+  const exportJobs = options.exportJobs ?? new ExportJobManager();
+  registerDeepLinkingTools(server, config);
+  registerQrCodeTools(server, config);
+  registerAppTools(server, config);
+  registerQuickLinksTools(server, config);
+  registerAggregateExportTools(server, config, exportJobs);
+  registerDataExportTools(server, config, exportJobs);
+  registerCrossEventExportsTools(server, config, exportJobs);
+  registerCohortTools(server, config, exportJobs);
+  registerQueryTools(server, config);
+  registerExportJobTools(server, config, exportJobs);
+  registerExportFileTools(server, config, exportJobs, options.exportData ?? new ExportDataStore());
+
+  if (options.auditLog) {
+    registerAuditLogResource(server, options.auditLog);
+  }
+
+  // Seed the LLM with Branch documentation before connecting
+  await seedLLMWithBranchDocs(server);
+
+  return server;
+}
@@ -1,6 +1,6 @@
 import axios, { AxiosError } from 'axios';
 import { getBranchBaseUrl, handleApiError, MCP_USER_AGENT } from './api.js';
-import { BranchApiError } from './errors.js';
+import { BranchApiError, CredentialsError, InternalError } from './errors.js';
 import type { BranchMcpConfig } from '../config.js';
 
 // Test for the constant
@@ -40,25 +40,29 @@ describe('handleApiError', () => {
     );
 
     expect(() => handleApiError(mockError)).toThrow(
-      new BranchApiError('Branch API error: 404 Not Found', {
+      new BranchApiError('Branch API error: 404 Not Found: details', {
         status: 404,
         response: mockError.response,
       })
     );
   });
 
-  it('should throw a BranchApiError for non-Axios errors', () => {
-    const genericError = new Error('Something went wrong');
-    expect(() => handleApiError(genericError)).toThrow('Branch API error: Something went wrong');
+  it('should throw a BranchApiError for Axios errors without a response', () => {
+    expect(() => handleApiError(new AxiosError('Network Error', 'ERR_NETWORK'))).toThrow(new BranchApiError('Branch API error: Network Error'));
   });
 
-  it('should throw a BranchApiError for string errors', () => {
-    const stringError = 'A string error';
-    expect(() => handleApiError(stringError)).toThrow('Branch API error: A string error');
+  it('should rethrow errors that did not come from Branch unchanged', () => {
+    const typeError = new TypeError('Cannot read properties of undefined');
+    expect(() => handleApiError(typeError)).toThrow(typeError);
+    const internalError = new InternalError('The file is not valid gzip data');
+    expect(() => handleApiError(internalError)).toThrow(internalError);
+    expect(() => handleApiError('A string error')).toThrow();
   });
 
-  it('should throw a BranchApiError with a generic message for unknown errors', () => {
-    const unknownError = { some: 'object' };
-    expect(() => handleApiError(unknownError)).toThrow('Branch API error: Unknown error occurred');
+  it('should rethrow errors that are already classified', () => {
+    const credentialsError = new CredentialsError('Branch Key is not configured.');
+    expect(() => handleApiError(credentialsError)).toThrow(credentialsError);
+    const apiError = new BranchApiError('Branch API error: 409 Conflict', { status: 409 });
+    expect(() => handleApiError(apiError)).toThrow(apiError);
   });
 });
@@ -11,7 +11,7 @@ import axios from 'axios';
  */
 export const MCP_USER_AGENT = 'Branch-MCP-Server/1.0.0';
 import type { BranchMcpConfig } from '../config.js';
-import { BranchApiError, getErrorMessage } from './errors.js';
+import { BranchApiError, getBranchErrorMessage, getErrorMessage } from './errors.js';
 
 /**
  * Creates a base URL for Branch API requests.
@@ -27,17 +27,22 @@ export function getBranchBaseUrl(config: BranchMcpConfig): string {
 /**
  * A general-purpose error handler for Branch API calls made with axios.
  * It checks if the error is an axios error and, if so, wraps it in a `BranchApiError`
- * to provide more context. Otherwise, it wraps the original error.
- * This function never returns; it always throws.
+ * that keeps the status, the response and the reason Branch gave for the error.
+ * Any other error, which did not come from Branch, is rethrown unchanged, so that it is not
+ * reported as a Branch failure that a retry could fix. This function never returns; it always throws.
  * @param error The error object caught from a `try...catch` block.
- * @throws {BranchApiError} Always throws a `BranchApiError` with details from the original error.
+ * @throws {BranchApiError} A `BranchApiError` with details from the original error, or the original error.
  */
 export function handleApiError(error: unknown): never {
-  if (axios.isAxiosError(error) && error.response) {
-    throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}`, {
+  if (!axios.isAxiosError(error)) {
+    throw error;
+  }
+  if (error.response) {
+    const reason = getBranchErrorMessage(error.response.data);
+    throw new BranchApiError(`Branch API error: ${error.response.status} ${error.response.statusText}${reason ? `: ${reason}` : ''}`, {
       status: error.response.status,
       response: error.response
     });
   }
   throw new BranchApiError(`Branch API error: ${getErrorMessage(error)}`);
-}
\ No newline at end of file
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { BranchMcpConfig } from '../config.js';
+import {
+  AuditLog,
+  createAuditMiddleware,
+  fingerprintCredential,
+  isAuditing,
+  recordAuditDetails,
+  recordBefore,
+  registerAuditLogResource
+} from './audit.js';
+import type { AuditEntry } from './audit.js';
+import { runWithRequestContext } from './context.js';
+import { CredentialsError } from './errors.js';
+import logger from './logger.js';
+import type { ToolCall } from './tool-middleware.js';
+
+const createEntry = (tool: string, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  timestamp: '2025-01-01T00:00:00.000Z',
+  tool,
+  outcome: 'success',
+  target: {},
+  ...overrides
+});
+
+describe('audit', () => {
+  let tempDir: string;
+  let path: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'branch-mcp-audit-'));
+    path = join(tempDir, 'logs', 'audit.jsonl');
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should fingerprint credentials without revealing them', () => {
+    expect(fingerprintCredential('key_live_123')).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(fingerprintCredential('key_live_123')).toBe(fingerprintCredential('key_live_123'));
+    expect(fingerprintCredential('key_live_123')).not.toBe(fingerprintCredential('key_live_456'));
+  });
+
+  describe('AuditLog', () => {
+    it('should append entries as JSON lines with credentials redacted', async () => {
+      const log = new AuditLog({ file: path, max_bytes: 1024 * 1024, max_files: 2 });
+      await log.append(createEntry('first', { before: { branch_secret: 'secret_123', app_name: 'Old' } }));
+      await log.append(createEntry('second'));
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]).before).toEqual({ branch_secret: '[REDACTED]', app_name: 'Old' });
+      expect((await log.read(10)).map((entry) => entry.tool)).toEqual(['first', 'second']);
+    });
+
+    it('should rotate the file when it reaches the size limit, keeping the configured number of files', async () => {
+      const entrySize = Buffer.byteLength(`${JSON.stringify(createEntry('tool_0'))}\n`);
+      const log = new AuditLog({ file: path, max_bytes: entrySize * 2, max_files: 2 });
+      await Promise.all([0, 1, 2, 3, 4, 5, 6].map((index) => log.append(createEntry(`tool_${index}`))));
+
+      expect(existsSync(`${path}.1`)).toBe(true);
+      expect(existsSync(`${path}.2`)).toBe(true);
+      expect(existsSync(`${path}.3`)).toBe(false);
+      expect((await log.read(100)).map((entry) => entry.tool)).toEqual(['tool_2', 'tool_3', 'tool_4', 'tool_5', 'tool_6']);
+      expect((await log.read(2)).map((entry) => entry.tool)).toEqual(['tool_5', 'tool_6']);
+    });
+
+    it('should discard the full file when no rotated files are kept', async () => {
+      const entrySize = Buffer.byteLength(`${JSON.stringify(createEntry('tool_0'))}\n`);
+      const log = new AuditLog({ file: path, max_bytes: entrySize, max_files: 0 });
+      await log.append(createEntry('tool_0'));
+      await log.append(createEntry('tool_1'));
+
+      expect((await log.read(10)).map((entry) => entry.tool)).toEqual(['tool_1']);
+      expect(existsSync(`${path}.1`)).toBe(false);
+    });
+
+    it('should read nothing before the first entry is written', async () => {
+      expect(await new AuditLog({ file: path, max_bytes: 1024, max_files: 1 }).read(10)).toEqual([]);
+    });
+  });
+
+  describe('createAuditMiddleware', () => {
+    const config = { branch_key: 'key_live_config' };
+    let log: AuditLog;
+
+    const createCall = (name: string, args: Record<string, unknown> = {}) => (
+      { name, args, extra: { authInfo: { clientId: 'ci-bot', token: 'token', scopes: [] } } } as unknown as ToolCall
+    );
+
+    beforeEach(() => {
+      log = new AuditLog({ file: path, max_bytes: 1024 * 1024, max_files: 1 });
+    });
+
+    // Registers the tools the tests call, as the server does, so that the middleware knows which change state.
+    const createMiddleware = (auditLog: AuditLog, auditConfig: BranchMcpConfig) => {
+      const middleware = createAuditMiddleware(auditLog, auditConfig);
+      for (const name of ['branch_create_deep_link', 'branch_bulk_create_deep_links', 'branch_update_deep_link', 'branch_delete_deep_link', 'branch_update_quick_link', 'branch_update_app_settings']) {
+        middleware.onRegister!(name, { annotations: { readOnlyHint: false } } as RegisteredTool);
+      }
+      middleware.onRegister!('branch_read_deep_link', { annotations: { readOnlyHint: true } } as RegisteredTool);
+      return middleware;
+    };
+
+    it('should record who changed what, with the details reported by the tool', async () => {
+      const result = await runWithRequestContext({ sessionId: 'session-1', requestId: 'req-1', profile: 'prod' }, () => (
+        createMiddleware(log, config).handle(createCall('branch_update_deep_link', { url: 'https://example.app.link/abc' }), async () => {
+          expect(isAuditing()).toBe(true);
+          await recordBefore(async () => ({ $canonical_url: 'https://example.com/old' }));
+          return { content: [], structuredContent: { $canonical_url: 'https://example.com/new' } };
+        })
+      ));
+
+      expect(result.structuredContent).toEqual({ $canonical_url: 'https://example.com/new' });
+      const [entry] = await log.read(10);
+      expect(entry).toEqual({
+        timestamp: expect.any(String),
+        tool: 'branch_update_deep_link',
+        outcome: 'success',
+        request_id: 'req-1',
+        session_id: 'session-1',
+        client_id: 'ci-bot',
+        profile: 'prod',
+        target: { branch_key_fingerprint: fingerprintCredential('key_live_config'), url: 'https://example.app.link/abc' },
+        before: { $canonical_url: 'https://example.com/old' },
+        after: { $canonical_url: 'https://example.com/new' }
+      });
+    });
+
+    it('should record bulk operations and values reported explicitly by the tool', async () => {
+      await createMiddleware(log, {}).handle(createCall('branch_bulk_create_deep_links', { links: [{}, {}, {}] }), async () => {
+        recordAuditDetails({ target: { url: 'https://example.app.link/first' }, after: ['created'] });
+        return { content: [], structuredContent: { links: [] } };
+      });
+
+      const [entry] = await log.read(10);
+      expect(entry.target).toEqual({ link_count: 3, url: 'https://example.app.link/first' });
+      expect(entry.after).toEqual(['created']);
+    });
+
+    it('should record failed calls and rethrow their errors', async () => {
+      const middleware = createMiddleware(log, config);
+      const error = new CredentialsError('Branch Secret is not configured.');
+      await expect(middleware.handle(createCall('branch_update_app_settings'), async () => {
+        throw error;
+      })).rejects.toBe(error);
+      await middleware.handle(createCall('branch_update_quick_link'), async () => ({
+        content: [{ type: 'text', text: 'Update failed' }],
+        isError: true
+      }));
+
+      const entries = await log.read(10);
+      expect(entries.map(({ outcome, error, after }) => ({ outcome, error, after }))).toEqual([
+        { outcome: 'error', error: { code: 'auth', message: 'Branch Secret is not configured.' }, after: undefined },
+        { outcome: 'error', error: { code: 'tool', message: 'Update failed' }, after: undefined }
+      ]);
+    });
+
+    it('should not audit tools that do not change state', async () => {
+      await createMiddleware(log, config).handle(createCall('branch_read_deep_link'), async () => {
+        expect(isAuditing()).toBe(false);
+        recordAuditDetails({ after: 'ignored' });
+        await recordBefore(async () => {
+          throw new Error('not called');
+        });
+        return { content: [] };
+      });
+
+      expect(await log.read(10)).toEqual([]);
+    });
+
+    it('should not audit dry runs, which change nothing', async () => {
+      await runWithRequestContext({ dryRun: {} }, () => (
+        createMiddleware(log, config).handle(createCall('branch_delete_deep_link'), async () => ({ content: [] }))
+      ));
+
+      expect(await log.read(10)).toEqual([]);
+    });
+
+    it('should keep going when the values before a change cannot be read', async () => {
+      await createMiddleware(log, config).handle(createCall('branch_update_app_settings'), async () => {
+        await recordBefore(async () => {
+          throw new Error('Network Error');
+        });
+        return { content: [] };
+      });
+
+      expect(logger.warn).toHaveBeenCalledWith('Could not read the values before the change', { error: 'Network Error' });
+      expect((await log.read(10))[0]).not.toHaveProperty('before');
+    });
+
+    it('should log but not fail the call when the entry cannot be written', async () => {
+      const notADirectory = join(tempDir, 'file');
+      writeFileSync(notADirectory, '');
+      const failing = new AuditLog({ file: join(notADirectory, 'audit.jsonl'), max_bytes: 1024, max_files: 1 });
+      const result = await createMiddleware(failing, config).handle(createCall('branch_create_deep_link'), async () => ({ content: [] }));
+
+      expect(result).toEqual({ content: [] });
+      expect(logger.error).toHaveBeenCalledWith('Failed to write audit log entry', expect.objectContaining({ tool: 'branch_create_deep_link' }));
+    });
+  });
+
+  it('should serve the most recent entries as a resource', async () => {
+    const log = new AuditLog({ file: path, max_bytes: 1024 * 1024, max_files: 1 });
+    await log.append(createEntry('branch_delete_deep_link', { client_id: 'client-a' }));
+    const server = { registerResource: jest.fn() };
+    registerAuditLogResource(server as unknown as McpServer, log);
+
+    const [name, uri, metadata, read] = server.registerResource.mock.calls[0] as [string, string, object, (uri: URL, extra: object) => Promise<{ contents: { text: string }[] }>];
+    expect([name, uri, metadata]).toEqual(['audit_log', 'branch://audit-log', expect.objectContaining({ mimeType: 'application/x-ndjson' })]);
+    const { contents } = await read(new URL(uri), { authInfo: { clientId: 'client-a' } });
+    expect(JSON.parse(contents[0].text)).toEqual(createEntry('branch_delete_deep_link', { client_id: 'client-a' }));
+  });
+
+  it('should only serve a client the entries of its own identity', async () => {
+    const log = new AuditLog({ file: path, max_bytes: 1024 * 1024, max_files: 1 });
+    await log.append(createEntry('branch_create_deep_link', { client_id: 'client-a', session_id: 'session-1', target: { branch_key_fingerprint: fingerprintCredential('key_a') } }));
+    await log.append(createEntry('branch_update_deep_link', { client_id: 'client-b', session_id: 'session-2', target: { branch_key_fingerprint: fingerprintCredential('key_b') } }));
+    await log.append(createEntry('branch_delete_deep_link', { session_id: 'session-3', target: { branch_key_fingerprint: fingerprintCredential('key_a') } }));
+    const server = { registerResource: jest.fn() };
+    registerAuditLogResource(server as unknown as McpServer, log);
+    const read = server.registerResource.mock.calls[0][3] as (uri: URL, extra: object) => Promise<{ contents: { text: string }[] }>;
+    const readTools = async (extra: object) => {
+      const { contents } = await read(new URL('branch://audit-log'), extra);
+      return contents[0].text.split('\n').filter(Boolean).map((line) => (JSON.parse(line) as AuditEntry).tool);
+    };
+
+    expect(await readTools({ authInfo: { clientId: 'client-b' } })).toEqual(['branch_update_deep_link']);
+    // The Branch Key of a session does not identify it: any session can send the same key.
+    expect(await runWithRequestContext({ sessionId: 'session-9', credentials: { branch_key: 'key_a' } }, () => readTools({}))).toEqual([]);
+    expect(await runWithRequestContext({ sessionId: 'session-3', credentials: { branch_key: 'key_a' } }, () => readTools({}))).toEqual(['branch_delete_deep_link']);
+    expect(await readTools({ sessionId: 'session-2' })).toEqual(['branch_update_deep_link']);
+    expect(await readTools({})).toEqual([]);
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * @file This file implements the audit log of operations that change state in Branch.
+ *
+ * Every call of a tool that changes state (annotated with `readOnlyHint: false`) is recorded as one
+ * JSON line in an append-only file, whether it succeeded or not: who made it (MCP session,
+ * authenticated client and profile), which tool, the target (link URL and a fingerprint of the
+ * Branch Key), the values before and after the change where the tool knows them, and the outcome. The file is rotated when it reaches a
+ * configured size. Tool handlers add what they know about the change with `recordAuditDetails`.
+ * The most recent entries can be reviewed through the `branch://audit-log` MCP resource, which
+ * only serves a client the entries of its own identity (see `getAuditLogFilter`).
+ */
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { BranchMcpConfig } from '../config.js';
+import { getResolvedAuth } from './auth.js';
+import { getRequestContext, runWithRequestContext } from './context.js';
+import { isDryRun, recordDryRunBefore } from './dry-run.js';
+import { getErrorMessage, toToolError } from './errors.js';
+import type { ToolErrorCode } from './errors.js';
+import logger, { sanitizeLogObject } from './logger.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * The default size at which the audit log is rotated (10 MiB).
+ */
+export const DEFAULT_AUDIT_LOG_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * The default number of rotated audit log files kept.
+ */
+export const DEFAULT_AUDIT_LOG_MAX_FILES = 5;
+
+/**
+ * The URI of the MCP resource that serves the audit log.
+ */
+export const AUDIT_LOG_RESOURCE_URI = 'branch://audit-log';
+
+/**
+ * The number of entries served by the audit log resource.
+ */
+const AUDIT_LOG_RESOURCE_LIMIT = 1000;
+
+/**
+ * Settings for the audit log. Auditing is enabled when `file` is set.
+ */
+export interface AuditConfig {
+  /**
+   * The path of the audit log file.
+   */
+  file?: string;
+
+  /**
+   * The size, in bytes, at which the file is rotated.
+   */
+  max_bytes: number;
+
+  /**
+   * The number of rotated files kept, named `<file>.1` (the most recent) to `<file>.<max_files>`.
+   */
+  max_files: number;
+}
+
+/**
+ * What an audited operation acted on.
+ */
+export interface AuditTarget {
+  /**
+   * A fingerprint of the Branch Key the operation was made with, identifying the app without revealing the key.
+   */
+  branch_key_fingerprint?: string;
+
+  /**
+   * The link the operation acted on, resolved from the alias or path it was given as.
+   */
+  url?: string;
+
+  /**
+   * The number of links a bulk operation acted on.
+   */
+  link_count?: number;
+
+  /**
+   * The links a bulk operation on existing links acted on, resolved where they could be.
+   */
+  urls?: string[];
+}
+
+/**
+ * The details of an audited operation that tool handlers can contribute.
+ */
+export interface AuditDetails {
+  target: AuditTarget;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * A single audit log entry.
+ */
+export interface AuditEntry extends AuditDetails {
+  timestamp: string;
+  tool: string;
+  outcome: 'success' | 'error';
+  request_id?: string;
+  session_id?: string;
+  client_id?: string;
+  profile?: string;
+  error?: { code: ToolErrorCode | 'tool'; message: string };
+}
+
+/**
+ * Returns a fingerprint of a credential that identifies it without revealing it.
+ * @param credential The credential, such as a Branch Key.
+ * @returns The first 16 hex digits of its SHA-256 hash, prefixed with `sha256:`.
+ */
+export function fingerprintCredential(credential: string): string {
+  return `sha256:${createHash('sha256').update(credential).digest('hex').slice(0, 16)}`;
+}
+
+const isMissingFile = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * An append-only JSONL audit log file with size-based rotation. Writes are serialized, so entries
+ * are never interleaved.
+ */
+export class AuditLog {
+  private readonly path: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(config: AuditConfig & { file: string }) {
+    this.path = config.file;
+    this.maxBytes = config.max_bytes;
+    this.maxFiles = config.max_files;
+  }
+
+  /**
+   * Appends an entry, rotating the file first if the entry would take it over the size limit.
+   * @param entry The entry to append. Credentials in it are redacted.
+   */
+  append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(sanitizeLogObject(entry))}\n`;
+    const write = this.queue.then(() => this.write(line));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Reads the most recent entries, including those in rotated files.
+   * @param limit The maximum number of entries to return.
+   * @param filter Selects the entries to return. Defaults to every entry.
+   * @returns The entries, oldest first.
+   */
+  async read(limit: number, filter: (entry: AuditEntry) => boolean = () => true): Promise<AuditEntry[]> {
+    await this.queue;
+    const entries: AuditEntry[] = [];
+    const files = [this.path, ...Array.from({ length: this.maxFiles }, (_, index) => `${this.path}.${index + 1}`)];
+    for (const file of files) {
+      if (entries.length >= limit) {
+        break;
+      }
+      let contents: string;
+      try {
+        contents = await readFile(file, 'utf8');
+      } catch (error) {
+        if (isMissingFile(error)) {
+          continue;
+        }
+        throw error;
+      }
+      entries.unshift(...contents.split('\n').filter(Boolean).map((line) => JSON.parse(line) as AuditEntry).filter(filter));
+    }
+    return entries.slice(-limit);
+  }
+
+  private async write(line: string): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const size = await stat(this.path).then((stats) => stats.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > this.maxBytes) {
+      await this.rotate();
+    }
+    await appendFile(this.path, line, { mode: 0o600 });
+  }
+
+  private async rotate(): Promise<void> {
+    if (this.maxFiles === 0) {
+      await rm(this.path, { force: true });
+      return;
+    }
+    await rm(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await rename(`${this.path}.${index}`, `${this.path}.${index + 1}`).catch((error: unknown) => {
+        if (!isMissingFile(error)) {
+          throw error;
+        }
+      });
+    }
+    await rename(this.path, `${this.path}.1`);
+  }
+}
+
+/**
+ * Whether the current tool call is being audited. Handlers can use this to skip work, such as
+ * reading the values before a change, that is only needed for the audit log.
+ */
+export function isAuditing(): boolean {
+  return getRequestContext()?.audit !== undefined;
+}
+
+/**
+ * Adds details to the audit entry of the current tool call. Does nothing if the call is not audited.
+ * @param details The target of the operation and the values before and after it.
+ */
+export function recordAuditDetails(details: Partial<AuditDetails>): void {
+  const audit = getRequestContext()?.audit;
+  if (!audit) {
+    return;
+  }
+  const { target, ...values } = details;
+  Object.assign(audit, values);
+  Object.assign(audit.target, target);
+}
+
+/**
+ * Reads the values a call is about to change and records them as the `before` values of its audit
+ * entry and of its dry run (see `dry-run.ts`). Does nothing if the call is neither audited nor a
+ * dry run. A failed read is logged and otherwise ignored, so that it never prevents the change itself.
+ * @param read Reads the current values.
+ */
+export async function recordBefore(read: () => Promise<unknown>): Promise<void> {
+  if (!isAuditing() && !isDryRun()) {
+    return;
+  }
+  try {
+    const before = await read();
+    recordAuditDetails({ before });
+    recordDryRunBefore(before);
+  } catch (error) {
+    logger.warn('Could not read the values before the change', { error: getErrorMessage(error) });
+  }
+}
+
+/**
+ * Builds the target of an audited call from its arguments.
+ */
+function getTarget(args: Record<string, unknown>, config: BranchMcpConfig): AuditTarget {
+  const { branch_key } = getResolvedAuth(args, config);
+  return {
+    ...(branch_key ? { branch_key_fingerprint: fingerprintCredential(branch_key) } : {}),
+    ...(typeof args.url === 'string' ? { url: args.url } : {}),
+    ...(Array.isArray(args.links) ? { link_count: args.links.length } : {})
+  };
+}
+
+/**
+ * Describes why an audited call failed, from the error it threw or the error result it returned.
+ */
+function getAuditError(thrown: unknown, result: CallToolResult | undefined): AuditEntry['error'] {
+  if (thrown !== undefined) {
+    return { code: toToolError(thrown).code, message: getErrorMessage(thrown) };
+  }
+  const text = result?.content.map((item) => (item.type === 'text' ? item.text : '')).join('\n');
+  return { code: 'tool', message: text ?? '' };
+}
+
+/**
+ * Creates middleware that writes an audit log entry for every call of a tool that changes state,
+ * as told by its `readOnlyHint: false` annotation, except dry runs, which change nothing. The entry is written after the call completes; a failure to write it
+ * is logged but does not fail the call, since the change has already been made.
+ * @param auditLog The audit log to write to.
+ * @param config The Branch MCP configuration, used to resolve the Branch Key of each call.
+ * @returns The audit middleware.
+ */
+export function createAuditMiddleware(auditLog: AuditLog, config: BranchMcpConfig): ToolMiddleware {
+  const auditedTools = new Set<string>();
+  return {
+    onRegister: (name, tool) => {
+      if (tool.annotations?.readOnlyHint === false) {
+        auditedTools.add(name);
+      }
+    },
+    handle: async (call, next) => {
+      if (!auditedTools.has(call.name) || isDryRun()) {
+        return next(call);
+      }
+      const context = getRequestContext();
+      const details: AuditDetails = { target: getTarget(call.args, config) };
+      let result: CallToolResult | undefined;
+      let thrown: unknown;
+      try {
+        result = await runWithRequestContext({ ...context, audit: details }, () => next(call));
+      } catch (error) {
+        thrown = error;
+      }
+
+      const failed = thrown !== undefined || result?.isError === true;
+      const entry: AuditEntry = {
+        timestamp: new Date().toISOString(),
+        tool: call.name,
+        outcome: failed ? 'error' : 'success',
+        request_id: context?.requestId,
+        session_id: context?.sessionId ?? call.extra.sessionId,
+        client_id: call.extra.authInfo?.clientId,
+        profile: context?.profile,
+        ...details,
+        ...(details.after === undefined && !failed && result?.structuredContent ? { after: result.structuredContent } : {}),
+        ...(failed ? { error: getAuditError(thrown, result) } : {})
+      };
+      try {
+        await auditLog.append(entry);
+      } catch (error) {
+        logger.error('Failed to write audit log entry', { tool: call.name, requestId: context?.requestId, error: getErrorMessage(error) });
+      }
+
+      if (thrown !== undefined) {
+        throw thrown;
+      }
+      return result!;
+    }
+  };
+}
+
+/**
+ * Selects the audit log entries a client may read: those of its authenticated client ID, or else
+ * those of its session. A client with neither reads no entries, since nothing ties any entry to it.
+ */
+function getAuditLogFilter(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): (entry: AuditEntry) => boolean {
+  const clientId = extra.authInfo?.clientId;
+  if (clientId) {
+    return (entry) => entry.client_id === clientId;
+  }
+  const sessionId = getRequestContext()?.sessionId ?? extra.sessionId;
+  if (sessionId) {
+    return (entry) => entry.session_id === sessionId;
+  }
+  return () => false;
+}
+
+/**
+ * Registers the `branch://audit-log` resource, which serves the most recent audit log entries of
+ * the reading client as JSON lines.
+ * @param server The MCP server instance.
+ * @param auditLog The audit log to serve.
+ */
+export function registerAuditLogResource(server: McpServer, auditLog: AuditLog): void {
+  server.registerResource(
+    'audit_log',
+    AUDIT_LOG_RESOURCE_URI,
+    {
+      title: 'Audit log',
+      description: `The last ${AUDIT_LOG_RESOURCE_LIMIT} operations made by this client that changed state in Branch, one JSON object per line, oldest first.`,
+      mimeType: 'application/x-ndjson'
+    },
+    async (uri, extra) => {
+      const entries = await auditLog.read(AUDIT_LOG_RESOURCE_LIMIT, getAuditLogFilter(extra));
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/x-ndjson',
+          text: entries.map((entry) => JSON.stringify(entry)).join('\n')
+        }]
+      };
+    }
+  );
+}
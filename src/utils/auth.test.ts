@@ -1,4 +1,14 @@
-import { getResolvedAuth } from './auth.js';
+import { jest } from '@jest/globals';
+import {
+  createProfileMiddleware,
+  getResolvedAuth,
+  getCredentialsFromHeaders,
+  getRequestApiKey,
+  getResolvedAppOrOrgId,
+  getSelectedProfileCredentials,
+  getSessionCredentials
+} from './auth.js';
+import { runWithRequestContext } from './context.js';
 import type { BranchMcpConfig } from '../config.js';
 
 describe('getResolvedAuth', () => {
@@ -85,4 +95,145 @@ describe('getResolvedAuth', () => {
       organization_id: undefined,
     });
   });
+
+  it('should prefer session credentials over config but not over params', () => {
+    const credentials = { branch_key: 'session_branch_key', api_key: 'session_api_key', app_id: 'session_app_id' };
+    const resolved = runWithRequestContext({ sessionId: 'abc', credentials }, () => getResolvedAuth({ app_id: 'params_app_id' }, baseConfig));
+    expect(resolved).toEqual({
+      api_key: 'session_api_key',
+      auth_token: 'session_api_key',
+      branch_key: 'session_branch_key',
+      branch_secret: undefined,
+      app_id: 'params_app_id',
+      organization_id: undefined
+    });
+  });
+
+  it('should not complete the credentials of a session with those of the server', () => {
+    const resolved = runWithRequestContext({ sessionId: 'abc', credentials: { branch_key: 'session_branch_key' } }, () => getResolvedAuth({}, baseConfig));
+    expect(resolved.branch_key).toBe('session_branch_key');
+    expect(resolved.branch_secret).toBeUndefined();
+    expect(resolved.api_key).toBeUndefined();
+
+    const withSecret = runWithRequestContext({ sessionId: 'abc', credentials: { branch_key: 'session_branch_key' } }, () => getResolvedAuth({ branch_secret: 'params_secret' }, baseConfig));
+    expect(withSecret.branch_secret).toBe('params_secret');
+    expect(runWithRequestContext({ sessionId: 'abc', credentials: {} }, () => getResolvedAuth({}, baseConfig)).branch_secret).toBe('config_branch_secret');
+  });
+});
+
+describe('getSessionCredentials', () => {
+  it('should return an empty object outside of a session', () => {
+    expect(getSessionCredentials()).toEqual({});
+  });
+});
+
+describe('profiles', () => {
+  const config: BranchMcpConfig = {
+    branch_key: 'config_branch_key',
+    api_key: 'config_api_key',
+    app_id: 'config_app_id',
+    profiles: {
+      'prod-ios': { branch_key: 'ios_branch_key', branch_secret: 'ios_secret', app_id: 'ios_app_id', api_key: 'ios_api_key' },
+      staging: { branch_key: 'staging_branch_key', organization_id: 'staging_org_id' }
+    }
+  };
+
+  it('should prefer the selected profile over the session and config but not over params', () => {
+    const context = { credentials: { branch_key: 'session_branch_key', branch_secret: 'session_secret' }, profile: 'prod-ios' };
+    const resolved = runWithRequestContext(context, () => getResolvedAuth({ app_id: 'params_app_id' }, config));
+    expect(resolved).toMatchObject({
+      branch_key: 'ios_branch_key',
+      branch_secret: 'ios_secret',
+      app_id: 'params_app_id',
+      api_key: 'ios_api_key'
+    });
+  });
+
+  it('should use the default profile before config, only when the session has no credentials', () => {
+    const withDefault = { ...config, default_profile: 'staging' };
+    const context = { credentials: { branch_key: 'session_branch_key' } };
+    expect(runWithRequestContext(context, () => getResolvedAuth({}, withDefault))).toMatchObject({
+      branch_key: 'session_branch_key',
+      organization_id: undefined,
+      app_id: undefined
+    });
+    expect(getResolvedAuth({}, withDefault)).toMatchObject({
+      branch_key: 'staging_branch_key',
+      organization_id: 'staging_org_id',
+      app_id: 'config_app_id'
+    });
+  });
+
+  it('should ignore unknown profiles', () => {
+    expect(runWithRequestContext({ profile: 'unknown' }, () => getSelectedProfileCredentials(config))).toEqual({});
+    expect(getSelectedProfileCredentials(config)).toEqual({});
+  });
+
+  it('should add a profile argument and select the profile for the call', async () => {
+    const middleware = createProfileMiddleware(config);
+    expect(middleware.inputShape!.profile.safeParse('staging').success).toBe(true);
+    expect(middleware.inputShape!.profile.safeParse('production').success).toBe(false);
+
+    const next = jest.fn(async () => ({ content: [{ type: 'text' as const, text: getResolvedAuth({}, config).branch_key! }] }));
+    const extra = {} as never;
+
+    const result = await middleware.handle({ name: 'tool', args: { url: 'u', profile: 'staging' }, extra }, next);
+    expect(result.content[0]).toEqual({ type: 'text', text: 'staging_branch_key' });
+    expect(next).toHaveBeenLastCalledWith({ name: 'tool', args: { url: 'u' }, extra });
+
+    const withoutProfile = await middleware.handle({ name: 'tool', args: { url: 'u' }, extra }, next);
+    expect(withoutProfile.content[0]).toEqual({ type: 'text', text: 'config_branch_key' });
+  });
+});
+
+describe('getRequestApiKey', () => {
+  it('should use the params, the selected profile, the session, then the config', () => {
+    const config: BranchMcpConfig = { api_key: 'config_api_key', auth_token: 'config_auth_token', profiles: { ios: { api_key: 'ios_api_key' } } };
+    const context = { credentials: { api_key: 'session_api_key' } };
+    expect(runWithRequestContext(context, () => getRequestApiKey({ api_key: 'params_api_key' }, config))).toBe('params_api_key');
+    expect(runWithRequestContext({ ...context, profile: 'ios' }, () => getRequestApiKey({}, config))).toBe('ios_api_key');
+    expect(runWithRequestContext(context, () => getRequestApiKey({}, config))).toBe('session_api_key');
+    expect(runWithRequestContext({ credentials: { auth_token: 'session_token' } }, () => getRequestApiKey({}, config))).toBe('session_token');
+    expect(runWithRequestContext({ credentials: { branch_key: 'session_branch_key' } }, () => getRequestApiKey({}, config))).toBeUndefined();
+    expect(getRequestApiKey({}, config)).toBe('config_api_key');
+  });
+
+  it('should not fall back to the configured auth token', () => {
+    expect(getRequestApiKey({}, { auth_token: 'config_auth_token' })).toBeUndefined();
+  });
+});
+
+describe('getResolvedAppOrOrgId', () => {
+  it('should use the IDs passed to the tool if there are any', () => {
+    const config = { app_id: 'config_app_id' };
+    expect(getResolvedAppOrOrgId({ organization_id: 'org' }, config)).toEqual({ app_id: undefined, organization_id: 'org' });
+  });
+
+  it('should fall back to the resolved app ID, then the organization ID', () => {
+    expect(getResolvedAppOrOrgId({}, { app_id: 'config_app_id', organization_id: 'config_org_id' })).toEqual({ app_id: 'config_app_id' });
+    expect(getResolvedAppOrOrgId({}, { organization_id: 'config_org_id' })).toEqual({ organization_id: 'config_org_id' });
+  });
+});
+
+describe('getCredentialsFromHeaders', () => {
+  it('should map credential headers to auth params', () => {
+    expect(getCredentialsFromHeaders({
+      'x-branch-key': 'key_live_123',
+      'x-branch-secret': 'secret_123',
+      'access-token': 'api_app_123',
+      'x-branch-app-id': '12345',
+      'x-branch-organization-id': '678',
+      'content-type': 'application/json'
+    })).toEqual({
+      branch_key: 'key_live_123',
+      branch_secret: 'secret_123',
+      api_key: 'api_app_123',
+      app_id: '12345',
+      organization_id: '678'
+    });
+  });
+
+  it('should return undefined when no credential headers are present', () => {
+    expect(getCredentialsFromHeaders({ 'x-branch-key': '', accept: '*/*' })).toBeUndefined();
+  });
 });
@@ -1,15 +1,20 @@
 /**
  * @file This file contains utility functions for resolving Branch authentication credentials.
- * It provides a standardized way to merge credentials provided at runtime with those
- * from the server configuration, ensuring a consistent authentication strategy.
+ * It provides a standardized way to merge credentials provided at runtime, credentials from a
+ * configured profile, credentials supplied with the client's session, and those from the server
+ * configuration, ensuring a consistent authentication strategy.
  */
+import type { IncomingHttpHeaders } from 'node:http';
+import { z } from 'zod';
 import type { BranchMcpConfig } from '../config.js';
+import { getRequestContext, runWithRequestContext } from './context.js';
+import type { ToolMiddleware } from './tool-middleware.js';
 
 /**
  * Defines the shape of authentication parameters that can be passed into a tool.
  * These parameters correspond to the various keys and tokens required by the Branch API.
  */
-interface AuthParams {
+export interface AuthParams {
   api_key?: string;
   branch_key?: string;
   branch_secret?: string;
@@ -19,11 +24,133 @@ interface AuthParams {
 }
 
 /**
- * Resolves authentication parameters by merging credentials from tool input and server configuration.
+ * Maps the HTTP headers a client may use to supply Branch credentials to the credential they carry.
+ * Header names are lower case, as Node.js normalizes incoming header names.
+ */
+export const CREDENTIAL_HEADERS: Record<string, keyof AuthParams> = {
+  'x-branch-key': 'branch_key',
+  'x-branch-secret': 'branch_secret',
+  'access-token': 'api_key',
+  'x-branch-app-id': 'app_id',
+  'x-branch-organization-id': 'organization_id'
+};
+
+/**
+ * Extracts Branch credentials from the headers of the HTTP request that established a session.
+ * @param headers The incoming HTTP request headers.
+ * @returns The credentials found in the headers, or `undefined` if there were none.
+ */
+export function getCredentialsFromHeaders(headers: IncomingHttpHeaders): AuthParams | undefined {
+  const credentials: AuthParams = {};
+  for (const [header, key] of Object.entries(CREDENTIAL_HEADERS)) {
+    const value = headers[header];
+    if (typeof value === 'string' && value) {
+      credentials[key] = value;
+    }
+  }
+  return Object.keys(credentials).length > 0 ? credentials : undefined;
+}
+
+/**
+ * Returns the credentials supplied with the current MCP session, if any.
+ */
+export function getSessionCredentials(): AuthParams {
+  return getRequestContext()?.credentials ?? {};
+}
+
+/**
+ * Returns the credentials of the profile selected for the current tool call, if any.
+ * @param config The server's static configuration object.
+ */
+export function getSelectedProfileCredentials(config: BranchMcpConfig): AuthParams {
+  const profile = getRequestContext()?.profile;
+  return (profile && config.profiles?.[profile]) || {};
+}
+
+/**
+ * Returns the credentials of the configured default profile, if any.
+ * @param config The server's static configuration object.
+ */
+function getDefaultProfileCredentials(config: BranchMcpConfig): AuthParams {
+  return (config.default_profile && config.profiles?.[config.default_profile]) || {};
+}
+
+/**
+ * Whether a credential source supplies any credential.
+ */
+function hasCredentials(layer: AuthParams): boolean {
+  return Object.values(layer).some((value) => value !== undefined);
+}
+
+/**
+ * Returns the credential sources in order of priority: tool input, the profile selected for the
+ * call, the client's session, the default profile and finally the server configuration. A session
+ * that supplies any credential is taken as a whole, without the default profile and configuration:
+ * its credentials may be for another app, which the server's own must not be mixed with.
+ */
+function getCredentialLayers(params: AuthParams, config: BranchMcpConfig): AuthParams[] {
+  const session = getSessionCredentials();
+  const fallback = hasCredentials(session) ? [session] : [getDefaultProfileCredentials(config), config];
+  return [params, getSelectedProfileCredentials(config), ...fallback];
+}
+
+/**
+ * Returns the first value found for any of the given keys, checking each layer in turn.
+ */
+function firstDefined(layers: AuthParams[], ...keys: (keyof AuthParams)[]): string | undefined {
+  for (const layer of layers) {
+    for (const key of keys) {
+      if (layer[key] !== undefined) {
+        return layer[key];
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the API key (Access Token) used by the v2 data APIs.
+ * Unlike `getResolvedAuth`, this does not fall back to the configured Auth Token, which is
+ * meant for sensitive link operations rather than data exports.
+ * @param params The authentication parameters passed to the tool at runtime.
+ * @param config The server's static configuration object.
+ * @returns The resolved API key, or `undefined` if none was provided.
+ */
+export function getRequestApiKey(params: Pick<AuthParams, 'api_key'>, config: BranchMcpConfig): string | undefined {
+  const [input, profile, ...fallback] = getCredentialLayers(params, config);
+  const session = getSessionCredentials();
+  return firstDefined([input, profile], 'api_key') ?? (hasCredentials(session) ? firstDefined([session], 'api_key', 'auth_token') : firstDefined(fallback, 'api_key'));
+}
+
+/**
+ * Resolves the App ID or Organization ID the v2 data APIs report on.
+ * The values passed to the tool are used as given if either is present; otherwise the App ID, or
+ * failing that the Organization ID, is resolved like any other credential.
+ * @param params The App and Organization IDs passed to the tool at runtime.
+ * @param config The server's static configuration object.
+ * @returns The App ID or Organization ID to use.
+ */
+export function getResolvedAppOrOrgId(params: Pick<AuthParams, 'app_id' | 'organization_id'>, config: BranchMcpConfig): Pick<AuthParams, 'app_id' | 'organization_id'> {
+  if (params.app_id || params.organization_id) {
+    return { app_id: params.app_id, organization_id: params.organization_id };
+  }
+  const { app_id, organization_id } = getResolvedAuth({}, config);
+  return app_id ? { app_id } : { organization_id };
+}
+
+/**
+ * Resolves authentication parameters by merging credentials from tool input, configured profiles,
+ * the current session and server configuration.
  *
  * This function follows a clear priority order for each credential:
  * 1. Use the value provided in the `params` object (i.e., from tool input).
- * 2. If not present in `params`, use the value from the `config` object (server configuration).
+ * 2. If not present in `params`, use the value from the profile selected with the tool's `profile` argument.
+ * 3. Then use the value supplied with the client's session (see `getSessionCredentials`).
+ * 4. Then use the value from the configured default profile.
+ * 5. Otherwise, use the value from the `config` object (server configuration).
+ *
+ * Steps 4 and 5 are skipped when the session supplies any credential, so that a session's
+ * credentials are never completed with the server's.
  *
  * It also treats `api_key` and `auth_token` as synonyms, resolving them to a single value
  * to simplify downstream usage.
@@ -33,17 +160,39 @@ interface AuthParams {
  * @returns An object containing the final, resolved authentication keys to be used for an API call.
  */
 export function getResolvedAuth(params: AuthParams, config: BranchMcpConfig) {
-  // Prioritize tool params, then config, treating api_key and auth_token as synonyms.
-  const resolvedApiKey = params.api_key ?? params.auth_token ?? config.api_key ?? config.auth_token;
-  const resolvedAppId = params.app_id ?? config.app_id;
-  const resolvedOrgId = params.organization_id ?? config.organization_id;
+  const layers = getCredentialLayers(params, config);
+  // Prioritize tool params, then profiles, the session and config, treating api_key and auth_token as synonyms.
+  const resolvedApiKey = firstDefined(layers, 'api_key', 'auth_token');
 
   return {
     api_key: resolvedApiKey,
-    branch_key: params.branch_key ?? config.branch_key,
-    branch_secret: params.branch_secret ?? config.branch_secret,
-    app_id: resolvedAppId,
-    organization_id: resolvedOrgId,
+    branch_key: firstDefined(layers, 'branch_key'),
+    branch_secret: firstDefined(layers, 'branch_secret'),
+    app_id: firstDefined(layers, 'app_id'),
+    organization_id: firstDefined(layers, 'organization_id'),
     auth_token: resolvedApiKey // Ensure both return the same resolved value
   };
 }
+
+/**
+ * Creates tool middleware that adds an optional `profile` argument to every tool, selecting one of
+ * the configured credential profiles for the call. The argument is removed before the tool runs and
+ * the selected profile is made available to `getResolvedAuth` through the request context.
+ * @param config The server's static configuration object. Must have at least one profile.
+ * @returns The tool middleware.
+ */
+export function createProfileMiddleware(config: BranchMcpConfig): ToolMiddleware {
+  const names = Object.keys(config.profiles ?? {}) as [string, ...string[]];
+  return {
+    inputShape: {
+      profile: z.enum(names).optional().describe('The configured Branch app profile to use for this call. Credentials passed as parameters still take precedence.')
+    },
+    handle: async (call, next) => {
+      const { profile, ...args } = call.args;
+      if (profile === undefined) {
+        return next({ ...call, args });
+      }
+      return runWithRequestContext({ ...getRequestContext(), profile: profile as string }, () => next({ ...call, args }));
+    }
+  };
+}
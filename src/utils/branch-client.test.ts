@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import type { BranchMcpConfig } from '../config.js';
+import { BranchClient, ConcurrencyLimiter, createRequestIdMiddleware, parseRetryAfter, REQUEST_ID_HEADER } from './branch-client.js';
+import { runWithRequestContext, getRequestContext } from './context.js';
+import type { ToolCall } from './tool-middleware.js';
+
+describe('BranchClient', () => {
+  let mock: MockAdapter;
+  let sleep: jest.Mock<(ms: number) => Promise<void>>;
+  const config: BranchMcpConfig = { branch_url: 'api.branch.io', max_retries: 2 };
+  const url = 'https://api.branch.io/v1/url';
+
+  const createClient = (overrides: Partial<BranchMcpConfig> = {}) => (
+    new BranchClient({ ...config, ...overrides }, { sleep, random: () => 0.5, baseDelayMs: 100, maxDelayMs: 1000, limiter: new ConcurrencyLimiter() })
+  );
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    sleep = jest.fn(async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should send requests to the configured base URL with the standard headers', async () => {
+    mock.onPost(url).reply(200, { url: 'https://example.app.link/abc' });
+
+    const response = await createClient().post('/v1/url', { branch_key: 'key' }, { accessToken: 'api_key', params: { a: 1 } });
+
+    expect(response.data).toEqual({ url: 'https://example.app.link/abc' });
+    const request = mock.history.post[0];
+    expect(request.params).toEqual({ a: 1 });
+    expect(request.timeout).toBe(30000);
+    expect(request.headers).toEqual(expect.objectContaining({
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      'Access-Token': 'api_key',
+      'User-Agent': 'Branch-MCP-Server/1.0.0',
+      [REQUEST_ID_HEADER]: expect.any(String)
+    }));
+  });
+
+  it('should accept absolute URLs and the configured timeout', async () => {
+    mock.onGet('https://other.branch.io/status?id=1').reply(200, {});
+
+    await createClient({ request_timeout_ms: 5000 }).get('https://other.branch.io/status?id=1');
+
+    expect(mock.history.get[0].timeout).toBe(5000);
+    expect(mock.history.get[0].headers!['Content-Type']).toBeUndefined();
+  });
+
+  it('should send the request ID of the current context', async () => {
+    mock.onGet(url).reply(200, {});
+
+    await runWithRequestContext({ requestId: 'req-123' }, () => createClient().get('/v1/url'));
+
+    expect(mock.history.get[0].headers![REQUEST_ID_HEADER]).toBe('req-123');
+  });
+
+  it('should retry idempotent requests that fail with a server error', async () => {
+    mock.onGet(url).replyOnce(503).onGet(url).replyOnce(502).onGet(url).reply(200, { ok: true });
+
+    const response = await createClient().get('/v1/url');
+
+    expect(response.data).toEqual({ ok: true });
+    expect(mock.history.get).toHaveLength(3);
+    expect(sleep.mock.calls).toEqual([[50], [100]]);
+  });
+
+  it('should retry idempotent requests that fail with a network error', async () => {
+    mock.onDelete(url).networkErrorOnce().onDelete(url).reply(200, {});
+
+    await createClient().delete('/v1/url');
+
+    expect(mock.history.delete).toHaveLength(2);
+  });
+
+  it('should not retry non-idempotent requests that fail with a server error', async () => {
+    mock.onPost(url).reply(500);
+
+    await expect(createClient().post('/v1/url', {})).rejects.toMatchObject({ response: { status: 500 } });
+    expect(mock.history.post).toHaveLength(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should retry POST requests marked as idempotent', async () => {
+    mock.onPost(url).replyOnce(500).onPost(url).reply(200, {});
+
+    await createClient().post('/v1/url', {}, { idempotent: true });
+
+    expect(mock.history.post).toHaveLength(2);
+  });
+
+  it('should not retry client errors', async () => {
+    mock.onGet(url).reply(404);
+
+    await expect(createClient().get('/v1/url')).rejects.toMatchObject({ response: { status: 404 } });
+    expect(mock.history.get).toHaveLength(1);
+  });
+
+  it('should retry rate-limited requests of any method, honoring Retry-After', async () => {
+    mock.onPost(url).replyOnce(429, {}, { 'retry-after': '1' }).onPost(url).reply(200, {});
+
+    await createClient().post('/v1/url', {});
+
+    expect(mock.history.post).toHaveLength(2);
+    expect(sleep).toHaveBeenCalledWith(1000);
+  });
+
+  it('should give up when Retry-After is longer than the maximum delay', async () => {
+    mock.onGet(url).reply(429, {}, { 'retry-after': '60' });
+
+    await expect(createClient().get('/v1/url')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(mock.history.get).toHaveLength(1);
+  });
+
+  it('should rethrow the last error once retries are exhausted', async () => {
+    mock.onGet(url).reply(500);
+
+    await expect(createClient().get('/v1/url')).rejects.toMatchObject({ response: { status: 500 } });
+    expect(mock.history.get).toHaveLength(3);
+  });
+
+  it('should not retry when retries are disabled', async () => {
+    mock.onGet(url).reply(500);
+
+    await expect(createClient({ max_retries: 0 }).get('/v1/url')).rejects.toMatchObject({ response: { status: 500 } });
+    expect(mock.history.get).toHaveLength(1);
+  });
+
+  it('should not retry requests whose caller retries them', async () => {
+    mock.onPost(url).reply(429, {}, { 'retry-after': '1' });
+
+    await expect(createClient().post('/v1/url', {}, { retry: false })).rejects.toMatchObject({ response: { status: 429 } });
+    expect(mock.history.post).toHaveLength(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should limit concurrent requests per credential', async () => {
+    const limiter = new ConcurrencyLimiter();
+    const client = new BranchClient({ ...config, max_concurrency: 1 }, { limiter });
+    let active = 0;
+    let maxActive = 0;
+    mock.onPut(url).reply(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return [200, {}];
+    });
+
+    await Promise.all([
+      client.put('/v1/url', { branch_key: 'key_a' }),
+      client.put('/v1/url', { branch_key: 'key_a' }),
+      client.put('/v1/url', {}, { accessToken: 'token' })
+    ]);
+
+    expect(maxActive).toBe(2);
+    expect(limiter.activeCount('key_a')).toBe(0);
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('should run queued operations in order once a slot is free', async () => {
+    const limiter = new ConcurrencyLimiter();
+    const order: string[] = [];
+    let release!: () => void;
+    const first = limiter.run('key', 1, () => new Promise<void>((resolve) => {
+      order.push('first');
+      release = resolve;
+    }));
+    const second = limiter.run('key', 1, async () => {
+      order.push('second');
+    });
+    const other = limiter.run('other', 1, async () => {
+      order.push('other');
+    });
+
+    await other;
+    expect(order).toEqual(['first', 'other']);
+    expect(limiter.activeCount('key')).toBe(1);
+
+    release();
+    await Promise.all([first, second]);
+    expect(order).toEqual(['first', 'other', 'second']);
+    expect(limiter.activeCount('key')).toBe(0);
+  });
+
+  it('should free the slot when an operation fails', async () => {
+    const limiter = new ConcurrencyLimiter();
+
+    await expect(limiter.run('key', 1, async () => {
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    expect(limiter.activeCount('key')).toBe(0);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delays in seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing and invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('createRequestIdMiddleware', () => {
+  const run = async (headers?: Record<string, string | string[]>) => {
+    let requestId: string | undefined;
+    const call = { name: 'tool', args: {}, extra: { requestInfo: headers ? { headers } : undefined } } as unknown as ToolCall;
+    await runWithRequestContext({ sessionId: 'session' }, () => createRequestIdMiddleware().handle(call, async () => {
+      requestId = getRequestContext()?.requestId;
+      expect(getRequestContext()?.sessionId).toBe('session');
+      return { content: [] };
+    }));
+    return requestId;
+  };
+
+  it('should reuse the request ID sent by the client', async () => {
+    expect(await run({ 'x-request-id': 'client-id' })).toBe('client-id');
+    expect(await run({ 'x-request-id': ['first', 'second'] })).toBe('first');
+  });
+
+  it('should generate a request ID otherwise', async () => {
+    expect(await run()).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * @file This file implements the shared HTTP client used to call the Branch API.
+ *
+ * `BranchClient` resolves paths against `getBranchBaseUrl`, sends the standard headers, and adds:
+ * - a timeout on every request;
+ * - retries with exponential backoff and full jitter, for idempotent requests that fail with a
+ *   network error, a timeout or a 5xx response, and for any request rejected with `429`, honoring
+ *   the `Retry-After` header, unless the caller retries the request itself;
+ * - a limit on the number of concurrent requests made with the same Branch credential;
+ * - an `X-Request-Id` header, taken from the current request context, that ties Branch requests
+ *   to the tool call that made them;
+ * - upstream request metrics and a trace span for every attempt (see `metrics.ts` and `tracing.ts`).
+ *
+ * During a dry run, requests other than `GET` are not sent (see `dry-run.ts`).
+ *
+ * Failed requests are rethrown as received once retries are exhausted, so that callers can map
+ * them to tool errors (see `handleApiError`).
+ */
+import { randomUUID } from 'node:crypto';
+import axios from 'axios';
+import type { AxiosError, AxiosResponse, ResponseType } from 'axios';
+import type { BranchMcpConfig } from '../config.js';
+import { getBranchBaseUrl, MCP_USER_AGENT } from './api.js';
+import { getRequestContext, runWithRequestContext } from './context.js';
+import { interceptDryRunRequest } from './dry-run.js';
+import logger from './logger.js';
+import { getErrorMessage } from './errors.js';
+import { recordUpstreamRequest } from './metrics.js';
+import { traceBranchRequest } from './tracing.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * The default request timeout (30 seconds).
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * The default number of times a failed request is retried.
+ */
+export const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * The default number of concurrent requests allowed per Branch credential.
+ */
+export const DEFAULT_MAX_CONCURRENCY = 5;
+
+/**
+ * The header used to propagate request IDs.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * The default shape of a Branch API response body.
+ */
+export type BranchResponseData = Record<string, unknown>;
+
+/**
+ * HTTP methods that can safely be repeated.
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Options for tuning a `BranchClient`. Settings not given here are taken from the configuration.
+ */
+export interface BranchClientOptions {
+  /**
+   * The base delay, in milliseconds, of the exponential backoff.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * The longest delay, in milliseconds, between two attempts. A `Retry-After` longer than this is not waited for.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * The limiter shared by all clients. Defaults to a process-wide limiter.
+   */
+  limiter?: ConcurrencyLimiter;
+
+  /**
+   * Waits for the given number of milliseconds. Replaceable for testing.
+   */
+  sleep?: (ms: number) => Promise<void>;
+
+  /**
+   * Returns a random number in [0, 1) used for jitter. Replaceable for testing.
+   */
+  random?: () => number;
+}
+
+/**
+ * Describes a single request to the Branch API.
+ */
+export interface BranchRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+  /**
+   * The path of the endpoint (e.g. `/v1/url`), or an absolute URL.
+   */
+  path: string;
+
+  /**
+   * Query string parameters.
+   */
+  params?: Record<string, unknown>;
+
+  /**
+   * The request body, sent as JSON.
+   */
+  data?: unknown;
+
+  /**
+   * A Branch API Key (Access Token), sent in the `Access-Token` header.
+   */
+  accessToken?: string;
+
+  /**
+   * Additional headers, which take precedence over the defaults.
+   */
+  headers?: Record<string, string>;
+
+  responseType?: ResponseType;
+
+  /**
+   * Whether the request can safely be repeated. Defaults to `true` for GET, PUT and DELETE.
+   */
+  idempotent?: boolean;
+
+  /**
+   * Whether failed attempts are retried. Defaults to `true`; callers that retry on their own turn
+   * it off, so that their retries are not multiplied by the client's.
+   */
+  retry?: boolean;
+
+  /**
+   * The key requests are limited by. Defaults to the access token, or the `branch_key` in the
+   * query parameters or body.
+   */
+  limitKey?: string;
+}
+
+/**
+ * Limits the number of concurrent operations per key. Operations over the limit wait in line.
+ */
+export class ConcurrencyLimiter {
+  private readonly active = new Map<string, number>();
+  private readonly waiting = new Map<string, (() => void)[]>();
+
+  /**
+   * Runs a function once fewer than `limit` operations with the same key are running.
+   * @param key The key to limit by.
+   * @param limit The maximum number of concurrent operations for the key.
+   * @param fn The operation.
+   * @returns The result of `fn`.
+   */
+  async run<T>(key: string, limit: number, fn: () => Promise<T>): Promise<T> {
+    if ((this.active.get(key) ?? 0) >= limit) {
+      await new Promise<void>((resolve) => {
+        this.waiting.set(key, [...(this.waiting.get(key) ?? []), resolve]);
+      });
+    } else {
+      this.active.set(key, (this.active.get(key) ?? 0) + 1);
+    }
+    try {
+      return await fn();
+    } finally {
+      this.release(key);
+    }
+  }
+
+  /**
+   * The number of operations running for a key.
+   */
+  activeCount(key: string): number {
+    return this.active.get(key) ?? 0;
+  }
+
+  /**
+   * Hands the slot to the next waiting operation, or frees it.
+   */
+  private release(key: string) {
+    const queue = this.waiting.get(key);
+    const next = queue?.shift();
+    if (queue?.length === 0) {
+      this.waiting.delete(key);
+    }
+    if (next) {
+      next();
+      return;
+    }
+    const count = (this.active.get(key) ?? 1) - 1;
+    if (count > 0) {
+      this.active.set(key, count);
+    } else {
+      this.active.delete(key);
+    }
+  }
+}
+
+const sharedLimiter = new ConcurrencyLimiter();
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @param value The header value.
+ * @param now The current time, in milliseconds since the epoch.
+ * @returns The delay in milliseconds, or `undefined` if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Creates middleware that gives every tool call a request ID, sent to the Branch API with each
+ * request the tool makes. An `X-Request-Id` sent by the MCP client is reused, so that the client's
+ * logs can be matched with Branch's; otherwise a new ID is generated.
+ * @returns The request ID middleware.
+ */
+export function createRequestIdMiddleware(): ToolMiddleware {
+  return {
+    handle: async (call, next) => {
+      const header = call.extra.requestInfo?.headers[REQUEST_ID_HEADER.toLowerCase()];
+      const requestId = (Array.isArray(header) ? header[0] : header) || randomUUID();
+      return runWithRequestContext({ ...getRequestContext(), requestId }, () => next(call));
+    }
+  };
+}
+
+/**
+ * The shared client for calling the Branch API.
+ */
+export class BranchClient {
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly maxConcurrency: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly limiter: ConcurrencyLimiter;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  /**
+   * @param config The Branch MCP configuration, which provides the base URL, timeout, retry and concurrency settings.
+   * @param options Options for tuning the client.
+   */
+  constructor(private readonly config: BranchMcpConfig, options: BranchClientOptions = {}) {
+    this.timeoutMs = config.request_timeout_ms ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.maxRetries = config.max_retries ?? DEFAULT_MAX_RETRIES;
+    this.maxConcurrency = config.max_concurrency ?? DEFAULT_MAX_CONCURRENCY;
+    this.baseDelayMs = options.baseDelayMs ?? 200;
+    this.maxDelayMs = options.maxDelayMs ?? 30 * 1000;
+    this.limiter = options.limiter ?? sharedLimiter;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = options.random ?? Math.random;
+  }
+
+  get<T = BranchResponseData>(path: string, options: Omit<BranchRequest, 'method' | 'path' | 'data'> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'GET', path });
+  }
+
+  post<T = BranchResponseData>(path: string, data?: unknown, options: Omit<BranchRequest, 'method' | 'path' | 'data'> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'POST', path, data });
+  }
+
+  put<T = BranchResponseData>(path: string, data?: unknown, options: Omit<BranchRequest, 'method' | 'path' | 'data'> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'PUT', path, data });
+  }
+
+  delete<T = BranchResponseData>(path: string, options: Omit<BranchRequest, 'method' | 'path' | 'data'> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'DELETE', path });
+  }
+
+  /**
+   * Sends a request to the Branch API, retrying it if it fails with a retryable error.
+   * @param request The request to send.
+   * @returns The response.
+   * @throws The last error received, once the request cannot be retried any more.
+   */
+  async request<T = BranchResponseData>(request: BranchRequest): Promise<AxiosResponse<T>> {
+    const url = /^https?:\/\//.test(request.path) ? request.path : `${getBranchBaseUrl(this.config)}${request.path}`;
+    const requestId = getRequestContext()?.requestId ?? randomUUID();
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'User-Agent': MCP_USER_AGENT,
+      [REQUEST_ID_HEADER]: requestId,
+      ...(request.data !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(request.accessToken ? { 'Access-Token': request.accessToken } : {}),
+      ...request.headers
+    };
+    interceptDryRunRequest({ method: request.method, url, params: request.params, headers, body: request.data });
+    const idempotent = request.idempotent ?? IDEMPOTENT_METHODS.has(request.method);
+    const limitKey = request.limitKey ?? request.accessToken ?? findBranchKey(request) ?? 'anonymous';
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.limiter.run(limitKey, this.maxConcurrency, () => this.send<T>(request, url, headers, attempt));
+      } catch (error) {
+        const delay = request.retry !== false && attempt < this.maxRetries ? this.getRetryDelay(error, attempt, idempotent) : undefined;
+        if (delay === undefined) {
+          throw error;
+        }
+        logger.warn('Retrying Branch API request', {
+          method: request.method,
+          url,
+          requestId,
+          attempt: attempt + 1,
+          delayMs: delay,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+          error: getErrorMessage(error)
+        });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Sends a single attempt of a request, recording it in the upstream request metrics and traces.
+   */
+  private async send<T>(request: BranchRequest, url: string, headers: Record<string, string>, attempt: number): Promise<AxiosResponse<T>> {
+    const startedAt = performance.now();
+    let status: number | undefined;
+    try {
+      const response = await traceBranchRequest<T>({ method: request.method, url, params: request.params, attempt }, (traceHeaders) => (
+        axios.request<T>({
+          method: request.method,
+          url,
+          params: request.params,
+          data: request.data,
+          headers: { ...headers, ...traceHeaders },
+          responseType: request.responseType,
+          timeout: this.timeoutMs
+        })
+      ));
+      status = response.status;
+      return response;
+    } catch (error) {
+      status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw error;
+    } finally {
+      recordUpstreamRequest(request.method, url, status, (performance.now() - startedAt) / 1000);
+    }
+  }
+
+  /**
+   * Decides whether a failed attempt is retried and after how long.
+   * @returns The delay before the next attempt, or `undefined` if the request must not be retried.
+   */
+  private getRetryDelay(error: unknown, attempt: number, idempotent: boolean): number | undefined {
+    if (!axios.isAxiosError(error)) {
+      return undefined;
+    }
+    const status = (error as AxiosError).response?.status;
+    const rateLimited = status === 429;
+    const transient = status === undefined || status >= 500;
+    if (!rateLimited && !(idempotent && transient)) {
+      return undefined;
+    }
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return retryAfter <= this.maxDelayMs ? retryAfter : undefined;
+    }
+    // Full jitter: a random delay between zero and the exponential backoff.
+    return Math.round(this.random() * Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt));
+  }
+}
+
+/**
+ * Finds the Branch Key a request is made with, if any.
+ */
+function findBranchKey(request: BranchRequest): string | undefined {
+  const fromParams = request.params?.branch_key;
+  const fromBody = typeof request.data === 'object' && request.data !== null ? (request.data as Record<string, unknown>).branch_key : undefined;
+  const key = fromParams ?? fromBody;
+  return typeof key === 'string' ? key : undefined;
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { z } from 'zod';
+import { BranchClient } from './branch-client.js';
+import { createBulkLinks, createBulkResult, runBulk, validateBulkLinks } from './bulk.js';
+import type { BulkItemResult } from './bulk.js';
+import { runWithRequestContext } from './context.js';
+import { DryRunInterrupt, interceptDryRunRequest, recordDryRunBefore } from './dry-run.js';
+import { BranchApiError } from './errors.js';
+
+const wait = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('runBulk', () => {
+  it('should run every item, a limited number at a time, and keep their order', async () => {
+    let active = 0;
+    let mostActive = 0;
+    const results = await runBulk(['a', 'b', 'c', 'd', 'e'], (item) => item, async (item) => {
+      active++;
+      mostActive = Math.max(mostActive, active);
+      await wait();
+      active--;
+      return { status: 'succeeded', link: `https://example.app.link/${item}` };
+    }, { concurrency: 2 });
+
+    expect(mostActive).toBe(2);
+    expect(results.map((result) => result.link)).toEqual(['a', 'b', 'c', 'd', 'e'].map((item) => `https://example.app.link/${item}`));
+    expect(results.map((result) => result.index)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should record failed items and carry on with the others', async () => {
+    const results = await runBulk(['a', 'b', 'c'], (item) => item, async (item) => {
+      if (item === 'b') {
+        throw new BranchApiError('Branch API error: 404 Not Found', { status: 404 });
+      }
+      return item === 'c' ? { status: 'skipped', reason: 'Nothing to do.' } : { status: 'succeeded' };
+    });
+
+    expect(results).toEqual([
+      { index: 0, link: 'a', status: 'succeeded' },
+      { index: 1, link: 'b', status: 'failed', code: 'not_found', reason: 'Branch API error: 404 Not Found' },
+      { index: 2, link: 'c', status: 'skipped', reason: 'Nothing to do.' }
+    ]);
+  });
+
+  it('should skip the items that have not started when the call is cancelled', async () => {
+    const controller = new AbortController();
+    const results = await runBulk(['a', 'b', 'c'], (item) => item, async () => {
+      controller.abort();
+      return { status: 'succeeded' };
+    }, { concurrency: 1, signal: controller.signal });
+
+    expect(results.map((result) => result.status)).toEqual(['succeeded', 'skipped', 'skipped']);
+    expect(results[1].reason).toBe('The call was cancelled before this link was processed.');
+  });
+
+  it('should plan every item of a dry run separately', async () => {
+    const results = await runWithRequestContext({ dryRun: {} }, () => runBulk(['a', 'b'], (item) => item, async (item) => {
+      if (item === 'b') {
+        return { status: 'skipped', reason: 'Nothing to do.' };
+      }
+      recordDryRunBefore({ channel: 'email' });
+      interceptDryRunRequest({ method: 'PUT', url: 'https://api2.branch.io/v1/url', headers: {}, body: { channel: 'sms' } });
+      return { status: 'succeeded' };
+    }));
+
+    expect(results).toEqual([
+      {
+        index: 0,
+        link: 'a',
+        status: 'planned',
+        plan: {
+          request: { method: 'PUT', url: 'https://api2.branch.io/v1/url', headers: {}, body: { channel: 'sms' } },
+          changes: [{ path: 'channel', before: 'email', after: 'sms' }]
+        }
+      },
+      { index: 1, link: 'b', status: 'skipped', reason: 'Nothing to do.' }
+    ]);
+  });
+});
+
+describe('validateBulkLinks', () => {
+  it('should report invalid links by index without failing the others', () => {
+    const schema = z.object({ alias: z.string().optional(), duration: z.number().optional() });
+    const { valid, invalid } = validateBulkLinks([{ alias: 'a' }, { alias: 'b', duration: 'long' }, 'c'], (link) => schema.parse(link));
+
+    expect(valid).toEqual([{ index: 0, params: { alias: 'a' } }]);
+    expect(invalid).toEqual([
+      { index: 1, link: 'b', status: 'failed', code: 'validation', reason: 'duration: Expected number, received string' },
+      { index: 2, link: '', status: 'failed', code: 'validation', reason: 'input: Expected object, received string' }
+    ]);
+  });
+});
+
+describe('createBulkLinks', () => {
+  const bulkUrl = 'https://api2.branch.io/v1/url/bulk/key_live_123';
+  const client = new BranchClient({ branch_url: 'api2.branch.io', max_retries: 0 });
+  const sleep = jest.fn(async () => undefined);
+  const createLinks = (count: number) => Array.from({ length: count }, (_, index) => ({ index, params: { alias: `link-${index}` } }));
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    sleep.mockClear();
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should send the links in chunks, reporting each chunk', async () => {
+    mock.onPost(bulkUrl).reply((request) => [200, JSON.parse(request.data).map(({ alias }: { alias: string }) => ({ url: `https://example.app.link/${alias}` }))]);
+    const onChunk = jest.fn(async () => undefined);
+    const { results, created } = await createBulkLinks(client, 'key_live_123', createLinks(250), { onChunk });
+
+    expect(mock.history.post.map((request) => JSON.parse(request.data).length)).toEqual([100, 100, 50]);
+    expect(onChunk.mock.calls).toEqual([[100], [200], [250]]);
+    expect(results).toHaveLength(250);
+    expect(results[249]).toEqual({ index: 249, link: 'https://example.app.link/link-249', status: 'succeeded' });
+    expect(created[0]).toEqual({ url: 'https://example.app.link/link-0' });
+  });
+
+  it('should retry a chunk that fails with a temporary error', async () => {
+    mock.onPost(bulkUrl).replyOnce(503).onPost(bulkUrl).replyOnce(503).onPost(bulkUrl).reply(200, [{ url: 'https://example.app.link/link-0' }]);
+    const { results } = await createBulkLinks(client, 'key_live_123', createLinks(1), { sleep });
+
+    expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    expect(results[0].status).toBe('succeeded');
+
+    mock.reset();
+    mock.onPost(bulkUrl).reply(503, { error: { message: 'Unavailable' } });
+    const failed = await createBulkLinks(client, 'key_live_123', createLinks(2), { sleep });
+    expect(failed.results).toEqual([
+      { index: 0, link: 'link-0', status: 'failed', code: 'upstream', reason: 'Unavailable' },
+      { index: 1, link: 'link-1', status: 'failed', code: 'upstream', reason: 'Unavailable' }
+    ]);
+  });
+
+  it('should retry a rate-limited chunk once per attempt, without the retries of the client', async () => {
+    const retryingClient = new BranchClient({ branch_url: 'api2.branch.io', max_retries: 3 });
+    mock.onPost(bulkUrl).replyOnce(429).onPost(bulkUrl).replyOnce(429).onPost(bulkUrl).reply(200, [{ url: 'https://example.app.link/link-0' }]);
+    const { results } = await createBulkLinks(retryingClient, 'key_live_123', createLinks(1), { sleep });
+
+    expect(mock.history.post).toHaveLength(3);
+    expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    expect(results[0].status).toBe('succeeded');
+  });
+
+  it('should not send a chunk again after a timeout or an error that may have created its links', async () => {
+    mock.onPost(bulkUrl).timeoutOnce().onPost(bulkUrl).replyOnce(502).onPost(bulkUrl).reply(200, [{ url: 'https://example.app.link/link-0' }]);
+    const timedOut = await createBulkLinks(client, 'key_live_123', createLinks(1), { sleep });
+    expect(timedOut.results[0]).toMatchObject({ status: 'failed', code: 'upstream' });
+    const failed = await createBulkLinks(client, 'key_live_123', createLinks(1), { sleep });
+    expect(failed.results[0]).toMatchObject({ status: 'failed', code: 'upstream' });
+
+    expect(sleep).not.toHaveBeenCalled();
+    expect(mock.history.post).toHaveLength(2);
+  });
+
+  it('should send the links of a rejected chunk one by one to find the bad ones', async () => {
+    mock.onPost(bulkUrl).reply((request) => {
+      const links: { alias: string }[] = JSON.parse(request.data);
+      if (links.some((link) => link.alias === 'link-1')) {
+        return [409, { error: { message: 'Alias link-1 is taken' } }];
+      }
+      return [200, links.map(({ alias }) => (alias === 'link-2' ? { error: 'Bad link' } : { url: `https://example.app.link/${alias}` }))];
+    });
+    const { results, created } = await createBulkLinks(client, 'key_live_123', createLinks(3));
+
+    expect(results).toEqual([
+      { index: 0, link: 'https://example.app.link/link-0', status: 'succeeded' },
+      { index: 1, link: 'link-1', status: 'failed', code: 'conflict', reason: 'Alias link-1 is taken' },
+      { index: 2, link: 'link-2', status: 'failed', code: 'upstream', reason: 'Bad link' }
+    ]);
+    expect(created).toEqual([{ url: 'https://example.app.link/link-0' }]);
+  });
+
+  it('should skip the chunks not sent before the call was cancelled', async () => {
+    const controller = new AbortController();
+    mock.onPost(bulkUrl).reply(() => {
+      controller.abort();
+      return [200, Array.from({ length: 100 }, () => ({ url: 'https://example.app.link/x' }))];
+    });
+    const { results } = await createBulkLinks(client, 'key_live_123', createLinks(101), { signal: controller.signal });
+
+    expect(mock.history.post).toHaveLength(1);
+    expect(results[100]).toMatchObject({ index: 100, status: 'skipped' });
+  });
+
+  it('should stop at the first chunk of a dry run', async () => {
+    await expect(runWithRequestContext({ dryRun: {} }, () => createBulkLinks(client, 'key_live_123', createLinks(150)))).rejects.toThrow(DryRunInterrupt);
+    expect(mock.history.post).toHaveLength(0);
+  });
+});
+
+describe('createBulkResult', () => {
+  it('should count the results and list them in a table', () => {
+    const results: BulkItemResult[] = [
+      { index: 0, link: 'https://example.app.link/a', status: 'succeeded' },
+      { index: 1, link: 'b|c', status: 'failed', code: 'validation', reason: 'Bad\nlink' }
+    ];
+    const result = createBulkResult(results);
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ summary: { total: 2, succeeded: 1, failed: 1, skipped: 0, planned: 0 }, results });
+    expect(result.content).toEqual([{
+      type: 'text',
+      text: [
+        '2 links: 1 succeeded, 1 failed.',
+        '',
+        '| # | Link | Status | Reason |',
+        '|---|---|---|---|',
+        '| 0 | https://example.app.link/a | succeeded |  |',
+        '| 1 | b\\|c | failed | validation: Bad link |'
+      ].join('\n')
+    }]);
+  });
+
+  it('should fail the call only if every attempted item failed', () => {
+    expect(createBulkResult([
+      { index: 0, link: 'a', status: 'failed', code: 'upstream', reason: 'Network Error' },
+      { index: 1, link: 'a', status: 'skipped', reason: 'The same link as item 0.' }
+    ]).isError).toBe(true);
+  });
+});
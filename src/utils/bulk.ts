@@ -0,0 +1,348 @@
+/**
+ * @file This file implements the shared execution of the tools that act on many links at once.
+ *
+ * `runBulk` runs an operation for every item of a bulk call with bounded concurrency. Items are
+ * independent: a failed item is recorded with the error code and reason of its failure, and the
+ * other items carry on, so that a call can partly succeed. Items can also be skipped, with a
+ * reason, when there is nothing to do for them. During a dry run, every item is run as a dry run
+ * of its own (see `dry-run.ts`), so that the call returns the request each item would send.
+ *
+ * `createBulkLinks` creates links with Branch's bulk endpoint, which takes at most
+ * `BULK_CREATE_CHUNK_SIZE` links per request. It sends them in chunks of that size, retries a chunk
+ * that fails with a temporary error, and when Branch rejects a chunk because of one of its links,
+ * sends the links of that chunk one by one, so that only the bad links fail.
+ *
+ * `createBulkResult` turns the per-item results into a tool result: counts by status, the results
+ * as structured content, and a table of them as text.
+ */
+import { z } from 'zod';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { BranchClient, BranchResponseData } from './branch-client.js';
+import { DryRunInterrupt, isDryRun, planDryRun } from './dry-run.js';
+import type { DryRunPlan } from './dry-run.js';
+import { getBranchErrorMessage, toToolError } from './errors.js';
+import type { ToolErrorCode } from './errors.js';
+
+/**
+ * The default number of items of a bulk call processed at once.
+ */
+export const DEFAULT_BULK_CONCURRENCY = 5;
+
+/**
+ * The largest number of items a bulk call accepts.
+ */
+export const MAX_BULK_ITEMS = 1000;
+
+/**
+ * The largest number of links Branch creates in a single bulk request.
+ */
+export const BULK_CREATE_CHUNK_SIZE = 100;
+
+/**
+ * The number of times a chunk that failed with a temporary error is sent again.
+ */
+const MAX_CHUNK_RETRIES = 2;
+
+/**
+ * The statuses a chunk is sent again after. Creating links is not idempotent, so a chunk is only
+ * sent again when Branch did not handle it: when it was rate limited or unavailable. After a
+ * timeout, a lost connection or another error, the links may have been created.
+ */
+const RETRYABLE_CHUNK_STATUSES = new Set([429, 503]);
+
+/**
+ * The delay, in milliseconds, before a chunk is first sent again. It doubles with every retry.
+ */
+const CHUNK_RETRY_DELAY_MS = 1000;
+
+/**
+ * Zod schema for the concurrency of a bulk call.
+ */
+export const bulkConcurrencySchema = z.object({
+  concurrency: z.number().int().min(1).max(20).optional().describe(`The number of links processed at once. Defaults to ${DEFAULT_BULK_CONCURRENCY}.`)
+});
+
+/**
+ * The status of an item of a bulk call:
+ * - `succeeded`: the operation was made.
+ * - `failed`: the operation failed; `code` and `reason` tell why.
+ * - `skipped`: there was nothing to do, or the call was cancelled first; `reason` tells why.
+ * - `planned`: the call is a dry run; `plan` holds the request that would have been sent.
+ */
+export type BulkItemStatus = 'succeeded' | 'failed' | 'skipped' | 'planned';
+
+/**
+ * The result of an item of a bulk call.
+ */
+export interface BulkItemResult {
+  /**
+   * The position of the item in the call, from 0.
+   */
+  index: number;
+
+  /**
+   * The link the item acts on, resolved if it could be.
+   */
+  link: string;
+  status: BulkItemStatus;
+  code?: ToolErrorCode;
+  reason?: string;
+  plan?: DryRunPlan;
+}
+
+/**
+ * What the operation of an item returns when it does not fail.
+ */
+export interface BulkItemOutcome {
+  status: 'succeeded' | 'skipped';
+
+  /**
+   * The link the item acted on, if it differs from the one given.
+   */
+  link?: string;
+  reason?: string;
+}
+
+/**
+ * The output fields of a bulk tool.
+ */
+export const bulkResultOutputShape = {
+  summary: z.object({
+    total: z.number(),
+    succeeded: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    planned: z.number()
+  }),
+  results: z.array(z.object({
+    index: z.number(),
+    link: z.string(),
+    status: z.enum(['succeeded', 'failed', 'skipped', 'planned']),
+    code: z.string().optional(),
+    reason: z.string().optional(),
+    plan: z.unknown().optional()
+  }))
+};
+
+/**
+ * Options for `runBulk`.
+ */
+export interface BulkOptions {
+  /**
+   * The number of items processed at once.
+   */
+  concurrency?: number;
+
+  /**
+   * Stops the call. Items that have not started are skipped.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the operation of a single item, turning its failure into a result.
+ */
+async function runItem<T>(item: T, index: number, link: string, run: (item: T, index: number) => Promise<BulkItemOutcome>): Promise<BulkItemResult> {
+  try {
+    if (!isDryRun()) {
+      return { index, link, ...await run(item, index) };
+    }
+    let outcome: BulkItemOutcome | undefined;
+    const { plan } = await planDryRun(async () => {
+      outcome = await run(item, index);
+      return { content: [] };
+    });
+    return plan ? { index, link, status: 'planned', plan } : { index, link, ...outcome! };
+  } catch (error) {
+    const { code, message } = toToolError(error);
+    return { index, link, status: 'failed', code, reason: message };
+  }
+}
+
+/**
+ * Runs an operation for every item of a bulk call, a limited number at a time.
+ * @param items The items.
+ * @param getLink Returns the link an item refers to, as given.
+ * @param run The operation. It throws to fail the item.
+ * @param options The concurrency and abort signal of the call.
+ * @returns The result of every item, in the order of the items.
+ */
+export async function runBulk<T>(
+  items: T[],
+  getLink: (item: T) => string,
+  run: (item: T, index: number) => Promise<BulkItemOutcome>,
+  options: BulkOptions = {}
+): Promise<BulkItemResult[]> {
+  const results: BulkItemResult[] = [];
+  let next = 0;
+  const work = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const link = getLink(items[index]);
+      results[index] = options.signal?.aborted
+        ? { index, link, status: 'skipped', reason: 'The call was cancelled before this link was processed.' }
+        : await runItem(items[index], index, link, run);
+    }
+  };
+  const workers = Math.min(options.concurrency ?? DEFAULT_BULK_CONCURRENCY, items.length);
+  await Promise.all(Array.from({ length: workers }, work));
+  return results;
+}
+
+/**
+ * A link to create with `createBulkLinks`.
+ */
+export interface BulkLink {
+  /**
+   * The position of the link in the call, from 0.
+   */
+  index: number;
+
+  /**
+   * The parameters of the link, as sent to Branch.
+   */
+  params: Record<string, unknown>;
+}
+
+/**
+ * Options for `createBulkLinks`.
+ */
+export interface BulkCreateOptions {
+  /**
+   * Stops the call. Chunks that have not been sent are skipped.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after every chunk with the number of links processed so far.
+   */
+  onChunk?: (processed: number) => Promise<void>;
+
+  /**
+   * Waits between retries. Replaceable in tests.
+   */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * The outcome of `createBulkLinks`.
+ */
+export interface BulkCreateOutcome {
+  /**
+   * The result of every link, in the order of the links.
+   */
+  results: BulkItemResult[];
+
+  /**
+   * The links Branch created, as it returned them, in the order of the links.
+   */
+  created: BranchResponseData[];
+}
+
+/**
+ * Describes a link in a result before it has a URL: by its alias, if it has one.
+ */
+const describeLink = (link: BulkLink) => (typeof link.params.alias === 'string' ? link.params.alias : '');
+
+/**
+ * Validates the links of a bulk creation one by one, so that an invalid link fails on its own
+ * instead of failing the whole call.
+ * @param links The links, as given.
+ * @param validate Validates a link and returns its parameters as sent to Branch. It throws if the link is invalid.
+ * @returns The valid links, and the results of the invalid ones.
+ */
+export function validateBulkLinks(links: unknown[], validate: (link: unknown) => Record<string, unknown>): { valid: BulkLink[]; invalid: BulkItemResult[] } {
+  const valid: BulkLink[] = [];
+  const invalid: BulkItemResult[] = [];
+  links.forEach((link, index) => {
+    try {
+      valid.push({ index, params: validate(link) });
+    } catch (error) {
+      const { code, message } = toToolError(error);
+      invalid.push({ index, link: describeLink({ index, params: typeof link === 'object' && link !== null ? link as Record<string, unknown> : {} }), status: 'failed', code, reason: message });
+    }
+  });
+  return { valid, invalid };
+}
+
+/**
+ * Creates links with Branch's bulk endpoint, in chunks of `BULK_CREATE_CHUNK_SIZE`. A chunk that
+ * Branch rate limits or is unavailable for is retried, by this function rather than by the client;
+ * a chunk that Branch rejects is split into single links.
+ * During a dry run, the request for the first chunk is planned.
+ * @param client The client to send the requests with.
+ * @param branchKey The Branch Key of the app.
+ * @param links The links to create.
+ * @param options The abort signal of the call and a progress callback.
+ * @returns The result of every link, and the links created.
+ */
+export async function createBulkLinks(client: BranchClient, branchKey: string, links: BulkLink[], options: BulkCreateOptions = {}): Promise<BulkCreateOutcome> {
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const created = new Map<number, BranchResponseData>();
+
+  const sendChunk = async (chunk: BulkLink[], attempt = 0): Promise<BulkItemResult[]> => {
+    try {
+      // Chunks are retried here, so the client does not retry them as well.
+      const response = await client.post<BranchResponseData[]>(`/v1/url/bulk/${branchKey}`, chunk.map((link) => link.params), { limitKey: branchKey, retry: false });
+      return chunk.map((link, position): BulkItemResult => {
+        const item = response.data[position];
+        if (typeof item?.url !== 'string') {
+          return { index: link.index, link: describeLink(link), status: 'failed', code: 'upstream', reason: getBranchErrorMessage(item) ?? 'Branch did not return a link.' };
+        }
+        created.set(link.index, item);
+        return { index: link.index, link: item.url, status: 'succeeded' };
+      });
+    } catch (error) {
+      if (error instanceof DryRunInterrupt) {
+        throw error;
+      }
+      const { code, message, status } = toToolError(error);
+      if (status !== undefined && RETRYABLE_CHUNK_STATUSES.has(status) && attempt < MAX_CHUNK_RETRIES) {
+        await sleep(CHUNK_RETRY_DELAY_MS * 2 ** attempt);
+        return sendChunk(chunk, attempt + 1);
+      }
+      if ((code === 'validation' || code === 'conflict') && chunk.length > 1) {
+        // Branch rejects a whole chunk for one bad link, so each link is sent alone to find it.
+        return (await Promise.all(chunk.map((link) => sendChunk([link])))).flat();
+      }
+      return chunk.map((link) => ({ index: link.index, link: describeLink(link), status: 'failed', code, reason: message }));
+    }
+  };
+
+  const results: BulkItemResult[] = [];
+  for (let start = 0; start < links.length; start += BULK_CREATE_CHUNK_SIZE) {
+    const chunk = links.slice(start, start + BULK_CREATE_CHUNK_SIZE);
+    if (options.signal?.aborted) {
+      results.push(...chunk.map((link): BulkItemResult => ({ index: link.index, link: describeLink(link), status: 'skipped', reason: 'The call was cancelled before this link was processed.' })));
+      continue;
+    }
+    results.push(...await sendChunk(chunk));
+    await options.onChunk?.(start + chunk.length);
+  }
+  return { results, created: links.map((link) => created.get(link.index)).filter((item): item is BranchResponseData => item !== undefined) };
+}
+
+/**
+ * Builds the result of a bulk call. The call is reported as failed only if every item that was
+ * attempted failed; otherwise the failed items are listed in its result.
+ * @param items The results of the items, in any order.
+ * @param structuredContent Other fields of the tool's output.
+ * @returns The tool result.
+ */
+export function createBulkResult(items: BulkItemResult[], structuredContent: Record<string, unknown> = {}): CallToolResult {
+  const results = [...items].sort((a, b) => a.index - b.index);
+  const count = (status: BulkItemStatus) => results.filter((result) => result.status === status).length;
+  const summary = { total: results.length, succeeded: count('succeeded'), failed: count('failed'), skipped: count('skipped'), planned: count('planned') };
+  const escape = (value = '') => value.replaceAll('|', '\\|').replaceAll('\n', ' ');
+  const table = [
+    '| # | Link | Status | Reason |',
+    '|---|---|---|---|',
+    ...results.map((result) => `| ${result.index} | ${escape(result.link)} | ${result.status} | ${escape(result.code ? `${result.code}: ${result.reason}` : result.reason)} |`)
+  ].join('\n');
+  const counts = (['succeeded', 'failed', 'skipped', 'planned'] as const).filter((status) => summary[status] > 0).map((status) => `${summary[status]} ${status}`);
+  return {
+    structuredContent: { summary, results, ...structuredContent },
+    content: [{ type: 'text', text: `${summary.total} links: ${counts.join(', ')}.\n\n${table}` }],
+    ...(summary.failed > 0 && summary.succeeded === 0 && summary.planned === 0 ? { isError: true } : {})
+  };
+}
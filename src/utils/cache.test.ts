@@ -0,0 +1,185 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createCacheMiddleware, MAX_CACHED_RESULT_BYTES, MemoryToolCache } from './cache.js';
+import type { CacheEntry, ToolCache } from './cache.js';
+import { runWithRequestContext } from './context.js';
+import logger from './logger.js';
+import type { ToolCall } from './tool-middleware.js';
+
+const createCall = (name: string, args: Record<string, unknown>) => ({ name, args, extra: {} }) as unknown as ToolCall;
+
+const createEntry = (text: string, tags: string[] = [], expiresAt = Date.now() + 1000): CacheEntry => ({
+  result: { content: [{ type: 'text', text }] },
+  tags,
+  cached_at: Date.now(),
+  expires_at: expiresAt
+});
+
+const ttls = { branch_read_deep_link: 1000, branch_get_app_settings: 1000, branch_query: 0 };
+
+const createMiddleware = (cache: ToolCache = new MemoryToolCache(), config = { branch_key: 'key_live_123' }) => {
+  const middleware = createCacheMiddleware(cache, ttls, config);
+  for (const name of ['branch_update_deep_link', 'branch_bulk_update_deep_links', 'branch_update_app_settings']) {
+    middleware.onRegister!(name, { annotations: { readOnlyHint: false } } as unknown as RegisteredTool);
+  }
+  middleware.onRegister!('branch_read_deep_link', { annotations: { readOnlyHint: true } } as unknown as RegisteredTool);
+  return middleware;
+};
+
+describe('MemoryToolCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep entries until they expire', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const cache = new MemoryToolCache();
+    await cache.set('key', createEntry('cached', [], 1000));
+
+    jest.setSystemTime(999);
+    expect((await cache.get('key'))?.result).toEqual({ content: [{ type: 'text', text: 'cached' }] });
+    jest.setSystemTime(1000);
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('should remove the least recently used entries beyond its size', async () => {
+    const cache = new MemoryToolCache(2);
+    await cache.set('first', createEntry('first'));
+    await cache.set('second', createEntry('second'));
+    await cache.get('first');
+    await cache.set('third', createEntry('third'));
+
+    expect(await cache.get('second')).toBeUndefined();
+    expect(await cache.get('first')).toBeDefined();
+    expect(await cache.get('third')).toBeDefined();
+  });
+
+  it('should remove the entries with the invalidated tags', async () => {
+    const cache = new MemoryToolCache();
+    await cache.set('link', createEntry('link', ['link:https://example.app.link/abc']));
+    await cache.set('app', createEntry('app', ['app:sha256:123']));
+    await cache.invalidate(['link:https://example.app.link/abc']);
+
+    expect(await cache.get('link')).toBeUndefined();
+    expect(await cache.get('app')).toBeDefined();
+  });
+});
+
+describe('createCacheMiddleware', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should answer repeated reads with the same normalized arguments from the cache', async () => {
+    const middleware = createMiddleware();
+    const next = jest.fn(async (): Promise<CallToolResult> => ({ content: [{ type: 'text', text: `read ${next.mock.calls.length}` }] }));
+
+    const first = await middleware.handle(createCall('branch_read_deep_link', { url: 'https://example.app.link/abc', app_id: '1' }), next);
+    const second = await middleware.handle(createCall('branch_read_deep_link', { app_id: '1', url: ' https://example.app.link/abc ' }), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(first).toEqual({ content: [{ type: 'text', text: 'read 1' }], _meta: { cache: { hit: false, ttl_ms: 1000 } } });
+    expect(second).toEqual({ content: [{ type: 'text', text: 'read 1' }], _meta: { cache: { hit: true, age_ms: expect.any(Number), ttl_ms: 1000 } } });
+  });
+
+  it('should keep the results of different credentials apart', async () => {
+    const cache = new MemoryToolCache();
+    const next = jest.fn(async (): Promise<CallToolResult> => ({ content: [] }));
+    await createMiddleware(cache).handle(createCall('branch_get_app_settings', {}), next);
+    await createMiddleware(cache, { branch_key: 'key_live_456' }).handle(createCall('branch_get_app_settings', {}), next);
+    await createMiddleware(cache).handle(createCall('branch_get_app_settings', {}), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate cached results when the resource they describe is changed', async () => {
+    const middleware = createMiddleware();
+    const next = jest.fn(async (): Promise<CallToolResult> => ({ content: [] }));
+    const read = createCall('branch_read_deep_link', { url: 'https://example.app.link/abc' });
+    const settings = createCall('branch_get_app_settings', {});
+    await middleware.handle(read, next);
+    await middleware.handle(settings, next);
+
+    await runWithRequestContext({ dryRun: {} }, () => middleware.handle(createCall('branch_update_deep_link', { url: 'https://example.app.link/abc' }), next));
+    await middleware.handle(read, next);
+    expect(next).toHaveBeenCalledTimes(3);
+
+    await middleware.handle(createCall('branch_update_deep_link', { url: 'example.app.link/abc?utm_source=email' }), next);
+    await middleware.handle(read, next);
+    await middleware.handle(settings, next);
+    expect(next).toHaveBeenCalledTimes(5);
+
+    await expect(middleware.handle(createCall('branch_update_app_settings', { app_name: 'New' }), async () => {
+      throw new Error('Network Error');
+    })).rejects.toThrow('Network Error');
+    await middleware.handle(settings, next);
+    expect(next).toHaveBeenCalledTimes(6);
+
+    await middleware.handle(createCall('branch_bulk_update_deep_links', { links: [{ url: 'https://example.app.link/xyz' }, { url: 'abc' }] }), next);
+    await middleware.handle(read, next);
+    expect(next).toHaveBeenCalledTimes(8);
+  });
+
+  it('should not cache a read that was in flight when its resource was changed', async () => {
+    const middleware = createMiddleware();
+    const read = createCall('branch_read_deep_link', { url: 'https://example.app.link/abc' });
+    let finishRead: (result: CallToolResult) => void = () => undefined;
+    const slow = jest.fn(() => new Promise<CallToolResult>((resolve) => {
+      finishRead = resolve;
+    }));
+    const next = jest.fn(async (): Promise<CallToolResult> => ({ content: [{ type: 'text', text: 'after the change' }] }));
+
+    const stale = middleware.handle(read, slow);
+    await middleware.handle(createCall('branch_update_deep_link', { url: 'abc' }), next);
+    finishRead({ content: [{ type: 'text', text: 'before the change' }] });
+    expect((await stale).content).toEqual([{ type: 'text', text: 'before the change' }]);
+
+    expect((await middleware.handle(read, next)).content).toEqual([{ type: 'text', text: 'after the change' }]);
+    expect((await middleware.handle(read, next))._meta).toEqual({ cache: expect.objectContaining({ hit: true }) });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache results too large to keep', async () => {
+    const middleware = createMiddleware();
+    const next = jest.fn(async (): Promise<CallToolResult> => ({ content: [{ type: 'text', text: 'x'.repeat(MAX_CACHED_RESULT_BYTES) }] }));
+    await middleware.handle(createCall('branch_get_app_settings', {}), next);
+    await middleware.handle(createCall('branch_get_app_settings', {}), next);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed calls or tools without a time to live', async () => {
+    const middleware = createMiddleware();
+    const failing = jest.fn(async (): Promise<CallToolResult> => ({ content: [], isError: true }));
+    await middleware.handle(createCall('branch_read_deep_link', { url: 'https://example.app.link/abc' }), failing);
+    await middleware.handle(createCall('branch_read_deep_link', { url: 'https://example.app.link/abc' }), failing);
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    const next = jest.fn(async (): Promise<CallToolResult> => ({ content: [] }));
+    await middleware.handle(createCall('branch_query', {}), next);
+    await expect(middleware.handle(createCall('branch_query', {}), next)).resolves.toEqual({ content: [] });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should call Branch when the cache fails', async () => {
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    const broken: ToolCache = {
+      get: async () => {
+        throw new Error('cache down');
+      },
+      set: async () => {
+        throw new Error('cache down');
+      },
+      invalidate: async () => {
+        throw new Error('cache down');
+      }
+    };
+    const middleware = createMiddleware(broken);
+    const next = jest.fn(async (): Promise<CallToolResult> => ({ content: [] }));
+    await middleware.handle(createCall('branch_read_deep_link', { url: 'https://example.app.link/abc' }), next);
+    await middleware.handle(createCall('branch_update_deep_link', { url: 'https://example.app.link/abc' }), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith('Tool result cache failed', { error: 'cache down' });
+  });
+});
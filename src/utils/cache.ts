@@ -0,0 +1,267 @@
+/**
+ * @file This file implements the cache of the results of read-only tools.
+ *
+ * Agents often read the same link, app settings or query results several times in a conversation.
+ * The results of the tools in `DEFAULT_CACHE_TTLS` are therefore kept in a `ToolCache` for a
+ * per-tool time, keyed on the tool, a fingerprint of the credentials of the call and its
+ * normalized arguments, so that a repeated read is answered without calling Branch. Each result is
+ * tagged with the resources it describes (a link or the settings of an app), and a call of a tool
+ * that changes one of them removes the results tagged with it, and keeps results read while it ran
+ * from being cached. Results larger than `MAX_CACHED_RESULT_BYTES` are not cached. Results carry `_meta.cache`, which
+ * tells whether they came from the cache. The cache is kept in memory by `MemoryToolCache`; other
+ * stores can implement `ToolCache`.
+ */
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { BranchMcpConfig } from '../config.js';
+import { fingerprintCredential } from './audit.js';
+import { getResolvedAuth } from './auth.js';
+import { isDryRun } from './dry-run.js';
+import { getErrorMessage } from './errors.js';
+import { fingerprintArguments, stableStringify } from './idempotency.js';
+import { getLinkAlias } from './link-reference.js';
+import logger from './logger.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * The default time, in milliseconds, the results of each cached tool are kept.
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  branch_read_deep_link: 60 * 1000,
+  branch_get_app_settings: 5 * 60 * 1000,
+  branch_query: 5 * 60 * 1000
+};
+
+/**
+ * The default number of results kept in memory.
+ */
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * The largest result, in bytes of JSON, that is cached (1 MB). Larger results, such as the rows of
+ * an auto-paginated `branch_query`, would take much of the memory of the cache for little gain.
+ */
+export const MAX_CACHED_RESULT_BYTES = 1024 * 1024;
+
+/**
+ * Settings for the cache of the results of read-only tools.
+ */
+export interface CacheConfig {
+  /**
+   * Whether results are cached at all.
+   */
+  enabled: boolean;
+
+  /**
+   * How long, in milliseconds, the results of each tool are kept, by tool name. Tools that are
+   * not listed, or listed with 0, are not cached.
+   */
+  ttl_ms: Record<string, number>;
+
+  /**
+   * The number of results kept. The least recently used results are removed first.
+   */
+  max_entries: number;
+}
+
+/**
+ * A cached tool result.
+ */
+export interface CacheEntry {
+  result: CallToolResult;
+
+  /**
+   * The resources the result describes, such as `link:<alias>`.
+   */
+  tags: string[];
+
+  /**
+   * When the result was cached, in milliseconds since the epoch.
+   */
+  cached_at: number;
+
+  /**
+   * When the result expires, in milliseconds since the epoch.
+   */
+  expires_at: number;
+}
+
+/**
+ * Keeps tool results until they expire or are invalidated.
+ */
+export interface ToolCache {
+  /**
+   * Returns the entry kept for a key, or `undefined` if there is none or it has expired.
+   */
+  get(key: string): Promise<CacheEntry | undefined>;
+
+  /**
+   * Keeps an entry for a key, replacing any entry kept for it.
+   */
+  set(key: string, entry: CacheEntry): Promise<void>;
+
+  /**
+   * Removes every entry tagged with one of the given tags.
+   */
+  invalidate(tags: string[]): Promise<void>;
+}
+
+/**
+ * A `ToolCache` that keeps a limited number of entries in memory, removing the least recently
+ * used ones first.
+ */
+export class MemoryToolCache implements ToolCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  /**
+   * @param maxEntries The number of entries kept.
+   */
+  constructor(maxEntries = DEFAULT_CACHE_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+    if (!entry || entry.expires_at <= Date.now()) {
+      return undefined;
+    }
+    // Moves the entry to the end, as the most recently used.
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  async invalidate(tags: string[]): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Returns the tags of the resources a call reads or changes: the link in its `url` argument or the
+ * links in its `links` argument and, for app settings, the app of its Branch Key. Links are tagged
+ * with their alias, which is the same whether a link is referred to by its URL, its domain and
+ * alias, or its alias alone.
+ */
+function getTags(name: string, args: Record<string, unknown>, config: BranchMcpConfig): string[] {
+  const links = Array.isArray(args.links) ? args.links.map((link: unknown) => (typeof link === 'object' && link !== null ? (link as { url?: unknown }).url : link)) : [];
+  const tags: string[] = [];
+  for (const link of [args.url, ...links]) {
+    if (typeof link === 'string') {
+      tags.push(`link:${getLinkAlias(link)}`);
+    }
+  }
+  if (name.endsWith('_app_settings')) {
+    const { branch_key } = getResolvedAuth(args, config);
+    tags.push(`app:${branch_key ? fingerprintCredential(branch_key) : ''}`);
+  }
+  return tags;
+}
+
+/**
+ * Normalizes the arguments of a call, so that calls that only differ in the order of their
+ * arguments or in surrounding whitespace share a cache entry.
+ */
+function normalizeArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(stableStringify(args), (_key, value: unknown) => (typeof value === 'string' ? value.trim() : value)) as Record<string, unknown>;
+}
+
+/**
+ * Logs a failure of the cache, which only costs a call to Branch and so never fails a tool call.
+ */
+const logCacheError = (error: unknown) => {
+  logger.warn('Tool result cache failed', { error: getErrorMessage(error) });
+  return undefined;
+};
+
+/**
+ * Creates middleware that answers repeated calls of cached tools from the cache, and invalidates
+ * the cached results of the resources that calls of tools which change state in Branch touch. The
+ * tools that change state are recognized by their annotations when they are registered. Failed
+ * calls are not cached, and dry runs, which change nothing, invalidate nothing.
+ *
+ * A read that was in flight when a resource it describes was invalidated may have read it before
+ * the change, so its result is not cached. Each tag has a generation, counted up by every
+ * invalidation while reads are in flight, and a read is only cached if the generations of its tags
+ * are the same as when it started.
+ * @param cache The cache.
+ * @param ttls How long, in milliseconds, the results of each tool are kept, by tool name.
+ * @param config The Branch MCP configuration, used to resolve the credentials of each call.
+ * @returns The cache middleware.
+ */
+export function createCacheMiddleware(cache: ToolCache, ttls: Record<string, number>, config: BranchMcpConfig): ToolMiddleware {
+  const mutatingTools = new Set<string>();
+  const generations = new Map<string, number>();
+  let reads = 0;
+  const getGenerations = (tags: string[]) => tags.map((tag) => generations.get(tag) ?? 0).join(',');
+  return {
+    onRegister: (name, tool) => {
+      if (tool.annotations?.readOnlyHint === false) {
+        mutatingTools.add(name);
+      }
+    },
+    handle: async (call, next) => {
+      if (mutatingTools.has(call.name)) {
+        try {
+          return await next(call);
+        } finally {
+          const tags = getTags(call.name, call.args, config);
+          if (!isDryRun() && tags.length > 0) {
+            // Generations only matter to the reads in flight, so none are kept without them.
+            if (reads > 0) {
+              for (const tag of tags) {
+                generations.set(tag, (generations.get(tag) ?? 0) + 1);
+              }
+            }
+            await cache.invalidate(tags).catch(logCacheError);
+          }
+        }
+      }
+      const ttl = ttls[call.name] ?? 0;
+      if (ttl <= 0) {
+        return next(call);
+      }
+
+      const args = normalizeArguments(call.args);
+      const credentials = fingerprintCredential(stableStringify(getResolvedAuth(args, config)));
+      const key = [call.name, credentials, fingerprintArguments(args)].join(':');
+      const tags = getTags(call.name, args, config);
+      const generation = getGenerations(tags);
+      reads++;
+      let result: CallToolResult;
+      let changed: boolean;
+      try {
+        const entry = await cache.get(key).catch(logCacheError);
+        if (entry) {
+          const metadata = { hit: true, age_ms: Date.now() - entry.cached_at, ttl_ms: ttl };
+          return { ...entry.result, _meta: { ...entry.result._meta, cache: metadata } };
+        }
+        result = await next(call);
+      } finally {
+        changed = getGenerations(tags) !== generation;
+        if (--reads === 0) {
+          generations.clear();
+        }
+      }
+      if (!result.isError && !changed && Buffer.byteLength(JSON.stringify(result)) <= MAX_CACHED_RESULT_BYTES) {
+        const now = Date.now();
+        await cache.set(key, { result, tags, cached_at: now, expires_at: now + ttl }).catch(logCacheError);
+      }
+      return { ...result, _meta: { ...result._meta, cache: { hit: false, ttl_ms: ttl } } };
+    }
+  };
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, readConfigFile } from './config-loader.js';
+import { ConfigError } from './errors.js';
+
+describe('loadConfig', () => {
+  let tempDir: string;
+
+  const writeFile = (name: string, contents: string) => {
+    const path = join(tempDir, name);
+    writeFileSync(path, contents);
+    return path;
+  };
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'branch-mcp-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply defaults when nothing is configured', () => {
+    expect(loadConfig({ env: {} })).toEqual({
+      branch: { branch_url: 'api2.branch.io' },
+      server: {
+        transport: 'streamable-http',
+        port: 8080,
+        monitor_port: 8081,
+        session_idle_timeout_ms: 30 * 60 * 1000,
+        ready_checks: ['config', 'branch_api', 'transport'],
+        ready_probe_ttl_ms: 60 * 1000,
+        shutdown_timeout_ms: 30 * 1000
+      },
+      auth: {},
+      audit: { max_bytes: 10 * 1024 * 1024, max_files: 5 },
+      policy: { read_only: false, dry_run: false },
+      confirmation: {
+        enabled: true,
+        tools: ['branch_delete_deep_link', 'branch_bulk_delete_deep_links', 'branch_update_app_settings'],
+        bulk_threshold: 10,
+        fallback: 'allow',
+        timeout_ms: 5 * 60 * 1000
+      },
+      idempotency: { ttl_ms: 24 * 60 * 60 * 1000 },
+      cache: {
+        enabled: true,
+        ttl_ms: { branch_read_deep_link: 60 * 1000, branch_get_app_settings: 5 * 60 * 1000, branch_query: 5 * 60 * 1000 },
+        max_entries: 1000
+      },
+      export_jobs: { ttl_ms: 7 * 24 * 60 * 60 * 1000 }
+    });
+  });
+
+  it('should read settings from the environment, including the API key', () => {
+    const config = loadConfig({
+      env: {
+        BRANCH_KEY: 'key_live_123',
+        API_KEY: 'api_app_123',
+        APP_ID: '12345',
+        USER_AUTH_TOKEN: 'token',
+        BRANCH_REQUEST_TIMEOUT_MS: '10000',
+        BRANCH_MAX_RETRIES: '0',
+        BRANCH_DOWNLOAD_HOSTS: '*.amazonaws.com, http://localhost:9000',
+        MCP_TRANSPORT: 'sse',
+        MCP_HOST: '127.0.0.1',
+        MCP_PORT: '3000',
+        MCP_MONITOR_PORT: '3001',
+        MCP_READY_CHECKS: 'config,transport',
+        MCP_READY_PROBE_TTL_MS: '5000',
+        MCP_SHUTDOWN_TIMEOUT_MS: '10000',
+        MCP_AUTH_TOKENS: 'one, two',
+        MCP_AUTH_RESOURCE_URL: 'https://mcp.example.com',
+        MCP_AUDIT_LOG_FILE: '/var/log/branch-mcp/audit.jsonl',
+        MCP_AUDIT_LOG_MAX_FILES: '0',
+        MCP_READ_ONLY: 'true',
+        MCP_DRY_RUN: '1',
+        MCP_DENY_TOOLS: 'branch_delete_deep_link',
+        MCP_CONFIRM_TOOLS: 'branch_delete_*',
+        MCP_CONFIRM_BULK_THRESHOLD: '0',
+        MCP_CONFIRM_FALLBACK: 'deny',
+        MCP_IDEMPOTENCY_FILE: '/var/lib/branch-mcp/idempotency.json',
+        MCP_CACHE: 'false',
+        MCP_EXPORT_JOBS_FILE: '/var/lib/branch-mcp/export-jobs.json',
+        MCP_EXPORT_JOBS_TTL_MS: '86400000'
+      }
+    });
+    expect(config.branch).toEqual({ branch_url: 'api2.branch.io', branch_key: 'key_live_123', api_key: 'api_app_123', app_id: '12345', auth_token: 'token', request_timeout_ms: 10000, max_retries: 0, download_hosts: ['*.amazonaws.com', 'http://localhost:9000'] });
+    expect(config.server).toMatchObject({
+      transport: 'sse',
+      host: '127.0.0.1',
+      port: 3000,
+      monitor_port: 3001,
+      ready_checks: ['config', 'transport'],
+      ready_probe_ttl_ms: 5000,
+      shutdown_timeout_ms: 10000
+    });
+    expect(config.auth).toEqual({ tokens: ['one', 'two'], resource_url: 'https://mcp.example.com' });
+    expect(config.audit).toEqual({ file: '/var/log/branch-mcp/audit.jsonl', max_bytes: 10 * 1024 * 1024, max_files: 0 });
+    expect(config.policy).toEqual({ read_only: true, dry_run: true, deny_tools: ['branch_delete_deep_link'] });
+    expect(config.confirmation).toMatchObject({ enabled: true, tools: ['branch_delete_*'], bulk_threshold: 0, fallback: 'deny' });
+    expect(config.idempotency).toEqual({ file: '/var/lib/branch-mcp/idempotency.json', ttl_ms: 24 * 60 * 60 * 1000 });
+    expect(config.cache.enabled).toBe(false);
+    expect(config.export_jobs).toEqual({ file: '/var/lib/branch-mcp/export-jobs.json', ttl_ms: 24 * 60 * 60 * 1000 });
+  });
+
+  it('should load a YAML config file with profiles, overridden by the environment', () => {
+    const path = writeFile('config.yaml', [
+      'branch:',
+      '  branch_key: key_live_file',
+      '  default_profile: staging',
+      '  profiles:',
+      '    prod-ios:',
+      '      branch_key: key_live_ios',
+      '      branch_secret: secret_ios',
+      '      app_id: "111"',
+      '    staging:',
+      '      branch_key: key_test_staging',
+      'server:',
+      '  port: 9000',
+      'auth:',
+      '  required_scopes: [mcp:tools]',
+      'policy:',
+      '  write_scope: branch:write',
+      '  constraints:',
+      '    branch_update_deep_link:',
+      '      url: { domains: [example.app.link] }',
+      'cache:',
+      '  ttl_ms:',
+      '    branch_query: 0'
+    ].join('\n'));
+
+    const config = loadConfig({ path, env: { MCP_PORT: '9100', BRANCH_SECRET: 'secret_env' } });
+    expect(config.branch).toEqual({
+      branch_url: 'api2.branch.io',
+      branch_key: 'key_live_file',
+      branch_secret: 'secret_env',
+      default_profile: 'staging',
+      profiles: {
+        'prod-ios': { branch_key: 'key_live_ios', branch_secret: 'secret_ios', app_id: '111' },
+        staging: { branch_key: 'key_test_staging' }
+      }
+    });
+    expect(config.server.port).toBe(9100);
+    expect(config.auth.required_scopes).toEqual(['mcp:tools']);
+    expect(config.policy).toEqual({
+      read_only: false,
+      dry_run: false,
+      write_scope: 'branch:write',
+      constraints: { branch_update_deep_link: { url: { domains: ['example.app.link'] } } }
+    });
+    expect(config.cache.ttl_ms).toEqual({ branch_read_deep_link: 60 * 1000, branch_get_app_settings: 5 * 60 * 1000, branch_query: 0 });
+  });
+
+  it('should load a JSON config file named by MCP_CONFIG_FILE', () => {
+    const path = writeFile('config.json', JSON.stringify({ server: { transport: 'stdio' } }));
+    expect(loadConfig({ env: { MCP_CONFIG_FILE: path } }).server.transport).toBe('stdio');
+  });
+
+  it('should treat an empty config file as no settings', () => {
+    expect(loadConfig({ path: writeFile('empty.yaml', ''), env: {} }).server.port).toBe(8080);
+  });
+
+  it('should report every invalid setting with its source', () => {
+    const path = writeFile('invalid.yaml', 'server:\n  transport: carrier-pigeon\n  prot: 80\nbranch:\n  default_profile: missing\n');
+    expect(() => loadConfig({ path, env: { MCP_MONITOR_PORT: 'abc' } })).toThrow(new ConfigError([
+      `Invalid configuration in ${path}:`,
+      '  - branch.default_profile: Unknown profile "missing"',
+      '  - server.transport: Invalid enum value. Expected \'stdio\' | \'sse\' | \'streamable-http\', received \'carrier-pigeon\'',
+      '  - server.monitor_port (from MCP_MONITOR_PORT): Expected number, received nan',
+      '  - server: Unrecognized key(s) in object: \'prot\''
+    ].join('\n')));
+  });
+
+  it('should report invalid settings from the environment alone', () => {
+    expect(() => loadConfig({ env: { MCP_AUTH_RESOURCE_URL: 'not a url' } })).toThrow(
+      'Invalid configuration:\n  - auth.resource_url (from MCP_AUTH_RESOURCE_URL): Invalid url'
+    );
+    expect(() => loadConfig({ env: { MCP_READ_ONLY: 'yes' } })).toThrow(/policy\.read_only \(from MCP_READ_ONLY\)/);
+  });
+});
+
+describe('readConfigFile', () => {
+  it('should report files that cannot be read or parsed', () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'branch-mcp-config-'));
+    try {
+      expect(() => readConfigFile(join(tempDir, 'missing.yaml'))).toThrow(/^Could not read config file/);
+
+      const invalidJson = join(tempDir, 'invalid.json');
+      writeFileSync(invalidJson, '{ "server": ');
+      expect(() => readConfigFile(invalidJson)).toThrow(/^Could not parse config file/);
+
+      const list = join(tempDir, 'list.yml');
+      writeFileSync(list, '- a\n- b\n');
+      expect(() => readConfigFile(list)).toThrow(`Config file ${list} must contain an object`);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
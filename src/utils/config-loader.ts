@@ -0,0 +1,177 @@
+/**
+ * @file This file loads the server configuration.
+ *
+ * Settings are layered: the defaults, then an optional JSON or YAML configuration file
+ * (`MCP_CONFIG_FILE`), then environment variables. The result is validated against
+ * `appConfigSchema`, and every problem is reported in a single `ConfigError` naming the
+ * setting (and the environment variable, if that is where the value came from).
+ */
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { ZodIssue } from 'zod';
+import type { AppConfig } from '../config.js';
+import { appConfigSchema } from '../schemas/config.js';
+import { ConfigError, getErrorMessage } from './errors.js';
+
+/**
+ * An environment variable that overrides a configuration setting.
+ */
+interface EnvOverride {
+  /**
+   * The names of the environment variable, in order of precedence.
+   */
+  names: string[];
+
+  /**
+   * The section and key of the setting.
+   */
+  path: [section: 'branch' | 'server' | 'auth' | 'audit' | 'policy' | 'confirmation' | 'idempotency' | 'cache' | 'export_jobs', key: string];
+
+  /**
+   * Whether the value is a comma-separated list.
+   */
+  list?: boolean;
+}
+
+/**
+ * The environment variables that override configuration settings.
+ */
+export const ENV_OVERRIDES: EnvOverride[] = [
+  { names: ['BRANCH_KEY'], path: ['branch', 'branch_key'] },
+  { names: ['BRANCH_SECRET'], path: ['branch', 'branch_secret'] },
+  { names: ['BRANCH_URL'], path: ['branch', 'branch_url'] },
+  { names: ['API_KEY', 'BRANCH_API_KEY'], path: ['branch', 'api_key'] },
+  { names: ['BRANCH_APP_ID', 'APP_ID'], path: ['branch', 'app_id'] },
+  { names: ['BRANCH_ORGANIZATION_ID', 'ORGANIZATION_ID'], path: ['branch', 'organization_id'] },
+  { names: ['USER_AUTH_TOKEN', 'AUTH_TOKEN'], path: ['branch', 'auth_token'] },
+  { names: ['BRANCH_PROFILE'], path: ['branch', 'default_profile'] },
+  { names: ['BRANCH_REQUEST_TIMEOUT_MS'], path: ['branch', 'request_timeout_ms'] },
+  { names: ['BRANCH_MAX_RETRIES'], path: ['branch', 'max_retries'] },
+  { names: ['BRANCH_MAX_CONCURRENCY'], path: ['branch', 'max_concurrency'] },
+  { names: ['BRANCH_IMPORT_DIR'], path: ['branch', 'import_dir'] },
+  { names: ['BRANCH_DOWNLOAD_HOSTS'], path: ['branch', 'download_hosts'], list: true },
+  { names: ['MCP_TRANSPORT'], path: ['server', 'transport'] },
+  { names: ['MCP_HOST'], path: ['server', 'host'] },
+  { names: ['MCP_PORT'], path: ['server', 'port'] },
+  { names: ['MCP_MONITOR_HOST'], path: ['server', 'monitor_host'] },
+  { names: ['MCP_MONITOR_PORT'], path: ['server', 'monitor_port'] },
+  { names: ['MCP_SESSION_IDLE_TIMEOUT_MS'], path: ['server', 'session_idle_timeout_ms'] },
+  { names: ['MCP_READY_CHECKS'], path: ['server', 'ready_checks'], list: true },
+  { names: ['MCP_READY_PROBE_TTL_MS'], path: ['server', 'ready_probe_ttl_ms'] },
+  { names: ['MCP_SHUTDOWN_TIMEOUT_MS'], path: ['server', 'shutdown_timeout_ms'] },
+  { names: ['MCP_AUTH_TOKENS'], path: ['auth', 'tokens'], list: true },
+  { names: ['MCP_AUTH_TOKENS_FILE'], path: ['auth', 'tokens_file'] },
+  { names: ['MCP_AUTH_JWKS_FILE'], path: ['auth', 'jwks_file'] },
+  { names: ['MCP_AUTH_JWT_ISSUER'], path: ['auth', 'jwt_issuer'] },
+  { names: ['MCP_AUTH_JWT_AUDIENCE'], path: ['auth', 'jwt_audience'] },
+  { names: ['MCP_AUTH_REQUIRED_SCOPES'], path: ['auth', 'required_scopes'], list: true },
+  { names: ['MCP_AUTH_RESOURCE_URL'], path: ['auth', 'resource_url'] },
+  { names: ['MCP_AUTH_AUTHORIZATION_SERVERS'], path: ['auth', 'authorization_servers'], list: true },
+  { names: ['MCP_AUDIT_LOG_FILE'], path: ['audit', 'file'] },
+  { names: ['MCP_AUDIT_LOG_MAX_BYTES'], path: ['audit', 'max_bytes'] },
+  { names: ['MCP_AUDIT_LOG_MAX_FILES'], path: ['audit', 'max_files'] },
+  { names: ['MCP_READ_ONLY'], path: ['policy', 'read_only'] },
+  { names: ['MCP_DRY_RUN'], path: ['policy', 'dry_run'] },
+  { names: ['MCP_ALLOW_TOOLS'], path: ['policy', 'allow_tools'], list: true },
+  { names: ['MCP_DENY_TOOLS'], path: ['policy', 'deny_tools'], list: true },
+  { names: ['MCP_WRITE_SCOPE'], path: ['policy', 'write_scope'] },
+  { names: ['MCP_CONFIRM'], path: ['confirmation', 'enabled'] },
+  { names: ['MCP_CONFIRM_TOOLS'], path: ['confirmation', 'tools'], list: true },
+  { names: ['MCP_CONFIRM_BULK_THRESHOLD'], path: ['confirmation', 'bulk_threshold'] },
+  { names: ['MCP_CONFIRM_FALLBACK'], path: ['confirmation', 'fallback'] },
+  { names: ['MCP_CONFIRM_TIMEOUT_MS'], path: ['confirmation', 'timeout_ms'] },
+  { names: ['MCP_IDEMPOTENCY_FILE'], path: ['idempotency', 'file'] },
+  { names: ['MCP_IDEMPOTENCY_TTL_MS'], path: ['idempotency', 'ttl_ms'] },
+  { names: ['MCP_CACHE'], path: ['cache', 'enabled'] },
+  { names: ['MCP_CACHE_MAX_ENTRIES'], path: ['cache', 'max_entries'] },
+  { names: ['MCP_EXPORT_JOBS_FILE'], path: ['export_jobs', 'file'] },
+  { names: ['MCP_EXPORT_JOBS_TTL_MS'], path: ['export_jobs', 'ttl_ms'] }
+];
+
+/**
+ * Options for loading the configuration.
+ */
+export interface LoadConfigOptions {
+  /**
+   * The environment to read overrides from. Defaults to `process.env`.
+   */
+  env?: NodeJS.ProcessEnv;
+
+  /**
+   * The path of the configuration file. Defaults to `MCP_CONFIG_FILE`; no file is read if neither is set.
+   */
+  path?: string;
+}
+
+type RawConfig = Record<string, Record<string, unknown>>;
+
+/**
+ * Reads and parses a configuration file. Files ending in `.json` are parsed as JSON, anything else as YAML.
+ * @param path The path of the configuration file.
+ * @returns The parsed, not yet validated, configuration.
+ */
+export function readConfigFile(path: string): RawConfig {
+  let contents: string;
+  try {
+    contents = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Could not read config file ${path}: ${getErrorMessage(error)}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = extname(path).toLowerCase() === '.json' ? JSON.parse(contents) : parseYaml(contents);
+  } catch (error) {
+    throw new ConfigError(`Could not parse config file ${path}: ${getErrorMessage(error)}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError(`Config file ${path} must contain an object`);
+  }
+  return parsed as RawConfig;
+}
+
+/**
+ * Formats a validation issue, naming the environment variable the value came from if there was one.
+ */
+function formatIssue(issue: ZodIssue, envSources: Map<string, string>) {
+  const path = issue.path.join('.');
+  const source = envSources.get(issue.path.slice(0, 2).join('.'));
+  return `  - ${path}${source ? ` (from ${source})` : ''}: ${issue.message}`;
+}
+
+/**
+ * Loads and validates the server configuration from the configuration file and the environment.
+ * @param options Where to read the configuration from.
+ * @returns The validated configuration, with defaults applied.
+ * @throws {ConfigError} If the configuration file cannot be read or the configuration is invalid.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
+  const env = options.env ?? process.env;
+  const path = options.path ?? (env.MCP_CONFIG_FILE || undefined);
+  const raw = path ? readConfigFile(path) : {};
+
+  const envSources = new Map<string, string>();
+  for (const { names, path: [section, key], list } of ENV_OVERRIDES) {
+    const name = names.find((candidate) => env[candidate]);
+    if (!name) {
+      continue;
+    }
+    const value = env[name]!;
+    const sectionValues = raw[section];
+    raw[section] = {
+      ...(typeof sectionValues === 'object' && sectionValues !== null ? sectionValues : {}),
+      [key]: list ? value.split(',').map((item) => item.trim()).filter(Boolean) : value
+    };
+    envSources.set(`${section}.${key}`, name);
+  }
+
+  const result = appConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => formatIssue(issue, envSources));
+    throw new ConfigError([`Invalid configuration${path ? ` in ${path}` : ''}:`, ...issues].join('\n'));
+  }
+  return result.data;
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { confirmBulkSize, createConfirmationMiddleware, describeCall, requiresConfirmation } from './confirmation.js';
+import type { ConfirmationConfig } from './confirmation.js';
+import { runWithRequestContext } from './context.js';
+import { interceptDryRunRequest, isDryRun, recordDryRunBefore } from './dry-run.js';
+import { ConfirmationError, PolicyError } from './errors.js';
+import type { ToolCall } from './tool-middleware.js';
+
+const config: ConfirmationConfig = {
+  enabled: true,
+  tools: ['branch_delete_*', 'branch_update_app_settings'],
+  bulk_threshold: 2,
+  fallback: 'allow',
+  timeout_ms: 1000
+};
+
+const createServer = (elicitation: boolean) => ({
+  server: { getClientCapabilities: () => (elicitation ? { elicitation: {} } : {}) }
+}) as unknown as McpServer;
+
+const createCall = (name: string, args: Record<string, unknown>, answer?: object) => ({
+  name,
+  args,
+  extra: { signal: new AbortController().signal, sendRequest: jest.fn(async () => answer) }
+}) as unknown as ToolCall & { extra: { sendRequest: jest.Mock } };
+
+/**
+ * A tool that reads the current app name and then updates it.
+ */
+const updateAppName = async (): Promise<CallToolResult> => {
+  recordDryRunBefore({ app_name: 'Old Name' });
+  interceptDryRunRequest({ method: 'PUT', url: 'https://api2.branch.io/v1/app/key_live_123', headers: {}, body: { app_name: 'New Name' } });
+  return { content: [{ type: 'text', text: 'updated' }] };
+};
+
+describe('requiresConfirmation', () => {
+  it('should require confirmation for the configured tools and large bulk calls', () => {
+    expect(requiresConfirmation(config, { name: 'branch_delete_deep_link', args: {} })).toBe(true);
+    expect(requiresConfirmation(config, { name: 'branch_update_app_settings', args: {} })).toBe(true);
+    expect(requiresConfirmation(config, { name: 'branch_bulk_create_deep_links', args: { links: [{}, {}, {}] } })).toBe(true);
+    expect(requiresConfirmation(config, { name: 'branch_bulk_create_deep_links', args: { links: [{}, {}] } })).toBe(false);
+    expect(requiresConfirmation(config, { name: 'branch_update_deep_link', args: {} })).toBe(false);
+  });
+});
+
+describe('describeCall', () => {
+  it('should describe the planned request and the values it would change', () => {
+    const changes = Array.from({ length: 22 }, (_, index) => ({ path: `field_${index}`, before: index, after: 'x'.repeat(300) }));
+    const message = describeCall({ name: 'branch_update_app_settings', args: {} }, {
+      request: { method: 'PUT', url: 'https://api2.branch.io/v1/app/key_live_123', headers: {} },
+      changes
+    });
+
+    expect(message.split('\n').slice(0, 4)).toEqual([
+      'Confirm branch_update_app_settings?',
+      'PUT https://api2.branch.io/v1/app/key_live_123',
+      'Changes:',
+      `- field_0: 0 → "${'x'.repeat(199)}…`
+    ]);
+    expect(message).toContain('…and 2 more.');
+    expect(message).not.toContain('field_20');
+  });
+
+  it('should describe the arguments when the plan is not known', () => {
+    expect(describeCall({ name: 'branch_bulk_create_deep_links', args: { links: [{}, {}, {}], branch_key: 'key_live_123' } })).toBe([
+      'Confirm branch_bulk_create_deep_links?',
+      'This call acts on 3 links.',
+      'Arguments: {"links":[{},{},{}],"branch_key":"[REDACTED]"}'
+    ].join('\n'));
+  });
+});
+
+describe('createConfirmationMiddleware', () => {
+  it('should ask the user with a preview of the change, and make it once confirmed', async () => {
+    const call = createCall('branch_update_app_settings', { app_name: 'New Name' }, { action: 'accept', content: { confirm: true } });
+    const next = jest.fn(updateAppName);
+    const result = await createConfirmationMiddleware(createServer(true), config).handle(call, next);
+
+    expect(call.extra.sendRequest).toHaveBeenCalledWith(
+      {
+        method: 'elicitation/create',
+        params: {
+          message: [
+            'Confirm branch_update_app_settings?',
+            'PUT https://api2.branch.io/v1/app/key_live_123',
+            'Changes:',
+            '- app_name: "Old Name" → "New Name"'
+          ].join('\n'),
+          requestedSchema: expect.objectContaining({ required: ['confirm'] })
+        }
+      },
+      expect.anything(),
+      { signal: call.extra.signal, timeout: 1000 }
+    );
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ content: [{ type: 'text', text: 'updated' }] });
+  });
+
+  it('should not make the change when the user declines, cancels or does not confirm', async () => {
+    const middleware = createConfirmationMiddleware(createServer(true), config);
+    const next = jest.fn(async () => ({ content: [] }));
+    await expect(middleware.handle(createCall('branch_delete_deep_link', {}, { action: 'decline' }), next)).rejects.toThrow(
+      new ConfirmationError('The user declined branch_delete_deep_link, so nothing was changed.')
+    );
+    await expect(middleware.handle(createCall('branch_delete_deep_link', {}, { action: 'cancel' }), next)).rejects.toThrow('cancelled');
+    await expect(middleware.handle(createCall('branch_delete_deep_link', {}, { action: 'accept', content: { confirm: false } }), next)).rejects.toThrow('did not confirm');
+    expect(next.mock.calls.length).toBe(3);
+  });
+
+  it('should show the arguments when the preview fails', async () => {
+    const call = createCall('branch_delete_deep_link', { url: 'https://example.app.link/abc' }, { action: 'accept', content: { confirm: true } });
+    let calls = 0;
+    await createConfirmationMiddleware(createServer(true), config).handle(call, async () => {
+      calls++;
+      if (isDryRun()) {
+        throw new Error('Network Error');
+      }
+      return { content: [] };
+    });
+
+    expect((call.extra.sendRequest.mock.calls[0][0] as { params: { message: string } }).params.message).toContain('Arguments: {"url":"https://example.app.link/abc"}');
+    expect(calls).toBe(2);
+  });
+
+  it('should apply the fallback when the client does not support elicitation', async () => {
+    const next = jest.fn(async () => ({ content: [] }));
+    const call = createCall('branch_delete_deep_link', {});
+    await expect(createConfirmationMiddleware(createServer(false), config).handle(call, next)).resolves.toEqual({ content: [] });
+    await expect(createConfirmationMiddleware(createServer(false), { ...config, fallback: 'deny' }).handle(call, next)).rejects.toThrow(PolicyError);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(call.extra.sendRequest).not.toHaveBeenCalled();
+  });
+
+  it('should ask about the links a tool counts itself when there are more than the threshold', async () => {
+    const middleware = createConfirmationMiddleware(createServer(true), config);
+    const importLinks = (size: number) => jest.fn(async (): Promise<CallToolResult> => {
+      await confirmBulkSize(size);
+      return { content: [] };
+    });
+    const small = createCall('branch_import_quick_links', { content: 'a\nb' });
+    await middleware.handle(small, importLinks(2));
+    expect(small.extra.sendRequest).not.toHaveBeenCalled();
+
+    const large = createCall('branch_import_quick_links', { content: 'a\nb\nc' }, { action: 'decline' });
+    await expect(middleware.handle(large, importLinks(3))).rejects.toThrow('The user declined branch_import_quick_links, so nothing was changed.');
+    expect(large.extra.sendRequest.mock.calls[0][0]).toMatchObject({ params: { message: expect.stringContaining('This call acts on 3 links.') } });
+    await expect(confirmBulkSize(3)).resolves.toBeUndefined();
+  });
+
+  it('should not ask about calls that need no confirmation, or dry runs', async () => {
+    const middleware = createConfirmationMiddleware(createServer(true), config);
+    const next = jest.fn(async () => ({ content: [] }));
+    const call = createCall('branch_update_deep_link', {});
+    await middleware.handle(call, next);
+    await runWithRequestContext({ dryRun: {} }, () => middleware.handle(createCall('branch_delete_deep_link', {}), next));
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(call.extra.sendRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * @file This file implements the confirmation of destructive and high-impact tool calls by the user.
+ *
+ * Before a call of a tool in the configured list (by default, deleting links and updating the
+ * app settings) or a bulk call over the configured number of links is made, the server asks the
+ * connected user to confirm it through MCP elicitation. The request shows what the call would do,
+ * worked out by running it as a dry run first (see `dry-run.ts`): the request it would send and,
+ * for updates, the fields it would change. The call is only made if the user accepts; otherwise
+ * it fails with a `ConfirmationError`, and nothing is changed. Clients that do not support
+ * elicitation cannot ask, so the configured fallback decides whether their calls are made anyway.
+ *
+ * Tools whose links do not come from their arguments, such as imports, count them themselves and
+ * call `confirmBulkSize`, which asks the user in the same way.
+ */
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ElicitResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestContext, runWithRequestContext } from './context.js';
+import { isDryRun, planDryRun } from './dry-run.js';
+import type { DryRunPlan } from './dry-run.js';
+import { ConfirmationError, getErrorMessage, PolicyError } from './errors.js';
+import logger, { sanitizeLogObject } from './logger.js';
+import { matchesToolName } from './policy.js';
+import type { ToolCall, ToolCallHandler, ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * The tools whose calls are confirmed by default.
+ */
+export const DEFAULT_CONFIRM_TOOLS = ['branch_delete_deep_link', 'branch_bulk_delete_deep_links', 'branch_update_app_settings'];
+
+/**
+ * The default number of links a bulk call may act on without being confirmed.
+ */
+export const DEFAULT_CONFIRM_BULK_THRESHOLD = 10;
+
+/**
+ * The default time, in milliseconds, the user is given to answer (5 minutes).
+ */
+export const DEFAULT_CONFIRM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * The arguments that hold the links a bulk call acts on.
+ */
+const BULK_ARGUMENTS = ['links'];
+
+/**
+ * The number of changes listed in a confirmation request.
+ */
+const MAX_LISTED_CHANGES = 20;
+
+/**
+ * The length at which values are cut short in a confirmation request.
+ */
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * The form shown to the user: a single yes/no question.
+ */
+const CONFIRMATION_SCHEMA: ElicitRequest['params']['requestedSchema'] = {
+  type: 'object',
+  properties: {
+    confirm: { type: 'boolean', title: 'Confirm', description: 'Make this change in Branch.' }
+  },
+  required: ['confirm']
+};
+
+/**
+ * Settings for the confirmation of tool calls by the user.
+ */
+export interface ConfirmationConfig {
+  /**
+   * Whether calls are confirmed at all.
+   */
+  enabled: boolean;
+
+  /**
+   * The tools whose calls are always confirmed. A `*` in a name matches any characters.
+   */
+  tools: string[];
+
+  /**
+   * The number of links a bulk call may act on without being confirmed.
+   */
+  bulk_threshold: number;
+
+  /**
+   * Whether calls that need confirmation are made (`allow`) or refused (`deny`) when the client
+   * does not support elicitation.
+   */
+  fallback: 'allow' | 'deny';
+
+  /**
+   * How long, in milliseconds, the user is given to answer before the call fails.
+   */
+  timeout_ms: number;
+}
+
+/**
+ * Returns the number of links a bulk call acts on, or 0 if the call is not a bulk call.
+ */
+function getBulkSize(args: Record<string, unknown>): number {
+  return Math.max(0, ...BULK_ARGUMENTS.map((name) => {
+    const value = args[name];
+    return Array.isArray(value) ? value.length : 0;
+  }));
+}
+
+/**
+ * Whether a tool call must be confirmed by the user.
+ * @param config The confirmation settings.
+ * @param call The tool call.
+ * @returns `true` if the call must be confirmed.
+ */
+export function requiresConfirmation(config: ConfirmationConfig, call: Pick<ToolCall, 'name' | 'args'>): boolean {
+  return config.tools.some((pattern) => matchesToolName(pattern, call.name)) || getBulkSize(call.args) > config.bulk_threshold;
+}
+
+const formatValue = (value: unknown) => {
+  const text = value === undefined ? '(none)' : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+/**
+ * Describes a tool call for the user to confirm: what it would send to Branch and change, if a dry
+ * run could work it out, or otherwise its arguments.
+ * @param call The tool call.
+ * @param plan The plan of the call, from a dry run.
+ * @param bulkSize The number of links the call acts on. Defaults to the links in its arguments.
+ * @returns The message shown to the user.
+ */
+export function describeCall(call: Pick<ToolCall, 'name' | 'args'>, plan?: DryRunPlan, bulkSize = getBulkSize(call.args)): string {
+  const lines = [`Confirm ${call.name}?`];
+  if (bulkSize > 0) {
+    lines.push(`This call acts on ${bulkSize} links.`);
+  }
+  if (!plan) {
+    lines.push(`Arguments: ${formatValue(sanitizeLogObject(call.args))}`);
+    return lines.join('\n');
+  }
+  lines.push(`${plan.request.method} ${plan.request.url}`);
+  const changes = plan.changes ?? [];
+  if (changes.length > 0) {
+    lines.push('Changes:', ...changes.slice(0, MAX_LISTED_CHANGES).map((change) => (
+      `- ${change.path || '(all)'}: ${formatValue(change.before)} → ${formatValue(change.after)}`
+    )));
+    if (changes.length > MAX_LISTED_CHANGES) {
+      lines.push(`…and ${changes.length - MAX_LISTED_CHANGES} more.`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Works out what a call would do by running it as a dry run. Returns `undefined` if that fails,
+ * in which case the user is shown the arguments of the call instead.
+ */
+async function getPlan(call: ToolCall, next: ToolCallHandler): Promise<DryRunPlan | undefined> {
+  try {
+    return (await planDryRun(() => next(call))).plan;
+  } catch (error) {
+    logger.debug('Could not work out what the call would change', { tool: call.name, error: getErrorMessage(error) });
+    return undefined;
+  }
+}
+
+/**
+ * Asks the user to confirm the current tool call if it acts on more links than the confirmation
+ * settings allow without asking. For tools whose links do not come from their arguments, such as
+ * imports, which the confirmation middleware cannot count before the call.
+ * @param size The number of links the call acts on.
+ * @throws {ConfirmationError} If the user does not confirm the call.
+ * @throws {PolicyError} If the call cannot be confirmed and the fallback is to deny it.
+ */
+export async function confirmBulkSize(size: number): Promise<void> {
+  await getRequestContext()?.confirmBulk?.(size);
+}
+
+/**
+ * Creates middleware that asks the user to confirm destructive and high-impact tool calls through
+ * MCP elicitation before they are made. Dry runs are never confirmed, since they change nothing.
+ * @param server The MCP server, whose client is asked.
+ * @param config The confirmation settings.
+ * @returns The confirmation middleware.
+ */
+export function createConfirmationMiddleware(server: McpServer, config: ConfirmationConfig): ToolMiddleware {
+  const confirm = async (call: ToolCall, describe: () => Promise<string>): Promise<void> => {
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      if (config.fallback === 'deny') {
+        throw new PolicyError(`${call.name} must be confirmed by the user, but the client does not support confirmation requests (elicitation).`);
+      }
+      return;
+    }
+
+    const answer = await call.extra.sendRequest(
+      { method: 'elicitation/create', params: { message: await describe(), requestedSchema: CONFIRMATION_SCHEMA } },
+      ElicitResultSchema,
+      { signal: call.extra.signal, timeout: config.timeout_ms }
+    );
+    if (answer.action !== 'accept' || answer.content?.confirm !== true) {
+      const reason = { accept: 'did not confirm', decline: 'declined', cancel: 'cancelled' }[answer.action];
+      throw new ConfirmationError(`The user ${reason} ${call.name}, so nothing was changed.`);
+    }
+  };
+
+  return {
+    handle: async (call, next) => {
+      if (isDryRun()) {
+        return next(call);
+      }
+      if (requiresConfirmation(config, call)) {
+        await confirm(call, async () => describeCall(call, await getPlan(call, next)));
+        return next(call);
+      }
+      const confirmBulk = async (size: number) => {
+        if (size > config.bulk_threshold) {
+          await confirm(call, async () => describeCall(call, undefined, size));
+        }
+      };
+      return runWithRequestContext({ ...getRequestContext(), confirmBulk }, () => next(call));
+    }
+  };
+}
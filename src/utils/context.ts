@@ -0,0 +1,76 @@
+/**
+ * @file This file provides a per-request context that follows a request through asynchronous calls.
+ * The HTTP transports run each incoming MCP request inside a context carrying its session details,
+ * so that code deep inside a tool handler (such as credential resolution) can access them without
+ * the details having to be threaded through every function signature.
+ */
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { AuditDetails } from './audit.js';
+import type { AuthParams } from './auth.js';
+import type { DryRunDetails } from './dry-run.js';
+import type { ToolPolicy } from './policy.js';
+
+/**
+ * The details available to code running on behalf of an MCP request.
+ */
+export interface RequestContext {
+  /**
+   * The ID of the MCP session the request belongs to, if the transport has sessions.
+   */
+  sessionId?: string;
+
+  /**
+   * Branch credentials supplied by the client when the session was established.
+   */
+  credentials?: AuthParams;
+
+  /**
+   * The name of the credentials profile selected for the current tool call, if any.
+   */
+  profile?: string;
+
+  /**
+   * The ID of the current tool call, sent to the Branch API as `X-Request-Id`.
+   */
+  requestId?: string;
+
+  /**
+   * The audit details of the current tool call, if it is audited.
+   */
+  audit?: AuditDetails;
+
+  /**
+   * The details of the current tool call, if it is a dry run.
+   */
+  dryRun?: DryRunDetails;
+
+  /**
+   * The tool policy of the current tool call, if one is enforced.
+   */
+  policy?: ToolPolicy;
+
+  /**
+   * Asks the user to confirm the current tool call if it acts on more links than the confirmation
+   * settings allow without asking, if calls are confirmed. See `confirmBulkSize`.
+   */
+  confirmBulk?: (size: number) => Promise<void>;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function within the given request context.
+ * @param context The request context.
+ * @param fn The function to run.
+ * @returns The return value of `fn`.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Returns the context of the MCP request currently being handled, if any.
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
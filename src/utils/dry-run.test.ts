@@ -0,0 +1,134 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { z } from 'zod';
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { handleApiError } from './api.js';
+import { runWithRequestContext } from './context.js';
+import { createDryRunMiddleware, diffValues, DryRunInterrupt, interceptDryRunRequest, isDryRun, recordDryRunBefore } from './dry-run.js';
+import type { DryRunDetails } from './dry-run.js';
+import type { ToolCall } from './tool-middleware.js';
+
+const createTool = (readOnlyHint: boolean) => ({
+  annotations: { readOnlyHint },
+  inputSchema: z.object({ url: z.string() }),
+  outputSchema: z.object({ url: z.string() }),
+  update: jest.fn()
+});
+
+const createCall = (name: string, args: Record<string, unknown>) => ({ name, args, extra: {} }) as unknown as ToolCall;
+
+describe('interceptDryRunRequest', () => {
+  const request = {
+    method: 'PUT',
+    url: 'https://api2.branch.io/v1/url',
+    params: { url: 'https://example.app.link/abc', branch_secret: 'secret_123' },
+    headers: { 'Content-Type': 'application/json', 'Access-Token': 'api_key' },
+    body: { branch_key: 'key_live_123', data: { $canonical_url: 'https://example.com' } }
+  };
+
+  it('should let requests through outside of dry runs', () => {
+    expect(() => interceptDryRunRequest(request)).not.toThrow();
+  });
+
+  it('should let reads through during dry runs', () => {
+    const details: DryRunDetails = {};
+    runWithRequestContext({ dryRun: details }, () => interceptDryRunRequest({ ...request, method: 'GET' }));
+    expect(details.request).toBeUndefined();
+  });
+
+  it('should record and stop changes during dry runs, with credentials redacted', () => {
+    const details: DryRunDetails = {};
+    expect(() => runWithRequestContext({ dryRun: details }, () => interceptDryRunRequest(request))).toThrow(DryRunInterrupt);
+    expect(details.request).toEqual({
+      method: 'PUT',
+      url: 'https://api2.branch.io/v1/url?url=https%3A%2F%2Fexample.app.link%2Fabc&branch_secret=[REDACTED]',
+      headers: { 'Content-Type': 'application/json', 'Access-Token': '[REDACTED]' },
+      body: { branch_key: '[REDACTED]', data: { $canonical_url: 'https://example.com' } }
+    });
+  });
+});
+
+describe('diffValues', () => {
+  it('should list the fields of an update that would change, with nested paths', () => {
+    expect(diffValues(
+      { app_name: 'Old', dev_name: 'Dev', data: { $og_title: 'Title', $og_description: 'Old' } },
+      { app_name: 'New', dev_name: 'Dev', branch_secret: '[REDACTED]', data: { $og_title: 'Title', $og_description: 'New', tag: 'spring' } }
+    )).toEqual([
+      { path: 'app_name', before: 'Old', after: 'New' },
+      { path: 'data.$og_description', before: 'Old', after: 'New' },
+      { path: 'data.tag', after: 'spring' }
+    ]);
+  });
+
+  it('should compare arrays and replaced values as a whole', () => {
+    expect(diffValues({ tags: ['a'], data: 'text' }, { tags: ['a'], data: { key: 1 } })).toEqual([
+      { path: 'data', before: 'text', after: { key: 1 } }
+    ]);
+  });
+});
+
+describe('createDryRunMiddleware', () => {
+  it('should add the dry_run argument and relax the output schema of mutating tools only', () => {
+    const middleware = createDryRunMiddleware();
+    const updateTool = createTool(false);
+    const readTool = createTool(true);
+    middleware.onRegister!('branch_update_deep_link', updateTool as unknown as RegisteredTool);
+    middleware.onRegister!('branch_read_deep_link', readTool as unknown as RegisteredTool);
+
+    expect(updateTool.update).toHaveBeenCalledWith({ paramsSchema: expect.objectContaining({ url: expect.anything(), dry_run: expect.anything() }) });
+    expect(updateTool.outputSchema.safeParse({ dry_run: true, request: { method: 'PUT', url: 'https://api2.branch.io', headers: {} } }).success).toBe(true);
+    expect(readTool.update).not.toHaveBeenCalled();
+    expect(readTool.outputSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('should return the planned request and changes instead of making them', async () => {
+    const middleware = createDryRunMiddleware();
+    middleware.onRegister!('branch_update_deep_link', createTool(false) as unknown as RegisteredTool);
+    const next = jest.fn(async (call: ToolCall) => {
+      expect(call.args).toEqual({ url: 'https://example.app.link/abc' });
+      expect(isDryRun()).toBe(true);
+      recordDryRunBefore({ data: { $og_title: 'Old' } });
+      try {
+        interceptDryRunRequest({ method: 'PUT', url: 'https://api2.branch.io/v1/url', headers: {}, body: { data: { $og_title: 'New' } } });
+      } catch (error) {
+        handleApiError(error);
+      }
+      return { content: [] };
+    });
+
+    const result = await middleware.handle(createCall('branch_update_deep_link', { url: 'https://example.app.link/abc', dry_run: true }), next);
+    expect(result.structuredContent).toEqual({
+      dry_run: true,
+      request: { method: 'PUT', url: 'https://api2.branch.io/v1/url', headers: {}, body: { data: { $og_title: 'New' } } },
+      changes: [{ path: 'data.$og_title', before: 'Old', after: 'New' }]
+    });
+    expect((result.content[0] as { text: string }).text).toMatch(/^Dry run: nothing was changed in Branch\./);
+  });
+
+  it('should run every call of a mutating tool as a dry run when enabled', async () => {
+    const middleware = createDryRunMiddleware(true);
+    middleware.onRegister!('branch_delete_deep_link', createTool(false) as unknown as RegisteredTool);
+    const result = await middleware.handle(createCall('branch_delete_deep_link', { url: 'https://example.app.link/abc' }), async () => {
+      interceptDryRunRequest({ method: 'DELETE', url: 'https://api2.branch.io/v1/url', headers: {} });
+      return { content: [] };
+    });
+
+    expect(result.structuredContent).toEqual({ dry_run: true, request: { method: 'DELETE', url: 'https://api2.branch.io/v1/url', headers: {} } });
+  });
+
+  it('should pass other calls, results and errors through', async () => {
+    const middleware = createDryRunMiddleware();
+    middleware.onRegister!('branch_update_deep_link', createTool(false) as unknown as RegisteredTool);
+    const next = jest.fn(async (call: ToolCall) => {
+      expect(isDryRun()).toBe(false);
+      return { content: [], structuredContent: call.args };
+    });
+
+    await expect(middleware.handle(createCall('branch_update_deep_link', { url: 'u', dry_run: false }), next)).resolves.toEqual({ content: [], structuredContent: { url: 'u' } });
+    await expect(middleware.handle(createCall('branch_read_deep_link', { url: 'u' }), next)).resolves.toEqual({ content: [], structuredContent: { url: 'u' } });
+    const error = new Error('Invalid input');
+    await expect(middleware.handle(createCall('branch_update_deep_link', { url: 'u', dry_run: true }), async () => {
+      throw error;
+    })).rejects.toBe(error);
+    await expect(middleware.handle(createCall('branch_update_deep_link', { url: 'u', dry_run: true }), async () => ({ content: [] }))).resolves.toEqual({ content: [] });
+  });
+});
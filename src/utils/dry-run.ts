@@ -0,0 +1,237 @@
+/**
+ * @file This file implements dry runs of the tools that change state in Branch.
+ *
+ * Every tool that is not annotated as read-only accepts a `dry_run` argument, and the tool policy
+ * can put a whole deployment or session in dry-run mode. A dry run runs the tool as usual,
+ * resolving credentials, validating its input and reading the current state of what it changes,
+ * until it makes its first request that is not a `GET`. `BranchClient` does not send that request
+ * but records it and stops the tool (see `interceptDryRunRequest`). The call then returns the
+ * method, URL, headers and body that would have been sent, with credentials redacted, and, for
+ * updates, the fields whose values would change.
+ */
+import { z } from 'zod';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestContext, runWithRequestContext } from './context.js';
+import { REDACTED_PLACEHOLDER, sanitizeLogObject } from './logger.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * Headers whose values are credentials, in lower case.
+ */
+const SENSITIVE_HEADERS = ['access-token', 'authorization'];
+
+/**
+ * The request a dry run would have sent, with credentials redacted.
+ */
+export interface DryRunRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * A field whose value an update would change.
+ */
+export interface DryRunChange {
+  /**
+   * The path of the field, with the keys of nested objects separated by dots.
+   */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * What is known about a dry run while the tool runs.
+ */
+export interface DryRunDetails {
+  /**
+   * The current values of what the tool would change, if it read them.
+   */
+  before?: unknown;
+
+  /**
+   * The request the tool would have sent.
+   */
+  request?: DryRunRequest;
+}
+
+/**
+ * Thrown by `BranchClient` in place of sending a request during a dry run, to stop the tool
+ * before it acts on a response it never received.
+ */
+export class DryRunInterrupt extends Error {
+  constructor() {
+    super('Dry run: the request was not sent');
+    this.name = 'DryRunInterrupt';
+  }
+}
+
+/**
+ * The input parameter added to every tool that changes state in Branch.
+ */
+const dryRunInputShape = {
+  dry_run: z.boolean().optional().describe('If true, nothing is changed in Branch. The tool returns the request it would send instead, and for updates the fields that would change.')
+};
+
+/**
+ * The output fields of a dry run, added to the output schema of every tool that changes state in Branch.
+ */
+const dryRunOutputShape = {
+  dry_run: z.literal(true).optional(),
+  request: z.object({
+    method: z.string(),
+    url: z.string(),
+    headers: z.record(z.string()),
+    body: z.unknown().optional()
+  }).optional(),
+  changes: z.array(z.object({ path: z.string(), before: z.unknown().optional(), after: z.unknown().optional() })).optional()
+};
+
+/**
+ * Whether the current tool call is a dry run.
+ */
+export function isDryRun(): boolean {
+  return getRequestContext()?.dryRun !== undefined;
+}
+
+/**
+ * Records the current values of what a dry run would change, so that they can be compared with
+ * the request. Does nothing if the call is not a dry run.
+ * @param before The current values.
+ */
+export function recordDryRunBefore(before: unknown): void {
+  const dryRun = getRequestContext()?.dryRun;
+  if (dryRun) {
+    dryRun.before = before;
+  }
+}
+
+/**
+ * Stops a request that is not a `GET` if the current tool call is a dry run, recording it instead.
+ * @param request The request about to be sent.
+ * @throws {DryRunInterrupt} If the call is a dry run and the request would change state.
+ */
+export function interceptDryRunRequest(request: { method: string; url: string; params?: Record<string, unknown>; headers: Record<string, string>; body?: unknown }): void {
+  const dryRun = getRequestContext()?.dryRun;
+  if (!dryRun || request.method === 'GET') {
+    return;
+  }
+  const url = new URL(request.url);
+  const params = sanitizeLogObject(request.params ?? {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.append(key, String(value));
+    }
+  }
+  dryRun.request = {
+    method: request.method,
+    url: url.href.replaceAll(encodeURIComponent(REDACTED_PLACEHOLDER), REDACTED_PLACEHOLDER),
+    headers: Object.fromEntries(Object.entries(request.headers).map(([name, value]) => (
+      [name, SENSITIVE_HEADERS.includes(name.toLowerCase()) ? REDACTED_PLACEHOLDER : value]
+    ))),
+    ...(request.body !== undefined ? { body: sanitizeLogObject(request.body) } : {})
+  };
+  throw new DryRunInterrupt();
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+/**
+ * Lists the fields of an update whose values differ from the current ones. Only the fields in the
+ * update are compared, nested objects field by field, and redacted credentials are left out.
+ * @param before The current values.
+ * @param after The values that would be sent.
+ * @param path The path of the values being compared.
+ * @returns The fields that would change.
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): DryRunChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    return Object.entries(after).flatMap(([key, value]) => diffValues(before[key], value, path ? `${path}.${key}` : key));
+  }
+  if (after === REDACTED_PLACEHOLDER || JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path, ...(before !== undefined ? { before } : {}), after }];
+}
+
+/**
+ * What a tool call would do: the request it would send and, for updates, the fields it would change.
+ */
+export interface DryRunPlan {
+  request: DryRunRequest;
+  changes?: DryRunChange[];
+}
+
+/**
+ * Runs a tool call as a dry run and works out what it would do.
+ * @param run Runs the tool call.
+ * @returns The plan of the call, or, if it completed without trying to change anything, its result.
+ * @throws The error of the call, if it failed before trying to change anything.
+ */
+export async function planDryRun(run: () => Promise<CallToolResult>): Promise<{ plan?: DryRunPlan; result?: CallToolResult }> {
+  const details: DryRunDetails = {};
+  let result: CallToolResult | undefined;
+  try {
+    result = await runWithRequestContext({ ...getRequestContext(), dryRun: details }, run);
+  } catch (error) {
+    // The tool may have wrapped the interruption in an error of its own.
+    if (!details.request) {
+      throw error;
+    }
+  }
+  if (!details.request) {
+    return { result };
+  }
+  const changes = details.before !== undefined ? diffValues(sanitizeLogObject(details.before), details.request.body) : undefined;
+  return { plan: { request: details.request, ...(changes ? { changes } : {}) } };
+}
+
+/**
+ * Builds the result of a dry run.
+ */
+function createDryRunResult(plan: DryRunPlan): CallToolResult {
+  const structuredContent = { dry_run: true, ...plan };
+  return {
+    structuredContent,
+    content: [{ type: 'text', text: `Dry run: nothing was changed in Branch.\n${JSON.stringify(structuredContent, null, 2)}` }]
+  };
+}
+
+/**
+ * Creates middleware that runs the tools that change state in Branch as dry runs when they are
+ * called with `dry_run: true`, or always if `enabled` is set. The tools are recognized by their
+ * annotations when they are registered; they get a `dry_run` argument, and the fields of their
+ * output become optional, since a dry run returns the planned request instead.
+ * @param enabled Whether every call is a dry run, as in the dry-run mode of the tool policy.
+ * @returns The dry-run middleware.
+ */
+export function createDryRunMiddleware(enabled = false): ToolMiddleware {
+  const mutatingTools = new Set<string>();
+  return {
+    onRegister: (name, tool) => {
+      if (tool.annotations?.readOnlyHint !== false || !tool.inputSchema) {
+        return;
+      }
+      mutatingTools.add(name);
+      tool.update({ paramsSchema: { ...tool.inputSchema.shape, ...dryRunInputShape } });
+      if (tool.outputSchema) {
+        tool.outputSchema = tool.outputSchema.partial().extend(dryRunOutputShape);
+      }
+    },
+    handle: async (call, next) => {
+      if (!mutatingTools.has(call.name)) {
+        return next(call);
+      }
+      const { dry_run, ...args } = call.args;
+      if (!enabled && dry_run !== true) {
+        return next({ ...call, args });
+      }
+      const { plan, result } = await planDryRun(() => next({ ...call, args }));
+      return plan ? createDryRunResult(plan) : result!;
+    }
+  };
+}
@@ -1,4 +1,21 @@
-import { BranchApiError, isBranchApiError, isErrorWithMessage, getErrorMessage } from './errors.js';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { z } from 'zod';
+import {
+  BranchApiError,
+  CredentialsError,
+  createErrorMiddleware,
+  createToolErrorResult,
+  getBranchErrorMessage,
+  isBranchApiError,
+  isErrorWithMessage,
+  getErrorMessage,
+  PolicyError,
+  ConfirmationError,
+  IdempotencyError,
+  InternalError,
+  toToolError
+} from './errors.js';
+import type { ToolCall } from './tool-middleware.js';
 
 describe('BranchApiError', () => {
   it('should create an instance of BranchApiError', () => {
@@ -73,3 +90,110 @@ describe('getErrorMessage', () => {
     expect(getErrorMessage({})).toBe('Unknown error occurred');
   });
 });
+
+describe('toToolError', () => {
+  const axiosError = (status: number, data: unknown) => new AxiosError('Request failed', String(status), undefined, null, {
+    data,
+    status,
+    statusText: '',
+    headers: {},
+    config: { headers: new AxiosHeaders() }
+  });
+
+  it.each([
+    [400, 'validation', false],
+    [401, 'auth', false],
+    [403, 'auth', false],
+    [404, 'not_found', false],
+    [409, 'conflict', false],
+    [422, 'validation', false],
+    [429, 'rate_limited', true],
+    [500, 'upstream', true],
+    [503, 'upstream', true]
+  ])('should map status %i to %s', (status, code, retryable) => {
+    const details = toToolError(axiosError(status, { error: { message: 'Reason' } }));
+    expect(details).toEqual({ code, message: 'Reason', status, hint: expect.any(String), retryable });
+  });
+
+  it('should use the response of a BranchApiError', () => {
+    const error = new BranchApiError('Branch API error: 409 Conflict', { status: 409, response: { status: 409, data: { error: 'Alias taken' } } });
+    expect(toToolError(error)).toMatchObject({ code: 'conflict', message: 'Alias taken', status: 409 });
+  });
+
+  it('should report errors without a response as retryable upstream errors', () => {
+    expect(toToolError(new BranchApiError('Branch API error: Network Error'))).toEqual({
+      code: 'upstream',
+      message: 'Branch API error: Network Error',
+      hint: expect.any(String),
+      retryable: true
+    });
+  });
+
+  it('should report missing credentials as auth errors', () => {
+    expect(toToolError(new CredentialsError('Branch Key is not configured.'))).toMatchObject({ code: 'auth', message: 'Branch Key is not configured.', retryable: false });
+  });
+
+  it('should report calls the tool policy does not allow as forbidden', () => {
+    expect(toToolError(new PolicyError('branch_delete_deep_link is not allowed'))).toMatchObject({ code: 'forbidden', message: 'branch_delete_deep_link is not allowed', retryable: false });
+  });
+
+  it('should report calls the user did not confirm as cancelled', () => {
+    expect(toToolError(new ConfirmationError('The user declined branch_delete_deep_link.'))).toMatchObject({ code: 'cancelled', retryable: false });
+  });
+
+  it('should report reused idempotency keys as conflicts', () => {
+    expect(toToolError(new IdempotencyError('The idempotency key abc was already used'))).toMatchObject({ code: 'conflict', retryable: false });
+  });
+
+  it('should report invalid input as validation errors', () => {
+    const result = z.object({ app_id: z.string() }).safeParse({});
+    expect(toToolError(result.error)).toMatchObject({ code: 'validation', message: 'app_id: Required', retryable: false });
+    expect(toToolError(new Error('A $marketing_title is required'))).toMatchObject({ code: 'validation', message: 'A $marketing_title is required' });
+  });
+
+  it('should report failures of the server itself as internal errors', () => {
+    const noSpace = Object.assign(new Error('ENOSPC: no space left on device, write'), { code: 'ENOSPC' });
+    expect(toToolError(noSpace)).toMatchObject({ code: 'internal', message: 'ENOSPC: no space left on device, write', retryable: false });
+    expect(toToolError(new TypeError('Cannot read properties of undefined (reading \'url\')'))).toMatchObject({ code: 'internal' });
+    expect(toToolError(new InternalError('The file is not valid gzip data: incorrect header check'))).toMatchObject({ code: 'internal' });
+    expect(toToolError('failed')).toMatchObject({ code: 'internal', message: 'failed' });
+  });
+});
+
+describe('getBranchErrorMessage', () => {
+  it('should read the message from the shapes Branch uses', () => {
+    expect(getBranchErrorMessage({ error: { message: 'Nested' } })).toBe('Nested');
+    expect(getBranchErrorMessage({ error: 'Flat' })).toBe('Flat');
+    expect(getBranchErrorMessage({ message: 'Top level' })).toBe('Top level');
+    expect(getBranchErrorMessage(' Plain text ')).toBe('Plain text');
+  });
+
+  it('should decode binary bodies', () => {
+    expect(getBranchErrorMessage(Buffer.from(JSON.stringify({ error: { message: 'From JSON' } })))).toBe('From JSON');
+    expect(getBranchErrorMessage(new TextEncoder().encode('From text').buffer)).toBe('From text');
+  });
+
+  it('should return undefined when there is no message', () => {
+    expect(getBranchErrorMessage(undefined)).toBeUndefined();
+    expect(getBranchErrorMessage('')).toBeUndefined();
+    expect(getBranchErrorMessage({ code: 1 })).toBeUndefined();
+  });
+});
+
+describe('createErrorMiddleware', () => {
+  const call = { name: 'tool', args: {}, extra: {} } as unknown as ToolCall;
+
+  it('should turn thrown errors into error results', async () => {
+    const result = await createErrorMiddleware().handle(call, async () => {
+      throw new CredentialsError('Branch Key is not configured.');
+    });
+    expect(result).toEqual(createToolErrorResult(new CredentialsError('Branch Key is not configured.')));
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content[0] as { text: string }).text).error.code).toBe('auth');
+  });
+
+  it('should pass successful results through', async () => {
+    const success = { content: [{ type: 'text' as const, text: 'ok' }] };
+    await expect(createErrorMiddleware().handle(call, async () => success)).resolves.toBe(success);
+  });
+});
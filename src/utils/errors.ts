@@ -1,8 +1,21 @@
 /**
  * @file This file defines custom error types and utility functions for robust error handling.
- * It provides a specialized `BranchApiError` class for API-specific issues and includes
- * type guards and helpers to safely extract error messages from unknown sources.
+ * It provides a specialized `BranchApiError` class for API-specific issues, a `CredentialsError`
+ * class for missing credentials, a `ConfigError` class for configuration problems, a `PolicyError`
+ * class for calls the server's tool policy does not allow, a `ConfirmationError` class for calls
+ * the user did not confirm, an `IdempotencyError` class for reused idempotency keys, an
+ * `InternalError` class for failures of the server itself, and includes type guards and helpers to
+ * safely extract error messages from unknown sources.
+ *
+ * It also maps any error raised by a tool to a structured tool result (`toToolError`,
+ * `createToolErrorResult`), so that every tool reports failures the same way: with a stable
+ * error code, the message Branch returned, a hint for the model and whether a retry can help.
  */
+import axios from 'axios';
+import { ZodError } from 'zod';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import logger from './logger.js';
+import type { ToolMiddleware } from './tool-middleware.js';
 
 /**
  * Custom error class for Branch API errors.
@@ -40,6 +53,70 @@ export class BranchApiError extends Error {
   }
 }
 
+/**
+ * Error thrown by a tool when a credential it needs was neither passed as a parameter nor
+ * configured for the session or the server.
+ */
+export class CredentialsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialsError';
+  }
+}
+
+/**
+ * Error thrown at startup when the server configuration is missing or invalid.
+ * The message lists every problem found, so that they can all be fixed at once.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Error thrown when a tool call is not allowed by the tool policy of the server or session, such
+ * as an update of a link on a domain the policy does not allow.
+ */
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+/**
+ * Error thrown when the user declines or cancels the confirmation of a tool call.
+ */
+export class ConfirmationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfirmationError';
+  }
+}
+
+/**
+ * Error thrown when an idempotency key is reused for a call with different arguments.
+ */
+export class IdempotencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdempotencyError';
+  }
+}
+
+/**
+ * Error thrown when the server fails for a reason other than the parameters of the call or Branch,
+ * such as an export file it cannot decompress.
+ */
+export class InternalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InternalError';
+  }
+}
+
 /**
  * Type guard to check if an error is an instance of `BranchApiError`.
  * This allows for safely accessing the custom properties of `BranchApiError` in
@@ -96,4 +173,214 @@ export function getErrorMessage(error: unknown): string {
     return error;
   }
   return 'Unknown error occurred';
-}
\ No newline at end of file
+}
+
+/**
+ * The stable codes tool errors are reported with.
+ * - `auth`: credentials are missing, invalid or lack access.
+ * - `forbidden`: the tool policy of the server or session does not allow the call.
+ * - `cancelled`: the user did not confirm the call.
+ * - `validation`: the request was rejected because of its parameters.
+ * - `not_found`: the link, app, job or export does not exist.
+ * - `conflict`: the resource already exists, such as a link alias that is taken, or an idempotency key was reused.
+ * - `rate_limited`: Branch is throttling these credentials.
+ * - `upstream`: Branch failed or could not be reached.
+ * - `internal`: the server failed, such as on a file it could not read or write, or a bug.
+ */
+export type ToolErrorCode = 'auth' | 'forbidden' | 'cancelled' | 'validation' | 'not_found' | 'conflict' | 'rate_limited' | 'upstream' | 'internal';
+
+/**
+ * The details of a failed tool call, as reported to the client.
+ */
+export interface ToolErrorDetails {
+  code: ToolErrorCode;
+
+  /**
+   * The reason for the failure, as given by Branch when it returned one.
+   */
+  message: string;
+
+  /**
+   * The HTTP status Branch responded with, if the request reached Branch.
+   */
+  status?: number;
+
+  /**
+   * What the model can do about the error.
+   */
+  hint: string;
+
+  /**
+   * Whether repeating the same call may succeed.
+   */
+  retryable: boolean;
+}
+
+const ERROR_HINTS: Record<ToolErrorCode, string> = {
+  auth: 'Check the Branch credentials used for this call: they may be wrong, expired, or lack access to this app or organization.',
+  forbidden: 'The server\'s tool policy does not allow this call. Do not retry it; ask the user to make the change another way, or to have the policy changed.',
+  cancelled: 'The user did not confirm this call, so nothing was changed. Do not retry it unless the user asks you to.',
+  validation: 'Correct the parameters named in the message before calling the tool again; repeating the same call will fail again.',
+  not_found: 'Check that the link, app, job or export ID exists and belongs to the credentials used for this call.',
+  conflict: 'The resource already exists (for example, the link alias is taken). Use a different value, or read and update the existing resource.',
+  rate_limited: 'Branch is rate limiting these credentials. Wait before retrying, and make fewer calls at once.',
+  upstream: 'Branch could not process the request or could not be reached. Retrying later may succeed.',
+  internal: 'The server failed to run this call, for a reason other than its parameters. Repeating it will probably fail again; report the message to the operator of the server.'
+};
+
+/**
+ * Extracts the reason Branch gave for an error from a response body. Branch reports errors as
+ * `{ error: { message } }`, `{ error: '...' }` or `{ message }`, or as plain text; binary bodies
+ * (requested with `responseType: 'arraybuffer'`) are decoded first.
+ * @param data The response body.
+ * @returns The message, or `undefined` if the body does not contain one.
+ */
+export function getBranchErrorMessage(data: unknown): string | undefined {
+  if (data instanceof ArrayBuffer || Buffer.isBuffer(data)) {
+    const text = Buffer.from(data as ArrayBuffer).toString('utf8');
+    try {
+      return getBranchErrorMessage(JSON.parse(text));
+    } catch {
+      return getBranchErrorMessage(text);
+    }
+  }
+  if (typeof data === 'string') {
+    return data.trim() || undefined;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+  const { error, message } = data as { error?: unknown; message?: unknown };
+  if (isErrorWithMessage(error)) {
+    return error.message;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * The types of the errors JavaScript raises on bugs, such as a `TypeError` when reading a property
+ * of `undefined`.
+ */
+const BUILT_IN_ERROR_TYPES = [EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError];
+
+/**
+ * Whether an error is a failure of the server rather than a rejection of the input of a tool: an
+ * `InternalError`, an error raised by JavaScript itself, or a Node.js error with a code, such as
+ * `EACCES` or `ENOSPC`. Tools reject their input with plain `Error`s.
+ */
+function isInternalError(error: unknown): boolean {
+  if (error instanceof InternalError || !(error instanceof Error)) {
+    return true;
+  }
+  return BUILT_IN_ERROR_TYPES.some((type) => error instanceof type) || typeof (error as { code?: unknown }).code === 'string';
+}
+
+/**
+ * Maps an HTTP status to an error code.
+ */
+function getErrorCode(status: number | undefined): ToolErrorCode {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 404) {
+    return 'not_found';
+  }
+  if (status === 409) {
+    return 'conflict';
+  }
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return 'validation';
+  }
+  return 'upstream';
+}
+
+/**
+ * Describes an error raised while running a tool.
+ * @param error The error thrown by the tool.
+ * @returns The error code, message, hint and whether the call can be retried.
+ */
+export function toToolError(error: unknown): ToolErrorDetails {
+  if (error instanceof CredentialsError) {
+    return {
+      code: 'auth',
+      message: error.message,
+      hint: 'Pass the missing credential as a tool parameter, or configure it for the session or the server.',
+      retryable: false
+    };
+  }
+  if (error instanceof PolicyError) {
+    return { code: 'forbidden', message: error.message, hint: ERROR_HINTS.forbidden, retryable: false };
+  }
+  if (error instanceof IdempotencyError) {
+    return {
+      code: 'conflict',
+      message: error.message,
+      hint: 'Use a new idempotency_key for a different request, or repeat the original request unchanged to get its result.',
+      retryable: false
+    };
+  }
+  if (error instanceof ConfirmationError) {
+    return { code: 'cancelled', message: error.message, hint: ERROR_HINTS.cancelled, retryable: false };
+  }
+  if (error instanceof ZodError) {
+    const message = error.issues.map((issue) => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; ');
+    return { code: 'validation', message, hint: ERROR_HINTS.validation, retryable: false };
+  }
+
+  const isBranchError = isBranchApiError(error) || axios.isAxiosError(error);
+  if (!isBranchError && isInternalError(error)) {
+    return { code: 'internal', message: getErrorMessage(error), hint: ERROR_HINTS.internal, retryable: false };
+  }
+  if (!isBranchError) {
+    // Other errors raised by the tools themselves, before calling Branch, reject their input.
+    return { code: 'validation', message: getErrorMessage(error), hint: ERROR_HINTS.validation, retryable: false };
+  }
+
+  const response = error.response;
+  const status = response?.status || (isBranchApiError(error) ? error.status || undefined : undefined);
+  const code = getErrorCode(status);
+  return {
+    code,
+    message: getBranchErrorMessage(response?.data) ?? getErrorMessage(error),
+    ...(status !== undefined ? { status } : {}),
+    hint: ERROR_HINTS[code],
+    retryable: code === 'rate_limited' || code === 'upstream'
+  };
+}
+
+/**
+ * Creates the result of a failed tool call. The error details are returned as JSON text, because
+ * error results carry no structured content.
+ * @param error The error thrown by the tool.
+ * @returns A tool result with `isError` set.
+ */
+export function createToolErrorResult(error: unknown): CallToolResult {
+  return {
+    isError: true,
+    content: [{ type: 'text', text: JSON.stringify({ error: toToolError(error) }, null, 2) }]
+  };
+}
+
+/**
+ * Creates middleware that turns any error thrown by a tool into an error result (see `createToolErrorResult`).
+ * @returns The error handling middleware.
+ */
+export function createErrorMiddleware(): ToolMiddleware {
+  return {
+    handle: async (call, next) => {
+      try {
+        return await next(call);
+      } catch (error) {
+        const details = toToolError(error);
+        logger.warn(`Tool ${call.name} failed`, { code: details.code, status: details.status, message: details.message });
+        return createToolErrorResult(error);
+      }
+    }
+  };
+}
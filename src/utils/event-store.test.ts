@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from './event-store.js';
+
+const notification = (n: number): JSONRPCMessage => ({ jsonrpc: '2.0', method: 'notifications/message', params: { n } });
+
+describe('InMemoryEventStore', () => {
+  it('should replay only events from the same stream after the given event', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('stream-a', notification(1));
+    await store.storeEvent('stream-b', notification(2));
+    const third = await store.storeEvent('stream-a', notification(3));
+    const fourth = await store.storeEvent('stream-a', notification(4));
+
+    const replayed: [string, JSONRPCMessage][] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (eventId, message) => {
+        replayed.push([eventId, message]);
+      }
+    });
+
+    expect(streamId).toBe('stream-a');
+    expect(replayed).toEqual([[third, notification(3)], [fourth, notification(4)]]);
+  });
+
+  it('should return an empty stream ID for unknown events', async () => {
+    const store = new InMemoryEventStore();
+    const send = async () => undefined;
+    expect(await store.replayEventsAfter('missing_1', { send })).toBe('');
+  });
+
+  it('should evict the oldest events once the limit is reached', async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent('stream', notification(1));
+    await store.storeEvent('stream', notification(2));
+    await store.storeEvent('stream', notification(3));
+
+    expect(store.size).toBe(2);
+    expect(await store.replayEventsAfter(first, { send: async () => undefined })).toBe('');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @file This file provides an in-memory event store used to make Streamable HTTP sessions resumable.
+ * Every message the server sends on a stream is recorded so that a client which reconnects with a
+ * `Last-Event-ID` header can have the notifications it missed replayed in order.
+ */
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * The default number of events retained per store before the oldest are discarded.
+ */
+export const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * A bounded, in-memory implementation of the MCP SDK's `EventStore` interface.
+ *
+ * Events are kept in insertion order, which is also their chronological order, so replaying
+ * only requires a single pass. Once `maxEvents` is reached the oldest event is evicted, which
+ * keeps memory usage predictable for long-lived sessions. A store is intended to be owned by a
+ * single session so that its events are released when the session ends.
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  private sequence = 0;
+
+  /**
+   * @param maxEvents The maximum number of events to retain.
+   */
+  constructor(private readonly maxEvents: number = DEFAULT_MAX_EVENTS) {}
+
+  /**
+   * The number of events currently retained.
+   */
+  get size(): number {
+    return this.events.size;
+  }
+
+  /**
+   * Records a message sent on a stream and returns the event ID assigned to it.
+   * @param streamId The ID of the stream the message was sent on.
+   * @param message The JSON-RPC message that was sent.
+   * @returns The generated event ID.
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence += 1;
+    const eventId = `${streamId}_${this.sequence}`;
+    this.events.set(eventId, { streamId, message });
+
+    if (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value as EventId;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  /**
+   * Replays every event recorded on the same stream after `lastEventId`.
+   * @param lastEventId The last event ID the client received.
+   * @param callbacks An object containing the `send` function used to re-deliver each event.
+   * @returns The ID of the stream that was replayed, or an empty string if the event is unknown.
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && streamId === lastEvent.streamId) {
+        await send(eventId, message);
+      }
+    }
+    return lastEvent.streamId;
+  }
+}
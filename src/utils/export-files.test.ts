@@ -0,0 +1,271 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { runWithRequestContext } from './context.js';
+import { InternalError, PolicyError } from './errors.js';
+import {
+  decompressExportFile,
+  decompressSnappy,
+  DEFAULT_DOWNLOAD_HOSTS,
+  detectCompression,
+  detectExportFormat,
+  estimateExportMemory,
+  ExportDataStore,
+  getExportFileUrls,
+  isAllowedDownloadUrl,
+  parseExportFile,
+  readExportFiles,
+  summarizeColumns
+} from './export-files.js';
+import type { ExportData } from './export-files.js';
+
+// "abcabcabcabc" as a snappy block: a literal "abc", then a copy of 9 bytes from 3 bytes back.
+const SNAPPY_BLOCK = Buffer.from([0x0c, 0x08, 0x61, 0x62, 0x63, 0x15, 0x03]);
+
+describe('isAllowedDownloadUrl', () => {
+  it('should allow the configured hosts over HTTPS, and plain HTTP only where configured', () => {
+    const hosts = ['*.amazonaws.com', 'exports.branch.io', 'http://127.0.0.1:8080'];
+
+    expect(isAllowedDownloadUrl(new URL('https://branch-exports.s3.us-west-1.amazonaws.com/a.csv'), hosts)).toBe(true);
+    expect(isAllowedDownloadUrl(new URL('https://exports.branch.io:443/a.csv'), hosts)).toBe(true);
+    expect(isAllowedDownloadUrl(new URL('http://127.0.0.1:8080/a.csv'), hosts)).toBe(true);
+    expect(isAllowedDownloadUrl(new URL('http://exports.branch.io/a.csv'), hosts)).toBe(false);
+    expect(isAllowedDownloadUrl(new URL('https://exports.branch.io:8443/a.csv'), hosts)).toBe(false);
+    expect(isAllowedDownloadUrl(new URL('https://amazonaws.com.example.com/a.csv'), hosts)).toBe(false);
+    expect(isAllowedDownloadUrl(new URL('http://127.0.0.1:9090/a.csv'), hosts)).toBe(false);
+  });
+
+  it('should only allow Branch and its export bucket by default', () => {
+    expect(isAllowedDownloadUrl(new URL('https://exports.api2.branch.io/a.csv'), DEFAULT_DOWNLOAD_HOSTS)).toBe(true);
+    expect(isAllowedDownloadUrl(new URL('https://branch-exports-web.s3.amazonaws.com/a.csv'), DEFAULT_DOWNLOAD_HOSTS)).toBe(true);
+    expect(isAllowedDownloadUrl(new URL('https://branch-exports-web.s3.us-west-1.amazonaws.com/a.csv'), DEFAULT_DOWNLOAD_HOSTS)).toBe(true);
+    expect(isAllowedDownloadUrl(new URL('https://attacker.s3.amazonaws.com/a.csv'), DEFAULT_DOWNLOAD_HOSTS)).toBe(false);
+    expect(isAllowedDownloadUrl(new URL('https://branch-exports-web.s3.a.b.amazonaws.com/a.csv'), DEFAULT_DOWNLOAD_HOSTS)).toBe(false);
+    expect(isAllowedDownloadUrl(new URL('https://branch.io/a.csv'), DEFAULT_DOWNLOAD_HOSTS)).toBe(false);
+    expect(() => isAllowedDownloadUrl(new URL('https://example.com'), ['ftp://example.com'])).toThrow('"ftp://example.com" is not a valid download host.');
+  });
+});
+
+describe('getExportFileUrls', () => {
+  it('should find the download URLs of a completed export, but not its status URL', () => {
+    expect(getExportFileUrls({
+      status: 'complete',
+      export_job_status_url: 'https://api2.branch.io/v2/logs/handle-1',
+      response_url: 'https://exports.s3.amazonaws.com/1.csv.gz',
+      response_urls: ['https://exports.s3.amazonaws.com/1.csv.gz', 'https://exports.s3.amazonaws.com/2.csv.gz'],
+      url_count: 2
+    })).toEqual(['https://exports.s3.amazonaws.com/1.csv.gz', 'https://exports.s3.amazonaws.com/2.csv.gz']);
+  });
+});
+
+describe('decompressSnappy', () => {
+  it('should decompress a raw block', () => {
+    expect(decompressSnappy(SNAPPY_BLOCK).toString()).toBe('abcabcabcabc');
+  });
+
+  it('should decompress the framing format', () => {
+    const stream = Buffer.concat([
+      Buffer.from([0xff, 0x06, 0x00, 0x00, 0x73, 0x4e, 0x61, 0x50, 0x70, 0x59]),
+      Buffer.from([0x00, 0x0b, 0x00, 0x00, 0, 0, 0, 0]), SNAPPY_BLOCK,
+      Buffer.from([0xfe, 0x02, 0x00, 0x00, 0x01, 0x02]),
+      Buffer.from([0x01, 0x07, 0x00, 0x00, 0, 0, 0, 0]), Buffer.from('def')
+    ]);
+    expect(detectCompression(stream)).toBe('snappy');
+    expect(decompressSnappy(stream).toString()).toBe('abcabcabcabcdef');
+  });
+
+  it('should decompress the blocks of the Hadoop codec', () => {
+    const hadoop = Buffer.concat([Buffer.from([0, 0, 0, 12, 0, 0, 0, 7]), SNAPPY_BLOCK]);
+    expect(decompressSnappy(hadoop).toString()).toBe('abcabcabcabc');
+  });
+
+  it('should fail on data that is not snappy', () => {
+    expect(() => decompressSnappy(Buffer.from('not snappy data at all'))).toThrow('The file is not valid snappy data.');
+    expect(() => decompressSnappy(Buffer.from([0x05, 0x08, 0x61]))).toThrow('The snappy block is truncated.');
+  });
+});
+
+describe('decompressExportFile', () => {
+  it('should decompress gzip and leave uncompressed files as they are', () => {
+    const gzipped = gzipSync('a,b\n1,2');
+    expect(detectCompression(gzipped)).toBe('gz');
+    expect(decompressExportFile(gzipped, 'gz').toString()).toBe('a,b\n1,2');
+    expect(decompressExportFile(Buffer.from('a,b'), 'none').toString()).toBe('a,b');
+    expect(() => decompressExportFile(Buffer.from('a,b'), 'gz')).toThrow('The file is not valid gzip data');
+    expect(() => decompressExportFile(Buffer.from('a,b'), 'gz')).toThrow(InternalError);
+  });
+
+  it('should work out snappy files without a header from their extension', () => {
+    expect(detectCompression(SNAPPY_BLOCK, 'https://exports.s3.amazonaws.com/1.csv.snappy?X-Amz-Signature=1')).toBe('snappy');
+    expect(detectCompression(Buffer.from('a,b'), 'https://exports.s3.amazonaws.com/1.csv')).toBe('none');
+  });
+});
+
+describe('detectExportFormat', () => {
+  it('should work out the format from the extension or the content', () => {
+    expect(detectExportFormat('[]', 'https://exports.s3.amazonaws.com/1.csv.gz')).toBe('csv');
+    expect(detectExportFormat('a,b', 'https://exports.s3.amazonaws.com/1.json')).toBe('json');
+    expect(detectExportFormat('a,b', 'https://exports.s3.amazonaws.com/1.ndjson.snappy')).toBe('jsonl');
+    expect(detectExportFormat(' [{"a":1}]')).toBe('json');
+    expect(detectExportFormat('{"a":1}\n{"a":2}')).toBe('jsonl');
+    expect(detectExportFormat('\uFEFFa,b')).toBe('csv');
+  });
+});
+
+describe('parseExportFile', () => {
+  it('should read CSV rows by the columns of the header', () => {
+    expect(parseExportFile('\uFEFFname, count\n"a,1",2\nb\n', 'csv')).toEqual({
+      columns: ['name', 'count'],
+      rows: [{ name: 'a,1', count: '2' }, { name: 'b', count: '' }]
+    });
+    expect(parseExportFile('', 'csv')).toEqual({ columns: [], rows: [] });
+    expect(() => parseExportFile('a\n1,2', 'csv')).toThrow('Line 2 has 2 cells, but the header has 1 columns.');
+  });
+
+  it('should read JSON and JSONL rows, with the keys of every row as columns', () => {
+    expect(parseExportFile('[{"a":1},{"b":true}]', 'json')).toEqual({ columns: ['a', 'b'], rows: [{ a: 1 }, { b: true }] });
+    expect(parseExportFile('{"a":1}', 'json')).toEqual({ columns: ['a'], rows: [{ a: 1 }] });
+    expect(parseExportFile('{"a":1}\r\n\n{"a":2,"c":null}', 'jsonl')).toEqual({ columns: ['a', 'c'], rows: [{ a: 1 }, { a: 2, c: null }] });
+    expect(() => parseExportFile('[1]', 'json')).toThrow('Item 1 of the file is not a JSON object.');
+    expect(() => parseExportFile('[', 'json')).toThrow('The file is not valid JSON');
+    expect(() => parseExportFile('{"a":1}\n{', 'jsonl')).toThrow('Line 2 of the file is not valid JSON.');
+    expect(() => parseExportFile('"a"', 'jsonl')).toThrow('Line 1 of the file is not a JSON object.');
+  });
+});
+
+describe('summarizeColumns', () => {
+  it('should work out the type of every column, counting empty and distinct values', () => {
+    const rows = [
+      { id: '1', revenue: '2.5', ios: 'true', day: '2025-06-01', name: 'a', data: { x: 1 }, mixed: 1 },
+      { id: '2', revenue: '3', ios: 'false', day: '2025-06-02T10:00:00Z', name: '', data: { x: 1 }, mixed: 'b' },
+      { id: '2', revenue: null, day: '2025-06-02' }
+    ];
+    expect(summarizeColumns(['id', 'revenue', 'ios', 'day', 'name', 'data', 'mixed', 'none'], rows)).toEqual([
+      { name: 'id', type: 'integer', empty: 0, distinct: 2, example: '1' },
+      { name: 'revenue', type: 'number', empty: 1, distinct: 2, example: '2.5' },
+      { name: 'ios', type: 'boolean', empty: 1, distinct: 2, example: 'true' },
+      { name: 'day', type: 'timestamp', empty: 0, distinct: 3, example: '2025-06-01' },
+      { name: 'name', type: 'string', empty: 2, distinct: 1, example: 'a' },
+      { name: 'data', type: 'object', empty: 1, distinct: 1, example: { x: 1 } },
+      { name: 'mixed', type: 'string', empty: 1, distinct: 2, example: 1 },
+      { name: 'none', type: 'empty', empty: 3, distinct: 0 }
+    ]);
+  });
+});
+
+describe('readExportFiles', () => {
+  let server: Server;
+  let origin: string;
+  const files: Record<string, Buffer> = {
+    '/1.csv.gz': gzipSync('channel,installs\nemail,3\n'),
+    '/2.csv.gz': gzipSync('channel,installs\nsms,4\n'),
+    '/rows.json': Buffer.from('[{"channel":"email"}]'),
+    '/bad.csv': Buffer.from('a\n"b')
+  };
+
+  beforeAll(async () => {
+    // A local stand-in for the storage Branch serves export files from.
+    server = createServer((request, response) => {
+      const file = files[request.url ?? ''];
+      response.writeHead(file ? 200 : 404);
+      response.end(file);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should download, decompress and read every file of an export', async () => {
+    const done: number[] = [];
+    const data = await readExportFiles([`${origin}/1.csv.gz`, `${origin}/2.csv.gz`], {
+      hosts: [origin],
+      onFile: async (count) => {
+        done.push(count);
+      }
+    });
+
+    expect(data).toMatchObject({
+      format: 'csv',
+      compression: 'gz',
+      rows: [{ channel: 'email', installs: '3' }, { channel: 'sms', installs: '4' }],
+      columns: [{ name: 'channel', type: 'string' }, { name: 'installs', type: 'integer' }],
+      bytes: 48
+    });
+    expect(done).toEqual([1, 2]);
+  });
+
+  it('should refuse hosts that are not allowed', async () => {
+    await expect(readExportFiles([`${origin}/1.csv.gz`], { hosts: ['*.amazonaws.com'] })).rejects.toThrow(PolicyError);
+    await expect(readExportFiles(['not a url'], { hosts: [origin] })).rejects.toThrow('"not a url" is not a valid URL.');
+  });
+
+  it('should report files that cannot be downloaded or read', async () => {
+    await expect(readExportFiles([`${origin}/missing.csv`], { hosts: [origin] })).rejects.toThrow('404');
+    await expect(readExportFiles([`${origin}/bad.csv`], { hosts: [origin] })).rejects.toThrow('Could not read the export file as CSV: The quoted cell that starts on line 2 is not closed.');
+    await expect(readExportFiles([`${origin}/1.csv.gz`, `${origin}/rows.json`], { hosts: [origin] })).rejects.toThrow('The files of the export have different formats: csv and json.');
+  });
+});
+
+describe('ExportDataStore', () => {
+  const data: ExportData = { urls: [], format: 'csv', compression: 'none', columns: [], rows: [], bytes: 0 };
+
+  it('should keep the exports of every session to that session, dropping the oldest of the session', () => {
+    const store = new ExportDataStore({ maxDatasets: 2 });
+    const first = runWithRequestContext({ sessionId: 'session-1' }, () => store.add(data, 'job-1'));
+    expect(first).toMatchObject({ id: 'export-1', uri: 'branch://exports/export-1', job_id: 'job-1', session_id: 'session-1' });
+    runWithRequestContext({ sessionId: 'session-2' }, () => store.add(data));
+    runWithRequestContext({ sessionId: 'session-1' }, () => store.add(data));
+    runWithRequestContext({ sessionId: 'session-1' }, () => store.add(data));
+
+    expect(runWithRequestContext({ sessionId: 'session-1' }, () => store.list().map((dataset) => dataset.id))).toEqual(['export-4', 'export-3']);
+    expect(() => runWithRequestContext({ sessionId: 'session-1' }, () => store.get('export-1'))).toThrow('There is no downloaded export export-1 in this session.');
+    expect(() => runWithRequestContext({ sessionId: 'session-1' }, () => store.get('export-2'))).toThrow('There is no downloaded export export-2 in this session.');
+    expect(runWithRequestContext({ sessionId: 'session-2' }, () => store.get('export-2')).id).toBe('export-2');
+  });
+
+  it('should estimate the memory of an export from its text, rows and columns', () => {
+    expect(estimateExportMemory({ ...data, bytes: 100 })).toBe(200);
+    expect(estimateExportMemory({ ...data, columns: summarizeColumns(['a', 'b'], []), rows: [{ a: '1', b: '2' }, { a: '3', b: '4' }], bytes: 8 })).toBe(16 + 4 * 64);
+    expect(estimateExportMemory({ ...data, rows: [{}, {}], bytes: 0 })).toBe(2 * 64);
+  });
+
+  it('should limit the memory kept for each session and in total', () => {
+    const store = new ExportDataStore({ maxSessionBytes: 100, maxBytes: 250, idleMs: 1000 });
+    // Without rows, an export takes twice its text.
+    const add = (sessionId: string, memory: number) => runWithRequestContext({ sessionId }, () => store.add({ ...data, bytes: memory / 2 }));
+    add('session-1', 60);
+    add('session-1', 60);
+    expect(runWithRequestContext({ sessionId: 'session-1' }, () => store.list().map((dataset) => dataset.id))).toEqual(['export-2']);
+    expect(() => add('session-1', 102)).toThrow('more than the 1 MB a session can keep');
+    expect(() => runWithRequestContext({ sessionId: 'session-1' }, () => store.add({ ...data, rows: [{}, {}], bytes: 0 }))).toThrow('more than the 1 MB a session can keep');
+
+    add('session-2', 100);
+    add('session-3', 90);
+    expect(() => add('session-4', 50)).toThrow('The server is keeping as many downloaded exports as it has memory for (1 MB)');
+    expect(runWithRequestContext({ sessionId: 'session-2' }, () => store.list())).toHaveLength(1);
+  });
+
+  it('should make room with the exports that are no longer read', () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const store = new ExportDataStore({ maxBytes: 100, idleMs: 1000 });
+      const add = (sessionId: string, memory: number) => runWithRequestContext({ sessionId }, () => store.add({ ...data, bytes: memory / 2 }));
+      add('session-1', 50);
+      add('session-2', 50);
+      jest.setSystemTime(900);
+      runWithRequestContext({ sessionId: 'session-2' }, () => store.get('export-2'));
+      jest.setSystemTime(1500);
+
+      expect(add('session-3', 50).id).toBe('export-3');
+      expect(runWithRequestContext({ sessionId: 'session-1' }, () => store.list())).toEqual([]);
+      expect(() => add('session-4', 50)).toThrow('The server is keeping as many downloaded exports as it has memory for');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,909 @@
+/**
+ * @file This file downloads and reads the files of completed exports.
+ *
+ * When an export has completed, Branch returns the URLs its files can be downloaded from. The files
+ * are CSV, JSON or JSONL, compressed with gzip or snappy if the export asked for it
+ * (`response_format_compression`). `readExportFiles` downloads them, decompresses and parses them,
+ * and returns their rows, with a summary of their columns.
+ *
+ * Files are only downloaded from the hosts the server allows (`download_hosts`), which default to
+ * Branch and its export bucket on S3, and redirects are not followed, so that the server cannot be
+ * made to fetch anything else. Downloads and the data they decompress to are limited in size.
+ *
+ * The rows are kept in an `ExportDataStore`, which serves them as the `branch://exports/{id}`
+ * resource and to queries (see `export-query.ts`). Like export jobs, the data belongs to the MCP
+ * session that downloaded it. The store is limited in the memory it takes, as estimated from the rows
+ * and columns of the exports, for each session and in total, so that a session can neither drop the
+ * data of another nor make the server hold more than it can.
+ */
+import axios from 'axios';
+import { extname } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { getRequestContext } from './context.js';
+import { InternalError, PolicyError } from './errors.js';
+import { parseCsv } from './link-import.js';
+
+/**
+ * The hosts export files are downloaded from by default: Branch, and the S3 bucket it serves exports from,
+ * in any region.
+ */
+export const DEFAULT_DOWNLOAD_HOSTS = ['*.branch.io', 'branch-exports-web.s3.amazonaws.com', 'branch-exports-web.s3.*.amazonaws.com'];
+
+/**
+ * The largest file, in bytes, that is downloaded (100 MB).
+ */
+export const MAX_EXPORT_DOWNLOAD_BYTES = 100 * 1024 * 1024;
+
+/**
+ * The most data, in bytes, that the files of an export are read into once decompressed (32 MB).
+ */
+export const MAX_EXPORT_DATA_BYTES = 32 * 1024 * 1024;
+
+/**
+ * The number of downloaded exports a store keeps for each session. The oldest export of the session
+ * is dropped to make room for a new one.
+ */
+export const MAX_EXPORT_DATASETS = 5;
+
+/**
+ * The most memory, in bytes, that a store keeps exports in for each session (128 MB), as estimated
+ * by `estimateExportMemory`. The oldest exports of the session are dropped to make room for a new one.
+ */
+export const MAX_SESSION_EXPORT_BYTES = 128 * 1024 * 1024;
+
+/**
+ * The most memory, in bytes, that a store keeps exports in for all sessions together (384 MB), as
+ * estimated by `estimateExportMemory`. With a download being read, this stays well within the default
+ * heap of Node.js in the Docker image.
+ */
+export const MAX_EXPORT_STORE_BYTES = 384 * 1024 * 1024;
+
+/**
+ * The memory, in bytes, that each cell of a parsed row takes besides its text: the property of the
+ * row object, the header of the string and the pointer to it. On the high side, so that estimates
+ * are not too low.
+ */
+const CELL_MEMORY_BYTES = 64;
+
+/**
+ * How long, in milliseconds, a downloaded export is kept once it is no longer read (1 hour), so that
+ * the exports of sessions that have gone away make room for others.
+ */
+export const EXPORT_DATA_IDLE_MS = 60 * 60 * 1000;
+
+/**
+ * The most rows, as JSON, that the resource of a downloaded export serves (10 MB). Larger exports are
+ * cut short, and can be read in full with `branch_query_export`.
+ */
+export const MAX_EXPORT_RESOURCE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * The URI of the resource that serves the rows of a downloaded export.
+ */
+export const EXPORT_DATA_RESOURCE_URI = 'branch://exports/{id}';
+
+/**
+ * The formats of export files.
+ */
+export const EXPORT_FILE_FORMATS = ['csv', 'json', 'jsonl'] as const;
+
+export type ExportFileFormat = typeof EXPORT_FILE_FORMATS[number];
+
+/**
+ * The compressions of export files.
+ */
+export const EXPORT_COMPRESSIONS = ['none', 'gz', 'snappy'] as const;
+
+export type ExportCompression = typeof EXPORT_COMPRESSIONS[number];
+
+/**
+ * The type of the values of a column:
+ * - `integer`, `number` and `boolean`: every value is one, or a CSV cell that reads as one.
+ * - `timestamp`: every value is an ISO-8601 date or time.
+ * - `object`: every value is a JSON object or array.
+ * - `empty`: the column has no values.
+ * - `string`: anything else, including columns of mixed types.
+ */
+export type ExportColumnType = 'integer' | 'number' | 'boolean' | 'timestamp' | 'string' | 'object' | 'empty';
+
+/**
+ * A summary of a column of an export.
+ */
+export interface ExportColumn {
+  name: string;
+  type: ExportColumnType;
+
+  /**
+   * The number of rows without a value: missing, `null` or an empty CSV cell.
+   */
+  empty: number;
+
+  /**
+   * The number of different values.
+   */
+  distinct: number;
+
+  /**
+   * The first value of the column.
+   */
+  example?: unknown;
+}
+
+/**
+ * The rows of export files.
+ */
+export interface ExportRecords {
+  /**
+   * The columns of the files: the header of CSV files, or every key of the objects of JSON files.
+   */
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * The downloaded files of an export.
+ */
+export interface ExportData extends Omit<ExportRecords, 'columns'> {
+  /**
+   * The URLs the files were downloaded from.
+   */
+  urls: string[];
+  format: ExportFileFormat;
+  compression: ExportCompression;
+  columns: ExportColumn[];
+
+  /**
+   * The size of the files, in bytes, once decompressed.
+   */
+  bytes: number;
+}
+
+/**
+ * A downloaded export, as kept in an `ExportDataStore`.
+ */
+export interface ExportDataset extends ExportData {
+  /**
+   * The ID the store gave the export, such as `export-1`.
+   */
+  id: string;
+
+  /**
+   * The URI of the resource that serves its rows.
+   */
+  uri: string;
+
+  /**
+   * The export job the files belong to, if they were downloaded for one.
+   */
+  job_id?: string;
+
+  /**
+   * The ID of the MCP session that downloaded the export, if the transport has sessions.
+   */
+  session_id?: string;
+  created_at: string;
+}
+
+/**
+ * Options for reading the files of an export.
+ */
+export interface ReadExportOptions {
+  /**
+   * The hosts files may be downloaded from. See `isAllowedDownloadUrl`.
+   */
+  hosts: string[];
+
+  /**
+   * The format of the files. Worked out from each file if not given.
+   */
+  format?: ExportFileFormat;
+
+  /**
+   * The compression of the files. Worked out from each file if not given.
+   */
+  compression?: ExportCompression;
+
+  /**
+   * Stops the downloads.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after every file is read, with the number of files read.
+   */
+  onFile?: (done: number) => Promise<void>;
+}
+
+/**
+ * Reads a host of the allowed download hosts: `host`, `*.domain` or `host:port`, with `http://`
+ * before it to allow plain HTTP instead of HTTPS.
+ */
+function parseHostPattern(pattern: string): { protocol: string; host: string; port: string } {
+  const match = /^(?:(https?):\/\/)?([^/:]+)(?::(\d+))?\/?$/i.exec(pattern.trim());
+  if (!match) {
+    throw new Error(`"${pattern}" is not a valid download host.`);
+  }
+  const [, protocol = 'https', host, port = ''] = match;
+  const defaultPort = protocol.toLowerCase() === 'https' ? '443' : '80';
+  return { protocol: `${protocol.toLowerCase()}:`, host: host.toLowerCase(), port: port === defaultPort ? '' : port };
+}
+
+/**
+ * Checks whether a host name matches a host of the allowed download hosts. A leading `*.` matches
+ * any subdomain, and a `*` label anywhere else matches a single label, such as a region.
+ */
+function matchesHost(hostname: string, host: string): boolean {
+  if (host.startsWith('*.')) {
+    const domain = host.slice(2).split('.');
+    const labels = hostname.split('.');
+    return labels.length > domain.length && matchesHost(labels.slice(-domain.length).join('.'), domain.join('.'));
+  }
+  const labels = hostname.split('.');
+  const patterns = host.split('.');
+  return labels.length === patterns.length && patterns.every((pattern, index) => pattern === '*' || pattern === labels[index]);
+}
+
+/**
+ * Checks whether a URL is on one of the allowed download hosts. A host is allowed over HTTPS
+ * unless its pattern starts with `http://`; `*.domain` allows every subdomain of the domain, and
+ * `bucket.s3.*.amazonaws.com` any one label in place of the `*`.
+ * @param url The URL.
+ * @param hosts The allowed hosts, such as `*.branch.io` or `http://localhost:8080`.
+ * @returns Whether the URL may be downloaded.
+ */
+export function isAllowedDownloadUrl(url: URL, hosts: string[]): boolean {
+  const hostname = url.hostname.toLowerCase();
+  return hosts.some((pattern) => {
+    const { protocol, host, port } = parseHostPattern(pattern);
+    if (url.protocol !== protocol || url.port !== port) {
+      return false;
+    }
+    return matchesHost(hostname, host);
+  });
+}
+
+/**
+ * Downloads an export file.
+ * @param url The URL of the file.
+ * @param hosts The hosts files may be downloaded from.
+ * @param signal Stops the download.
+ * @returns The content of the file.
+ * @throws {PolicyError} If the URL is not on an allowed host.
+ */
+export async function downloadExportFile(url: string, hosts: string[], signal?: AbortSignal): Promise<Buffer> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`"${url}" is not a valid URL.`);
+  }
+  if (!isAllowedDownloadUrl(parsed, hosts)) {
+    throw new PolicyError(`Export files cannot be downloaded from ${parsed.host}. The server downloads them from: ${hosts.join(', ')}.`);
+  }
+  // The download URLs of exports are pre-signed, so they need no credentials.
+  const response = await axios.get<ArrayBuffer>(parsed.href, {
+    responseType: 'arraybuffer',
+    maxContentLength: MAX_EXPORT_DOWNLOAD_BYTES,
+    maxRedirects: 0,
+    signal
+  });
+  return Buffer.from(response.data);
+}
+
+/**
+ * Returns the URLs among the status Branch returned for a completed export, such as its
+ * `response_url`, or the list of URLs of an export split into several files.
+ * @param result The status of the export.
+ * @returns The URLs of the files of the export.
+ */
+export function getExportFileUrls(result: Record<string, unknown>): string[] {
+  const urls: string[] = [];
+  for (const [key, value] of Object.entries(result)) {
+    // The status URL of a job is where its status is read, not a file.
+    if (!/url/i.test(key) || /status/i.test(key)) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string' && /^https?:\/\//i.test(item) && !urls.includes(item)) {
+        urls.push(item);
+      }
+    }
+  }
+  return urls;
+}
+
+/**
+ * Returns the path of a URL, in lower case, to read the extension of the file from.
+ */
+function getUrlPath(url: string): string {
+  try {
+    return new URL(url).pathname.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+const SNAPPY_STREAM_IDENTIFIER = Buffer.from([0xff, 0x06, 0x00, 0x00, 0x73, 0x4e, 0x61, 0x50, 0x70, 0x59]);
+
+/**
+ * Works out the compression of a file from its first bytes or, for snappy, which has no header
+ * in every format, from the extension of its URL.
+ * @param data The content of the file.
+ * @param url The URL the file was downloaded from.
+ * @returns The compression of the file.
+ */
+export function detectCompression(data: Buffer, url?: string): ExportCompression {
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    return 'gz';
+  }
+  if (data.subarray(0, SNAPPY_STREAM_IDENTIFIER.length).equals(SNAPPY_STREAM_IDENTIFIER)) {
+    return 'snappy';
+  }
+  return url && /\.(snappy|sz)$/.test(getUrlPath(url)) ? 'snappy' : 'none';
+}
+
+const tooLargeError = () => new Error(`The export is larger than the ${MAX_EXPORT_DATA_BYTES / 1024 / 1024} MB that can be read once decompressed.`);
+
+/**
+ * Throws if data decompresses to more than the limit.
+ */
+function checkDecompressedSize(length: number): void {
+  if (length > MAX_EXPORT_DATA_BYTES) {
+    throw tooLargeError();
+  }
+}
+
+/**
+ * Decompresses a block of the snappy format.
+ * @param data The block, starting with the length of its uncompressed data.
+ * @returns The uncompressed data.
+ * @throws {InternalError} If the block is not valid.
+ */
+function decompressSnappyBlock(data: Buffer): Buffer {
+  let position = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    if (position >= data.length || shift > 28) {
+      throw new InternalError('The snappy block has no valid length.');
+    }
+    const byte = data[position++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) {
+      break;
+    }
+  }
+  checkDecompressedSize(length);
+
+  const output = Buffer.alloc(length);
+  let written = 0;
+  const read = (bytes: number) => {
+    if (position + bytes > data.length) {
+      throw new InternalError('The snappy block is truncated.');
+    }
+    const value = data.readUIntLE(position, bytes);
+    position += bytes;
+    return value;
+  };
+  while (position < data.length) {
+    const tag = data[position++];
+    const type = tag & 0x03;
+    if (type === 0) {
+      let literal = tag >> 2;
+      literal = literal < 60 ? literal + 1 : read(literal - 59) + 1;
+      if (position + literal > data.length || written + literal > length) {
+        throw new InternalError('The snappy block is truncated.');
+      }
+      data.copy(output, written, position, position + literal);
+      position += literal;
+      written += literal;
+      continue;
+    }
+    let copy: number;
+    let offset: number;
+    if (type === 1) {
+      copy = ((tag >> 2) & 0x07) + 4;
+      offset = ((tag >> 5) << 8) | read(1);
+    } else {
+      copy = (tag >> 2) + 1;
+      offset = read(type === 2 ? 2 : 4);
+    }
+    if (offset === 0 || offset > written || written + copy > length) {
+      throw new InternalError('The snappy block has a copy out of bounds.');
+    }
+    // Copies may overlap the data they write, so they are made a byte at a time.
+    for (let index = 0; index < copy; index++) {
+      output[written] = output[written - offset];
+      written++;
+    }
+  }
+  if (written !== length) {
+    throw new InternalError('The snappy block is truncated.');
+  }
+  return output;
+}
+
+/**
+ * Reads the chunks of snappy data written by the Hadoop codec: blocks of the uncompressed length,
+ * followed by the compressed chunks of the block, each prefixed with its length.
+ */
+function* readHadoopSnappy(data: Buffer): Generator<Buffer> {
+  for (let position = 0; position < data.length;) {
+    const blockLength = data.readUInt32BE(position);
+    position += 4;
+    for (let read = 0; read < blockLength;) {
+      const length = data.readUInt32BE(position);
+      const chunk = decompressSnappyBlock(data.subarray(position + 4, position + 4 + length));
+      if (chunk.length === 0) {
+        throw new InternalError('The snappy block is empty.');
+      }
+      position += 4 + length;
+      read += chunk.length;
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Decompresses snappy data, in the framing format, as a single raw block, or in the blocks of the
+ * Hadoop codec, which are prefixed with their lengths. Checksums are not verified.
+ * @param data The compressed data.
+ * @returns The uncompressed data.
+ * @throws {InternalError} If the data is not valid snappy data.
+ * @throws {Error} If the data is too large once decompressed.
+ */
+export function decompressSnappy(data: Buffer): Buffer {
+  if (data.subarray(0, SNAPPY_STREAM_IDENTIFIER.length).equals(SNAPPY_STREAM_IDENTIFIER)) {
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for (let position = 0; position < data.length;) {
+      if (position + 4 > data.length) {
+        throw new InternalError('The snappy stream is truncated.');
+      }
+      const type = data[position];
+      const length = data.readUIntLE(position + 1, 3);
+      const chunk = data.subarray(position + 4, position + 4 + length);
+      if (chunk.length < length) {
+        throw new InternalError('The snappy stream is truncated.');
+      }
+      position += 4 + length;
+      if (type === 0x00 || type === 0x01) {
+        // Data chunks start with a checksum of their data.
+        const content = type === 0x00 ? decompressSnappyBlock(chunk.subarray(4)) : chunk.subarray(4);
+        total += content.length;
+        checkDecompressedSize(total);
+        chunks.push(content);
+      } else if (type !== 0xff && type < 0x80) {
+        throw new InternalError(`The snappy stream has a chunk of the unknown type ${type}.`);
+      }
+    }
+    return Buffer.concat(chunks);
+  }
+
+  try {
+    return decompressSnappyBlock(data);
+  } catch (error) {
+    if (data.length < 8) {
+      throw error;
+    }
+  }
+  const chunks: Buffer[] = [];
+  let total = 0;
+  const blocks = readHadoopSnappy(data);
+  for (;;) {
+    let next: IteratorResult<Buffer>;
+    try {
+      next = blocks.next();
+    } catch {
+      throw new InternalError('The file is not valid snappy data.');
+    }
+    if (next.done) {
+      break;
+    }
+    total += next.value.length;
+    checkDecompressedSize(total);
+    chunks.push(next.value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Decompresses an export file.
+ * @param data The content of the file.
+ * @param compression The compression of the file.
+ * @returns The uncompressed content of the file.
+ * @throws {InternalError} If the file cannot be decompressed.
+ * @throws {Error} If the file is too large once decompressed.
+ */
+export function decompressExportFile(data: Buffer, compression: ExportCompression): Buffer {
+  if (compression === 'snappy') {
+    return decompressSnappy(data);
+  }
+  if (compression === 'gz') {
+    try {
+      return gunzipSync(data, { maxOutputLength: MAX_EXPORT_DATA_BYTES });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw tooLargeError();
+      }
+      throw new InternalError(`The file is not valid gzip data: ${(error as Error).message}`);
+    }
+  }
+  checkDecompressedSize(data.length);
+  return data;
+}
+
+/**
+ * Works out the format of an export file: from the extension of its URL if it has a known one, or
+ * else from its first character.
+ * @param content The content of the file.
+ * @param url The URL the file was downloaded from.
+ * @returns The format of the file.
+ */
+export function detectExportFormat(content: string, url?: string): ExportFileFormat {
+  const extension = url ? extname(getUrlPath(url).replace(/\.(gz|gzip|snappy|sz)$/, '')) : '';
+  if (extension === '.csv') {
+    return 'csv';
+  }
+  if (extension === '.json') {
+    return 'json';
+  }
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return 'jsonl';
+  }
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('[')) {
+    return 'json';
+  }
+  return start.startsWith('{') ? 'jsonl' : 'csv';
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads the rows of an export file. CSV cells are kept as text.
+ * @param content The content of the file.
+ * @param format The format of the file.
+ * @returns The columns and rows of the file.
+ * @throws {Error} If the file is not valid in its format.
+ */
+export function parseExportFile(content: string, format: ExportFileFormat): ExportRecords {
+  const text = content.replace(/^\uFEFF/, '');
+  if (format === 'csv') {
+    const [header, ...records] = parseCsv(text);
+    if (!header) {
+      return { columns: [], rows: [] };
+    }
+    const columns = header.cells.map((cell) => cell.trim());
+    const rows = records.map(({ line, cells }) => {
+      if (cells.length > columns.length) {
+        throw new Error(`Line ${line} has ${cells.length} cells, but the header has ${columns.length} columns.`);
+      }
+      return Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']));
+    });
+    return { columns, rows };
+  }
+
+  let rows: unknown[];
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+    rows = Array.isArray(parsed) ? parsed : [parsed];
+    rows.forEach((row, index) => {
+      if (!isRecord(row)) {
+        throw new Error(`Item ${index + 1} of the file is not a JSON object.`);
+      }
+    });
+  } else {
+    rows = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+      let row: unknown;
+      try {
+        row = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} of the file is not valid JSON.`);
+      }
+      if (!isRecord(row)) {
+        throw new Error(`Line ${index + 1} of the file is not a JSON object.`);
+      }
+      rows.push(row);
+    });
+  }
+  const columns = new Set<string>();
+  for (const row of rows as Record<string, unknown>[]) {
+    Object.keys(row).forEach((column) => columns.add(column));
+  }
+  return { columns: [...columns], rows: rows as Record<string, unknown>[] };
+}
+
+/**
+ * Works out the type of a value. CSV cells are text, so text that reads as a number, a boolean or
+ * a date has that type.
+ */
+function getValueType(value: unknown): Exclude<ExportColumnType, 'empty'> {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (typeof value === 'object') {
+    return 'object';
+  }
+  const text = String(value).trim();
+  if (/^-?\d+$/.test(text) && Number.isSafeInteger(Number(text))) {
+    return 'integer';
+  }
+  if (/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) {
+    return 'number';
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return 'boolean';
+  }
+  return /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(text) && !Number.isNaN(Date.parse(text)) ? 'timestamp' : 'string';
+}
+
+/**
+ * Tells whether a value is missing: `undefined`, `null` or an empty CSV cell.
+ */
+export const isEmptyValue = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+/**
+ * Summarizes the columns of the rows of an export: the type of their values, and how many are
+ * empty or different.
+ * @param columns The columns.
+ * @param rows The rows.
+ * @returns A summary of every column.
+ */
+export function summarizeColumns(columns: string[], rows: Record<string, unknown>[]): ExportColumn[] {
+  return columns.map((name) => {
+    let type: ExportColumnType = 'empty';
+    let empty = 0;
+    let example: unknown;
+    const values = new Set<unknown>();
+    for (const row of rows) {
+      const value = row[name];
+      if (isEmptyValue(value)) {
+        empty++;
+        continue;
+      }
+      example ??= value;
+      values.add(typeof value === 'object' ? JSON.stringify(value) : value);
+      const valueType = getValueType(value);
+      if (type === 'empty' || type === valueType) {
+        type = valueType;
+      } else {
+        type = (type === 'integer' && valueType === 'number') || (type === 'number' && valueType === 'integer') ? 'number' : 'string';
+      }
+    }
+    return { name, type, empty, distinct: values.size, ...(example !== undefined ? { example } : {}) };
+  });
+}
+
+/**
+ * Downloads, decompresses and reads the files of an export. The files must have the same format.
+ * @param urls The URLs of the files.
+ * @param options The allowed hosts, and the format and compression of the files if known.
+ * @returns The rows of the files, with a summary of their columns.
+ * @throws {PolicyError} If a URL is not on an allowed host.
+ * @throws {Error} If a file cannot be downloaded or read.
+ */
+export async function readExportFiles(urls: string[], options: ReadExportOptions): Promise<ExportData> {
+  const columns = new Set<string>();
+  const rows: Record<string, unknown>[] = [];
+  let format: ExportFileFormat | undefined = options.format;
+  let compression: ExportCompression | undefined = options.compression;
+  let bytes = 0;
+
+  for (const [index, url] of urls.entries()) {
+    const data = await downloadExportFile(url, options.hosts, options.signal);
+    const fileCompression = options.compression ?? detectCompression(data, url);
+    const content = decompressExportFile(data, fileCompression);
+    bytes += content.length;
+    checkDecompressedSize(bytes);
+
+    const text = content.toString('utf8');
+    const fileFormat = options.format ?? detectExportFormat(text, url);
+    if (format && fileFormat !== format) {
+      throw new Error(`The files of the export have different formats: ${format} and ${fileFormat}.`);
+    }
+    format = fileFormat;
+    compression ??= fileCompression;
+    let records: ExportRecords;
+    try {
+      records = parseExportFile(text, fileFormat);
+    } catch (error) {
+      throw new Error(`Could not read ${urls.length > 1 ? `file ${index + 1} of the export` : 'the export file'} as ${fileFormat.toUpperCase()}: ${(error as Error).message}`);
+    }
+    records.columns.forEach((column) => columns.add(column));
+    for (const row of records.rows) {
+      rows.push(row);
+    }
+    await options.onFile?.(index + 1);
+  }
+
+  return {
+    urls,
+    format: format ?? 'csv',
+    compression: compression ?? 'none',
+    columns: summarizeColumns([...columns], rows),
+    rows,
+    bytes
+  };
+}
+
+/**
+ * Estimates the memory the rows of an export take once parsed: much more than their text, since
+ * every cell is a string of its own, kept as two bytes per character unless it is Latin-1, and a
+ * property of the object of its row.
+ * @param data The rows, columns and size of the export.
+ * @returns The estimated memory, in bytes.
+ */
+export function estimateExportMemory(data: Pick<ExportData, 'rows' | 'columns' | 'bytes'>): number {
+  return data.bytes * 2 + data.rows.length * Math.max(data.columns.length, 1) * CELL_MEMORY_BYTES;
+}
+
+/**
+ * Formats a size in bytes as megabytes, rounded up.
+ */
+function formatMegabytes(bytes: number): string {
+  return `${Math.ceil(bytes / 1024 / 1024)} MB`;
+}
+
+/**
+ * The limits of an `ExportDataStore`.
+ */
+export interface ExportDataLimits {
+  /**
+   * The number of exports kept for each session. Defaults to `MAX_EXPORT_DATASETS`.
+   */
+  maxDatasets?: number;
+
+  /**
+   * The most memory, in bytes, exports are kept in for each session, as estimated by
+   * `estimateExportMemory`. Defaults to `MAX_SESSION_EXPORT_BYTES`.
+   */
+  maxSessionBytes?: number;
+
+  /**
+   * The most memory, in bytes, exports are kept in for all sessions, as estimated by
+   * `estimateExportMemory`. Defaults to `MAX_EXPORT_STORE_BYTES`.
+   */
+  maxBytes?: number;
+
+  /**
+   * How long, in milliseconds, an export that is no longer read is kept. Defaults to `EXPORT_DATA_IDLE_MS`.
+   */
+  idleMs?: number;
+}
+
+/**
+ * Keeps the downloaded exports of every session in memory. Each session keeps up to `maxDatasets`
+ * exports in up to `maxSessionBytes` of memory, its oldest exports making room for new ones, and the
+ * sessions together up to `maxBytes`. The memory of an export is estimated from its rows and columns. Exports that are not read for `idleMs` are dropped when
+ * room is needed; a session never drops the exports of another that is still reading them.
+ */
+export class ExportDataStore {
+  private readonly datasets = new Map<string, ExportDataset>();
+  private readonly usedAt = new Map<string, number>();
+  private readonly sizes = new Map<string, number>();
+  private readonly maxDatasets: number;
+  private readonly maxSessionBytes: number;
+  private readonly maxBytes: number;
+  private readonly idleMs: number;
+  private nextId = 1;
+
+  /**
+   * @param limits The limits of the store.
+   */
+  constructor(limits: ExportDataLimits = {}) {
+    this.maxDatasets = limits.maxDatasets ?? MAX_EXPORT_DATASETS;
+    this.maxSessionBytes = limits.maxSessionBytes ?? MAX_SESSION_EXPORT_BYTES;
+    this.maxBytes = limits.maxBytes ?? MAX_EXPORT_STORE_BYTES;
+    this.idleMs = limits.idleMs ?? EXPORT_DATA_IDLE_MS;
+  }
+
+  /**
+   * Keeps a downloaded export for the session of the current request, dropping the oldest exports of
+   * the session, and those no longer read by any session, to make room for it.
+   * @param data The downloaded export.
+   * @param jobId The export job the files belong to, if any.
+   * @returns The export, with its ID.
+   * @throws {Error} If the export is larger than a session may keep, or the store has no room for it.
+   */
+  add(data: ExportData, jobId?: string): ExportDataset {
+    const size = estimateExportMemory(data);
+    if (size > this.maxSessionBytes) {
+      throw new Error(`The export takes about ${formatMegabytes(size)} of memory once read, more than the ${formatMegabytes(this.maxSessionBytes)} a session can keep. Export fewer rows or columns.`);
+    }
+    const sessionId = getRequestContext()?.sessionId;
+    const session = [...this.datasets.values()].filter((dataset) => dataset.session_id === sessionId);
+    let sessionBytes = session.reduce((sum, dataset) => sum + this.sizes.get(dataset.id)!, 0);
+    while (session.length >= this.maxDatasets || sessionBytes + size > this.maxSessionBytes) {
+      const oldest = session.shift()!;
+      sessionBytes -= this.sizes.get(oldest.id)!;
+      this.delete(oldest.id);
+    }
+    const idleBefore = Date.now() - this.idleMs;
+    for (const [id, usedAt] of this.usedAt) {
+      if (this.getTotalBytes() + size <= this.maxBytes) {
+        break;
+      }
+      if (usedAt < idleBefore) {
+        this.delete(id);
+      }
+    }
+    if (this.getTotalBytes() + size > this.maxBytes) {
+      throw new Error(`The server is keeping as many downloaded exports as it has memory for (${formatMegabytes(this.maxBytes)}), so the export cannot be kept. Try again later, or export fewer rows or columns.`);
+    }
+
+    const id = `export-${this.nextId++}`;
+    const dataset: ExportDataset = {
+      id,
+      uri: EXPORT_DATA_RESOURCE_URI.replace('{id}', id),
+      ...data,
+      ...(jobId ? { job_id: jobId } : {}),
+      ...(sessionId ? { session_id: sessionId } : {}),
+      created_at: new Date().toISOString()
+    };
+    this.datasets.set(id, dataset);
+    this.usedAt.set(id, Date.now());
+    this.sizes.set(id, size);
+    return dataset;
+  }
+
+  /**
+   * Returns a downloaded export of the session of the current request.
+   * @param id The ID of the export.
+   * @returns The export.
+   * @throws {Error} If the session has no export with that ID.
+   */
+  get(id: string): ExportDataset {
+    const dataset = this.datasets.get(id);
+    if (!dataset || dataset.session_id !== getRequestContext()?.sessionId) {
+      throw new Error(`There is no downloaded export ${id} in this session. Use branch_download_export to download one.`);
+    }
+    // Reading an export moves it to the end, so that idle exports are dropped first.
+    this.usedAt.delete(id);
+    this.usedAt.set(id, Date.now());
+    return dataset;
+  }
+
+  /**
+   * Returns the most recent download of the files of an export job in the session of the current request.
+   * @param jobId The ID of the export job.
+   * @returns The export, if the files of the job were downloaded.
+   */
+  findByJob(jobId: string): ExportDataset | undefined {
+    return this.list().find((dataset) => dataset.job_id === jobId);
+  }
+
+  /**
+   * Lists the downloaded exports of the session of the current request, the most recent first.
+   * @returns The exports.
+   */
+  list(): ExportDataset[] {
+    const sessionId = getRequestContext()?.sessionId;
+    return [...this.datasets.values()].filter((dataset) => dataset.session_id === sessionId).reverse();
+  }
+
+  private getTotalBytes(): number {
+    let total = 0;
+    for (const size of this.sizes.values()) {
+      total += size;
+    }
+    return total;
+  }
+
+  private delete(id: string): void {
+    this.datasets.delete(id);
+    this.usedAt.delete(id);
+    this.sizes.delete(id);
+  }
+}
@@ -0,0 +1,267 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runWithRequestContext } from './context.js';
+import { BranchApiError } from './errors.js';
+import { ExportJobManager, FileExportJobStore, getExportJobState, getExportScope } from './export-jobs.js';
+import type { ExportJob, ExportStatusReader } from './export-jobs.js';
+
+describe('getExportJobState', () => {
+  it('should read the statuses of the different export APIs', () => {
+    expect(getExportJobState('COMPLETED')).toBe('completed');
+    expect(getExportJobState('complete')).toBe('completed');
+    expect(getExportJobState('FAILED')).toBe('failed');
+    expect(getExportJobState('PENDING')).toBe('running');
+    expect(getExportJobState(undefined)).toBe('running');
+  });
+});
+
+describe('getExportScope', () => {
+  it('should keep the App ID or Organization ID of the parameters', () => {
+    expect(getExportScope({ app_id: '123', organization_id: '', limit: 10 })).toEqual({ app_id: '123' });
+    expect(getExportScope({ organization_id: '456', app_id: 7 })).toEqual({ organization_id: '456' });
+  });
+});
+
+describe('ExportJobManager', () => {
+  let now: number;
+  let sleeps: number[];
+  let jobs: ExportJobManager;
+
+  /**
+   * Tracks a job whose status the reader returns, whatever its kind.
+   */
+  const track = (manager: ExportJobManager, type: ExportJob['type'], id: string, read: () => Promise<Record<string, unknown>>) => {
+    manager.setStatusReader(type, () => read());
+    return manager.track(type, id, { app_id: '123' }, 'api_key');
+  };
+
+  beforeEach(() => {
+    now = Date.parse('2025-06-01T00:00:00Z');
+    sleeps = [];
+    jobs = new ExportJobManager({
+      now: () => now,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+        now += ms;
+      }
+    });
+  });
+
+  it('should poll a job less and less often until it has finished', async () => {
+    const read = jest.fn<() => Promise<Record<string, unknown>>>()
+      .mockResolvedValueOnce({ status: 'PENDING' })
+      .mockResolvedValueOnce({ status: 'RUNNING' })
+      .mockResolvedValue({ status: 'COMPLETED', url: 'https://example.com/export.csv' });
+    await track(jobs, 'aggregate', 'job-1', read);
+    const polled: string[] = [];
+
+    const { job, timedOut } = await jobs.wait('job-1', {
+      timeoutMs: 60 * 1000,
+      onPoll: async (current) => {
+        polled.push(current.state);
+      }
+    });
+
+    expect(timedOut).toBe(false);
+    expect(sleeps).toEqual([2000, 4000, 8000]);
+    expect(polled).toEqual(['running', 'running', 'completed']);
+    expect(job).toMatchObject({ id: 'job-1', type: 'aggregate', state: 'completed', status: 'COMPLETED', polls: 3, result: { url: 'https://example.com/export.csv' } });
+  });
+
+  it('should return a job that is still running when the timeout elapses', async () => {
+    await track(jobs, 'cohort', 'job-1', async () => ({ status: 'PENDING' }));
+    const { job, timedOut } = await jobs.wait('job-1', { timeoutMs: 10 * 1000 });
+
+    expect(timedOut).toBe(true);
+    expect(job).toMatchObject({ state: 'running', polls: 2 });
+    expect(sleeps).toEqual([2000, 4000, 4000]);
+  });
+
+  it('should keep polling after a temporary failure, and fail the job on any other', async () => {
+    const read = jest.fn<() => Promise<Record<string, unknown>>>()
+      .mockRejectedValueOnce(new BranchApiError('Branch API error: 503', { status: 503 }))
+      .mockRejectedValueOnce(new BranchApiError('Branch API error: 404 Not Found', { status: 404 }));
+    await track(jobs, 'custom', 'handle-1', read);
+    const { job } = await jobs.wait('handle-1', { timeoutMs: 60 * 1000 });
+
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(job).toMatchObject({ state: 'failed', error: 'Branch API error: 404 Not Found', polls: 2 });
+  });
+
+  it('should share the polls of the calls waiting for the same job', async () => {
+    const read = jest.fn(async () => ({ status: 'FAILED' }));
+    await track(jobs, 'cross_event', 'job-1', read);
+    const [first, second] = await Promise.all([jobs.wait('job-1', { timeoutMs: 5000 }), jobs.wait('job-1', { timeoutMs: 5000 })]);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(first.job).toMatchObject({ state: 'failed', error: 'Branch reported the export as FAILED.' });
+    expect(second.job.state).toBe('failed');
+  });
+
+  it('should end the calls waiting for a job when it is cancelled', async () => {
+    const controller = new AbortController();
+    const waiting = new ExportJobManager({ sleep: (_ms, signal) => new Promise((resolve) => signal.addEventListener('abort', () => resolve())) });
+    await track(waiting, 'aggregate', 'job-1', async () => ({ status: 'PENDING' }));
+    const wait = waiting.wait('job-1', { timeoutMs: 60 * 1000, signal: controller.signal });
+
+    await expect(waiting.cancel('job-1')).resolves.toMatchObject({ state: 'cancelled' });
+    await expect(wait).resolves.toMatchObject({ job: { state: 'cancelled' }, timedOut: false });
+    await expect(waiting.cancel('job-1')).rejects.toThrow('The export job job-1 has already been cancelled.');
+
+    await track(waiting, 'aggregate', 'job-2', async () => ({ status: 'PENDING' }));
+    const aborted = waiting.wait('job-2', { timeoutMs: 60 * 1000, signal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toThrow();
+  });
+
+  it('should keep the jobs of every session to that session', async () => {
+    await runWithRequestContext({ sessionId: 'session-1' }, () => track(jobs, 'aggregate', 'job-1', async () => ({})));
+    await runWithRequestContext({ sessionId: 'session-1' }, () => track(jobs, 'cohort', 'job-2', async () => ({})));
+    await runWithRequestContext({ sessionId: 'session-2' }, () => track(jobs, 'custom', 'job-3', async () => ({})));
+
+    const list = await runWithRequestContext({ sessionId: 'session-1' }, () => jobs.list());
+    expect(list.map((job: ExportJob) => job.id)).toEqual(['job-2', 'job-1']);
+    expect(list[0]).toMatchObject({
+      session_id: 'session-1',
+      state: 'running',
+      params: { app_id: '123' },
+      polls: 0,
+      created_at: '2025-06-01T00:00:00.000Z',
+      expires_at: '2025-06-08T00:00:00.000Z'
+    });
+    await expect(runWithRequestContext({ sessionId: 'session-2' }, () => jobs.get('job-1'))).rejects.toThrow('There is no export job job-1 in this session.');
+    await expect(jobs.cancel('job-3')).rejects.toThrow('There is no export job job-3 in this session.');
+    await expect(jobs.list()).resolves.toEqual([]);
+    await expect(jobs.list({ app_id: '123' })).resolves.toHaveLength(3);
+  });
+
+  it('should only list the jobs of other sessions for the same app or organization', async () => {
+    jobs.setStatusReader('custom', async () => ({}));
+    jobs.setStatusReader('cohort', async () => ({}));
+    await runWithRequestContext({ sessionId: 'session-1' }, () => track(jobs, 'aggregate', 'job-1', async () => ({})));
+    await runWithRequestContext({ sessionId: 'session-2' }, () => jobs.track('custom', 'job-2', { organization_id: '456' }, 'api_key'));
+    await runWithRequestContext({ sessionId: 'session-3' }, () => jobs.track('cohort', 'job-3', { app_id: '999' }, 'api_key'));
+
+    const list = (scope: { app_id?: string; organization_id?: string }) => runWithRequestContext({ sessionId: 'session-3' }, async () => (await jobs.list(scope)).map((job) => job.id));
+    await expect(list({})).resolves.toEqual(['job-3']);
+    await expect(list({ app_id: '123' })).resolves.toEqual(['job-3', 'job-1']);
+    await expect(list({ app_id: '777', organization_id: '456' })).resolves.toEqual(['job-3', 'job-2']);
+  });
+
+  it('should leave out the results of the jobs of other sessions when listing every session', async () => {
+    await runWithRequestContext({ sessionId: 'session-1' }, async () => {
+      await track(jobs, 'aggregate', 'job-1', async () => ({ status: 'COMPLETED', url: 'https://example.com/export.csv' }));
+      await jobs.wait('job-1', { timeoutMs: 5000 });
+    });
+
+    const [job] = await runWithRequestContext({ sessionId: 'session-2' }, () => jobs.list({ app_id: '123' }));
+    expect(job).toMatchObject({ id: 'job-1', state: 'completed', status: 'COMPLETED' });
+    expect(job.result).toBeUndefined();
+  });
+
+  it('should attach a session to a job of another session with its own credentials', async () => {
+    const read = jest.fn<ExportStatusReader>(async () => ({ status: 'PENDING' }));
+    jobs.setStatusReader('cohort', read);
+    await runWithRequestContext({ sessionId: 'session-1' }, () => jobs.track('cohort', 'job-1', { app_id: '123', limit: 10 }, 'key-1'));
+
+    const waiting = runWithRequestContext({ sessionId: 'session-1' }, () => jobs.wait('job-1', { timeoutMs: 1000 }));
+    const job = await runWithRequestContext({ sessionId: 'session-2' }, () => jobs.attach('job-1', { params: { app_id: '999' }, apiKey: 'key-2' }));
+    expect(read).toHaveBeenCalledWith('job-1', { app_id: '123', limit: 10 }, 'key-2');
+    expect(job).toMatchObject({ session_id: 'session-1', attached_session_ids: ['session-2'], status: 'PENDING', polls: 1, params: { app_id: '123', limit: 10 } });
+
+    // The session that requested the job keeps it.
+    await expect(waiting).resolves.toMatchObject({ timedOut: true });
+    await expect(runWithRequestContext({ sessionId: 'session-1' }, () => jobs.get('job-1'))).resolves.toMatchObject({ id: 'job-1' });
+    await expect(runWithRequestContext({ sessionId: 'session-2' }, () => jobs.list())).resolves.toMatchObject([{ id: 'job-1', result: { status: 'PENDING' } }]);
+    await runWithRequestContext({ sessionId: 'session-2' }, () => jobs.attach('job-1', { params: {}, apiKey: 'key-2' }));
+    await runWithRequestContext({ sessionId: 'session-1' }, () => jobs.attach('job-1', { params: {}, apiKey: 'key-1' }));
+    await expect(runWithRequestContext({ sessionId: 'session-3' }, () => jobs.get('job-1'))).rejects.toThrow('There is no export job job-1 in this session.');
+    await expect(runWithRequestContext({ sessionId: 'session-1' }, () => jobs.get('job-1'))).resolves.toMatchObject({ attached_session_ids: ['session-2'] });
+  });
+
+  it('should resume a cancelled job when a session attaches to it', async () => {
+    await track(jobs, 'aggregate', 'job-1', async () => ({ status: 'PENDING' }));
+    await jobs.cancel('job-1');
+
+    await expect(jobs.attach('job-1', { params: {}, apiKey: 'key' })).resolves.toMatchObject({ state: 'running', status: 'PENDING' });
+    await expect(jobs.wait('job-1', { timeoutMs: 1000 })).resolves.toMatchObject({ timedOut: true });
+    await expect(jobs.cancel('job-1')).resolves.toMatchObject({ state: 'cancelled' });
+  });
+
+  it('should attach to a job the registry does not know, given its type', async () => {
+    jobs.setStatusReader('custom', async () => ({ status: 'COMPLETED' }));
+    await expect(jobs.attach('handle-1', { params: {}, apiKey: 'key' })).rejects.toThrow('The export job handle-1 is not in the registry. Give its type to attach to it.');
+    await expect(jobs.attach('job-1', { type: 'aggregate', params: {}, apiKey: 'key' })).rejects.toThrow('The status of aggregate exports cannot be read by this server.');
+
+    await expect(jobs.attach('handle-1', { type: 'custom', params: { organization_id: '456' }, apiKey: 'key' })).resolves.toMatchObject({
+      id: 'handle-1',
+      type: 'custom',
+      state: 'completed',
+      params: { organization_id: '456' }
+    });
+  });
+
+  it('should not attach to a job whose status cannot be read', async () => {
+    jobs.setStatusReader('aggregate', async () => {
+      throw new BranchApiError('Branch API error: 403 Forbidden', { status: 403 });
+    });
+    await expect(jobs.attach('job-1', { type: 'aggregate', params: { app_id: '123' }, apiKey: 'key' })).rejects.toThrow('403 Forbidden');
+    await expect(jobs.list({ app_id: '123' })).resolves.toEqual([]);
+  });
+
+  it('should remove the jobs that have expired', async () => {
+    const expiring = new ExportJobManager({ now: () => now, ttlMs: 60 * 1000 });
+    await track(expiring, 'aggregate', 'job-1', async () => ({}));
+    now += 30 * 1000;
+    await track(expiring, 'aggregate', 'job-2', async () => ({}));
+    now += 30 * 1000;
+
+    await expect(expiring.list()).resolves.toMatchObject([{ id: 'job-2' }]);
+  });
+});
+
+describe('FileExportJobStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'export-jobs-'));
+    file = join(dir, 'registry', 'export-jobs.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the jobs, without credentials, across restarts', async () => {
+    const first = new ExportJobManager({ store: new FileExportJobStore(file) });
+    first.setStatusReader('aggregate', async () => ({ status: 'PENDING' }));
+    await runWithRequestContext({ sessionId: 'session-1' }, () => first.track('aggregate', 'job-1', { app_id: '123', data_source: 'eo_install' }, 'secret_key'));
+    expect(await readFile(file, 'utf8')).not.toContain('secret_key');
+
+    const read = jest.fn<ExportStatusReader>(async () => ({ status: 'COMPLETED', url: 'https://example.com/export.csv' }));
+    const second = new ExportJobManager({ store: new FileExportJobStore(file), sleep: async () => undefined });
+    second.setStatusReader('aggregate', read);
+    await runWithRequestContext({ sessionId: 'session-1' }, async () => {
+      await expect(second.list()).resolves.toMatchObject([{ id: 'job-1', type: 'aggregate', state: 'running', params: { data_source: 'eo_install' } }]);
+      await expect(second.wait('job-1', { timeoutMs: 5000 })).rejects.toThrow('The export job job-1 was requested before the server restarted. Use branch_attach_export_job to attach to it again.');
+
+      await second.attach('job-1', { params: {}, apiKey: 'new_key' });
+      expect(read).toHaveBeenCalledWith('job-1', { app_id: '123', data_source: 'eo_install' }, 'new_key');
+    });
+
+    const saved = JSON.parse(await readFile(file, 'utf8')) as ExportJob[];
+    expect(saved).toMatchObject([{ id: 'job-1', state: 'completed', status: 'COMPLETED', session_id: 'session-1' }]);
+  });
+
+  it('should start with an empty registry if the file is missing or unreadable', async () => {
+    const store = new FileExportJobStore(file);
+    await expect(store.load()).resolves.toEqual([]);
+
+    await store.save([]);
+    await writeFile(file, 'not json');
+    await expect(store.load()).resolves.toEqual([]);
+  });
+});
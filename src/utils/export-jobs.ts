@@ -0,0 +1,658 @@
+/**
+ * @file This file implements the tracking of asynchronous data export jobs.
+ *
+ * The aggregate, cohort, custom and cross-event exports are jobs: Branch returns an ID when one is
+ * requested, and the export is ready some minutes later. Rather than leave an agent to call the
+ * status tool of each export again and again, the tools that request exports track their jobs in
+ * an `ExportJobManager`, and `wait` polls a job until it is finished, has failed, or a timeout
+ * elapses. Each export API gives the manager an `ExportStatusReader` that reads the status of its
+ * jobs.
+ *
+ * A job is polled only while a call waits for it, so that exports nobody waits for cost no
+ * requests. The delay between polls starts at `INITIAL_POLL_DELAY_MS` and doubles up to
+ * `MAX_POLL_DELAY_MS`; calls waiting for the same job share its polls. A temporary failure of a
+ * poll is recorded on the job and retried at the next poll, while any other failure fails the job.
+ * Jobs belong to the MCP session that requested them and to the sessions attached to them: a
+ * session only sees and cancels its own.
+ * Branch cannot cancel an export, so cancelling a job stops the server polling it and ends the
+ * calls waiting for it.
+ *
+ * Jobs are kept in a registry, in memory or in a JSON file that survives restarts (see
+ * `FileExportJobStore`), with the parameters of the export, its session and its last known status,
+ * until they expire. Credentials are never kept in the registry: a job read back from the file,
+ * or requested in another session, cannot be polled until a session attaches to it with `attach`,
+ * whose credentials must be able to read its status.
+ */
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { BranchResponseData } from './branch-client.js';
+import { getRequestContext } from './context.js';
+import { getErrorMessage, toToolError } from './errors.js';
+import logger from './logger.js';
+
+/**
+ * The delay, in milliseconds, before a job is first polled. It doubles after every poll.
+ */
+export const INITIAL_POLL_DELAY_MS = 2000;
+
+/**
+ * The longest delay, in milliseconds, between two polls of a job.
+ */
+export const MAX_POLL_DELAY_MS = 30 * 1000;
+
+/**
+ * The default time, in milliseconds, jobs are kept in the registry after they are requested (7 days).
+ */
+export const DEFAULT_EXPORT_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * The kinds of export jobs.
+ */
+export const EXPORT_TYPES = ['aggregate', 'cohort', 'custom', 'cross_event'] as const;
+
+export type ExportType = typeof EXPORT_TYPES[number];
+
+/**
+ * The state of an export job:
+ * - `running`: Branch is preparing the export, or it has not been polled yet.
+ * - `completed`: the export is ready; `result` holds the status Branch returned, with its download URL.
+ * - `failed`: Branch failed the export, or its status could not be read; `error` tells why.
+ * - `cancelled`: the job was cancelled, and is no longer polled.
+ */
+export type ExportJobState = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * An export job, as kept in the registry and reported to clients.
+ */
+export interface ExportJob {
+  /**
+   * The ID Branch gave the job: the `job_id` or, for custom exports, the `request_handle`.
+   */
+  id: string;
+  type: ExportType;
+  state: ExportJobState;
+
+  /**
+   * The parameters the export was requested with, without credentials. The `app_id` or
+   * `organization_id` among them is used to read its status.
+   */
+  params: Record<string, unknown>;
+
+  /**
+   * The status Branch last returned for the job, such as `PENDING` or `COMPLETED`.
+   */
+  status?: string;
+
+  /**
+   * The status response Branch last returned for the job.
+   */
+  result?: BranchResponseData;
+
+  /**
+   * Why the job failed, or why its last poll failed.
+   */
+  error?: string;
+
+  /**
+   * The number of times the status of the job was read.
+   */
+  polls: number;
+
+  /**
+   * The ID of the MCP session that requested the job, if the transport has sessions.
+   */
+  session_id?: string;
+
+  /**
+   * The IDs of the other MCP sessions attached to the job, which share it with the session that requested it.
+   */
+  attached_session_ids?: string[];
+  created_at: string;
+  updated_at: string;
+
+  /**
+   * When the job is removed from the registry.
+   */
+  expires_at: string;
+}
+
+/**
+ * Settings for the export job registry.
+ */
+export interface ExportJobsConfig {
+  /**
+   * The path of a JSON file the jobs are kept in. They are kept in memory if not set.
+   */
+  file?: string;
+
+  /**
+   * How long, in milliseconds, jobs are kept after they are requested.
+   */
+  ttl_ms: number;
+}
+
+/**
+ * Reads the status of a job of one kind from Branch.
+ * @param id The ID of the job.
+ * @param params The parameters the export was requested with.
+ * @param apiKey The Branch API Key to read the status with.
+ */
+export type ExportStatusReader = (id: string, params: Record<string, unknown>, apiKey: string) => Promise<BranchResponseData>;
+
+/**
+ * Keeps the jobs of the registry.
+ */
+export interface ExportJobStore {
+  /**
+   * Returns the jobs that were kept.
+   */
+  load(): Promise<ExportJob[]>;
+
+  /**
+   * Keeps the jobs, replacing those kept before.
+   */
+  save(jobs: ExportJob[]): Promise<void>;
+}
+
+/**
+ * An `ExportJobStore` that keeps jobs in a JSON file, so that they survive restarts. The file is
+ * replaced atomically on every change, and writes are serialized.
+ */
+export class FileExportJobStore implements ExportJobStore {
+  private readonly path: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path The path of the file.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<ExportJob[]> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as ExportJob[];
+    } catch (error) {
+      // Losing the registry only loses the jobs of earlier runs, so the server carries on.
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Could not read the export job registry', { file: this.path, error: getErrorMessage(error) });
+      }
+      return [];
+    }
+  }
+
+  save(jobs: ExportJob[]): Promise<void> {
+    const contents = JSON.stringify(jobs, null, 2);
+    const write = this.queue.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(`${this.path}.tmp`, contents, { mode: 0o600 });
+      await rename(`${this.path}.tmp`, this.path);
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Options for `ExportJobManager.wait`.
+ */
+export interface ExportWaitOptions {
+  /**
+   * How long to wait, in milliseconds, before returning a job that is still running.
+   */
+  timeoutMs: number;
+
+  /**
+   * Stops waiting, failing the call.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after every poll of the job.
+   */
+  onPoll?: (job: ExportJob) => Promise<void>;
+}
+
+/**
+ * Waits for a time, or until the signal is aborted.
+ */
+export type AbortableSleep = (ms: number, signal: AbortSignal) => Promise<void>;
+
+/**
+ * Options for creating an `ExportJobManager`.
+ */
+export interface ExportJobManagerOptions {
+  /**
+   * The store the registry is kept in. The registry is only kept in memory if not given.
+   */
+  store?: ExportJobStore;
+
+  /**
+   * How long, in milliseconds, jobs are kept after they are requested.
+   */
+  ttlMs?: number;
+
+  /**
+   * Waits between polls. Replaceable in tests.
+   */
+  sleep?: AbortableSleep;
+
+  /**
+   * Returns the current time. Replaceable in tests.
+   */
+  now?: () => number;
+}
+
+const COMPLETED_STATUSES = new Set(['completed', 'complete', 'succeeded', 'success', 'finished', 'done', 'ready']);
+const FAILED_STATUSES = new Set(['failed', 'failure', 'error', 'errored', 'cancelled', 'canceled', 'expired']);
+
+/**
+ * Works out the state of a job from the status Branch returned for it.
+ * @param status The status, such as `PENDING`, `complete` or `FAILED`.
+ * @returns The state of the job.
+ */
+export function getExportJobState(status: unknown): ExportJobState {
+  const normalized = typeof status === 'string' ? status.trim().toLowerCase() : '';
+  if (COMPLETED_STATUSES.has(normalized)) {
+    return 'completed';
+  }
+  return FAILED_STATUSES.has(normalized) ? 'failed' : 'running';
+}
+
+/**
+ * Returns the App ID or Organization ID among the parameters of an export, which its status is read for.
+ * @param params The parameters the export was requested with.
+ * @returns The App ID or Organization ID.
+ */
+export function getExportScope(params: Record<string, unknown>): { app_id?: string; organization_id?: string } {
+  const { app_id, organization_id } = params;
+  return {
+    ...(typeof app_id === 'string' && app_id ? { app_id } : {}),
+    ...(typeof organization_id === 'string' && organization_id ? { organization_id } : {})
+  };
+}
+
+const defaultSleep: AbortableSleep = (ms, signal) => new Promise((resolve) => {
+  if (signal.aborted) {
+    resolve();
+    return;
+  }
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', done);
+    resolve();
+  }
+  signal.addEventListener('abort', done);
+});
+
+/**
+ * Whether a job belongs to a session: the one that requested it or one attached to it.
+ */
+function isOfSession(job: ExportJob, sessionId: string | undefined): boolean {
+  return job.session_id === sessionId || (sessionId !== undefined && job.attached_session_ids?.includes(sessionId) === true);
+}
+
+/**
+ * A job of the registry, with what the manager needs to poll it.
+ */
+interface TrackedJob {
+  job: ExportJob;
+
+  /**
+   * Reads the status of the job with the credentials of the session it belongs to. Jobs read back
+   * from the store have none until a session attaches to them.
+   */
+  read?: () => Promise<BranchResponseData>;
+  nextPollAt: number;
+  delayMs: number;
+  polling?: Promise<void>;
+
+  /**
+   * Aborted when the job is cancelled, to end the calls waiting for it.
+   */
+  cancelled: AbortController;
+}
+
+/**
+ * Tracks the export jobs requested through the server, and polls them for the calls that wait for them.
+ */
+export class ExportJobManager {
+  private readonly jobs = new Map<string, TrackedJob>();
+  private readonly readers = new Map<ExportType, ExportStatusReader>();
+  private readonly store?: ExportJobStore;
+  private readonly ttlMs: number;
+  private readonly sleep: AbortableSleep;
+  private readonly now: () => number;
+  private loaded?: Promise<void>;
+
+  /**
+   * @param options The store and time to live of the registry.
+   */
+  constructor(options: ExportJobManagerOptions = {}) {
+    this.store = options.store;
+    this.ttlMs = options.ttlMs ?? DEFAULT_EXPORT_JOB_TTL_MS;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Sets how the status of the jobs of a kind is read.
+   * @param type The kind of export.
+   * @param reader Reads the status of a job.
+   */
+  setStatusReader(type: ExportType, reader: ExportStatusReader): void {
+    this.readers.set(type, reader);
+  }
+
+  /**
+   * Starts tracking a job for the session of the current request.
+   * @param type The kind of export.
+   * @param id The ID Branch gave the job.
+   * @param params The parameters the export was requested with, without credentials.
+   * @param apiKey The Branch API Key to read its status with. It is not kept in the registry.
+   * @returns The job.
+   */
+  async track(type: ExportType, id: string, params: Record<string, unknown>, apiKey: string): Promise<ExportJob> {
+    await this.load();
+    const now = new Date(this.now()).toISOString();
+    const sessionId = getRequestContext()?.sessionId;
+    const tracked = this.add({
+      id,
+      type,
+      state: 'running',
+      params,
+      polls: 0,
+      ...(sessionId ? { session_id: sessionId } : {}),
+      created_at: now,
+      updated_at: now,
+      expires_at: new Date(this.now() + this.ttlMs).toISOString()
+    });
+    tracked.read = this.createReader(type, id, params, apiKey);
+    logger.info('Tracking export job', { jobId: id, type, sessionId });
+    await this.save();
+    return { ...tracked.job };
+  }
+
+  /**
+   * Lists the jobs of the session of the current request, the most recent first.
+   * @param scope The App ID and Organization ID of the credentials of the session, to also list
+   * the jobs other sessions requested for the same app or organization. The results of those jobs,
+   * which hold their download URLs, are left out.
+   * @returns The jobs.
+   */
+  async list(scope?: { app_id?: string; organization_id?: string }): Promise<ExportJob[]> {
+    await this.load();
+    this.prune();
+    const sessionId = getRequestContext()?.sessionId;
+    const isInScope = (job: ExportJob) => {
+      const jobScope = getExportScope(job.params);
+      return (scope?.app_id !== undefined && jobScope.app_id === scope.app_id)
+        || (scope?.organization_id !== undefined && jobScope.organization_id === scope.organization_id);
+    };
+    return [...this.jobs.values()]
+      .filter(({ job }) => isOfSession(job, sessionId) || isInScope(job))
+      .map(({ job }) => {
+        if (isOfSession(job, sessionId)) {
+          return { ...job };
+        }
+        const { result: _result, ...rest } = job;
+        return rest;
+      })
+      .reverse();
+  }
+
+  /**
+   * Returns a job of the session of the current request.
+   * @param id The ID of the job.
+   * @returns The job.
+   * @throws {Error} If the session has no job with that ID.
+   */
+  async get(id: string): Promise<ExportJob> {
+    return { ...(await this.find(id)).job };
+  }
+
+  /**
+   * Cancels a job of the session of the current request. Calls waiting for it return at once.
+   * @param id The ID of the job.
+   * @returns The job.
+   * @throws {Error} If the session has no job with that ID, or the job has finished.
+   */
+  async cancel(id: string): Promise<ExportJob> {
+    const tracked = await this.find(id);
+    if (tracked.job.state !== 'running') {
+      throw new Error(`The export job ${id} has already ${tracked.job.state === 'cancelled' ? 'been cancelled' : tracked.job.state}.`);
+    }
+    this.update(tracked, { state: 'cancelled' });
+    tracked.cancelled.abort();
+    logger.info('Cancelled export job', { jobId: id });
+    await this.save();
+    return { ...tracked.job };
+  }
+
+  /**
+   * Attaches the session of the current request to a job: one requested in another session or
+   * before the server restarted, or one the registry does not know, given its kind. The status of
+   * the job is read with the given credentials, which must be allowed to read it. The job is shared
+   * with the sessions it already belonged to, and a cancelled job is resumed, since Branch kept
+   * running it.
+   * @param id The ID of the job.
+   * @param options The kind of the job, if the registry does not know it, the parameters to read
+   * its status with, if the registry has none, and the Branch API Key to read its status with.
+   * @returns The job, with its current status.
+   * @throws {Error} If the kind of the job is not known, or its status cannot be read.
+   */
+  async attach(id: string, options: { type?: ExportType; params: Record<string, unknown>; apiKey: string }): Promise<ExportJob> {
+    await this.load();
+    const existing = this.jobs.get(id);
+    const type = existing?.job.type ?? options.type;
+    if (!type) {
+      throw new Error(`The export job ${id} is not in the registry. Give its type to attach to it.`);
+    }
+    const params = existing && Object.keys(existing.job.params).length > 0 ? existing.job.params : options.params;
+    const read = this.createReader(type, id, params, options.apiKey);
+    const result = await read();
+
+    const now = new Date(this.now()).toISOString();
+    const sessionId = getRequestContext()?.sessionId;
+    let tracked = existing;
+    if (tracked) {
+      if (!sessionId) {
+        // Without sessions, the job can only be the client's own.
+        const { session_id: _sessionId, attached_session_ids: _attached, ...job } = tracked.job;
+        tracked.job = { ...job, params };
+      } else if (isOfSession(tracked.job, sessionId)) {
+        tracked.job = { ...tracked.job, params };
+      } else {
+        tracked.job = { ...tracked.job, params, attached_session_ids: [...tracked.job.attached_session_ids ?? [], sessionId] };
+      }
+      if (tracked.job.state === 'cancelled') {
+        // The state is read again from Branch below, and the calls waiting for the job can wait again.
+        tracked.cancelled = new AbortController();
+        tracked.nextPollAt = this.now() + INITIAL_POLL_DELAY_MS;
+        tracked.delayMs = INITIAL_POLL_DELAY_MS;
+      }
+      // Attached jobs move to the end, so that the most recent come first when listed.
+      this.jobs.delete(id);
+      this.jobs.set(id, tracked);
+    } else {
+      tracked = this.add({
+        id,
+        type,
+        state: 'running',
+        params,
+        polls: 0,
+        ...(sessionId ? { session_id: sessionId } : {}),
+        created_at: now,
+        updated_at: now,
+        expires_at: new Date(this.now() + this.ttlMs).toISOString()
+      });
+    }
+    tracked.read = read;
+    this.record(tracked, result);
+    logger.info('Attached to export job', { jobId: id, type, sessionId });
+    await this.save();
+    return { ...tracked.job };
+  }
+
+  /**
+   * Polls a job of the session of the current request until it has finished, or the timeout elapses.
+   * @param id The ID of the job.
+   * @param options The timeout, abort signal and poll callback of the call.
+   * @returns The job, and whether the timeout elapsed before it finished.
+   * @throws {Error} If the session has no job with that ID, or cannot poll it, or the call is aborted.
+   */
+  async wait(id: string, options: ExportWaitOptions): Promise<{ job: ExportJob; timedOut: boolean }> {
+    const tracked = await this.find(id);
+    options.signal?.throwIfAborted();
+    if (tracked.job.state === 'running' && !tracked.read) {
+      throw new Error(`The export job ${id} was requested before the server restarted. Use branch_attach_export_job to attach to it again.`);
+    }
+    const deadline = this.now() + options.timeoutMs;
+    const signal = options.signal ? AbortSignal.any([options.signal, tracked.cancelled.signal]) : tracked.cancelled.signal;
+
+    while (tracked.job.state === 'running') {
+      const pollAt = Math.max(tracked.nextPollAt, this.now());
+      if (pollAt > deadline) {
+        await this.sleep(deadline - this.now(), signal);
+        options.signal?.throwIfAborted();
+        return { job: { ...tracked.job }, timedOut: tracked.job.state === 'running' };
+      }
+      await this.sleep(pollAt - this.now(), signal);
+      options.signal?.throwIfAborted();
+      if (tracked.job.state !== 'running') {
+        break;
+      }
+      tracked.polling ??= this.poll(tracked).finally(() => {
+        tracked.polling = undefined;
+      });
+      await tracked.polling;
+      await options.onPoll?.({ ...tracked.job });
+    }
+    return { job: { ...tracked.job }, timedOut: false };
+  }
+
+  private createReader(type: ExportType, id: string, params: Record<string, unknown>, apiKey: string): () => Promise<BranchResponseData> {
+    const reader = this.readers.get(type);
+    if (!reader) {
+      throw new Error(`The status of ${type} exports cannot be read by this server.`);
+    }
+    return () => reader(id, params, apiKey);
+  }
+
+  private add(job: ExportJob): TrackedJob {
+    this.jobs.get(job.id)?.cancelled.abort();
+    this.jobs.delete(job.id);
+    const tracked: TrackedJob = { job, nextPollAt: this.now() + INITIAL_POLL_DELAY_MS, delayMs: INITIAL_POLL_DELAY_MS, cancelled: new AbortController() };
+    this.jobs.set(job.id, tracked);
+    return tracked;
+  }
+
+  private async find(id: string): Promise<TrackedJob> {
+    await this.load();
+    const tracked = this.jobs.get(id);
+    if (!tracked || !isOfSession(tracked.job, getRequestContext()?.sessionId)) {
+      throw new Error(`There is no export job ${id} in this session. Use branch_list_export_jobs to list the jobs, and branch_attach_export_job to attach to a job of another session.`);
+    }
+    return tracked;
+  }
+
+  private update(tracked: TrackedJob, changes: Partial<ExportJob>): void {
+    Object.assign(tracked.job, changes, { updated_at: new Date(this.now()).toISOString() });
+  }
+
+  /**
+   * Records the status Branch returned for a job.
+   */
+  private record(tracked: TrackedJob, result: BranchResponseData): void {
+    const state = getExportJobState(result.status);
+    const { error: _error, status: _status, ...job } = tracked.job;
+    tracked.job = {
+      ...job,
+      state,
+      ...(typeof result.status === 'string' ? { status: result.status } : {}),
+      result,
+      ...(state === 'failed' ? { error: `Branch reported the export as ${result.status}.` } : {}),
+      polls: job.polls + 1,
+      updated_at: new Date(this.now()).toISOString()
+    };
+  }
+
+  /**
+   * Reads the status of a job once, and schedules its next poll.
+   */
+  private async poll(tracked: TrackedJob): Promise<void> {
+    try {
+      const result = await tracked.read!();
+      if (tracked.job.state !== 'running') {
+        return;
+      }
+      this.record(tracked, result);
+    } catch (error) {
+      const { message, retryable } = toToolError(error);
+      if (tracked.job.state !== 'running') {
+        return;
+      }
+      this.update(tracked, { error: message, polls: tracked.job.polls + 1, ...(retryable ? {} : { state: 'failed' }) });
+    }
+    tracked.delayMs = Math.min(tracked.delayMs * 2, MAX_POLL_DELAY_MS);
+    tracked.nextPollAt = this.now() + tracked.delayMs;
+    if (tracked.job.state !== 'running') {
+      logger.info('Export job finished', { jobId: tracked.job.id, state: tracked.job.state, polls: tracked.job.polls });
+    }
+    await this.save();
+  }
+
+  /**
+   * Reads the registry from the store when it is first used.
+   */
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      for (const job of await this.store?.load() ?? []) {
+        if (!this.jobs.has(job.id)) {
+          this.jobs.set(job.id, { job, nextPollAt: this.now(), delayMs: INITIAL_POLL_DELAY_MS, cancelled: new AbortController() });
+        }
+      }
+      this.prune();
+    })();
+    return this.loaded;
+  }
+
+  /**
+   * Removes the expired jobs.
+   */
+  private prune(): void {
+    const now = this.now();
+    for (const [id, tracked] of this.jobs) {
+      if (Date.parse(tracked.job.expires_at) <= now) {
+        tracked.cancelled.abort();
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Writes the registry, without the expired jobs, to the store. A failed write is logged rather
+   * than failing the call, since the jobs are still tracked in memory.
+   */
+  private async save(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+    this.prune();
+    try {
+      await this.store.save([...this.jobs.values()].map(({ job }) => job));
+    } catch (error) {
+      logger.warn('Could not write the export job registry', { error: getErrorMessage(error) });
+    }
+  }
+}
+
+/**
+ * Creates the export job manager the settings describe.
+ * @param config The export job registry settings.
+ * @returns A manager that keeps its registry in a file if one is configured, otherwise in memory.
+ */
+export function createExportJobManager(config: ExportJobsConfig): ExportJobManager {
+  return new ExportJobManager({ store: config.file ? new FileExportJobStore(config.file) : undefined, ttlMs: config.ttl_ms });
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import { summarizeColumns } from './export-files.js';
+import { runExportQuery } from './export-query.js';
+import type { ExportQuery } from './export-query.js';
+
+describe('runExportQuery', () => {
+  const rows = [
+    { timestamp: '1748772000000', os: 'IOS', channel: 'email', installs: '3', revenue: '1.5', user: 'a' },
+    { timestamp: '1748775600000', os: 'IOS', channel: 'sms', installs: '4', revenue: '', user: 'b' },
+    { timestamp: '1748862000000', os: 'ANDROID', channel: 'email', installs: '10', revenue: '2', user: 'a' },
+    { timestamp: '1749376800000', os: 'IOS', channel: 'email', installs: '1', revenue: '0.5', user: 'c' },
+    { timestamp: '1751364000000', os: 'IOS', channel: '', installs: '2', revenue: '', user: 'c' }
+  ];
+  const columns = summarizeColumns(Object.keys(rows[0]), rows);
+  const query = (spec: ExportQuery) => runExportQuery(columns, rows, spec);
+
+  it('should return the matching rows without grouping', () => {
+    expect(query({ filters: [{ column: 'os', op: 'eq', value: 'ANDROID' }], select: ['channel', 'installs'] })).toEqual({
+      columns: ['channel', 'installs'],
+      rows: [['email', '10']],
+      total: 1,
+      truncated: false
+    });
+    expect(query({ limit: 2 })).toMatchObject({ columns: ['timestamp', 'os', 'channel', 'installs', 'revenue', 'user'], total: 5, truncated: true });
+  });
+
+  it('should compare values according to the type of their column', () => {
+    const installs = (spec: ExportQuery) => query({ ...spec, select: ['installs'] }).rows.flat();
+    expect(installs({ filters: [{ column: 'installs', op: 'gt', value: 3 }] })).toEqual(['4', '10']);
+    expect(installs({ filters: [{ column: 'installs', op: 'lte', value: '3' }] })).toEqual(['3', '1', '2']);
+    expect(installs({ filters: [{ column: 'installs', op: 'in', value: [1, '2'] }] })).toEqual(['1', '2']);
+    expect(installs({ filters: [{ column: 'channel', op: 'not_in', value: ['email'] }] })).toEqual(['4', '2']);
+    expect(installs({ filters: [{ column: 'channel', op: 'contains', value: 'MS' }] })).toEqual(['4']);
+    expect(installs({ filters: [{ column: 'channel', op: 'is_empty' }] })).toEqual(['2']);
+    expect(installs({ filters: [{ column: 'revenue', op: 'not_empty' }, { column: 'os', op: 'ne', value: 'IOS' }] })).toEqual(['10']);
+    expect(installs({ filters: [{ column: 'revenue', op: 'gte', value: 1 }] })).toEqual(['3', '10']);
+  });
+
+  it('should compare timestamps with ISO-8601 dates', () => {
+    const result = query({
+      filters: [{ column: 'timestamp', op: 'gte', value: '2025-06-01' }, { column: 'timestamp', op: 'lt', value: '2025-06-02T00:00:00Z' }],
+      select: ['installs']
+    });
+    expect(result.rows).toEqual([['3'], ['4']]);
+  });
+
+  it('should group and aggregate rows', () => {
+    expect(query({
+      filters: [{ column: 'os', op: 'eq', value: 'IOS' }],
+      group_by: ['channel'],
+      aggregates: [{ fn: 'sum', column: 'installs' }, { fn: 'count_distinct', column: 'user', as: 'users' }, { fn: 'avg', column: 'revenue' }, { fn: 'count' }],
+      sort: [{ column: 'sum_installs', direction: 'desc' }]
+    })).toEqual({
+      columns: ['channel', 'sum_installs', 'users', 'avg_revenue', 'count'],
+      rows: [['email', 4, 2, 1, 2], ['sms', 4, 1, null, 1], [null, 2, 1, null, 1]],
+      total: 3,
+      truncated: false
+    });
+  });
+
+  it('should count rows by default, and return a single row without groups', () => {
+    expect(query({ group_by: ['os'], sort: [{ column: 'os' }] }).rows).toEqual([['ANDROID', 1], ['IOS', 4]]);
+    expect(query({ aggregates: [{ fn: 'min', column: 'installs' }, { fn: 'max', column: 'timestamp' }, { fn: 'count', column: 'revenue' }] }).rows)
+      .toEqual([['1', '1751364000000', 3]]);
+    expect(query({ filters: [{ column: 'os', op: 'eq', value: 'WEB' }], aggregates: [{ fn: 'sum', column: 'installs' }, { fn: 'max', column: 'installs' }] }).rows)
+      .toEqual([[0, null]]);
+  });
+
+  it('should group timestamps by period', () => {
+    const bucket = (period: 'hour' | 'day' | 'week' | 'month') => query({ group_by: [{ column: 'timestamp', bucket: period }], sort: [{ column: `timestamp_${period}` }] });
+    expect(bucket('hour')).toMatchObject({
+      columns: ['timestamp_hour', 'count'],
+      rows: [['2025-06-01T10:00', 1], ['2025-06-01T11:00', 1], ['2025-06-02T11:00', 1], ['2025-06-08T10:00', 1], ['2025-07-01T10:00', 1]]
+    });
+    expect(bucket('day').rows).toEqual([['2025-06-01', 2], ['2025-06-02', 1], ['2025-06-08', 1], ['2025-07-01', 1]]);
+    expect(bucket('week').rows).toEqual([['2025-05-26', 2], ['2025-06-02', 2], ['2025-06-30', 1]]);
+    expect(bucket('month').rows).toEqual([['2025-06', 4], ['2025-07', 1]]);
+  });
+
+  it('should sort by several columns, with empty values last', () => {
+    const result = query({ select: ['channel', 'installs'], sort: [{ column: 'channel', direction: 'desc' }, { column: 'installs' }] });
+    expect(result.rows).toEqual([['sms', '4'], ['email', '1'], ['email', '3'], ['email', '10'], ['', '2']]);
+  });
+
+  it('should reject queries on unknown columns or without the values they need', () => {
+    expect(() => query({ filters: [{ column: 'country', op: 'eq', value: 'US' }] }))
+      .toThrow('The export has no column "country". Its columns are: timestamp, os, channel, installs, revenue, user.');
+    expect(() => query({ filters: [{ column: 'os', op: 'in', value: 'IOS' }] })).toThrow('The in filter on "os" needs a list of values.');
+    expect(() => query({ filters: [{ column: 'os', op: 'eq' }] })).toThrow('The eq filter on "os" needs a value.');
+    expect(() => query({ aggregates: [{ fn: 'sum' }] })).toThrow('The sum aggregate needs a column.');
+    expect(() => query({ group_by: ['os'], sort: [{ column: 'installs' }] })).toThrow('The result has no column "installs" to sort by. Its columns are: os, count.');
+  });
+});
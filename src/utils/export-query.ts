@@ -0,0 +1,377 @@
+/**
+ * @file This file runs queries over the rows of downloaded exports.
+ *
+ * Agents answer questions such as "installs by channel for iOS last week" from an export they
+ * have downloaded, rather than requesting another one. A query is a constrained spec rather than
+ * SQL: filters that every row must match, columns to group by (timestamps by hour, day, week or
+ * month), aggregates of every group, a sort and a limit. Without grouping or aggregates, a query
+ * returns the matching rows themselves.
+ *
+ * CSV cells are text, so values are compared and aggregated according to the type of their
+ * column (see `summarizeColumns`): numbers as numbers, and timestamps as times. Timestamps can be
+ * ISO-8601 text or, like most Branch timestamps, milliseconds since the epoch, and filters on
+ * them accept either.
+ */
+import { isEmptyValue } from './export-files.js';
+import type { ExportColumn, ExportColumnType } from './export-files.js';
+
+/**
+ * The default number of rows a query returns.
+ */
+export const DEFAULT_QUERY_LIMIT = 50;
+
+/**
+ * The largest number of rows a query returns.
+ */
+export const MAX_QUERY_LIMIT = 1000;
+
+/**
+ * The comparisons of filters.
+ */
+export const FILTER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'contains', 'is_empty', 'not_empty'] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+/**
+ * The functions of aggregates.
+ */
+export const AGGREGATE_FUNCTIONS = ['count', 'count_distinct', 'sum', 'avg', 'min', 'max'] as const;
+
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+
+/**
+ * The periods timestamps can be grouped by.
+ */
+export const TIME_BUCKETS = ['hour', 'day', 'week', 'month'] as const;
+
+export type TimeBucket = typeof TIME_BUCKETS[number];
+
+/**
+ * A condition rows must match.
+ */
+export interface QueryFilter {
+  column: string;
+  op: FilterOperator;
+
+  /**
+   * The value to compare with: a list for `in` and `not_in`, and nothing for `is_empty` and `not_empty`.
+   */
+  value?: unknown;
+}
+
+/**
+ * A column to group rows by, with the period to group a timestamp by.
+ */
+export type QueryGroup = string | { column: string; bucket: TimeBucket };
+
+/**
+ * A value computed for every group.
+ */
+export interface QueryAggregate {
+  fn: AggregateFunction;
+
+  /**
+   * The column to aggregate. `count` without a column counts rows.
+   */
+  column?: string;
+
+  /**
+   * The name of the result column. Defaults to the function and the column, such as `sum_revenue`.
+   */
+  as?: string;
+}
+
+/**
+ * A query over the rows of an export.
+ */
+export interface ExportQuery {
+  filters?: QueryFilter[];
+  group_by?: QueryGroup[];
+  aggregates?: QueryAggregate[];
+
+  /**
+   * The columns to return when the query does not aggregate. Defaults to every column.
+   */
+  select?: string[];
+  sort?: { column: string; direction?: 'asc' | 'desc' }[];
+  limit?: number;
+}
+
+/**
+ * The result of a query.
+ */
+export interface ExportQueryResult {
+  columns: string[];
+  rows: unknown[][];
+
+  /**
+   * The number of rows of the result before the limit.
+   */
+  total: number;
+
+  /**
+   * Whether rows were left out by the limit.
+   */
+  truncated: boolean;
+}
+
+/**
+ * Reads a value as a number: numbers as they are, numeric text, and otherwise dates as milliseconds
+ * since the epoch, so that timestamps compare with ISO-8601 dates.
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean' || isEmptyValue(value) || typeof value === 'object') {
+    return undefined;
+  }
+  const text = String(value).trim();
+  const number = Number(text);
+  if (text !== '' && !Number.isNaN(number)) {
+    return number;
+  }
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Reads a value of a column for comparisons: as a number for number, integer and timestamp
+ * columns, as a boolean for boolean columns, and as text otherwise.
+ */
+function toComparable(value: unknown, type: ExportColumnType): number | string | boolean | undefined {
+  if (isEmptyValue(value)) {
+    return undefined;
+  }
+  if (type === 'integer' || type === 'number' || type === 'timestamp') {
+    return toNumber(value);
+  }
+  if (type === 'boolean') {
+    return typeof value === 'boolean' ? value : String(value).trim().toLowerCase() === 'true';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Orders two values, empty values last.
+ */
+function compare(a: unknown, b: unknown): number {
+  if (a === undefined || a === null) {
+    return b === undefined || b === null ? 0 : 1;
+  }
+  if (b === undefined || b === null) {
+    return -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Returns the start of the period a timestamp is in, in UTC: `2025-06-01T10:00` for an hour,
+ * `2025-06-01` for a day or the Monday of a week, and `2025-06` for a month.
+ */
+function toBucket(value: unknown, bucket: TimeBucket): string | undefined {
+  const time = toNumber(value);
+  if (time === undefined) {
+    return undefined;
+  }
+  const date = new Date(time);
+  if (Number.isNaN(date.getTime())) {
+    return undefined;
+  }
+  if (bucket === 'week') {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  const iso = date.toISOString();
+  return bucket === 'hour' ? `${iso.slice(0, 13)}:00` : bucket === 'month' ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+/**
+ * Returns the name of the result column of an aggregate.
+ */
+const getAggregateName = (aggregate: QueryAggregate) => aggregate.as ?? (aggregate.column ? `${aggregate.fn}_${aggregate.column}` : aggregate.fn);
+
+/**
+ * Computes an aggregate of the rows of a group.
+ */
+function aggregateRows(rows: Record<string, unknown>[], aggregate: QueryAggregate, type: ExportColumnType): unknown {
+  const { fn, column } = aggregate;
+  if (!column) {
+    return rows.length;
+  }
+  const values = rows.map((row) => row[column]).filter((value) => !isEmptyValue(value));
+  if (fn === 'count') {
+    return values.length;
+  }
+  if (fn === 'count_distinct') {
+    return new Set(values.map((value) => (typeof value === 'object' ? JSON.stringify(value) : String(value)))).size;
+  }
+  if (fn === 'min' || fn === 'max') {
+    let best: unknown;
+    let bestComparable: number | string | boolean | undefined;
+    for (const value of values) {
+      const comparable = toComparable(value, type);
+      const order = compare(comparable, bestComparable);
+      if (bestComparable === undefined || (fn === 'min' ? order < 0 : order > 0)) {
+        best = value;
+        bestComparable = comparable;
+      }
+    }
+    return best ?? null;
+  }
+  const numbers = values.map(toNumber).filter((value): value is number => value !== undefined);
+  const sum = numbers.reduce((total, value) => total + value, 0);
+  if (fn === 'sum') {
+    return sum;
+  }
+  return numbers.length > 0 ? sum / numbers.length : null;
+}
+
+/**
+ * Tells whether a row matches a filter.
+ */
+function matches(row: Record<string, unknown>, filter: QueryFilter, type: ExportColumnType): boolean {
+  const value = row[filter.column];
+  if (filter.op === 'is_empty') {
+    return isEmptyValue(value);
+  }
+  if (filter.op === 'not_empty') {
+    return !isEmptyValue(value);
+  }
+  const actual = toComparable(value, type);
+  if (filter.op === 'contains') {
+    return actual !== undefined && String(actual).toLowerCase().includes(String(filter.value).toLowerCase());
+  }
+  if (filter.op === 'in' || filter.op === 'not_in') {
+    const expected = (filter.value as unknown[]).map((item) => toComparable(item, type));
+    return expected.includes(actual) === (filter.op === 'in');
+  }
+  const expected = toComparable(filter.value, type);
+  if (filter.op === 'eq') {
+    return actual === expected;
+  }
+  if (filter.op === 'ne') {
+    return actual !== expected;
+  }
+  if (actual === undefined || expected === undefined) {
+    return false;
+  }
+  const order = compare(actual, expected);
+  return filter.op === 'gt' ? order > 0 : filter.op === 'gte' ? order >= 0 : filter.op === 'lt' ? order < 0 : order <= 0;
+}
+
+/**
+ * Runs a query over the rows of an export.
+ * @param columns The columns of the export, with their types.
+ * @param rows The rows of the export.
+ * @param query The query.
+ * @returns The columns and rows of the result.
+ * @throws {Error} If the query names a column the export does not have, or is not valid.
+ */
+export function runExportQuery(columns: ExportColumn[], rows: Record<string, unknown>[], query: ExportQuery): ExportQueryResult {
+  const types = new Map(columns.map((column) => [column.name, column.type]));
+  const checkColumn = (column: string) => {
+    if (!types.has(column)) {
+      throw new Error(`The export has no column "${column}". Its columns are: ${columns.map(({ name }) => name).join(', ')}.`);
+    }
+    return types.get(column)!;
+  };
+
+  for (const filter of query.filters ?? []) {
+    checkColumn(filter.column);
+    if ((filter.op === 'in' || filter.op === 'not_in') && !Array.isArray(filter.value)) {
+      throw new Error(`The ${filter.op} filter on "${filter.column}" needs a list of values.`);
+    }
+    if (filter.op !== 'is_empty' && filter.op !== 'not_empty' && filter.value === undefined) {
+      throw new Error(`The ${filter.op} filter on "${filter.column}" needs a value.`);
+    }
+  }
+  const filtered = rows.filter((row) => (query.filters ?? []).every((filter) => matches(row, filter, types.get(filter.column)!)));
+
+  let resultColumns: string[];
+  let resultTypes: ExportColumnType[];
+  let resultRows: unknown[][];
+  const groups = (query.group_by ?? []).map((group) => (typeof group === 'string' ? { column: group } : group));
+  const aggregates = query.aggregates ?? [];
+  if (groups.length > 0 || aggregates.length > 0) {
+    groups.forEach(({ column }) => checkColumn(column));
+    const computed = aggregates.length > 0 ? aggregates : [{ fn: 'count' as const }];
+    for (const aggregate of computed) {
+      if (aggregate.column) {
+        checkColumn(aggregate.column);
+      } else if (aggregate.fn !== 'count') {
+        throw new Error(`The ${aggregate.fn} aggregate needs a column.`);
+      }
+    }
+    resultColumns = [
+      ...groups.map((group) => ('bucket' in group ? `${group.column}_${group.bucket}` : group.column)),
+      ...computed.map(getAggregateName)
+    ];
+    // Periods are ISO-8601 text, which sorts in time order.
+    resultTypes = [
+      ...groups.map((group) => ('bucket' in group ? 'string' : types.get(group.column)!)),
+      ...computed.map(({ fn, column }) => (column && (fn === 'min' || fn === 'max') ? types.get(column)! : 'number'))
+    ];
+
+    const grouped = new Map<string, { keys: unknown[]; rows: Record<string, unknown>[] }>();
+    for (const row of filtered) {
+      const keys = groups.map((group) => {
+        const value = 'bucket' in group ? toBucket(row[group.column], group.bucket) : row[group.column];
+        return isEmptyValue(value) ? null : value;
+      });
+      const key = JSON.stringify(keys);
+      let entry = grouped.get(key);
+      if (!entry) {
+        entry = { keys, rows: [] };
+        grouped.set(key, entry);
+      }
+      entry.rows.push(row);
+    }
+    // An aggregate without groups has a single result row, even if no row matched.
+    if (groups.length === 0 && grouped.size === 0) {
+      grouped.set('[]', { keys: [], rows: [] });
+    }
+    resultRows = [...grouped.values()].map(({ keys, rows: groupRows }) => [
+      ...keys,
+      ...computed.map((aggregate) => aggregateRows(groupRows, aggregate, aggregate.column ? types.get(aggregate.column)! : 'integer'))
+    ]);
+  } else {
+    resultColumns = query.select ?? columns.map(({ name }) => name);
+    resultTypes = resultColumns.map(checkColumn);
+    resultRows = filtered.map((row) => resultColumns.map((column) => row[column] ?? null));
+  }
+
+  for (const { column } of query.sort ?? []) {
+    if (!resultColumns.includes(column)) {
+      throw new Error(`The result has no column "${column}" to sort by. Its columns are: ${resultColumns.join(', ')}.`);
+    }
+  }
+  const sortKeys = (query.sort ?? []).map(({ column, direction }) => {
+    const index = resultColumns.indexOf(column);
+    return { index, type: resultTypes[index], descending: direction === 'desc' };
+  });
+  if (sortKeys.length > 0) {
+    resultRows.sort((a, b) => {
+      for (const { index, type, descending } of sortKeys) {
+        const left = toComparable(a[index], type);
+        const right = toComparable(b[index], type);
+        // Empty values come last in either direction.
+        const order = left === undefined || right === undefined ? compare(left, right) : compare(left, right) * (descending ? -1 : 1);
+        if (order !== 0) {
+          return order;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+  return {
+    columns: resultColumns,
+    rows: resultRows.slice(0, limit),
+    total: resultRows.length,
+    truncated: resultRows.length > limit
+  };
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { runWithRequestContext } from './context.js';
+import { IdempotencyError } from './errors.js';
+import {
+  createIdempotencyMiddleware,
+  createIdempotencyStore,
+  FileIdempotencyStore,
+  MemoryIdempotencyStore
+} from './idempotency.js';
+import logger from './logger.js';
+import type { ToolCall } from './tool-middleware.js';
+
+const createCall = (name: string, args: Record<string, unknown>) => ({ name, args, extra: {} }) as unknown as ToolCall;
+
+const created = (url: string): CallToolResult => ({ content: [{ type: 'text', text: url }], structuredContent: { url } });
+
+describe('idempotency', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'branch-mcp-idempotency-'));
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('MemoryIdempotencyStore', () => {
+    it('should keep records until they expire', async () => {
+      jest.useFakeTimers({ now: 0 });
+      const store = new MemoryIdempotencyStore(1000);
+      await store.set('first', { fingerprint: 'a', result: created('https://example.app.link/a') });
+
+      jest.setSystemTime(999);
+      expect(await store.get('first')).toEqual({ fingerprint: 'a', result: created('https://example.app.link/a'), expires_at: 1000 });
+      await store.set('second', { fingerprint: 'b', result: created('https://example.app.link/b') });
+      jest.setSystemTime(1000);
+      expect(await store.get('first')).toBeUndefined();
+      expect(await store.get('second')).toBeDefined();
+    });
+  });
+
+  describe('FileIdempotencyStore', () => {
+    it('should keep records across restarts in a file only the server can read', async () => {
+      const path = join(tempDir, 'state', 'idempotency.json');
+      await new FileIdempotencyStore(path).set('key', { fingerprint: 'a', result: created('https://example.app.link/a') });
+
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ key: expect.objectContaining({ fingerprint: 'a' }) });
+      expect(await new FileIdempotencyStore(path).get('key')).toMatchObject({ result: created('https://example.app.link/a') });
+      expect(await createIdempotencyStore({ file: path, ttl_ms: 1000 }).get('key')).toBeDefined();
+    });
+
+    it('should drop expired records when it reads the file', async () => {
+      const path = join(tempDir, 'idempotency.json');
+      writeFileSync(path, JSON.stringify({ old: { fingerprint: 'a', result: created('x'), expires_at: 1 } }));
+      const store = new FileIdempotencyStore(path);
+      await store.set('new', { fingerprint: 'b', result: created('y') });
+
+      expect(Object.keys(JSON.parse(readFileSync(path, 'utf8')))).toEqual(['new']);
+    });
+
+    it('should start empty when the file cannot be read', async () => {
+      const path = join(tempDir, 'idempotency.json');
+      writeFileSync(path, '{ not json');
+
+      expect(await new FileIdempotencyStore(path).get('key')).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith('Could not read the idempotency store', expect.objectContaining({ file: path }));
+    });
+  });
+
+  it('should use an in-memory store when no file is configured', () => {
+    expect(createIdempotencyStore({ ttl_ms: 1000 })).toBeInstanceOf(MemoryIdempotencyStore);
+    expect(createIdempotencyStore({ ttl_ms: 1000 })).not.toBeInstanceOf(FileIdempotencyStore);
+  });
+
+  describe('createIdempotencyMiddleware', () => {
+    const config = { branch_key: 'key_live_123' };
+
+    it('should add the idempotency_key argument to the tools that create links', () => {
+      const middleware = createIdempotencyMiddleware(new MemoryIdempotencyStore(), config);
+      const createTool = { inputSchema: z.object({ alias: z.string() }), update: jest.fn() };
+      const readTool = { inputSchema: z.object({ url: z.string() }), update: jest.fn() };
+      middleware.onRegister!('branch_create_deep_link', createTool as unknown as RegisteredTool);
+      middleware.onRegister!('branch_read_deep_link', readTool as unknown as RegisteredTool);
+
+      expect(createTool.update).toHaveBeenCalledWith({ paramsSchema: expect.objectContaining({ alias: expect.anything(), idempotency_key: expect.anything() }) });
+      expect(readTool.update).not.toHaveBeenCalled();
+    });
+
+    it('should return the original result when a call is repeated with the same key', async () => {
+      const middleware = createIdempotencyMiddleware(new MemoryIdempotencyStore(), config);
+      const next = jest.fn(async (call: ToolCall) => {
+        expect(call.args).not.toHaveProperty('idempotency_key');
+        return created(`https://example.app.link/${next.mock.calls.length}`);
+      });
+      const call = createCall('branch_create_deep_link', { idempotency_key: 'retry-1', data: { b: 1, a: 2 } });
+
+      const [first, concurrent] = await Promise.all([middleware.handle(call, next), middleware.handle(call, next)]);
+      const repeated = await middleware.handle(createCall('branch_create_deep_link', { idempotency_key: 'retry-1', data: { a: 2, b: 1 } }), next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(created('https://example.app.link/1'));
+      expect(concurrent).toEqual({ ...created('https://example.app.link/1'), _meta: { idempotent_replay: true } });
+      expect(repeated.structuredContent).toEqual({ url: 'https://example.app.link/1' });
+    });
+
+    it('should reject a key reused with different arguments', async () => {
+      const middleware = createIdempotencyMiddleware(new MemoryIdempotencyStore(), config);
+      const next = jest.fn(async () => created('https://example.app.link/1'));
+      await middleware.handle(createCall('branch_create_deep_link', { idempotency_key: 'key', alias: 'spring' }), next);
+
+      await expect(middleware.handle(createCall('branch_create_deep_link', { idempotency_key: 'key', alias: 'summer' }), next)).rejects.toThrow(
+        new IdempotencyError('The idempotency key key was already used for branch_create_deep_link with different arguments.')
+      );
+      await middleware.handle(createCall('branch_create_quick_link', { idempotency_key: 'key', alias: 'summer' }), next);
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not keep failed calls or dry runs, and pass other calls through', async () => {
+      const middleware = createIdempotencyMiddleware(new MemoryIdempotencyStore(), config);
+      const failing = jest.fn(async (): Promise<CallToolResult> => ({ content: [], isError: true }));
+      const call = createCall('branch_create_deep_link', { idempotency_key: 'key' });
+      await middleware.handle(call, failing);
+      await expect(middleware.handle(call, async () => {
+        throw new Error('Network Error');
+      })).rejects.toThrow('Network Error');
+      await runWithRequestContext({ dryRun: {} }, () => middleware.handle(call, failing));
+      await middleware.handle(call, failing);
+      expect(failing).toHaveBeenCalledTimes(3);
+
+      const next = jest.fn(async (received: ToolCall) => created(String(received.args.url)));
+      await middleware.handle(createCall('branch_create_deep_link', { url: 'a' }), next);
+      await middleware.handle(createCall('branch_read_deep_link', { url: 'b' }), next);
+      expect(next.mock.calls.map(([received]) => received.args)).toEqual([{ url: 'a' }, { url: 'b' }]);
+    });
+
+    it('should return the result even if it cannot be kept', async () => {
+      const store = new MemoryIdempotencyStore();
+      jest.spyOn(store, 'set').mockRejectedValue(new Error('disk full'));
+      const result = await createIdempotencyMiddleware(store, config).handle(
+        createCall('branch_create_deep_link', { idempotency_key: 'key' }),
+        async () => created('https://example.app.link/1')
+      );
+
+      expect(result).toEqual(created('https://example.app.link/1'));
+      expect(logger.error).toHaveBeenCalledWith('Failed to keep the result for an idempotency key', { tool: 'branch_create_deep_link', error: 'disk full' });
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * @file This file implements idempotency keys for the tools that create links.
+ *
+ * An agent that retries a call after a timeout cannot tell whether the first call created the
+ * link, and retrying blindly creates a duplicate. The tools in `IDEMPOTENT_TOOLS` therefore accept
+ * an optional `idempotency_key`. The result of the first successful call with a key is kept in an
+ * `IdempotencyStore` for a configured time, and repeated calls with the same key return it
+ * instead of creating the links again. Keys are scoped to the tool and the Branch Key, and reusing
+ * a key with different arguments is rejected with an `IdempotencyError`. Failed calls are not
+ * kept, so they can be retried with the same key. Results are kept in memory by default, or in a
+ * JSON file that survives restarts.
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { BranchMcpConfig } from '../config.js';
+import { fingerprintCredential } from './audit.js';
+import { getResolvedAuth } from './auth.js';
+import { isDryRun } from './dry-run.js';
+import { getErrorMessage, IdempotencyError } from './errors.js';
+import logger from './logger.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * The default time, in milliseconds, the result of a call is kept for its key (24 hours).
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The tools that create links and accept an idempotency key.
+ */
+export const IDEMPOTENT_TOOLS = new Set([
+  'branch_create_deep_link',
+  'branch_bulk_create_deep_links',
+  'branch_create_quick_link',
+  'branch_bulk_create_quick_links',
+  'branch_import_quick_links'
+]);
+
+/**
+ * The input parameter added to the tools in `IDEMPOTENT_TOOLS`.
+ */
+const idempotencyInputShape = {
+  idempotency_key: z.string().min(1).max(255).optional().describe(
+    'A unique key for this request, such as a UUID. Retrying with the same key and arguments returns the original result instead of creating the links again.'
+  )
+};
+
+/**
+ * Settings for idempotency keys.
+ */
+export interface IdempotencyConfig {
+  /**
+   * The path of a JSON file the results are kept in. They are kept in memory if not set.
+   */
+  file?: string;
+
+  /**
+   * How long, in milliseconds, the result of a call is kept for its key.
+   */
+  ttl_ms: number;
+}
+
+/**
+ * The result of a call, kept for its idempotency key.
+ */
+export interface IdempotencyRecord {
+  /**
+   * A hash of the arguments of the call, to detect a key reused for a different request.
+   */
+  fingerprint: string;
+
+  /**
+   * The result of the call.
+   */
+  result: CallToolResult;
+
+  /**
+   * When the record expires, in milliseconds since the epoch.
+   */
+  expires_at: number;
+}
+
+/**
+ * Keeps the results of calls for their idempotency keys until they expire.
+ */
+export interface IdempotencyStore {
+  /**
+   * Returns the record kept for a key, or `undefined` if there is none or it has expired.
+   */
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+
+  /**
+   * Keeps the result of a call for its key until the store's time to live has passed, replacing
+   * any record kept for the key.
+   */
+  set(key: string, record: Omit<IdempotencyRecord, 'expires_at'>): Promise<void>;
+}
+
+/**
+ * An `IdempotencyStore` that keeps records in memory. They are lost when the server restarts.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  protected readonly records = new Map<string, IdempotencyRecord>();
+  private readonly ttlMs: number;
+
+  /**
+   * @param ttlMs How long, in milliseconds, records are kept.
+   */
+  constructor(ttlMs = DEFAULT_IDEMPOTENCY_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const record = this.records.get(key);
+    if (record && record.expires_at <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  async set(key: string, record: Omit<IdempotencyRecord, 'expires_at'>): Promise<void> {
+    this.prune();
+    this.records.set(key, { ...record, expires_at: Date.now() + this.ttlMs });
+  }
+
+  /**
+   * Removes the expired records.
+   */
+  protected prune(): void {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      if (record.expires_at <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * An `IdempotencyStore` that keeps records in a JSON file, so that they survive restarts. The file
+ * is read when the store is first used and rewritten, without the expired records, on every change.
+ * Writes are serialized and replace the file atomically.
+ */
+export class FileIdempotencyStore extends MemoryIdempotencyStore {
+  private readonly path: string;
+  private loaded?: Promise<void>;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path The path of the file.
+   * @param ttlMs How long, in milliseconds, records are kept.
+   */
+  constructor(path: string, ttlMs = DEFAULT_IDEMPOTENCY_TTL_MS) {
+    super(ttlMs);
+    this.path = path;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    await this.load();
+    return super.get(key);
+  }
+
+  async set(key: string, record: Omit<IdempotencyRecord, 'expires_at'>): Promise<void> {
+    await this.load();
+    await super.set(key, record);
+    const contents = JSON.stringify(Object.fromEntries(this.records));
+    const write = this.queue.then(() => this.write(contents));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= readFile(this.path, 'utf8').then((contents) => {
+      for (const [key, record] of Object.entries(JSON.parse(contents) as Record<string, IdempotencyRecord>)) {
+        this.records.set(key, record);
+      }
+      this.prune();
+    }).catch((error: unknown) => {
+      // Losing the kept results only loses the protection against duplicates, so the server carries on.
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Could not read the idempotency store', { file: this.path, error: getErrorMessage(error) });
+      }
+    });
+    return this.loaded;
+  }
+
+  private async write(contents: string): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(`${this.path}.tmp`, contents, { mode: 0o600 });
+    await rename(`${this.path}.tmp`, this.path);
+  }
+}
+
+/**
+ * Creates the idempotency store the settings describe.
+ * @param config The idempotency settings.
+ * @returns A file-backed store if a file is configured, otherwise an in-memory store.
+ */
+export function createIdempotencyStore(config: IdempotencyConfig): IdempotencyStore {
+  return config.file ? new FileIdempotencyStore(config.file, config.ttl_ms) : new MemoryIdempotencyStore(config.ttl_ms);
+}
+
+/**
+ * Serializes a value to JSON with the keys of objects sorted and undefined values left out, so
+ * that equal values serialize equally.
+ * @param value The value.
+ * @returns The JSON text.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Returns a hash of the arguments of a call, which is the same for equal arguments in any order.
+ * @param args The arguments.
+ * @returns The SHA-256 hash of the arguments, prefixed with `sha256:`.
+ */
+export function fingerprintArguments(args: Record<string, unknown>): string {
+  return `sha256:${createHash('sha256').update(stableStringify(args)).digest('hex')}`;
+}
+
+/**
+ * Creates middleware that adds an `idempotency_key` argument to the tools in `IDEMPOTENT_TOOLS`
+ * and returns the kept result of repeated calls with the same key. Concurrent calls with the same
+ * key wait for the first one. Dry runs neither use nor keep results.
+ * @param store The store the results are kept in.
+ * @param config The Branch MCP configuration, used to resolve the Branch Key of each call.
+ * @returns The idempotency middleware.
+ */
+export function createIdempotencyMiddleware(store: IdempotencyStore, config: BranchMcpConfig): ToolMiddleware {
+  const pending = new Map<string, Promise<unknown>>();
+  return {
+    onRegister: (name, tool) => {
+      if (IDEMPOTENT_TOOLS.has(name) && tool.inputSchema) {
+        tool.update({ paramsSchema: { ...tool.inputSchema.shape, ...idempotencyInputShape } });
+      }
+    },
+    handle: async (call, next) => {
+      const { idempotency_key, ...args } = call.args;
+      if (!IDEMPOTENT_TOOLS.has(call.name) || idempotency_key === undefined || isDryRun()) {
+        return next(IDEMPOTENT_TOOLS.has(call.name) ? { ...call, args } : call);
+      }
+
+      const { branch_key } = getResolvedAuth(args, config);
+      const key = [call.name, branch_key ? fingerprintCredential(branch_key) : '', idempotency_key].join(':');
+      const fingerprint = fingerprintArguments(args);
+      while (pending.has(key)) {
+        await pending.get(key);
+      }
+
+      const run = (async (): Promise<CallToolResult> => {
+        const record = await store.get(key);
+        if (record) {
+          if (record.fingerprint !== fingerprint) {
+            throw new IdempotencyError(`The idempotency key ${idempotency_key} was already used for ${call.name} with different arguments.`);
+          }
+          return { ...record.result, _meta: { ...record.result._meta, idempotent_replay: true } };
+        }
+        const result = await next({ ...call, args });
+        if (!result.isError) {
+          // The links were created, so the call succeeds even if its result cannot be kept.
+          await store.set(key, { fingerprint, result }).catch((error: unknown) => {
+            logger.error('Failed to keep the result for an idempotency key', { tool: call.name, error: getErrorMessage(error) });
+          });
+        }
+        return result;
+      })();
+      pending.set(key, run.catch(() => undefined));
+      try {
+        return await run;
+      } finally {
+        pending.delete(key);
+      }
+    }
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PolicyError } from './errors.js';
+import { detectImportFormat, mapImportRow, parseCsv, parseImport, readImportFile, toCsv } from './link-import.js';
+
+describe('readImportFile', () => {
+  let root: string;
+  let importDir: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'link-import-'));
+    importDir = join(root, 'imports');
+    await mkdir(join(importDir, 'campaigns'), { recursive: true });
+    await writeFile(join(importDir, 'campaigns', 'spring.csv'), 'alias\nspring');
+    await writeFile(join(root, 'secret.csv'), 'alias\nsecret');
+    await symlink(join(root, 'secret.csv'), join(importDir, 'link.csv'));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should read a file in the import directory', async () => {
+    await expect(readImportFile(importDir, 'campaigns/spring.csv')).resolves.toBe('alias\nspring');
+  });
+
+  it('should refuse paths that lead out of the import directory', async () => {
+    await expect(readImportFile(importDir, '../secret.csv')).rejects.toThrow(PolicyError);
+    await expect(readImportFile(importDir, join(root, 'secret.csv'))).rejects.toThrow('is not in the import directory');
+    await expect(readImportFile(importDir, 'link.csv')).rejects.toThrow(PolicyError);
+    await expect(readImportFile(undefined, 'campaigns/spring.csv')).rejects.toThrow('the server has no import directory');
+  });
+
+  it('should report files that cannot be read', async () => {
+    await expect(readImportFile(importDir, 'missing.csv')).rejects.toThrow('Could not read missing.csv');
+    await expect(readImportFile(importDir, 'campaigns')).rejects.toThrow('campaigns is not a file.');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should read quoted cells and number records by the line they start on', () => {
+    expect(parseCsv('\uFEFFalias,title\r\n"a,1","Say ""hi""\nthere"\n\nb,\n')).toEqual([
+      { line: 1, cells: ['alias', 'title'] },
+      { line: 2, cells: ['a,1', 'Say "hi"\nthere'] },
+      { line: 5, cells: ['b', ''] }
+    ]);
+  });
+
+  it('should fail on a quoted cell that is not closed', () => {
+    expect(() => parseCsv('alias\n"a\nb')).toThrow('The quoted cell that starts on line 2 is not closed.');
+  });
+});
+
+describe('parseImport', () => {
+  it('should read CSV rows by the columns of the header', () => {
+    expect(parseImport('alias, channel\na\nb,email,extra', 'csv')).toEqual({
+      columns: ['alias', 'channel'],
+      rows: [
+        { row: 2, values: { alias: 'a', channel: '' } },
+        { row: 3, values: { alias: 'b', channel: 'email' }, error: 'The row has 3 cells, but the header has 2 columns.' }
+      ]
+    });
+    expect(() => parseImport('', 'csv')).toThrow('The file is empty');
+    expect(() => parseImport('alias,alias', 'csv')).toThrow('The header has the column "alias" more than once.');
+  });
+
+  it('should read JSONL rows by line', () => {
+    expect(parseImport('{"alias":"a"}\n\n[1]\n{"channel":"sms"}', 'jsonl')).toEqual({
+      columns: ['alias', 'channel'],
+      rows: [
+        { row: 1, values: { alias: 'a' } },
+        { row: 3, values: {}, error: 'The line is not a JSON object.' },
+        { row: 4, values: { channel: 'sms' } }
+      ]
+    });
+  });
+
+  it('should work out the format from the extension or the content', () => {
+    expect(detectImportFormat('{"alias":"a"}', 'links.csv')).toBe('csv');
+    expect(detectImportFormat('alias\na', 'links.ndjson')).toBe('jsonl');
+    expect(detectImportFormat('  {"alias":"a"}')).toBe('jsonl');
+    expect(detectImportFormat('alias\na', 'links.txt')).toBe('csv');
+  });
+});
+
+describe('mapImportRow', () => {
+  it('should map columns to link parameters and data, converting CSV cells', () => {
+    const values = { Slug: 'spring', Duration: '3600', Tags: 'a; b', 'Web only': 'TRUE', Campaign: 'spring-sale', Owner: 'ana', Notes: '', Ignored: 'x' };
+    const mapping = { Slug: 'alias', Duration: 'duration', Tags: '~tags', 'Web only': '$web_only', Campaign: 'campaign', Owner: 'data.owner', Notes: 'notes' };
+
+    expect(mapImportRow(values, mapping)).toEqual({
+      alias: 'spring',
+      duration: 3600,
+      campaign: 'spring-sale',
+      data: { '~tags': ['a', 'b'], '$web_only': true, owner: 'ana' }
+    });
+  });
+
+  it('should map every column by its own name without a mapping', () => {
+    expect(mapImportRow({ alias: 'a', tags: ['x'], data: { '~channel': 'sms' }, $fallback_url: 'https://example.com' })).toEqual({
+      alias: 'a',
+      tags: ['x'],
+      data: { '~channel': 'sms', $fallback_url: 'https://example.com' }
+    });
+  });
+
+  it('should fail on cells that do not convert', () => {
+    expect(() => mapImportRow({ duration: 'long' })).toThrow('duration: Expected a number, received "long"');
+    expect(() => mapImportRow({ $web_only: 'maybe' })).toThrow('data.$web_only: Expected true or false, received "maybe"');
+  });
+});
+
+describe('toCsv', () => {
+  it('should quote the cells that need it', () => {
+    expect(toCsv([['row', 'title', 'tags'], [2, 'Say "hi", there', ['a']], [3, undefined, null]])).toBe('row,title,tags\n2,"Say ""hi"", there","[""a""]"\n3,,');
+  });
+
+  it('should keep text cells from being read as formulas', () => {
+    expect(toCsv([['=HYPERLINK("https://example.com")', '+1', '-1', '@SUM(A1)', '\tx', '\rx', 'a=b'], [-1, 'x-1']]))
+      .toBe('"\'=HYPERLINK(""https://example.com"")",\'+1,\'-1,\'@SUM(A1),\'\tx,"\'\rx",a=b\n-1,x-1');
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * @file This file reads the spreadsheets of links that the import tool creates links from.
+ *
+ * A file of links is CSV, with a header row naming its columns, or JSONL, with one JSON object per
+ * line. It is given inline or as a path, which must be in the import directory configured for the
+ * server (`import_dir`): paths that lead out of it, including through symbolic links, are refused.
+ *
+ * `parseImport` turns a file into rows, numbered by the line they start on so that errors can be
+ * reported the way a spreadsheet shows them. A row that cannot be read keeps its number and an
+ * error, so that it fails on its own. `mapImportRow` turns a row into the parameters of a link: the
+ * mapping names the link field each column goes to, such as `alias`, `channel`, `~campaign` or
+ * `$fallback_url`; fields that are not link parameters, such as custom data keys, go into `data`.
+ * CSV cells are text, so the cells of number, boolean and list fields are converted, and empty
+ * cells are left out.
+ */
+import { readFile, realpath, stat } from 'fs/promises';
+import { extname, isAbsolute, relative, resolve, sep } from 'path';
+import { deepLinkParamsSchema } from '../schemas/deep-link-params.js';
+import { getErrorMessage, PolicyError } from './errors.js';
+
+/**
+ * The largest file, in bytes, that can be imported (5 MB).
+ */
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * The formats of the files that can be imported.
+ */
+export const IMPORT_FORMATS = ['csv', 'jsonl'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+/**
+ * A row of an imported file.
+ */
+export interface ImportRow {
+  /**
+   * The line of the file the row starts on, from 1.
+   */
+  row: number;
+
+  /**
+   * The values of the row, by column.
+   */
+  values: Record<string, unknown>;
+
+  /**
+   * Why the row could not be read, if it could not.
+   */
+  error?: string;
+}
+
+/**
+ * The contents of an imported file.
+ */
+export interface ImportTable {
+  /**
+   * The columns of the file: the header of a CSV file, or every key of the objects of a JSONL file.
+   */
+  columns: string[];
+  rows: ImportRow[];
+}
+
+/**
+ * The top-level parameters of a link. Any other field is a key of its `data`.
+ */
+const LINK_FIELDS = new Set(Object.keys(deepLinkParamsSchema.shape).filter((field) => field !== 'data'));
+
+const NUMBER_FIELDS = new Set(['duration']);
+const BOOLEAN_FIELDS = new Set(['data.$web_only']);
+const LIST_FIELDS = new Set(['tags', 'data.~tags']);
+
+/**
+ * Reads a file from the import directory.
+ * @param importDir The import directory of the server, if one is configured.
+ * @param file The path of the file, relative to the import directory.
+ * @returns The content of the file.
+ * @throws {PolicyError} If no import directory is configured, or the path leads out of it.
+ */
+export async function readImportFile(importDir: string | undefined, file: string): Promise<string> {
+  if (!importDir) {
+    throw new PolicyError('Files cannot be imported because the server has no import directory. Pass the content of the file instead.');
+  }
+  let path: string;
+  let root: string;
+  try {
+    root = await realpath(importDir);
+    path = await realpath(resolve(root, file));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${getErrorMessage(error)}`);
+  }
+  const relativePath = relative(root, path);
+  if (relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    throw new PolicyError(`${file} is not in the import directory.`);
+  }
+  const stats = await stat(path);
+  if (!stats.isFile()) {
+    throw new Error(`${file} is not a file.`);
+  }
+  if (stats.size > MAX_IMPORT_BYTES) {
+    throw new Error(`${file} is larger than the ${MAX_IMPORT_BYTES / 1024 / 1024} MB that can be imported.`);
+  }
+  return readFile(path, 'utf8');
+}
+
+/**
+ * Works out the format of a file: from its extension if it has a known one, or else from whether
+ * its first line is a JSON object.
+ * @param content The content of the file.
+ * @param file The path of the file, if it was read from one.
+ * @returns The format of the file.
+ */
+export function detectImportFormat(content: string, file?: string): ImportFormat {
+  const extension = file ? extname(file).toLowerCase() : '';
+  if (extension === '.csv') {
+    return 'csv';
+  }
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return 'jsonl';
+  }
+  return content.trimStart().startsWith('{') ? 'jsonl' : 'csv';
+}
+
+/**
+ * Splits CSV into records of cells. Quoted cells may hold commas, line breaks and doubled quotes.
+ * @param content The CSV.
+ * @returns The records that are not blank, with the line each starts on.
+ */
+export function parseCsv(content: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  const text = content.startsWith('\uFEFF') ? content.slice(1) : content;
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ line: start, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let position = 0; position < text.length; position++) {
+    const char = text[position];
+    if (quoted) {
+      if (char === '"' && text[position + 1] === '"') {
+        cell += '"';
+        position++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+        if (char === '\n') {
+          line++;
+        }
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[position + 1] === '\n') {
+        position++;
+      }
+      endRecord();
+      start = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`The quoted cell that starts on line ${start} is not closed.`);
+  }
+  endRecord();
+  return records;
+}
+
+/**
+ * Reads the rows of a file.
+ * @param content The content of the file.
+ * @param format The format of the file.
+ * @returns The columns and rows of the file.
+ * @throws {Error} If the file has no header row or the same column twice.
+ */
+export function parseImport(content: string, format: ImportFormat): ImportTable {
+  if (format === 'jsonl') {
+    const columns = new Set<string>();
+    const rows: ImportRow[] = [];
+    content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((text, index) => {
+      if (text.trim() === '') {
+        return;
+      }
+      const row = index + 1;
+      try {
+        const values: unknown = JSON.parse(text);
+        if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+          rows.push({ row, values: {}, error: 'The line is not a JSON object.' });
+          return;
+        }
+        Object.keys(values).forEach((column) => columns.add(column));
+        rows.push({ row, values: values as Record<string, unknown> });
+      } catch (error) {
+        rows.push({ row, values: {}, error: `The line is not valid JSON: ${getErrorMessage(error)}` });
+      }
+    });
+    return { columns: [...columns], rows };
+  }
+
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    throw new Error('The file is empty: it needs a header row naming its columns.');
+  }
+  const columns = header.cells.map((column) => column.trim());
+  const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`The header has the column "${duplicate}" more than once.`);
+  }
+  return {
+    columns,
+    rows: records.map(({ line, cells }) => ({
+      row: line,
+      values: Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])),
+      ...(cells.length > columns.length ? { error: `The row has ${cells.length} cells, but the header has ${columns.length} columns.` } : {})
+    }))
+  };
+}
+
+/**
+ * Converts the text of a CSV cell to the type of the link field it goes to.
+ */
+function convertCell(field: string, value: string): unknown {
+  if (NUMBER_FIELDS.has(field)) {
+    const number = Number(value);
+    if (value.trim() === '' || Number.isNaN(number)) {
+      throw new Error(`${field}: Expected a number, received "${value}"`);
+    }
+    return number;
+  }
+  if (BOOLEAN_FIELDS.has(field)) {
+    const flag = value.trim().toLowerCase();
+    if (!['true', 'false', '1', '0'].includes(flag)) {
+      throw new Error(`${field}: Expected true or false, received "${value}"`);
+    }
+    return flag === 'true' || flag === '1';
+  }
+  if (LIST_FIELDS.has(field)) {
+    return value.split(/[,;]/).map((item) => item.trim()).filter((item) => item !== '');
+  }
+  return value;
+}
+
+/**
+ * Turns a row into the parameters of a link.
+ * @param values The values of the row, by column.
+ * @param mapping The link field of each column to import. Every column goes to the field of its own name if not given.
+ * @returns The parameters of the link, to be validated.
+ * @throws {Error} If a cell cannot be converted to the type of its field.
+ */
+export function mapImportRow(values: Record<string, unknown>, mapping?: Record<string, string>): Record<string, unknown> {
+  const link: Record<string, unknown> = {};
+  const data: Record<string, unknown> = {};
+  const fields = mapping ?? Object.fromEntries(Object.keys(values).map((column) => [column, column]));
+  for (const [column, target] of Object.entries(fields)) {
+    const value = values[column];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (target === 'data' && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(data, value);
+      continue;
+    }
+    const field = LINK_FIELDS.has(target) ? target : `data.${target.replace(/^data\./, '')}`;
+    const converted = typeof value === 'string' ? convertCell(field, value) : value;
+    if (field.startsWith('data.')) {
+      data[field.slice('data.'.length)] = converted;
+    } else {
+      link[field] = converted;
+    }
+  }
+  return Object.keys(data).length > 0 ? { ...link, data } : link;
+}
+
+/**
+ * Writes rows as CSV, quoting the cells that need it. Text cells that a spreadsheet would read as a
+ * formula, starting with `=`, `+`, `-`, `@`, a tab or a carriage return, are prefixed with `'`, so
+ * that opening the CSV cannot run them.
+ * @param rows The rows, the first of which is usually the header.
+ * @returns The CSV.
+ */
+export function toCsv(rows: unknown[][]): string {
+  const escape = (value: unknown) => {
+    let text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+  };
+  return rows.map((row) => row.map(escape).join(',')).join('\n');
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BranchClient } from './branch-client.js';
+import { CredentialsError } from './errors.js';
+import { getLinkAlias, resolveLinkReference } from './link-reference.js';
+
+describe('link references', () => {
+  let mock: MockAdapter;
+  const client = new BranchClient({ branch_url: 'api2.branch.io', max_retries: 0 });
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  describe('resolveLinkReference', () => {
+    it('should resolve full URLs and domains with aliases without calling Branch', async () => {
+      const auth = {};
+      await expect(resolveLinkReference('https://example.app.link/summer-sale', client, auth)).resolves.toBe('https://example.app.link/summer-sale');
+      await expect(resolveLinkReference(' HTTPS://Example.app.link/summer-sale/?utm_source=email&gclid=1#top ', client, auth)).resolves.toBe('https://example.app.link/summer-sale');
+      await expect(resolveLinkReference('example.app.link/summer-sale?~channel=sms', client, auth)).resolves.toBe('https://example.app.link/summer-sale');
+      await expect(resolveLinkReference('http://links.example.com/a/b', client, auth)).resolves.toBe('http://links.example.com/a/b');
+      expect(mock.history.get).toHaveLength(0);
+    });
+
+    it('should put aliases on the app\'s link domain, reading it once', async () => {
+      mock.onGet('https://api2.branch.io/v1/app/key_live_alias').reply(200, { short_url_domain: 'links.example.com', default_short_url_domain: 'example.app.link' });
+      const auth = { branch_key: 'key_live_alias', branch_secret: 'secret_123' };
+
+      await expect(resolveLinkReference('summer-sale', client, auth)).resolves.toBe('https://links.example.com/summer-sale');
+      await expect(resolveLinkReference('winter-sale?utm_source=email', client, auth)).resolves.toBe('https://links.example.com/winter-sale');
+      expect(mock.history.get).toHaveLength(1);
+      expect(mock.history.get[0].params).toEqual({ branch_secret: 'secret_123' });
+    });
+
+    it('should fall back to the default link domain of the app', async () => {
+      mock.onGet('https://api2.branch.io/v1/app/key_live_default').reply(200, { short_url_domain: '', default_short_url_domain: 'example.app.link' });
+      mock.onGet('https://api2.branch.io/v1/app/key_live_none').reply(200, {});
+
+      await expect(resolveLinkReference('summer-sale', client, { branch_key: 'key_live_default', branch_secret: 'secret' })).resolves.toBe('https://example.app.link/summer-sale');
+      await expect(resolveLinkReference('summer-sale', client, { branch_key: 'key_live_none', branch_secret: 'secret' })).rejects.toThrow('The app has no link domain for the alias summer-sale.');
+    });
+
+    it('should need credentials to resolve an alias', async () => {
+      await expect(resolveLinkReference('summer-sale', client, { branch_key: 'key_live_123' })).rejects.toThrow(CredentialsError);
+    });
+
+    it('should reject references that are not links', async () => {
+      const auth = { branch_key: 'key_live_123', branch_secret: 'secret' };
+      await expect(resolveLinkReference('?utm_source=email', client, auth)).rejects.toThrow('is not a link URL, domain and alias, or alias.');
+      await expect(resolveLinkReference('summer sale', client, auth)).rejects.toThrow('is not a link URL, domain and alias, or alias.');
+      await expect(resolveLinkReference('ftp://example.app.link/summer-sale', client, auth)).rejects.toThrow('is not a link URL, domain and alias, or alias.');
+      await expect(resolveLinkReference('https://exa mple.app.link/summer-sale', client, auth)).rejects.toThrow('is not a link URL, domain and alias, or alias.');
+      await expect(resolveLinkReference('https://example.app.link/', client, auth)).rejects.toThrow('does not include the alias of a link.');
+    });
+  });
+
+  describe('getLinkAlias', () => {
+    it('should return the alias however the link is referred to', () => {
+      expect(getLinkAlias('https://example.app.link/summer-sale?utm_source=email')).toBe('summer-sale');
+      expect(getLinkAlias('example.app.link/summer-sale/')).toBe('summer-sale');
+      expect(getLinkAlias(' summer-sale ')).toBe('summer-sale');
+    });
+  });
+});
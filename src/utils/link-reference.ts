@@ -0,0 +1,118 @@
+/**
+ * @file This file resolves the references to links that the link tools accept.
+ *
+ * Users rarely have the exact URL of a link at hand: they know its alias (`summer-sale`), or have
+ * a link without its scheme, or one with tracking parameters appended. `resolveLinkReference` turns
+ * any of these into the URL Branch knows the link by:
+ * - a full URL, such as `https://example.app.link/summer-sale?utm_source=email`, keeps its scheme,
+ *   domain and path;
+ * - a domain and alias, such as `example.app.link/summer-sale`, is given the `https` scheme;
+ * - an alias, such as `summer-sale`, is put on the app's `short_url_domain`, which is read from the
+ *   App API with the Branch Key and Secret of the call and kept for a while.
+ *
+ * Query strings and fragments are dropped, since Branch identifies a link by its domain and path.
+ */
+import { z } from 'zod';
+import { fingerprintCredential } from './audit.js';
+import type { BranchClient, BranchResponseData } from './branch-client.js';
+import { CredentialsError } from './errors.js';
+
+/**
+ * How long, in milliseconds, the link domain of an app is kept (10 minutes).
+ */
+const LINK_DOMAIN_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * The link domains of apps, by a fingerprint of their Branch Key.
+ */
+const linkDomains = new Map<string, { domain: string; expires_at: number }>();
+
+/**
+ * Zod schema for a reference to an existing link, resolved with `resolveLinkReference`.
+ */
+export const linkReferenceSchema = z.string().trim().min(1).describe(
+  'The link: its full URL, its domain and alias (such as example.app.link/summer-sale), or just its alias to use the app\'s link domain. Query strings are ignored.'
+);
+
+/**
+ * The credentials needed to look up the link domain of an app.
+ */
+export interface LinkDomainAuth {
+  branch_key?: string;
+  branch_secret?: string;
+}
+
+/**
+ * Removes the query string, the fragment and any trailing slashes from a link reference.
+ */
+function stripLinkReference(reference: string): string {
+  return reference.trim().split(/[?#]/)[0].replace(/\/+$/, '');
+}
+
+/**
+ * Returns the alias of a link reference: the last segment of its path, or the reference itself if
+ * it is only an alias. The alias is known without calling Branch, so it can identify a link however
+ * it was referred to.
+ * @param reference The link reference.
+ * @returns The alias.
+ */
+export function getLinkAlias(reference: string): string {
+  return stripLinkReference(reference).split('/').pop() ?? '';
+}
+
+/**
+ * Reads the link domain of the app of a Branch Key from the App API, or from the domains kept.
+ */
+async function getLinkDomain(client: BranchClient, auth: LinkDomainAuth, alias: string): Promise<string> {
+  const { branch_key, branch_secret } = auth;
+  if (!branch_key || !branch_secret) {
+    throw new CredentialsError(`Branch Key and Secret are needed to look up the link domain for the alias ${alias}. Provide them, or give the link as a URL or as a domain and alias.`);
+  }
+  const key = fingerprintCredential(branch_key);
+  const kept = linkDomains.get(key);
+  if (kept && kept.expires_at > Date.now()) {
+    return kept.domain;
+  }
+
+  const response = await client.get<BranchResponseData>(`/v1/app/${branch_key}`, { params: { branch_secret } });
+  const { short_url_domain, default_short_url_domain } = response.data;
+  const domain = [short_url_domain, default_short_url_domain].find((value): value is string => typeof value === 'string' && value !== '');
+  if (!domain) {
+    throw new Error(`The app has no link domain for the alias ${alias}. Give the link as a URL or as a domain and alias.`);
+  }
+  linkDomains.set(key, { domain, expires_at: Date.now() + LINK_DOMAIN_TTL_MS });
+  return domain;
+}
+
+/**
+ * Resolves a reference to a link to the URL Branch knows it by.
+ * @param reference A full URL, a domain and alias, or an alias.
+ * @param client The client used to read the app's link domain when the reference is an alias.
+ * @param auth The credentials of the call.
+ * @returns The URL of the link, without a query string.
+ * @throws {Error} If the reference is not a link.
+ * @throws {CredentialsError} If the reference is an alias and the Branch Key or Secret is missing.
+ */
+export async function resolveLinkReference(reference: string, client: BranchClient, auth: LinkDomainAuth): Promise<string> {
+  const stripped = stripLinkReference(reference);
+  if (!stripped.includes('/')) {
+    if (!stripped || /\s/.test(stripped)) {
+      throw new Error(`${JSON.stringify(reference)} is not a link URL, domain and alias, or alias.`);
+    }
+    return `https://${await getLinkDomain(client, auth, stripped)}/${stripped}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(stripped) ? stripped : `https://${stripped}`);
+  } catch {
+    throw new Error(`${JSON.stringify(reference)} is not a link URL, domain and alias, or alias.`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`${JSON.stringify(reference)} is not a link URL, domain and alias, or alias.`);
+  }
+  if (url.pathname === '/') {
+    throw new Error(`${JSON.stringify(reference)} does not include the alias of a link.`);
+  }
+  return `${url.protocol}//${url.host}${url.pathname}`;
+}
@@ -20,7 +20,7 @@ const SENSITIVE_KEYS = [
 /**
  * The placeholder string to use when redacting sensitive values.
  */
-const REDACTED_PLACEHOLDER = '[REDACTED]';
+export const REDACTED_PLACEHOLDER = '[REDACTED]';
 
 /**
  * Recursively sanitizes an object by redacting values associated with sensitive keys.
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BranchClient } from './branch-client.js';
+import { CredentialsError } from './errors.js';
+import {
+  createMetricsMiddleware,
+  getEndpointLabel,
+  metricsRegistry,
+  recordExportPoll,
+  recordUpstreamRequest,
+  trackSessions
+} from './metrics.js';
+import type { ToolCall } from './tool-middleware.js';
+
+const getValue = async (name: string, labels: Record<string, string>) => {
+  const metric = await metricsRegistry.getSingleMetric(name.replace(/_(count|sum)$/, ''))!.get();
+  const sample = metric.values.find((value) => (
+    ((value as { metricName?: string }).metricName ?? name) === name &&
+    Object.entries(labels).every(([key, label]) => value.labels[key] === label)
+  ));
+  return sample?.value;
+};
+
+describe('metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  describe('getEndpointLabel', () => {
+    it('should replace resource identifiers with placeholders', () => {
+      expect(getEndpointLabel('https://api2.branch.io/v1/app/key_live_abc123')).toBe('/v1/app/:id');
+      expect(getEndpointLabel('https://api2.branch.io/v2/analytics/5f1c2b3a?app_id=1')).toBe('/v2/analytics/:id');
+      expect(getEndpointLabel('/v1/url')).toBe('/v1/url');
+      expect(getEndpointLabel('https://api2.branch.io/v1/branch_aggregate/async/analytics')).toBe('/v1/branch_aggregate/async/analytics');
+    });
+  });
+
+  describe('createMetricsMiddleware', () => {
+    const call = { name: 'branch_query', args: {}, extra: {} } as unknown as ToolCall;
+
+    it('should count successful calls and tool-reported errors', async () => {
+      const middleware = createMetricsMiddleware();
+      await middleware.handle(call, async () => ({ content: [] }));
+      await middleware.handle(call, async () => ({ content: [], isError: true }));
+
+      expect(await getValue('branch_mcp_tool_calls_total', { tool: 'branch_query', outcome: 'success', error_class: 'none' })).toBe(1);
+      expect(await getValue('branch_mcp_tool_calls_total', { tool: 'branch_query', outcome: 'error', error_class: 'tool' })).toBe(1);
+      expect(await getValue('branch_mcp_tool_call_duration_seconds_count', { tool: 'branch_query', outcome: 'success' })).toBe(1);
+    });
+
+    it('should classify and rethrow errors thrown by the tool', async () => {
+      const error = new CredentialsError('Branch Key is not configured.');
+      await expect(createMetricsMiddleware().handle(call, async () => {
+        throw error;
+      })).rejects.toBe(error);
+
+      expect(await getValue('branch_mcp_tool_calls_total', { tool: 'branch_query', outcome: 'error', error_class: 'auth' })).toBe(1);
+    });
+  });
+
+  describe('upstream requests', () => {
+    let mock: MockAdapter;
+
+    beforeEach(() => {
+      mock = new MockAdapter(axios);
+    });
+
+    afterEach(() => {
+      mock.restore();
+    });
+
+    it('should record every attempt made by the Branch client', async () => {
+      mock.onGet('https://api2.branch.io/v2/logs/abc123').replyOnce(503).onGet('https://api2.branch.io/v2/logs/abc123').reply(200, {});
+      const client = new BranchClient({}, { sleep: async () => undefined });
+
+      await client.get('/v2/logs/abc123');
+
+      expect(await getValue('branch_mcp_upstream_requests_total', { method: 'GET', endpoint: '/v2/logs/:id', status: '503' })).toBe(1);
+      expect(await getValue('branch_mcp_upstream_requests_total', { method: 'GET', endpoint: '/v2/logs/:id', status: '200' })).toBe(1);
+    });
+
+    it('should label requests without a response as network errors', async () => {
+      recordUpstreamRequest('POST', 'https://api2.branch.io/v1/url', undefined, 0.5);
+
+      expect(await getValue('branch_mcp_upstream_requests_total', { endpoint: '/v1/url', status: 'network_error' })).toBe(1);
+      expect(await getValue('branch_mcp_upstream_request_duration_seconds_sum', { endpoint: '/v1/url' })).toBe(0.5);
+    });
+  });
+
+  it('should count export polls by type and status', async () => {
+    recordExportPoll('aggregate', 'PENDING');
+    recordExportPoll('aggregate', 'pending');
+    recordExportPoll('cohort', undefined);
+
+    expect(await getValue('branch_mcp_export_polls_total', { export_type: 'aggregate', status: 'pending' })).toBe(2);
+    expect(await getValue('branch_mcp_export_polls_total', { export_type: 'cohort', status: 'unknown' })).toBe(1);
+  });
+
+  it('should report the active sessions of each tracked transport', async () => {
+    const sessions = { size: 2 };
+    trackSessions('streamable-http', sessions);
+    sessions.size = 3;
+
+    expect(await getValue('branch_mcp_active_sessions', { transport: 'streamable-http' })).toBe(3);
+    expect(await metricsRegistry.metrics()).toContain('branch_mcp_active_sessions{transport="streamable-http"} 3');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @file This file defines the Prometheus metrics exposed on the monitoring server's `/metrics` endpoint.
+ *
+ * Besides the default Node.js metrics, the server records:
+ * - every tool call, by tool name, outcome and error class (see `createMetricsMiddleware`);
+ * - every request to the Branch API, by method, endpoint and status (recorded by `BranchClient`);
+ * - the number of active MCP sessions per transport;
+ * - every poll of an export job's status, by export type and job status.
+ */
+import * as client from 'prom-client';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { toToolError } from './errors.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * The registry holding every metric of the server.
+ */
+export const metricsRegistry = new client.Registry();
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const toolCalls = new client.Counter({
+  name: 'branch_mcp_tool_calls_total',
+  help: 'MCP tool calls, by tool, outcome and error class.',
+  labelNames: ['tool', 'outcome', 'error_class'] as const,
+  registers: [metricsRegistry]
+});
+
+const toolCallDuration = new client.Histogram({
+  name: 'branch_mcp_tool_call_duration_seconds',
+  help: 'Duration of MCP tool calls, by tool and outcome.',
+  labelNames: ['tool', 'outcome'] as const,
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+const upstreamRequests = new client.Counter({
+  name: 'branch_mcp_upstream_requests_total',
+  help: 'Requests to the Branch API, by method, endpoint and response status.',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+const upstreamRequestDuration = new client.Histogram({
+  name: 'branch_mcp_upstream_request_duration_seconds',
+  help: 'Duration of requests to the Branch API, by method, endpoint and response status.',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+const exportPolls = new client.Counter({
+  name: 'branch_mcp_export_polls_total',
+  help: 'Status checks of export jobs, by export type and reported job status.',
+  labelNames: ['export_type', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+const trackedSessions = new Map<string, { readonly size: number }>();
+
+new client.Gauge({
+  name: 'branch_mcp_active_sessions',
+  help: 'Active MCP sessions, by transport.',
+  labelNames: ['transport'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    for (const [transport, sessions] of trackedSessions) {
+      this.set({ transport }, sessions.size);
+    }
+  }
+});
+
+/**
+ * Reports the number of sessions of a transport in the active sessions metric.
+ * @param transport The name of the transport (`stdio`, `sse` or `streamable-http`).
+ * @param sessions Anything that knows its number of sessions, such as a `SessionManager`.
+ */
+export function trackSessions(transport: string, sessions: { readonly size: number }): void {
+  trackedSessions.set(transport, sessions);
+}
+
+/**
+ * Reduces a Branch API URL to a label with bounded cardinality, replacing path segments that
+ * identify a resource (Branch keys, job IDs, request handles) with `:id`.
+ * @param url The URL or path of the request.
+ * @returns The endpoint label, e.g. `/v2/analytics/:id`.
+ */
+export function getEndpointLabel(url: string): string {
+  const path = new URL(url, 'https://api2.branch.io').pathname;
+  return path
+    .split('/')
+    .map((segment) => (/\d/.test(segment) && !/^v\d+$/.test(segment) ? ':id' : segment))
+    .join('/');
+}
+
+/**
+ * Records a single request to the Branch API.
+ * @param method The HTTP method.
+ * @param url The URL of the request.
+ * @param status The response status, or `undefined` if no response was received.
+ * @param durationSeconds How long the request took.
+ */
+export function recordUpstreamRequest(method: string, url: string, status: number | undefined, durationSeconds: number): void {
+  const labels = { method, endpoint: getEndpointLabel(url), status: status === undefined ? 'network_error' : String(status) };
+  upstreamRequests.inc(labels);
+  upstreamRequestDuration.observe(labels, durationSeconds);
+}
+
+/**
+ * Records a status check of an export job.
+ * @param exportType The kind of export (`aggregate`, `cohort`, `cross_event` or `custom`).
+ * @param status The job status reported by Branch.
+ */
+export function recordExportPoll(exportType: string, status: unknown): void {
+  exportPolls.inc({ export_type: exportType, status: typeof status === 'string' && status ? status.toLowerCase() : 'unknown' });
+}
+
+/**
+ * Creates middleware that records the outcome and duration of every tool call. Errors thrown by
+ * the tool are classified with `toToolError` and rethrown; error results returned by the tool
+ * itself are counted with the error class `tool`.
+ * @returns The metrics middleware.
+ */
+export function createMetricsMiddleware(): ToolMiddleware {
+  return {
+    handle: async (call, next) => {
+      const endTimer = toolCallDuration.startTimer({ tool: call.name });
+      let result: CallToolResult;
+      try {
+        result = await next(call);
+      } catch (error) {
+        toolCalls.inc({ tool: call.name, outcome: 'error', error_class: toToolError(error).code });
+        endTimer({ outcome: 'error' });
+        throw error;
+      }
+      const outcome = result.isError ? 'error' : 'success';
+      toolCalls.inc({ tool: call.name, outcome, error_class: result.isError ? 'tool' : 'none' });
+      endTimer({ outcome });
+      return result;
+    }
+  };
+}
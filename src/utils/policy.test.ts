@@ -0,0 +1,144 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getRequestContext, runWithRequestContext } from './context.js';
+import { PolicyError } from './errors.js';
+import { checkArgumentConstraints, checkPolicyConstraints, createPolicyMiddleware, getSessionPolicy, isToolAllowed } from './policy.js';
+import type { ToolPolicy } from './policy.js';
+import type { ToolCall } from './tool-middleware.js';
+
+describe('isToolAllowed', () => {
+  it('should allow every tool by default', () => {
+    expect(isToolAllowed({ read_only: false }, 'branch_delete_deep_link')).toBe(true);
+  });
+
+  it('should only allow tools annotated as read-only in read-only mode', () => {
+    const policy = { read_only: true };
+    expect(isToolAllowed(policy, 'branch_read_deep_link', { readOnlyHint: true })).toBe(true);
+    expect(isToolAllowed(policy, 'branch_delete_deep_link', { readOnlyHint: false, destructiveHint: true })).toBe(false);
+    expect(isToolAllowed(policy, 'unannotated')).toBe(false);
+  });
+
+  it('should apply the allow and deny lists, with wildcards', () => {
+    const policy = { read_only: false, allow_tools: ['branch_get_*', 'branch_query'], deny_tools: ['branch_get_app_settings'] };
+    expect(isToolAllowed(policy, 'branch_get_export_status')).toBe(true);
+    expect(isToolAllowed(policy, 'branch_query')).toBe(true);
+    expect(isToolAllowed(policy, 'branch_get_app_settings')).toBe(false);
+    expect(isToolAllowed(policy, 'branch_create_deep_link')).toBe(false);
+  });
+});
+
+describe('checkArgumentConstraints', () => {
+  const policy: ToolPolicy = {
+    read_only: false,
+    constraints: {
+      '*': { type: { values: [0, 2] } },
+      branch_update_deep_link: { url: { domains: ['example.app.link'] } },
+      branch_create_deep_link: { channel: { pattern: 'email|sms' }, tags: { values: ['spring'] } }
+    }
+  };
+
+  it('should accept arguments that satisfy the constraints', () => {
+    expect(() => checkArgumentConstraints(policy, 'branch_update_deep_link', { url: 'https://example.app.link/abc', type: 2 })).not.toThrow();
+    expect(() => checkArgumentConstraints(policy, 'branch_update_deep_link', { url: 'go.example.app.link/abc' })).not.toThrow();
+    expect(() => checkArgumentConstraints(policy, 'branch_create_deep_link', { channel: 'sms', tags: ['spring', 'spring'] })).not.toThrow();
+    expect(() => checkArgumentConstraints(policy, 'branch_create_deep_link', {})).not.toThrow();
+  });
+
+  it('should reject arguments that break a constraint', () => {
+    expect(() => checkArgumentConstraints(policy, 'branch_update_deep_link', { url: 'https://evil.app.link/abc' })).toThrow(new PolicyError(
+      'The tool policy does not allow this value of url for branch_update_deep_link: "https://evil.app.link/abc" must be a link on example.app.link.'
+    ));
+    expect(() => checkArgumentConstraints(policy, 'branch_update_deep_link', { url: 'https://notexample.app.link' })).toThrow(PolicyError);
+    expect(() => checkArgumentConstraints(policy, 'branch_update_deep_link', { url: 'http://[' })).toThrow(PolicyError);
+    expect(() => checkArgumentConstraints(policy, 'branch_create_deep_link', { channel: 'email-blast' })).toThrow('must match email|sms');
+    expect(() => checkArgumentConstraints(policy, 'branch_create_deep_link', { tags: ['spring', 'summer'] })).toThrow('"summer" must be one of "spring"');
+    expect(() => checkArgumentConstraints(policy, 'branch_read_deep_link', { type: 1 })).toThrow('must be one of 0, 2');
+  });
+});
+
+describe('checkArgumentConstraints with bulk tools', () => {
+  const policy: ToolPolicy = {
+    read_only: false,
+    constraints: {
+      '*': { url: { domains: ['example.app.link'] } },
+      branch_bulk_update_deep_links: { links: { domains: ['example.app.link'] }, channel: { values: ['email'] } },
+      branch_bulk_delete_deep_links: { links: { domains: ['example.app.link'] } }
+    }
+  };
+
+  it('should hold every link of a bulk call to the constraints on its fields', () => {
+    const links = [{ url: 'https://example.app.link/a', channel: 'email' }, { url: 'https://go.example.app.link/b' }];
+    expect(() => checkArgumentConstraints(policy, 'branch_bulk_update_deep_links', { links })).not.toThrow();
+    expect(() => checkArgumentConstraints(policy, 'branch_bulk_delete_deep_links', { links: ['https://example.app.link/a'] })).not.toThrow();
+    expect(() => checkArgumentConstraints(policy, 'branch_bulk_create_deep_links', { links: [{ channel: 'sms' }] })).not.toThrow();
+  });
+
+  it('should reject a bulk call with a link that breaks a constraint', () => {
+    expect(() => checkArgumentConstraints(policy, 'branch_bulk_update_deep_links', { links: [{ url: 'https://example.app.link/a' }, { url: 'https://evil.app.link/b' }] })).toThrow(new PolicyError(
+      'The tool policy does not allow this value of links[1].url for branch_bulk_update_deep_links: "https://evil.app.link/b" must be a link on example.app.link.'
+    ));
+    expect(() => checkArgumentConstraints({ read_only: false, constraints: { '*': { url: { domains: ['example.app.link'] } } } }, 'branch_bulk_update_deep_links', {
+      links: [{ url: 'https://evil.app.link/b' }]
+    })).toThrow('value of links[0].url');
+    expect(() => checkArgumentConstraints(policy, 'branch_bulk_update_deep_links', { links: [{ url: 'https://example.app.link/a', channel: 'sms' }] }))
+      .toThrow('value of links[0].channel for branch_bulk_update_deep_links: "sms" must be one of "email"');
+    expect(() => checkArgumentConstraints(policy, 'branch_bulk_delete_deep_links', { links: ['https://evil.app.link/b'] })).toThrow('value of links for');
+  });
+
+  it('should check values worked out during a call against the policy of the call', () => {
+    expect(() => checkPolicyConstraints('branch_import_quick_links', { url: 'https://evil.app.link/b' })).not.toThrow();
+    expect(() => runWithRequestContext({ policy }, () => checkPolicyConstraints('branch_import_quick_links', { url: 'https://evil.app.link/b' }, 'row 2')))
+      .toThrow('The tool policy does not allow this value of url for branch_import_quick_links in row 2: ');
+  });
+});
+
+describe('getSessionPolicy', () => {
+  it('should use the server policy when the session does not narrow it', () => {
+    expect(getSessionPolicy({ read_only: false, deny_tools: ['branch_query'] }, {})).toEqual({ read_only: false, dry_run: false, deny_tools: ['branch_query'] });
+  });
+
+  it('should let the client narrow the policy with headers, but not widen it', () => {
+    const policy = getSessionPolicy({ read_only: false, allow_tools: ['branch_get_*', 'branch_read_deep_link'], deny_tools: ['branch_query'] }, {
+      'x-branch-read-only': 'true',
+      'x-branch-dry-run': '1',
+      'x-branch-allow-tools': 'branch_read_deep_link, branch_delete_deep_link',
+      'x-branch-deny-tools': 'branch_get_app_settings'
+    });
+    expect(policy).toEqual({
+      read_only: true,
+      dry_run: true,
+      allow_tools: ['branch_read_deep_link'],
+      deny_tools: ['branch_query', 'branch_get_app_settings']
+    });
+    expect(getSessionPolicy({ read_only: true }, { 'x-branch-read-only': 'false' }).read_only).toBe(true);
+    expect(getSessionPolicy({ read_only: false }, { 'x-branch-allow-tools': 'branch_query' }).allow_tools).toEqual(['branch_query']);
+  });
+
+  it('should make sessions whose token lacks the write scope read-only', () => {
+    const config = { read_only: false, write_scope: 'branch:write' };
+    expect(getSessionPolicy(config, {}, { token: 't', clientId: 'reader', scopes: ['branch:read'] })).toEqual({ read_only: true, dry_run: false });
+    expect(getSessionPolicy(config, {}, { token: 't', clientId: 'writer', scopes: ['branch:write'] })).toEqual({ read_only: false, dry_run: false });
+    expect(getSessionPolicy(config, {}).read_only).toBe(true);
+  });
+});
+
+describe('createPolicyMiddleware', () => {
+  it('should remove the tools the policy does not allow and check the arguments of calls', async () => {
+    const middleware = createPolicyMiddleware({ read_only: true, constraints: { branch_read_deep_link: { url: { domains: ['example.app.link'] } } } });
+    const readTool = { annotations: { readOnlyHint: true }, remove: jest.fn() };
+    const deleteTool = { annotations: { readOnlyHint: false }, remove: jest.fn() };
+    middleware.onRegister!('branch_read_deep_link', readTool as unknown as RegisteredTool);
+    middleware.onRegister!('branch_delete_deep_link', deleteTool as unknown as RegisteredTool);
+    expect(readTool.remove).not.toHaveBeenCalled();
+    expect(deleteTool.remove).toHaveBeenCalled();
+
+    const next = jest.fn(async () => {
+      expect(getRequestContext()?.policy).toEqual(expect.objectContaining({ read_only: true }));
+      return { content: [] };
+    });
+    const call = (url: string) => ({ name: 'branch_read_deep_link', args: { url }, extra: {} }) as unknown as ToolCall;
+    await expect(middleware.handle(call('https://example.app.link/abc'), next)).resolves.toEqual({ content: [] });
+    await expect(middleware.handle(call('https://other.app.link/abc'), next)).rejects.toThrow(PolicyError);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
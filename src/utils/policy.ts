@@ -0,0 +1,293 @@
+/**
+ * @file This file implements the tool policy, which limits what the clients of a deployment or a
+ * session may do.
+ *
+ * A policy can hide every tool that changes state in Branch (read-only mode), allow or deny tools
+ * by name, and constrain the arguments of individual tools, for example to only allow changes to
+ * links on a given domain. Tools are classified by their `readOnlyHint` annotation, so a tool
+ * that is not explicitly marked read-only is hidden in read-only mode. Hidden tools are removed
+ * from the server as they are registered, so clients never see them; argument constraints are
+ * checked on every call, including the fields of the links of bulk tools. The deployment's policy is set in the `policy` section of the
+ * configuration, and each session can narrow it further (see `getSessionPolicy`), but never widen it.
+ */
+import type { IncomingHttpHeaders } from 'node:http';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestContext, runWithRequestContext } from './context.js';
+import { PolicyError } from './errors.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * A constraint on the value of a tool argument. If the argument is an array, every item must satisfy it.
+ */
+export interface ArgumentConstraint {
+  /**
+   * The values the argument may take.
+   */
+  values?: (string | number | boolean)[];
+
+  /**
+   * A regular expression the whole value must match.
+   */
+  pattern?: string;
+
+  /**
+   * The domains of the links the argument may contain. Subdomains of these domains are allowed too.
+   */
+  domains?: string[];
+}
+
+/**
+ * Which tools the clients of a deployment or session may see and how they may call them.
+ */
+export interface ToolPolicy {
+  /**
+   * Whether tools that are not annotated as read-only are hidden.
+   */
+  read_only: boolean;
+
+  /**
+   * Whether every call of a tool that changes state in Branch is a dry run (see `dry-run.ts`).
+   */
+  dry_run?: boolean;
+
+  /**
+   * The tools clients may use. A `*` in a name matches any characters. All tools are allowed if not set.
+   */
+  allow_tools?: string[];
+
+  /**
+   * The tools clients may not use, even if they are allowed by `allow_tools`. A `*` in a name matches any characters.
+   */
+  deny_tools?: string[];
+
+  /**
+   * Constraints on tool arguments, by tool name (`*` for every tool) and argument name.
+   */
+  constraints?: Record<string, Record<string, ArgumentConstraint>>;
+}
+
+/**
+ * The tool policy settings of the server.
+ */
+export interface PolicyConfig extends ToolPolicy {
+  /**
+   * An OAuth scope that the access token of an HTTP session must have for the session to see the
+   * tools that change state in Branch. Sessions without it are read-only.
+   */
+  write_scope?: string;
+}
+
+/**
+ * The HTTP headers with which a client can narrow the policy of its session when it opens it.
+ * Header names are lower case, as Node.js normalizes incoming header names.
+ */
+export const POLICY_HEADERS = {
+  read_only: 'x-branch-read-only',
+  dry_run: 'x-branch-dry-run',
+  allow_tools: 'x-branch-allow-tools',
+  deny_tools: 'x-branch-deny-tools'
+};
+
+/**
+ * Returns the comma-separated items of a header, or `undefined` if the header was not sent.
+ */
+function getHeaderList(headers: IncomingHttpHeaders, name: string): string[] | undefined {
+  const value = headers[name];
+  return typeof value === 'string' ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Whether a header is set to `true` or `1`.
+ */
+function isHeaderSet(headers: IncomingHttpHeaders, name: string): boolean {
+  const value = headers[name];
+  return typeof value === 'string' && ['true', '1'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Returns the items both lists allow. A list that is not set allows everything.
+ */
+function intersect(configured: string[] | undefined, requested: string[] | undefined): string[] | undefined {
+  if (!configured || !requested) {
+    return configured ?? requested;
+  }
+  return requested.filter((name) => configured.some((pattern) => matchesToolName(pattern, name)));
+}
+
+/**
+ * Works out the policy of an HTTP session from the server's policy, the headers of the request
+ * that opened the session and its access token. The session is read-only if the server is, if its
+ * token lacks the configured `write_scope`, or if the client asks for it with `X-Branch-Read-Only: true`.
+ * Likewise, every call is a dry run if the server is in dry-run mode or the client sends `X-Branch-Dry-Run: true`.
+ * `X-Branch-Allow-Tools` and `X-Branch-Deny-Tools` can only remove tools from those the server allows.
+ * @param config The server's policy settings.
+ * @param headers The headers of the request that opened the session.
+ * @param authInfo The validated access token of the session, if authentication is enabled.
+ * @returns The policy of the session.
+ */
+export function getSessionPolicy(config: PolicyConfig, headers: IncomingHttpHeaders, authInfo?: AuthInfo): ToolPolicy {
+  const { write_scope, ...policy } = config;
+  const deniedTools = [...(policy.deny_tools ?? []), ...(getHeaderList(headers, POLICY_HEADERS.deny_tools) ?? [])];
+  const allowedTools = intersect(policy.allow_tools, getHeaderList(headers, POLICY_HEADERS.allow_tools));
+  return {
+    ...policy,
+    read_only: policy.read_only
+      || (write_scope !== undefined && !authInfo?.scopes.includes(write_scope))
+      || isHeaderSet(headers, POLICY_HEADERS.read_only),
+    dry_run: policy.dry_run || isHeaderSet(headers, POLICY_HEADERS.dry_run),
+    ...(allowedTools ? { allow_tools: allowedTools } : {}),
+    ...(deniedTools.length > 0 ? { deny_tools: deniedTools } : {})
+  };
+}
+
+/**
+ * Whether a tool name matches a name in a policy, in which `*` matches any characters.
+ */
+export function matchesToolName(pattern: string, name: string): boolean {
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Whether a policy lets clients see a tool.
+ * @param policy The policy.
+ * @param name The name of the tool.
+ * @param annotations The annotations of the tool.
+ * @returns `true` if the tool is allowed.
+ */
+export function isToolAllowed(policy: ToolPolicy, name: string, annotations?: ToolAnnotations): boolean {
+  if (policy.deny_tools?.some((pattern) => matchesToolName(pattern, name))) {
+    return false;
+  }
+  if (policy.allow_tools && !policy.allow_tools.some((pattern) => matchesToolName(pattern, name))) {
+    return false;
+  }
+  return !policy.read_only || annotations?.readOnlyHint === true;
+}
+
+/**
+ * Whether a link is on one of the given domains or a subdomain of one of them.
+ */
+function isOnDomain(link: string, domains: string[]): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(link) ? link : `https://${link}`).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return domains.some((domain) => {
+    const allowed = domain.toLowerCase();
+    return hostname === allowed || hostname.endsWith(`.${allowed}`);
+  });
+}
+
+/**
+ * Describes how a value breaks a constraint, or returns `undefined` if it satisfies it.
+ */
+function getViolation(value: unknown, constraint: ArgumentConstraint): string | undefined {
+  if (constraint.values && !constraint.values.includes(value as string | number | boolean)) {
+    return `must be one of ${constraint.values.map((item) => JSON.stringify(item)).join(', ')}`;
+  }
+  if (constraint.pattern !== undefined && (typeof value !== 'string' || !new RegExp(`^(?:${constraint.pattern})$`).test(value))) {
+    return `must match ${constraint.pattern}`;
+  }
+  if (constraint.domains && (typeof value !== 'string' || !isOnDomain(value, constraint.domains))) {
+    return `must be a link on ${constraint.domains.join(', ')}`;
+  }
+  return undefined;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collects the values a constraint on an argument applies to, with where each was found:
+ * - the argument itself, or every item of it if it is an array. An item that is an object, such as
+ *   a link of a bulk update constrained by `links`, stands for the link in its `url` field;
+ * - the field of the same name of every object in an array argument, such as the `url` or
+ *   `channel` of every link of a bulk tool.
+ */
+function getConstrainedValues(args: Record<string, unknown>, argument: string): { path: string; value: unknown }[] {
+  const values: { path: string; value: unknown }[] = [];
+  const value = args[argument];
+  (value === undefined ? [] : Array.isArray(value) ? value : [value]).forEach((item: unknown, index) => {
+    if (Array.isArray(value) && isObject(item)) {
+      if (item.url !== undefined) {
+        values.push({ path: `${argument}[${index}].url`, value: item.url });
+      }
+      return;
+    }
+    values.push({ path: argument, value: item });
+  });
+  for (const [name, items] of Object.entries(args)) {
+    if (!Array.isArray(items)) {
+      continue;
+    }
+    items.forEach((item: unknown, index) => {
+      const field = isObject(item) ? item[argument] : undefined;
+      for (const fieldValue of field === undefined ? [] : Array.isArray(field) ? field : [field]) {
+        values.push({ path: `${name}[${index}].${argument}`, value: fieldValue });
+      }
+    });
+  }
+  return values;
+}
+
+/**
+ * Checks the arguments of a tool call against the constraints of a policy. A constraint applies
+ * to the argument of its name and to the field of that name of the objects in array arguments, so
+ * that the links of bulk tools are held to the same constraints as single links.
+ * @param policy The policy.
+ * @param name The name of the tool.
+ * @param args The arguments of the call.
+ * @param source Where the arguments come from, such as a row of an import, for the error message.
+ * @throws {PolicyError} If an argument breaks a constraint.
+ */
+export function checkArgumentConstraints(policy: ToolPolicy, name: string, args: Record<string, unknown>, source?: string): void {
+  const constraints = [policy.constraints?.['*'], policy.constraints?.[name]];
+  for (const [argument, constraint] of constraints.flatMap((item) => Object.entries(item ?? {}))) {
+    for (const { path, value } of getConstrainedValues(args, argument)) {
+      const violation = getViolation(value, constraint);
+      if (violation) {
+        throw new PolicyError(`The tool policy does not allow this value of ${path} for ${name}${source ? ` in ${source}` : ''}: ${JSON.stringify(value)} ${violation}.`);
+      }
+    }
+  }
+}
+
+/**
+ * Checks values a tool works out during a call, such as the links it maps from the rows of an
+ * import, against the constraints of the policy of the call, as if they were its arguments. Does
+ * nothing if no policy is enforced.
+ * @param name The name of the tool.
+ * @param args The values, by argument name.
+ * @param source Where the values come from, for the error message.
+ * @throws {PolicyError} If a value breaks a constraint.
+ */
+export function checkPolicyConstraints(name: string, args: Record<string, unknown>, source?: string): void {
+  const policy = getRequestContext()?.policy;
+  if (policy) {
+    checkArgumentConstraints(policy, name, args, source);
+  }
+}
+
+/**
+ * Creates middleware that enforces a tool policy: tools the policy does not allow are removed as
+ * they are registered, and calls whose arguments break a constraint are rejected with a `PolicyError`.
+ * The policy is kept in the request context of the call for `checkPolicyConstraints`.
+ * @param policy The policy to enforce.
+ * @returns The policy middleware.
+ */
+export function createPolicyMiddleware(policy: ToolPolicy): ToolMiddleware {
+  return {
+    onRegister: (name, tool) => {
+      if (!isToolAllowed(policy, name, tool.annotations)) {
+        tool.remove();
+      }
+    },
+    handle: async (call, next) => {
+      checkArgumentConstraints(policy, call.name, call.args);
+      return runWithRequestContext({ ...getRequestContext(), policy }, () => next(call));
+    }
+  };
+}
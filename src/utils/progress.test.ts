@@ -0,0 +1,39 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import logger from './logger.js';
+import { createProgressReporter } from './progress.js';
+import type { ToolExtra } from './tool-middleware.js';
+
+describe('createProgressReporter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should notify the client of the progress of a call that asked for it', async () => {
+    const sendNotification = jest.fn(async () => undefined);
+    const report = createProgressReporter({ _meta: { progressToken: 'token-1' }, sendNotification } as unknown as ToolExtra);
+    await report(100, 250, 'Created 100 of 250 links.');
+    await report(250);
+
+    expect(sendNotification.mock.calls).toEqual([
+      [{ method: 'notifications/progress', params: { progressToken: 'token-1', progress: 100, total: 250, message: 'Created 100 of 250 links.' } }],
+      [{ method: 'notifications/progress', params: { progressToken: 'token-1', progress: 250 } }]
+    ]);
+  });
+
+  it('should do nothing when the client did not ask for progress', async () => {
+    const sendNotification = jest.fn(async () => undefined);
+    await createProgressReporter({ sendNotification } as unknown as ToolExtra)(1, 2);
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the call when a notification cannot be sent', async () => {
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    const sendNotification = jest.fn(async () => {
+      throw new Error('Not connected');
+    });
+    await expect(createProgressReporter({ _meta: { progressToken: 1 }, sendNotification } as unknown as ToolExtra)(1)).resolves.toBeUndefined();
+
+    expect(logger.warn).toHaveBeenCalledWith('Could not send a progress notification', { error: 'Not connected' });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @file This file implements MCP progress notifications for long-running tool calls.
+ *
+ * A client that wants to follow a call sends a `progressToken` in the `_meta` of its request. The
+ * reporter created by `createProgressReporter` sends a `notifications/progress` notification with
+ * that token whenever the tool reports progress, and does nothing for clients that sent no token.
+ * Progress is best effort: a notification that cannot be sent never fails the call.
+ */
+import { getErrorMessage } from './errors.js';
+import logger from './logger.js';
+import type { ToolExtra } from './tool-middleware.js';
+
+/**
+ * Reports the progress of a tool call.
+ * @param progress The work done so far, such as the number of links created.
+ * @param total The total amount of work, if known.
+ * @param message A description of the current step.
+ */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
+/**
+ * Creates a progress reporter for a tool call.
+ * @param extra The request details of the call.
+ * @returns A reporter that notifies the client, or does nothing if the client did not ask for progress.
+ */
+export function createProgressReporter(extra: Pick<ToolExtra, '_meta' | 'sendNotification'>): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return async () => undefined;
+  }
+  return async (progress, total, message) => {
+    try {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined ? { total } : {}),
+          ...(message !== undefined ? { message } : {})
+        }
+      });
+    } catch (error) {
+      logger.warn('Could not send a progress notification', { error: getErrorMessage(error) });
+    }
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SessionManager, runInSession } from './sessions.js';
+import { getRequestContext } from './context.js';
+import logger from './logger.js';
+
+const createTransport = () => ({ close: jest.fn(async () => undefined) }) as unknown as Transport;
+
+describe('SessionManager', () => {
+  beforeEach(() => {
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should track, look up and remove sessions', () => {
+    const sessions = new SessionManager();
+    const transport = createTransport();
+    sessions.add('abc', transport);
+
+    expect(sessions.size).toBe(1);
+    expect(sessions.get('abc')?.transport).toBe(transport);
+    expect(sessions.get('missing')).toBeUndefined();
+    expect(sessions.remove('abc')).toBe(true);
+    expect(sessions.remove('abc')).toBe(false);
+    expect(sessions.size).toBe(0);
+  });
+
+  it('should close the transport and server when a session is closed', async () => {
+    const sessions = new SessionManager();
+    const transport = createTransport();
+    const server = { close: jest.fn(async () => undefined) } as unknown as McpServer;
+    sessions.add('abc', transport, { server });
+
+    expect(await sessions.close('abc')).toBe(true);
+    expect(transport.close).toHaveBeenCalled();
+    expect(server.close).toHaveBeenCalled();
+    expect(await sessions.close('abc')).toBe(false);
+  });
+
+  it('should log and continue when closing a transport fails', async () => {
+    const sessions = new SessionManager();
+    const transport = { close: jest.fn(async () => {
+      throw new Error('boom');
+    }) } as unknown as Transport;
+    sessions.add('abc', transport);
+
+    expect(await sessions.close('abc')).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith('Error closing MCP session', { sessionId: 'abc', error: 'boom' });
+  });
+
+  it('should evict only sessions that have been idle longer than the timeout', async () => {
+    const sessions = new SessionManager({ idleTimeoutMs: 1000 });
+    const idle = createTransport();
+    const active = createTransport();
+    sessions.add('idle', idle);
+    sessions.add('active', active);
+
+    const now = Date.now();
+    sessions.list().find((session) => session.id === 'idle')!.lastActivityAt = now - 5000;
+
+    expect(await sessions.evictIdle(now)).toEqual(['idle']);
+    expect(idle.close).toHaveBeenCalled();
+    expect(active.close).not.toHaveBeenCalled();
+    expect(sessions.size).toBe(1);
+  });
+
+  it('should sweep idle sessions periodically once started and close all on shutdown', async () => {
+    jest.useFakeTimers();
+    const sessions = new SessionManager({ idleTimeoutMs: 1000, sweepIntervalMs: 500 });
+    const idle = createTransport();
+    const active = createTransport();
+    sessions.add('idle', idle);
+    sessions.start();
+    sessions.start();
+
+    jest.advanceTimersByTime(1600);
+    await Promise.resolve();
+    expect(idle.close).toHaveBeenCalled();
+
+    sessions.add('active', active);
+    await sessions.closeAll();
+    expect(active.close).toHaveBeenCalled();
+    expect(sessions.size).toBe(0);
+  });
+
+  it('should expose the session ID and credentials to code run in the session', () => {
+    const sessions = new SessionManager();
+    const session = sessions.add('abc', createTransport(), { credentials: { branch_key: 'key_live_session' } });
+
+    const context = runInSession(session, () => getRequestContext());
+    expect(context).toEqual({ sessionId: 'abc', credentials: { branch_key: 'key_live_session' } });
+    expect(getRequestContext()).toBeUndefined();
+  });
+});
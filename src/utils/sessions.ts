@@ -0,0 +1,220 @@
+/**
+ * @file This file provides session bookkeeping for the HTTP-based transports.
+ * Each connected MCP client gets its own transport and server instance, tracked by session ID
+ * so that requests can be routed to the right session and idle sessions can be evicted.
+ */
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { AuthParams } from './auth.js';
+import { runWithRequestContext } from './context.js';
+import logger from './logger.js';
+import { getErrorMessage } from './errors.js';
+
+/**
+ * The default time a session may stay idle before it is evicted (30 minutes).
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * The default interval at which idle sessions are swept (1 minute).
+ */
+export const DEFAULT_SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Options for configuring a `SessionManager`.
+ */
+export interface SessionManagerOptions {
+  /**
+   * How long, in milliseconds, a session may go without activity before it is evicted.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * How often, in milliseconds, idle sessions are swept once `start` has been called.
+   */
+  sweepIntervalMs?: number;
+}
+
+/**
+ * A single tracked session.
+ */
+export interface Session<T extends Transport = Transport> {
+  id: string;
+  transport: T;
+  server?: McpServer;
+  credentials?: AuthParams;
+
+  /**
+   * The client ID of the access token the session was opened with, when the server requires one.
+   * Only requests with a token of the same client reach the session.
+   */
+  clientId?: string;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+/**
+ * Tracks the active sessions of an HTTP transport.
+ *
+ * A session belongs to the client that opened it: `get` only finds it for a request authenticated
+ * as the same client. Looking a session up with `get` counts as activity and resets its idle timer. Sessions that
+ * are idle for longer than `idleTimeoutMs` are closed by `evictIdle`, which runs periodically
+ * once `start` has been called.
+ */
+export class SessionManager<T extends Transport = Transport> {
+  private readonly sessions = new Map<string, Session<T>>();
+  private readonly idleTimeoutMs: number;
+  private readonly sweepIntervalMs: number;
+  private sweepTimer?: NodeJS.Timeout;
+  private acceptingSessions = true;
+
+  constructor(options: SessionManagerOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SESSION_SWEEP_INTERVAL_MS;
+  }
+
+  /**
+   * The number of active sessions.
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Whether new sessions may be opened. Turned off by `stopAccepting` when the server shuts down.
+   */
+  get accepting(): boolean {
+    return this.acceptingSessions;
+  }
+
+  /**
+   * Refuses new sessions from now on. Existing sessions keep working until they are closed.
+   */
+  stopAccepting(): void {
+    this.acceptingSessions = false;
+  }
+
+  /**
+   * Starts tracking a new session.
+   * @param id The session ID.
+   * @param transport The transport serving the session.
+   * @param details The MCP server connected to the transport, which is closed along with the session,
+   * any Branch credentials the client supplied when connecting, and the client ID of its access token.
+   * @returns The tracked session.
+   */
+  add(id: string, transport: T, details: Pick<Session<T>, 'server' | 'credentials' | 'clientId'> = {}): Session<T> {
+    const now = Date.now();
+    const session: Session<T> = { id, transport, ...details, createdAt: now, lastActivityAt: now };
+    this.sessions.set(id, session);
+    logger.info('MCP session opened', { sessionId: id, activeSessions: this.sessions.size });
+    return session;
+  }
+
+  /**
+   * Looks up a session of a client and marks it as active.
+   * @param id The session ID.
+   * @param clientId The client ID of the access token of the request, if it has one.
+   * @returns The session, or `undefined` if there is no such session or it belongs to another client.
+   */
+  get(id: string, clientId?: string): Session<T> | undefined {
+    const session = this.sessions.get(id);
+    if (!session || session.clientId !== clientId) {
+      return undefined;
+    }
+    session.lastActivityAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Returns the tracked sessions without marking them as active.
+   */
+  list(): Session<T>[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Stops tracking a session without closing it. Used when the transport has already closed.
+   * @param id The session ID.
+   * @returns `true` if the session was being tracked.
+   */
+  remove(id: string): boolean {
+    const removed = this.sessions.delete(id);
+    if (removed) {
+      logger.info('MCP session closed', { sessionId: id, activeSessions: this.sessions.size });
+    }
+    return removed;
+  }
+
+  /**
+   * Stops tracking a session and closes its transport and server.
+   * @param id The session ID.
+   * @returns `true` if the session existed.
+   */
+  async close(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    this.remove(id);
+    try {
+      await session.transport.close();
+      await session.server?.close();
+    } catch (error) {
+      logger.warn('Error closing MCP session', { sessionId: id, error: getErrorMessage(error) });
+    }
+    return true;
+  }
+
+  /**
+   * Closes every session that has been idle for longer than the idle timeout.
+   * @param now The current time, in milliseconds since the epoch.
+   * @returns The IDs of the evicted sessions.
+   */
+  async evictIdle(now: number = Date.now()): Promise<string[]> {
+    const expired = this.list()
+      .filter((session) => now - session.lastActivityAt > this.idleTimeoutMs)
+      .map((session) => session.id);
+    for (const id of expired) {
+      logger.info('Evicting idle MCP session', { sessionId: id });
+      await this.close(id);
+    }
+    return expired;
+  }
+
+  /**
+   * Starts periodically evicting idle sessions. The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => {
+      void this.evictIdle();
+    }, this.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stops the idle sweep and closes every session.
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    for (const id of [...this.sessions.keys()]) {
+      await this.close(id);
+    }
+  }
+}
+
+/**
+ * Runs a function on behalf of a session, making the session's details available to tool handlers
+ * through the request context.
+ * @param session The session the work is being done for.
+ * @param fn The function to run.
+ * @returns The return value of `fn`.
+ */
+export function runInSession<T>(session: Session, fn: () => T): T {
+  return runWithRequestContext({ sessionId: session.id, credentials: session.credentials }, fn);
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { EventEmitter } from 'node:events';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { closeHttpServer, createInFlightMiddleware, GracefulShutdown, InFlightTracker } from './shutdown.js';
+import { SessionManager } from './sessions.js';
+import type { ToolCall } from './tool-middleware.js';
+import logger from './logger.js';
+
+/**
+ * Creates an operation that runs until `finish` is called.
+ */
+const createPendingCall = () => {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  return { done, finish };
+};
+
+describe('InFlightTracker', () => {
+  it('should count operations until they settle, whether they succeed or fail', async () => {
+    const tracker = new InFlightTracker();
+    const call = createPendingCall();
+    const tracked = tracker.track(() => call.done);
+    const failed = tracker.track(async () => {
+      throw new Error('boom');
+    });
+
+    expect(tracker.size).toBe(2);
+    await expect(failed).rejects.toThrow('boom');
+    expect(tracker.size).toBe(1);
+    call.finish();
+    await tracked;
+    expect(tracker.size).toBe(0);
+  });
+
+  it('should wait for in-flight operations up to the timeout', async () => {
+    const tracker = new InFlightTracker();
+    expect(await tracker.waitForIdle(0)).toBe(true);
+
+    const call = createPendingCall();
+    const tracked = tracker.track(() => call.done);
+    expect(await tracker.waitForIdle(10)).toBe(false);
+
+    const idle = tracker.waitForIdle(1000);
+    call.finish();
+    await tracked;
+    expect(await idle).toBe(true);
+  });
+
+  it('should count tool calls through the middleware', async () => {
+    const tracker = new InFlightTracker();
+    const call = createPendingCall();
+    const result = createInFlightMiddleware(tracker).handle({ name: 'tool' } as ToolCall, async () => {
+      await call.done;
+      return { content: [] };
+    });
+
+    expect(tracker.size).toBe(1);
+    call.finish();
+    expect(await result).toEqual({ content: [] });
+    expect(tracker.size).toBe(0);
+  });
+});
+
+describe('closeHttpServer', () => {
+  it('should stop listening and close open connections', async () => {
+    const server = http.createServer((_req, res) => {
+      res.writeHead(200);
+      res.write('streaming');
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    const reader = response.body!.getReader();
+    await reader.read();
+
+    await closeHttpServer(server);
+
+    expect(server.listening).toBe(false);
+    await expect(reader.read()).rejects.toThrow();
+    await closeHttpServer(server);
+  });
+});
+
+describe('GracefulShutdown', () => {
+  let exit: jest.Mock<(code: number) => void>;
+  let tracker: InFlightTracker;
+  let sessions: SessionManager;
+  let transport: Transport;
+  let sendLoggingMessage: jest.Mock<(params: unknown) => Promise<void>>;
+
+  beforeEach(() => {
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    exit = jest.fn();
+    tracker = new InFlightTracker();
+    sessions = new SessionManager();
+    transport = { close: jest.fn(async () => undefined) } as unknown as Transport;
+    sendLoggingMessage = jest.fn(async () => undefined);
+    const server = { server: { sendLoggingMessage }, close: jest.fn(async () => undefined) } as unknown as McpServer;
+    sessions.add('abc', transport, { server });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stop accepting sessions and fail readiness, then drain, notify, close and exit', async () => {
+    const closeServer = jest.fn(async () => undefined);
+    const shutdown = new GracefulShutdown({ sessions: [sessions], close: [closeServer], inFlight: tracker, timeoutMs: 1000, exit });
+    const check = shutdown.createReadinessCheck();
+    expect(await check.run()).toMatchObject({ status: 'pass' });
+
+    const call = createPendingCall();
+    const tracked = tracker.track(() => call.done);
+    const done = shutdown.shutdown('SIGTERM');
+
+    expect(shutdown.isShuttingDown).toBe(true);
+    expect(sessions.accepting).toBe(false);
+    expect(await check.run()).toEqual({ status: 'fail', message: 'The server is shutting down' });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(transport.close).not.toHaveBeenCalled();
+
+    call.finish();
+    await tracked;
+    await done;
+
+    expect(sendLoggingMessage).toHaveBeenCalledWith(expect.objectContaining({ level: 'warning' }));
+    expect(transport.close).toHaveBeenCalled();
+    expect(sessions.size).toBe(0);
+    expect(closeServer).toHaveBeenCalled();
+    expect(exit).toHaveBeenCalledWith(0);
+    expect(shutdown.shutdown('SIGINT')).toBe(done);
+  });
+
+  it('should close everything at the deadline even if tool calls are still in flight', async () => {
+    void tracker.track(() => new Promise(() => undefined));
+    await new GracefulShutdown({ sessions: [sessions], inFlight: tracker, timeoutMs: 10, exit }).shutdown('SIGTERM');
+
+    expect(logger.warn).toHaveBeenCalledWith('Shutdown deadline reached with tool calls still in flight', { timeoutMs: 10, inFlightToolCalls: 1 });
+    expect(transport.close).toHaveBeenCalled();
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should keep closing when a notification or a resource fails', async () => {
+    sendLoggingMessage.mockRejectedValue(new Error('stream closed'));
+    const closeLast = jest.fn(async () => undefined);
+    await new GracefulShutdown({
+      sessions: [sessions],
+      close: [async () => {
+        throw new Error('boom');
+      }, closeLast],
+      inFlight: tracker,
+      exit
+    }).shutdown('SIGTERM');
+
+    expect(logger.warn).toHaveBeenCalledWith('Error notifying MCP session of shutdown', { sessionId: 'abc', error: 'stream closed' });
+    expect(logger.warn).toHaveBeenCalledWith('Error during shutdown', { error: 'boom' });
+    expect(transport.close).toHaveBeenCalled();
+    expect(closeLast).toHaveBeenCalled();
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should shut down on SIGTERM or SIGINT and exit immediately on a second signal', async () => {
+    const target = new EventEmitter();
+    const shutdown = new GracefulShutdown({ inFlight: tracker, timeoutMs: 10, exit });
+    shutdown.handleSignals(target as unknown as NodeJS.Process);
+    void tracker.track(() => new Promise(() => undefined));
+
+    target.emit('SIGINT');
+    expect(shutdown.isShuttingDown).toBe(true);
+    expect(exit).not.toHaveBeenCalled();
+
+    target.emit('SIGTERM');
+    expect(exit).toHaveBeenCalledWith(1);
+    await shutdown.shutdown('SIGTERM');
+  });
+});
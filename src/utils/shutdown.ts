@@ -0,0 +1,251 @@
+/**
+ * @file This file implements the graceful shutdown of the server.
+ *
+ * When the process receives SIGTERM or SIGINT, `GracefulShutdown` stops accepting new sessions,
+ * makes `/ready` fail so that load balancers stop routing traffic to the instance, waits for the
+ * tool calls in flight to finish (up to a deadline), tells every connected client that the server is
+ * going away, closes the sessions and the HTTP servers, and finally exits. Tool calls are counted by
+ * the middleware returned from `createInFlightMiddleware`.
+ */
+import type { Server } from 'node:http';
+import type { ReadinessCheck } from '../http/readiness.js';
+import type { SessionManager } from './sessions.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+import { getErrorMessage } from './errors.js';
+import logger from './logger.js';
+
+/**
+ * The default time in-flight tool calls are given to finish when shutting down (30 seconds).
+ */
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * The signals that start a graceful shutdown.
+ */
+export const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+/**
+ * Counts operations in progress so that shutdown can wait for them to finish.
+ */
+export class InFlightTracker {
+  private active = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  /**
+   * The number of operations in progress.
+   */
+  get size(): number {
+    return this.active;
+  }
+
+  /**
+   * Runs an operation, counting it as in flight until it settles.
+   * @param fn The operation to run.
+   * @returns The result of the operation.
+   */
+  async track<T>(fn: () => Promise<T>): Promise<T> {
+    this.active++;
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      if (this.active === 0) {
+        this.idleWaiters.splice(0).forEach((resolve) => resolve());
+      }
+    }
+  }
+
+  /**
+   * Waits until no operation is in progress.
+   * @param timeoutMs The longest time to wait, in milliseconds.
+   * @returns `true` if every operation finished, `false` if the timeout elapsed first.
+   */
+  async waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.active === 0) {
+      return true;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const idle = new Promise<boolean>((resolve) => {
+      this.idleWaiters.push(() => resolve(true));
+    });
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    try {
+      return await Promise.race([idle, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * The tool calls in progress across every server instance.
+ */
+export const inFlightToolCalls = new InFlightTracker();
+
+/**
+ * Creates middleware that counts every tool call as in flight until it completes.
+ * @param tracker The tracker to count calls in. Defaults to `inFlightToolCalls`.
+ * @returns The middleware.
+ */
+export function createInFlightMiddleware(tracker: InFlightTracker = inFlightToolCalls): ToolMiddleware {
+  return {
+    handle: (call, next) => tracker.track(() => next(call))
+  };
+}
+
+/**
+ * Stops an HTTP server from accepting connections and closes the connections it still has open.
+ * @param server The HTTP server.
+ */
+export async function closeHttpServer(server: Server): Promise<void> {
+  if (!server.listening) {
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+    server.closeAllConnections();
+  });
+}
+
+/**
+ * Options for a `GracefulShutdown`.
+ */
+export interface GracefulShutdownOptions {
+  /**
+   * The session managers of the HTTP transports. They stop accepting sessions as soon as shutdown
+   * starts, and their sessions are closed once the in-flight tool calls have finished.
+   */
+  sessions?: SessionManager[];
+
+  /**
+   * Closes resources that have no session manager, such as HTTP servers or the stdio transport.
+   * Run in order, after the sessions are closed.
+   */
+  close?: (() => Promise<void>)[];
+
+  /**
+   * How long, in milliseconds, in-flight tool calls are given to finish.
+   */
+  timeoutMs?: number;
+
+  /**
+   * The tool calls to wait for. Defaults to `inFlightToolCalls`.
+   */
+  inFlight?: InFlightTracker;
+
+  /**
+   * Ends the process. Defaults to `process.exit`; replaceable for testing.
+   */
+  exit?: (code: number) => void;
+}
+
+/**
+ * Coordinates the orderly shutdown of the server.
+ */
+export class GracefulShutdown {
+  private readonly sessions: SessionManager[];
+  private readonly closers: (() => Promise<void>)[];
+  private readonly timeoutMs: number;
+  private readonly inFlight: InFlightTracker;
+  private readonly exit: (code: number) => void;
+  private shutdownPromise?: Promise<void>;
+
+  constructor(options: GracefulShutdownOptions = {}) {
+    this.sessions = options.sessions ?? [];
+    this.closers = options.close ?? [];
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+    this.inFlight = options.inFlight ?? inFlightToolCalls;
+    this.exit = options.exit ?? ((code) => process.exit(code));
+  }
+
+  /**
+   * Whether shutdown has started.
+   */
+  get isShuttingDown(): boolean {
+    return this.shutdownPromise !== undefined;
+  }
+
+  /**
+   * Creates a readiness check that fails once shutdown has started.
+   * @returns The check.
+   */
+  createReadinessCheck(): ReadinessCheck {
+    return {
+      name: 'shutdown',
+      run: () => (this.isShuttingDown
+        ? { status: 'fail', message: 'The server is shutting down' }
+        : { status: 'pass', message: 'The server is running' })
+    };
+  }
+
+  /**
+   * Shuts the server down and exits. Calling it again while a shutdown is in progress returns the
+   * same promise.
+   * @param reason Why the server is shutting down, such as the signal received.
+   * @returns A promise that resolves once everything is closed and `exit` has been called.
+   */
+  shutdown(reason: string): Promise<void> {
+    this.shutdownPromise ??= this.run(reason);
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Starts a graceful shutdown when the process receives SIGTERM or SIGINT. A second signal exits
+   * immediately.
+   * @param target The process to listen to. Defaults to the current process.
+   */
+  handleSignals(target: Pick<NodeJS.Process, 'on'> = process): void {
+    for (const signal of SHUTDOWN_SIGNALS) {
+      target.on(signal, () => {
+        if (this.isShuttingDown) {
+          logger.warn(`Received ${signal} again, exiting immediately`);
+          this.exit(1);
+          return;
+        }
+        void this.shutdown(signal);
+      });
+    }
+  }
+
+  private async run(reason: string): Promise<void> {
+    logger.info('Shutting down', { reason, inFlightToolCalls: this.inFlight.size });
+    this.sessions.forEach((sessions) => sessions.stopAccepting());
+
+    const drained = await this.inFlight.waitForIdle(this.timeoutMs);
+    if (!drained) {
+      logger.warn('Shutdown deadline reached with tool calls still in flight', {
+        timeoutMs: this.timeoutMs,
+        inFlightToolCalls: this.inFlight.size
+      });
+    }
+
+    let exitCode = drained ? 0 : 1;
+    for (const sessions of this.sessions) {
+      await Promise.all(sessions.list().map(async (session) => {
+        try {
+          await session.server?.server.sendLoggingMessage({
+            level: 'warning',
+            logger: 'branch-mcp',
+            data: 'The server is shutting down; reconnect to continue.'
+          });
+        } catch (error) {
+          logger.warn('Error notifying MCP session of shutdown', { sessionId: session.id, error: getErrorMessage(error) });
+        }
+      }));
+      await sessions.closeAll();
+    }
+    for (const close of this.closers) {
+      try {
+        await close();
+      } catch (error) {
+        exitCode = 1;
+        logger.warn('Error during shutdown', { error: getErrorMessage(error) });
+      }
+    }
+
+    logger.info('Shutdown complete', { exitCode });
+    this.exit(exitCode);
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { useToolMiddleware } from './tool-middleware.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+describe('useToolMiddleware', () => {
+  const connect = async (server: McpServer) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return client;
+  };
+
+  const text = (result: Awaited<ReturnType<Client['callTool']>>) => (result.content as { text: string }[])[0].text;
+
+  it('should run middleware in order around tools registered with either API', async () => {
+    const calls: string[] = [];
+    const record = (label: string): ToolMiddleware => ({
+      handle: async (call, next) => {
+        calls.push(`${label}:${call.name}`);
+        const result = await next(call);
+        calls.push(`${label}:done`);
+        return result;
+      }
+    });
+
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    useToolMiddleware(server, record('outer'), record('inner'));
+    server.tool('echo', 'Echo a message', { message: z.string() }, async ({ message }) => ({ content: [{ type: 'text', text: message }] }));
+    server.registerTool('ping', { description: 'Ping' }, async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+    const client = await connect(server);
+
+    expect(text(await client.callTool({ name: 'echo', arguments: { message: 'hi' } }))).toBe('hi');
+    expect(calls).toEqual(['outer:echo', 'inner:echo', 'inner:done', 'outer:done']);
+
+    expect(text(await client.callTool({ name: 'ping', arguments: {} }))).toBe('pong');
+    await client.close();
+  });
+
+  it('should add input parameters and let middleware change the arguments', async () => {
+    const shout: ToolMiddleware = {
+      inputShape: { loud: z.boolean().optional() },
+      handle: async (call, next) => {
+        const { loud, ...args } = call.args;
+        return next({ ...call, args: loud ? { ...args, message: String(args.message).toUpperCase() } : args });
+      }
+    };
+
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    useToolMiddleware(server, shout);
+    server.registerTool(
+      'echo',
+      { description: 'Echo a message', inputSchema: { message: z.string() } },
+      async (args) => ({ content: [{ type: 'text', text: JSON.stringify(args) }] })
+    );
+    const client = await connect(server);
+
+    const { tools } = await client.listTools();
+    expect(Object.keys(tools[0].inputSchema.properties!)).toEqual(['message', 'loud']);
+    expect(text(await client.callTool({ name: 'echo', arguments: { message: 'hi', loud: true } }))).toBe('{"message":"HI"}');
+    await client.close();
+  });
+
+  it('should let middleware answer a call without running the tool', async () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    useToolMiddleware(server, { handle: async () => ({ content: [{ type: 'text', text: 'blocked' }], isError: true }) });
+    server.tool('echo', { message: z.string() }, async () => {
+      throw new Error('should not run');
+    });
+    const client = await connect(server);
+
+    const result = await client.callTool({ name: 'echo', arguments: { message: 'hi' } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toBe('blocked');
+    await client.close();
+  });
+
+  it('should tell middleware about every registered tool so that it can remove them', async () => {
+    const registered: string[] = [];
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    useToolMiddleware(server, {
+      onRegister: (name, tool) => {
+        registered.push(`${name}:${tool.annotations?.readOnlyHint}`);
+        if (!tool.annotations?.readOnlyHint) {
+          tool.remove();
+        }
+      },
+      handle: (call, next) => next(call)
+    });
+    server.tool('read', 'Read', { id: z.string() }, { readOnlyHint: true }, async () => ({ content: [] }));
+    server.registerTool('write', { description: 'Write', annotations: { readOnlyHint: false } }, async () => ({ content: [] }));
+    const client = await connect(server);
+
+    expect(registered).toEqual(['read:true', 'write:false']);
+    expect((await client.listTools()).tools.map((tool) => tool.name)).toEqual(['read']);
+    await client.close();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @file This file provides a way to wrap every tool registered on an MCP server.
+ *
+ * Concerns that apply to all tools (such as selecting a credentials profile) are written once as
+ * `ToolMiddleware` and installed with `useToolMiddleware` before the tools are registered. A
+ * middleware can add parameters to every tool's input schema and intercepts each call, deciding
+ * whether and with which arguments to call the next middleware and finally the tool itself. It is
+ * also told about every tool as it is registered.
+ */
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodRawShape } from 'zod';
+
+/**
+ * The request details the MCP SDK passes to tool callbacks.
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * A single call of a tool, as seen by middleware.
+ */
+export interface ToolCall {
+  /**
+   * The name of the tool being called.
+   */
+  name: string;
+
+  /**
+   * The validated tool arguments.
+   */
+  args: Record<string, unknown>;
+
+  /**
+   * The request details passed by the MCP SDK.
+   */
+  extra: ToolExtra;
+}
+
+/**
+ * Handles a tool call, either by calling the tool or by calling the next middleware.
+ */
+export type ToolCallHandler = (call: ToolCall) => Promise<CallToolResult>;
+
+/**
+ * Cross-cutting behavior applied to every tool.
+ */
+export interface ToolMiddleware {
+  /**
+   * Parameters added to the input schema of every tool that has one.
+   */
+  inputShape?: ZodRawShape;
+
+  /**
+   * Called for every tool once it has been registered and wrapped. A middleware can use this to
+   * change or remove the tool, for example to hide tools that a policy does not allow.
+   */
+  onRegister?(name: string, tool: RegisteredTool): void;
+
+  /**
+   * Handles a tool call. Call `next` to continue with the call, optionally with changed arguments.
+   */
+  handle(call: ToolCall, next: ToolCallHandler): Promise<CallToolResult>;
+}
+
+type ToolCallback = (...args: unknown[]) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Installs middleware around every tool registered on the server from now on, through either
+ * `server.tool` or `server.registerTool`. The first middleware is the outermost.
+ * @param server The MCP server instance.
+ * @param middleware The middleware to install.
+ */
+export function useToolMiddleware(server: McpServer, ...middleware: ToolMiddleware[]): void {
+  const inputShape = Object.assign({}, ...middleware.map((item) => item.inputShape)) as ZodRawShape;
+
+  const wrap = (name: string, tool: RegisteredTool) => {
+    const callback = tool.callback as ToolCallback;
+    const hasInput = tool.inputSchema !== undefined;
+
+    const invokeTool: ToolCallHandler = async ({ args, extra }) => (
+      hasInput ? callback(args, extra) : callback(extra)
+    );
+    const handler = middleware.reduceRight<ToolCallHandler>(
+      (next, item) => (call) => item.handle(call, next),
+      invokeTool
+    );
+
+    tool.update({
+      ...(hasInput ? { paramsSchema: { ...tool.inputSchema!.shape, ...inputShape } } : {}),
+      callback: (async (...callbackArgs: unknown[]) => {
+        const args = hasInput ? callbackArgs[0] as Record<string, unknown> : {};
+        const extra = (hasInput ? callbackArgs[1] : callbackArgs[0]) as ToolExtra;
+        return handler({ name, args, extra });
+      }) as RegisteredTool['callback']
+    });
+    middleware.forEach((item) => item.onRegister?.(name, tool));
+    return tool;
+  };
+
+  const tool = server.tool.bind(server);
+  const registerTool = server.registerTool.bind(server);
+  server.tool = ((name: string, ...rest: unknown[]) => (
+    wrap(name, (tool as (name: string, ...rest: unknown[]) => RegisteredTool)(name, ...rest))
+  )) as McpServer['tool'];
+  server.registerTool = ((name: string, config: never, callback: never) => (
+    wrap(name, registerTool(name, config, callback))
+  )) as McpServer['registerTool'];
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach } from '@jest/globals';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { context, propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { ConsoleSpanExporter, InMemorySpanExporter } from '@opentelemetry/sdk-trace-node';
+import type { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { BranchClient } from './branch-client.js';
+import { runWithRequestContext } from './context.js';
+import { ConfigError, CredentialsError } from './errors.js';
+import { createSpanExporter, createTracingMiddleware, initTracing, traceHttpRequests } from './tracing.js';
+import type { ToolCall } from './tool-middleware.js';
+
+describe('createSpanExporter', () => {
+  it('should disable tracing unless an exporter or OTLP endpoint is configured', () => {
+    expect(createSpanExporter({})).toBeUndefined();
+    expect(createSpanExporter({ OTEL_TRACES_EXPORTER: 'none', OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318' })).toBeUndefined();
+    expect(initTracing({ env: {} })).toBeUndefined();
+  });
+
+  it('should create the configured exporter', () => {
+    expect(createSpanExporter({ OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'http://localhost:4318/v1/traces' })).toBeInstanceOf(OTLPTraceExporter);
+    expect(createSpanExporter({ OTEL_TRACES_EXPORTER: 'OTLP' })).toBeInstanceOf(OTLPTraceExporter);
+    expect(createSpanExporter({ OTEL_TRACES_EXPORTER: 'console' })).toBeInstanceOf(ConsoleSpanExporter);
+  });
+
+  it('should reject unsupported exporters', () => {
+    expect(() => createSpanExporter({ OTEL_TRACES_EXPORTER: 'zipkin' })).toThrow(ConfigError);
+  });
+});
+
+describe('tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  let provider: NodeTracerProvider;
+  let mock: MockAdapter;
+
+  const getSpan = (name: string) => exporter.getFinishedSpans().find((span) => span.name === name)!;
+
+  beforeAll(() => {
+    provider = initTracing({ env: { OTEL_SERVICE_NAME: 'branch-mcp-test' }, exporter, batch: false })!;
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should report the configured service name', () => {
+    const span = trace.getTracer('test').startSpan('test');
+    span.end();
+    expect(getSpan('test').resource.attributes['service.name']).toBe('branch-mcp-test');
+  });
+
+  describe('createTracingMiddleware', () => {
+    const call = { name: 'branch_query', args: {}, extra: {} } as unknown as ToolCall;
+
+    it('should record a span for every tool call with its session and request ID', async () => {
+      await runWithRequestContext({ sessionId: 'session-1', requestId: 'req-1' }, () => (
+        createTracingMiddleware().handle(call, async () => ({ content: [] }))
+      ));
+
+      const span = getSpan('tools/call branch_query');
+      expect(span.attributes).toEqual({
+        'mcp.method.name': 'tools/call',
+        'gen_ai.tool.name': 'branch_query',
+        'mcp.session.id': 'session-1',
+        'branch.request_id': 'req-1'
+      });
+      expect(span.status.code).toBe(SpanStatusCode.UNSET);
+    });
+
+    it('should mark failed tool calls as errors', async () => {
+      const middleware = createTracingMiddleware();
+      await middleware.handle(call, async () => ({ content: [], isError: true }));
+      expect(getSpan('tools/call branch_query').attributes['error.type']).toBe('tool');
+      exporter.reset();
+
+      const error = new CredentialsError('Branch Key is not configured.');
+      await expect(middleware.handle(call, async () => {
+        throw error;
+      })).rejects.toBe(error);
+      const span = getSpan('tools/call branch_query');
+      expect(span.attributes['error.type']).toBe('auth');
+      expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Branch Key is not configured.' });
+      expect(span.events[0].name).toBe('exception');
+    });
+  });
+
+  describe('Branch API requests', () => {
+    it('should record a child span for every attempt, with credentials redacted and the trace context propagated', async () => {
+      const url = 'https://api2.branch.io/v1/app/key_live_123';
+      mock.onGet(url).replyOnce(503).onGet(url).reply(200, {});
+      const client = new BranchClient({}, { sleep: async () => undefined });
+
+      await createTracingMiddleware().handle({ name: 'branch_read_app' } as ToolCall, async () => {
+        await client.get('/v1/app/key_live_123', { params: { branch_secret: 'secret_live_456', fields: 'name' } });
+        return { content: [] };
+      });
+
+      const tool = getSpan('tools/call branch_read_app');
+      const [failed, succeeded] = exporter.getFinishedSpans().filter((span) => span.name === 'GET /v1/app/:id');
+      expect(failed.kind).toBe(SpanKind.CLIENT);
+      expect(failed.parentSpanContext?.spanId).toBe(tool.spanContext().spanId);
+      expect(failed.attributes).toEqual({
+        'http.request.method': 'GET',
+        'server.address': 'api2.branch.io',
+        'url.scheme': 'https',
+        'url.template': '/v1/app/:id',
+        'branch.request.params': JSON.stringify({ branch_secret: '[REDACTED]', fields: 'name' }),
+        'http.response.status_code': 503,
+        'error.type': '503'
+      });
+      expect(succeeded.attributes).toMatchObject({ 'http.response.status_code': 200, 'http.request.resend_count': 1 });
+      expect(JSON.stringify([failed.attributes, succeeded.attributes])).not.toContain('secret_live_456');
+
+      const traceparent = mock.history.get[1].headers!.traceparent as string;
+      expect(traceparent).toBe(`00-${tool.spanContext().traceId}-${succeeded.spanContext().spanId}-01`);
+    });
+
+    it('should record requests that fail without a response', async () => {
+      mock.onPost().timeout();
+
+      await expect(new BranchClient({ max_retries: 0 }).post('/v1/url?branch_key=key_live_123', {})).rejects.toThrow();
+
+      const span = getSpan('POST /v1/url');
+      expect(span.attributes['error.type']).toBe('ECONNABORTED');
+      expect(span.attributes['branch.request.params']).toBe(JSON.stringify({ branch_key: '[REDACTED]' }));
+      expect(span.attributes['http.response.status_code']).toBeUndefined();
+    });
+  });
+
+  describe('traceHttpRequests', () => {
+    let httpServer: Server;
+    let baseUrl: string;
+
+    beforeEach(() => {
+      const app = express();
+      app.use(express.json());
+      app.use('/mcp', traceHttpRequests());
+      app.post('/mcp', (_req, res) => {
+        res.json({ traceId: trace.getActiveSpan()?.spanContext().traceId });
+      });
+      app.get('/mcp', (_req, res) => {
+        res.status(500).end();
+      });
+      httpServer = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => httpServer.close(resolve));
+    });
+
+    const waitForSpans = async (count: number) => {
+      for (let i = 0; i < 50 && exporter.getFinishedSpans().length < count; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    it('should record a server span that continues the trace of the client', async () => {
+      const traceId = '0af7651916cd43dd8448eb211c80319c';
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'mcp-session-id': 'session-1',
+          traceparent: `00-${traceId}-b7ad6b7169203331-01`
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call' })
+      });
+      expect(await response.json()).toEqual({ traceId });
+      await waitForSpans(1);
+
+      const span = getSpan('POST /mcp');
+      expect(span.kind).toBe(SpanKind.SERVER);
+      expect(span.spanContext().traceId).toBe(traceId);
+      expect(span.parentSpanContext?.spanId).toBe('b7ad6b7169203331');
+      expect(span.attributes).toEqual({
+        'http.request.method': 'POST',
+        'http.route': '/mcp',
+        'mcp.method.name': 'tools/call',
+        'mcp.session.id': 'session-1',
+        'http.response.status_code': 200
+      });
+    });
+
+    it('should mark server errors', async () => {
+      await (await fetch(`${baseUrl}/mcp`)).text();
+      await waitForSpans(1);
+
+      const span = getSpan('GET /mcp');
+      expect(span.status.code).toBe(SpanStatusCode.ERROR);
+      expect(span.attributes['error.type']).toBe('500');
+    });
+  });
+});
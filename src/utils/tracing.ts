@@ -0,0 +1,254 @@
+/**
+ * @file This file implements OpenTelemetry tracing.
+ *
+ * Three kinds of spans are recorded, nested within each other:
+ * - a server span for every HTTP request to the MCP endpoints, continuing the trace of the
+ *   client if the request carries a W3C `traceparent` header (see `traceHttpRequests`);
+ * - a span for every tool call (see `createTracingMiddleware`);
+ * - a client span for every attempt of a request to the Branch API, whose trace context is passed
+ *   on in the request headers (see `traceBranchRequest`). Request parameters are recorded with
+ *   credentials redacted by `sanitizeLogObject`.
+ *
+ * Tracing is off unless an exporter is configured with the standard OpenTelemetry environment
+ * variables (see `createSpanExporter`); until then every span is a no-op.
+ */
+import { context, propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import type { Attributes, Span } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor
+} from '@opentelemetry/sdk-trace-node';
+import type { SpanExporter } from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_ERROR_TYPE,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_REQUEST_RESEND_COUNT,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVER_ADDRESS,
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+  ATTR_URL_SCHEME
+} from '@opentelemetry/semantic-conventions';
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { getRequestContext } from './context.js';
+import { ConfigError, toToolError } from './errors.js';
+import { sanitizeLogObject } from './logger.js';
+import { getEndpointLabel } from './metrics.js';
+import type { ToolMiddleware } from './tool-middleware.js';
+
+/**
+ * The service name reported when `OTEL_SERVICE_NAME` is not set.
+ */
+export const DEFAULT_SERVICE_NAME = 'branch-mcp-server';
+
+const SERVICE_VERSION = '1.0.0';
+
+const tracer = trace.getTracer(DEFAULT_SERVICE_NAME, SERVICE_VERSION);
+
+/**
+ * The supported values of `OTEL_TRACES_EXPORTER`.
+ */
+const TRACES_EXPORTERS = ['otlp', 'console', 'none'];
+
+/**
+ * Creates the span exporter selected by the environment.
+ *
+ * `OTEL_TRACES_EXPORTER` may be `otlp`, `console` or `none`. It defaults to `otlp` when
+ * `OTEL_EXPORTER_OTLP_ENDPOINT` or `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` is set, and to `none`
+ * otherwise. The OTLP exporter sends traces over HTTP and reads its endpoint, headers and timeout
+ * from the standard `OTEL_EXPORTER_OTLP_*` variables.
+ * @param env The environment variables.
+ * @returns The exporter, or `undefined` if tracing is disabled.
+ * @throws {ConfigError} If `OTEL_TRACES_EXPORTER` is not supported.
+ */
+export function createSpanExporter(env: NodeJS.ProcessEnv = process.env): SpanExporter | undefined {
+  const hasEndpoint = Boolean(env.OTEL_EXPORTER_OTLP_ENDPOINT || env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT);
+  const name = env.OTEL_TRACES_EXPORTER?.trim().toLowerCase() || (hasEndpoint ? 'otlp' : 'none');
+  if (!TRACES_EXPORTERS.includes(name)) {
+    throw new ConfigError(`Invalid OTEL_TRACES_EXPORTER "${name}": expected one of ${TRACES_EXPORTERS.join(', ')}`);
+  }
+  if (name === 'otlp') {
+    return new OTLPTraceExporter();
+  }
+  return name === 'console' ? new ConsoleSpanExporter() : undefined;
+}
+
+/**
+ * Options for `initTracing`.
+ */
+export interface TracingOptions {
+  /**
+   * The environment variables. Defaults to `process.env`.
+   */
+  env?: NodeJS.ProcessEnv;
+
+  /**
+   * The exporter to send spans to. Defaults to the one selected by the environment.
+   */
+  exporter?: SpanExporter;
+
+  /**
+   * Whether spans are exported in batches (the default) or one at a time as they end.
+   */
+  batch?: boolean;
+}
+
+/**
+ * Registers the global tracer provider, so that spans are recorded and exported, and the W3C
+ * trace context propagator.
+ * @param options The environment and exporter to use.
+ * @returns The provider, which must be shut down to flush pending spans, or `undefined` if tracing is disabled.
+ */
+export function initTracing(options: TracingOptions = {}): NodeTracerProvider | undefined {
+  const env = options.env ?? process.env;
+  const exporter = options.exporter ?? createSpanExporter(env);
+  if (!exporter) {
+    return undefined;
+  }
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME,
+      [ATTR_SERVICE_VERSION]: SERVICE_VERSION
+    }),
+    spanProcessors: [options.batch === false ? new SimpleSpanProcessor(exporter) : new BatchSpanProcessor(exporter)]
+  });
+  provider.register();
+  return provider;
+}
+
+/**
+ * Ends a span as failed.
+ */
+function endWithError(span: Span, errorType: string, error?: unknown): void {
+  span.setAttribute(ATTR_ERROR_TYPE, errorType);
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : undefined });
+  span.end();
+}
+
+/**
+ * Creates Express middleware that records a server span for every request, continuing the trace
+ * context sent by the client. The span carries the JSON-RPC method and MCP session of the request.
+ * @returns The request handler.
+ */
+export function traceHttpRequests(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const route = req.originalUrl.split('?')[0];
+    const body = req.body as { method?: unknown } | undefined;
+    const sessionId = req.header('mcp-session-id') ?? (typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined);
+    const attributes: Attributes = {
+      [ATTR_HTTP_REQUEST_METHOD]: req.method,
+      [ATTR_HTTP_ROUTE]: route,
+      ...(typeof body?.method === 'string' ? { 'mcp.method.name': body.method } : {}),
+      ...(sessionId ? { 'mcp.session.id': sessionId } : {})
+    };
+    const parentContext = propagation.extract(context.active(), req.headers);
+    const span = tracer.startSpan(`${req.method} ${route}`, { kind: SpanKind.SERVER, attributes }, parentContext);
+
+    res.once('close', () => {
+      span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+      if (res.statusCode >= 500) {
+        endWithError(span, String(res.statusCode));
+      } else {
+        span.end();
+      }
+    });
+    context.with(trace.setSpan(parentContext, span), next);
+  };
+}
+
+/**
+ * Creates middleware that records a span for every tool call. Errors thrown by the tool are
+ * classified with `toToolError` and rethrown; error results returned by the tool itself are
+ * recorded with the error type `tool`.
+ * @returns The tracing middleware.
+ */
+export function createTracingMiddleware(): ToolMiddleware {
+  return {
+    handle: (call, next) => {
+      const requestContext = getRequestContext();
+      const attributes: Attributes = {
+        'mcp.method.name': 'tools/call',
+        'gen_ai.tool.name': call.name,
+        ...(requestContext?.sessionId ? { 'mcp.session.id': requestContext.sessionId } : {}),
+        ...(requestContext?.requestId ? { 'branch.request_id': requestContext.requestId } : {})
+      };
+      return tracer.startActiveSpan(`tools/call ${call.name}`, { attributes }, async (span) => {
+        try {
+          const result = await next(call);
+          if (result.isError) {
+            endWithError(span, 'tool');
+          } else {
+            span.end();
+          }
+          return result;
+        } catch (error) {
+          endWithError(span, toToolError(error).code, error);
+          throw error;
+        }
+      });
+    }
+  };
+}
+
+/**
+ * The details of a Branch API request recorded on its span.
+ */
+export interface TracedBranchRequest {
+  method: string;
+  url: string;
+  params?: Record<string, unknown>;
+  attempt: number;
+}
+
+/**
+ * Records a client span for a single attempt of a request to the Branch API. The path is recorded as
+ * an endpoint template, since it may contain a Branch Key, and the query parameters are recorded
+ * with their credentials redacted.
+ * @param request The request being sent.
+ * @param send Sends the request with the given trace context headers added.
+ * @returns The response.
+ */
+export function traceBranchRequest<T>(
+  request: TracedBranchRequest,
+  send: (traceHeaders: Record<string, string>) => Promise<AxiosResponse<T>>
+): Promise<AxiosResponse<T>> {
+  const url = new URL(request.url);
+  const endpoint = getEndpointLabel(request.url);
+  const params = { ...Object.fromEntries(url.searchParams), ...request.params };
+  const attributes: Attributes = {
+    [ATTR_HTTP_REQUEST_METHOD]: request.method,
+    [ATTR_SERVER_ADDRESS]: url.hostname,
+    [ATTR_URL_SCHEME]: url.protocol.replace(':', ''),
+    'url.template': endpoint,
+    ...(Object.keys(params).length > 0 ? { 'branch.request.params': JSON.stringify(sanitizeLogObject(params)) } : {}),
+    ...(request.attempt > 0 ? { [ATTR_HTTP_REQUEST_RESEND_COUNT]: request.attempt } : {})
+  };
+  return tracer.startActiveSpan(`${request.method} ${endpoint}`, { kind: SpanKind.CLIENT, attributes }, async (span) => {
+    const traceHeaders: Record<string, string> = {};
+    propagation.inject(context.active(), traceHeaders);
+    try {
+      const response = await send(traceHeaders);
+      span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+      span.end();
+      return response;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status !== undefined) {
+        span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, status);
+      }
+      const errorCode = axios.isAxiosError(error) ? error.code : undefined;
+      endWithError(span, status !== undefined ? String(status) : errorCode ?? 'Error', error);
+      throw error;
+    }
+  });
+}